@@ -0,0 +1,250 @@
+// API App - REST endpoints over csvDataService and the scoring engine
+//
+// Mirrors the queries the dashboard makes so notebooks and other tools get the same numbers.
+// GET /api/datasets/:dataset serves the raw rows in the shape the dashboard's http data source expects.
+
+import { Hono } from "hono";
+import { cors } from "hono/cors";
+import { HTTPException } from "hono/http-exception";
+import { csvDataService } from "../src/utils/csvDataService";
+import { DatasetKey } from "../src/utils/dataSource";
+import { resolveMSA } from "../src/utils/msaRegistry";
+import { COMBINED_PRODUCT, DEFAULT_PRODUCT } from "../src/utils/productView";
+import { BucketAssignment, recalculateDataWithBuckets } from "../src/utils/scoreCalculation";
+import { DEFAULT_BUCKETS, EXCLUSIONS_BUCKET, ScoringBucket, validateBuckets } from "../src/utils/scoringBuckets";
+import { DEFAULT_SCORING_OPTIONS, NORMALIZATION_METHODS, ScoringOptions } from "../src/utils/continuousScoring";
+import { CATEGORIZATION_METHODS, CategorizationOptions, DEFAULT_CATEGORIZATION, getDefaultLabels, getDefaultThresholds, validateCategorization } from "../src/utils/categorization";
+import { getParameter, normalizeValue } from "../src/utils/parameterRegistry";
+import { BUCKET_WEIGHTING_SCHEMES, BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING } from "../src/utils/bucketWeighting";
+import { FileDataSource } from "./fileDataSource";
+
+const DATASETS: DatasetKey[] = ["attractiveness", "opportunity", "economics"];
+
+interface ScoreRequest {
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  scoringOptions: ScoringOptions;
+  categorization: CategorizationOptions;
+  bucketWeighting: BucketWeightingOptions;
+  product?: string;
+}
+
+// csvDataService holds one product selection, so product-scoped queries run one at a time
+let productQueue: Promise<unknown> = Promise.resolve();
+
+const withProduct = <T>(product: string | undefined, query: () => Promise<T>): Promise<T> => {
+  const run = productQueue.then(async () => {
+    const products = await csvDataService.getAvailableProducts();
+    const selection = product || DEFAULT_PRODUCT;
+    if (selection !== COMBINED_PRODUCT && !products.includes(selection)) {
+      throw new HTTPException(400, { message: `Unknown product "${selection}". Available: ${[...products, COMBINED_PRODUCT].join(", ")}` });
+    }
+    csvDataService.setProductSelection(selection);
+    return query();
+  });
+  productQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Check a POST /score body, throwing a 400 that says what's wrong
+const parseScoreRequest = (body: unknown): ScoreRequest => {
+  const fail = (message: string): never => {
+    throw new HTTPException(400, { message });
+  };
+
+  if (!body || typeof body !== "object") fail("Request body must be a JSON object");
+  const {
+    bucketAssignments,
+    buckets: requestBuckets,
+    bucketWeights,
+    scoringOptions = DEFAULT_SCORING_OPTIONS,
+    categorization = DEFAULT_CATEGORIZATION,
+    bucketWeighting = DEFAULT_BUCKET_WEIGHTING,
+    product,
+  } = body as Record<string, any>;
+
+  // Buckets default to High/Medium; older clients send just their weights as bucketWeights
+  let buckets: ScoringBucket[] = DEFAULT_BUCKETS;
+  if (requestBuckets !== undefined) {
+    if (!Array.isArray(requestBuckets)) fail("buckets must be an array");
+    requestBuckets.forEach((bucket: any, index: number) => {
+      if (typeof bucket?.id !== "string" || typeof bucket.name !== "string" || typeof bucket.weight !== "number") {
+        fail(`buckets[${index}] must be { id, name, weight }`);
+      }
+    });
+    buckets = requestBuckets.map((bucket: ScoringBucket) => ({ id: bucket.id, name: bucket.name, weight: bucket.weight }));
+  } else if (bucketWeights !== undefined) {
+    if (typeof bucketWeights?.high !== "number" || typeof bucketWeights?.medium !== "number") {
+      fail("bucketWeights must be { high: number, medium: number }");
+    }
+    buckets = DEFAULT_BUCKETS.map(bucket => ({ ...bucket, weight: bucketWeights[bucket.id] }));
+  }
+  const bucketsError = validateBuckets(buckets);
+  if (bucketsError) fail(`buckets: ${bucketsError}`);
+
+  const bucketIds = [...buckets.map(bucket => bucket.id), EXCLUSIONS_BUCKET];
+  if (!Array.isArray(bucketAssignments)) fail("bucketAssignments must be an array");
+  bucketAssignments.forEach((assignment: any, index: number) => {
+    if (typeof assignment?.parameterId !== "string") fail(`bucketAssignments[${index}].parameterId must be a string`);
+    const parameter = getParameter(assignment.parameterId);
+    if (!parameter?.scorable) fail(`bucketAssignments[${index}].parameterId "${assignment.parameterId}" is not a scoring parameter`);
+    if (typeof assignment.selectedValue !== "string") fail(`bucketAssignments[${index}].selectedValue must be a string`);
+    // Other spellings of a value are accepted, as in the dashboard
+    if (normalizeValue(assignment.parameterId, assignment.selectedValue) === null) {
+      fail(`bucketAssignments[${index}].selectedValue must be one of ${parameter!.values.join(", ")} for ${assignment.parameterId}`);
+    }
+    if (!bucketIds.includes(assignment.bucket)) fail(`bucketAssignments[${index}].bucket must be one of ${bucketIds.join(", ")}`);
+    if (typeof assignment.position !== "number") fail(`bucketAssignments[${index}].position must be a number`);
+  });
+
+  if (!["labels", "continuous"].includes(scoringOptions?.mode)) fail("scoringOptions.mode must be labels or continuous");
+  const methods = NORMALIZATION_METHODS.map(method => method.id as string);
+  Object.entries(scoringOptions.normalization ?? {}).forEach(([parameterId, method]) => {
+    if (!methods.includes(method as string)) fail(`scoringOptions.normalization.${parameterId} must be one of ${methods.join(", ")}`);
+  });
+  const categorizationMethods = CATEGORIZATION_METHODS.map(method => method.id as string);
+  if (!categorizationMethods.includes(categorization?.method)) {
+    fail(`categorization.method must be one of ${categorizationMethods.join(", ")}`);
+  }
+  // Labels and thresholds default to the standard ones for the number of tiers
+  const labels = categorization.labels ?? getDefaultLabels(typeof categorization.tiers === "number" ? categorization.tiers : 4);
+  if (!Array.isArray(labels) || labels.some((label: unknown) => typeof label !== "string")) fail("categorization.labels must be an array of strings");
+  if (categorization.thresholds !== undefined && (!Array.isArray(categorization.thresholds) || categorization.thresholds.some((value: unknown) => typeof value !== "number"))) {
+    fail("categorization.thresholds must be an array of numbers");
+  }
+  const categorizationOptions: CategorizationOptions = {
+    method: categorization.method,
+    labels,
+    thresholds: categorization.thresholds ?? getDefaultThresholds(labels.length),
+  };
+  const categorizationError = validateCategorization(categorizationOptions);
+  if (categorizationError) fail(`categorization: ${categorizationError}`);
+  const weightingSchemes = BUCKET_WEIGHTING_SCHEMES.map(scheme => scheme.id as string);
+  if (!weightingSchemes.includes(bucketWeighting?.scheme)) fail(`bucketWeighting.scheme must be one of ${weightingSchemes.join(", ")}`);
+  const manual = bucketWeighting.manual ?? {};
+  if (typeof manual !== "object" || Array.isArray(manual) || Object.values(manual).some(value => typeof value !== "number" || !isFinite(value))) {
+    fail("bucketWeighting.manual must map assignments to numbers");
+  }
+  if (product !== undefined && typeof product !== "string") fail("product must be a string");
+
+  return {
+    bucketAssignments,
+    buckets,
+    scoringOptions: { mode: scoringOptions.mode, normalization: scoringOptions.normalization ?? {} },
+    categorization: categorizationOptions,
+    bucketWeighting: { scheme: bucketWeighting.scheme, manual },
+    product,
+  };
+};
+
+export const createApp = (dataDirectory: string) => {
+  const source = new FileDataSource(dataDirectory);
+  csvDataService.setDataSource(source);
+
+  const app = new Hono().basePath("/api");
+
+  app.use("*", cors());
+
+  app.onError((error, c) => {
+    if (error instanceof HTTPException) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error("API error:", error);
+    return c.json({ error: error.message }, 500);
+  });
+
+  app.get("/health", (c) => c.json({ status: "ok", dataDirectory }));
+
+  // Raw dataset rows - lets the dashboard use this server as its data backend
+  app.get("/datasets/:dataset", async (c) => {
+    const dataset = c.req.param("dataset") as DatasetKey;
+    if (!DATASETS.includes(dataset)) {
+      throw new HTTPException(404, { message: `Unknown dataset "${dataset}"` });
+    }
+    const loaded = await source.load(dataset);
+    if (!loaded) {
+      throw new HTTPException(404, { message: `Dataset "${dataset}" is not available` });
+    }
+    return c.json(loaded.records);
+  });
+
+  app.get("/products", async (c) => {
+    const products = await csvDataService.getAvailableProducts();
+    return c.json({ products, combined: COMBINED_PRODUCT, default: DEFAULT_PRODUCT });
+  });
+
+  app.get("/summary", async (c) =>
+    c.json(await withProduct(c.req.query("product"), () => csvDataService.getSummaryData()))
+  );
+
+  app.get("/msas", async (c) =>
+    c.json(await withProduct(c.req.query("product"), () => csvDataService.getMapData()))
+  );
+
+  // MSA by any known spelling or by CBSA code (encode "/" in names as %2F)
+  app.get("/msas/:msa", async (c) => {
+    const msa = c.req.param("msa");
+    const details = await withProduct(c.req.query("product"), () => csvDataService.getMSADetails(msa));
+    if (details.attractiveness.length === 0 && details.opportunities.length === 0) {
+      throw new HTTPException(404, { message: `No data for MSA "${msa}"` });
+    }
+    const economics = await csvDataService.getMSAEconomics(msa);
+    const entry = resolveMSA(msa);
+    return c.json({
+      cbsa: entry?.cbsa ?? null,
+      name: entry?.name ?? msa,
+      ...details,
+      economics,
+    });
+  });
+
+  // scope=ranked (default, with attractiveness category) | all (including excluded) | market (all, with attractiveness category)
+  app.get("/opportunities", async (c) => {
+    const scope = c.req.query("scope") || "ranked";
+    const queries: Record<string, () => Promise<unknown>> = {
+      ranked: () => csvDataService.getOpportunities(),
+      all: () => csvDataService.getAllOpportunitiesRaw(),
+      market: () => csvDataService.getMarketData(),
+    };
+    if (!queries[scope]) {
+      throw new HTTPException(400, { message: `scope must be one of ${Object.keys(queries).join(", ")}` });
+    }
+    return c.json(await withProduct(c.req.query("product"), queries[scope]));
+  });
+
+  app.get("/deposits", async (c) => c.json(await csvDataService.getDepositData()));
+
+  app.get("/economics", async (c) => c.json(await csvDataService.getAllMSAEconomics()));
+
+  app.get("/economics/:msa", async (c) => {
+    const economics = await csvDataService.getMSAEconomics(c.req.param("msa"));
+    if (!economics) {
+      throw new HTTPException(404, { message: `No economics data for MSA "${c.req.param("msa")}"` });
+    }
+    return c.json(economics);
+  });
+
+  app.get("/filter-buckets", async (c) =>
+    c.json(await withProduct(c.req.query("product"), () => csvDataService.getFilterBuckets()))
+  );
+
+  app.get("/data-quality", async (c) => {
+    await csvDataService.loadData();
+    return c.json(csvDataService.getDataQualityReport());
+  });
+
+  // Re-score every MSA with the supplied bucket assignments and weights (same engine as the What-If tab)
+  app.post("/score", async (c) => {
+    const { bucketAssignments, buckets, scoringOptions, categorization, bucketWeighting, product } = parseScoreRequest(await c.req.json().catch(() => null));
+    const mapData = await withProduct(product, () => csvDataService.getMapData());
+    const scored = recalculateDataWithBuckets(mapData, bucketAssignments, buckets, scoringOptions, categorization, bucketWeighting)
+      .sort((a, b) => b.Attractiveness_Score - a.Attractiveness_Score)
+      .map((row, index) => {
+        const { originalIndex, ...rest } = row as typeof row & { originalIndex?: number };
+        return { ...rest, rank: index + 1 };
+      });
+    return c.json(scored);
+  });
+
+  return app;
+};
@@ -0,0 +1,41 @@
+// File Data Source - Reads the dataset CSV files from disk for the local API server
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseCSVText } from "../src/utils/csvParser";
+import { DataSource, DatasetKey, LoadedDataset } from "../src/utils/dataSource";
+
+// Same file names the dashboard serves from public/
+export const DATASET_FILES: Record<DatasetKey, string> = {
+  attractiveness: "attractivenes.csv",
+  opportunity: "opportunity.csv",
+  economics: "msa_economics.csv",
+};
+
+export class FileDataSource implements DataSource {
+  readonly type = "csv" as const;
+
+  constructor(readonly directory: string) {}
+
+  // Resolves to null when the file doesn't exist (economics is optional)
+  async load(dataset: DatasetKey): Promise<LoadedDataset | null> {
+    const filePath = path.join(this.directory, DATASET_FILES[dataset]);
+
+    let text: string;
+    try {
+      text = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        console.warn(`FileDataSource: ${filePath} not found`);
+        return null;
+      }
+      throw error;
+    }
+
+    if (text.charCodeAt(0) === 0xfeff) {
+      text = text.slice(1);
+    }
+    const { records, issues } = parseCSVText(text);
+    return { records, issues };
+  }
+}
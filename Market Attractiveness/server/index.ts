@@ -0,0 +1,51 @@
+// API Server - Serves the REST API on a local port using Node's http module
+//
+// Usage: npm run server
+// PORT (default 8787) and DATA_DIR (default ./public) can be set in the environment
+
+import { createServer, IncomingMessage } from "node:http";
+import path from "node:path";
+import { createApp } from "./app";
+
+const port = parseInt(process.env.PORT || "8787", 10);
+const dataDirectory = path.resolve(process.env.DATA_DIR || "public");
+
+const app = createApp(dataDirectory);
+
+const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Translate between Node's request/response and the Fetch API objects Hono works with
+const server = createServer(async (req, res) => {
+  try {
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([name, value]) => {
+      if (Array.isArray(value)) value.forEach(item => headers.append(name, item));
+      else if (value !== undefined) headers.set(name, value);
+    });
+
+    const hasBody = req.method !== "GET" && req.method !== "HEAD";
+    const request = new Request(`http://${req.headers.host || `localhost:${port}`}${req.url}`, {
+      method: req.method,
+      headers,
+      body: hasBody ? new Uint8Array(await readBody(req)) : undefined,
+    });
+
+    const response = await app.fetch(request);
+    res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    console.error("API server error:", error);
+    res.writeHead(500, { "content-type": "application/json" });
+    res.end(JSON.stringify({ error: "Internal server error" }));
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Market Attractiveness API listening on http://localhost:${port}/api (data from ${dataDirectory})`);
+});
@@ -8,18 +8,34 @@ import { AcquisitionAnalysis } from "./components/AcquisitionAnalysis";
 import { OpportunitiesTable } from "./components/OpportunityTable";
 import { FilterDrawer } from "./components/FilterDrawer";
 import { LandingPage } from "./components/LandingPage";
-import { Loader2, SlidersHorizontal, Home } from "lucide-react";
+import { DataLoadingIndicator, ParseIssuesAlert } from "./components/DataLoadingStatus";
+import { DataQualityReport } from "./components/DataQualityReport";
+import { LoadDataDialog } from "./components/LoadDataDialog";
+import { VintageSelector } from "./components/VintageComparison";
+import { ProductSelector } from "./components/ProductSelector";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { ProfileSelector } from "./components/ProfileSelector";
+import { SlidersHorizontal, Home } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./components/ui/tabs";
 import { Button } from "./components/ui/button";
-import { DEFAULT_WEIGHTS, Weights, recalculateData, BucketAssignment, recalculateDataWithBuckets, DEFAULT_BUCKET_ASSIGNMENTS, calculateBucketModeScore } from "./utils/scoreCalculation";
-import { SummaryData, MSAData, SelectedFranchise, GlobalFilters } from "./types";
-import { csvDataService } from "./utils/csvDataService";
+import { DEFAULT_WEIGHTS, Weights, recalculateData, BucketAssignment, recalculateDataWithBuckets, DEFAULT_BUCKET_ASSIGNMENTS } from "./utils/scoreCalculation";
+import { SummaryData, MSAData, SelectedFranchise, GlobalFilters, OpportunityData, ColumnLayoutEntry } from "./types";
+import { csvDataService, DatasetParseIssue, DataQualityReport as DataQualityReportData } from "./utils/csvDataService";
+import { compareMSAData, compareProviderShares } from "./utils/vintageComparison";
+import { DEFAULT_SCORING_OPTIONS, ScoringOptions } from "./utils/continuousScoring";
+import { LabelThresholds, applyLabelThresholds } from "./utils/labelThresholds";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION } from "./utils/categorization";
+import { ScoringProfileSettings } from "./utils/scoringProfiles";
+import { ArchetypeOptions, DEFAULT_ARCHETYPE_OPTIONS, findArchetypes } from "./utils/marketArchetypes";
+import { BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING } from "./utils/bucketWeighting";
+import { DEFAULT_BUCKETS, ScoringBucket } from "./utils/scoringBuckets";
 
 export const DEFAULT_GLOBAL_FILTERS: GlobalFilters = {
   marketSizeRange: [0, 0],
   revenuePerCompanyRange: [0, 0],
   selectedRegions: [],
   selectedIndustries: [],
+  selectedArchetypes: [],
 };
 
 export default function App() {
@@ -28,6 +44,22 @@ export default function App() {
   const [isLoadingSummary, setIsLoadingSummary] = useState(true);
   const [isLoadingMap, setIsLoadingMap] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [parseIssues, setParseIssues] = useState<DatasetParseIssue[]>([]);
+  const [dataQualityReport, setDataQualityReport] = useState<DataQualityReportData | null>(null);
+  // Bumped whenever datasets are swapped so every tab remounts and re-reads csvDataService
+  const [dataVersion, setDataVersion] = useState(0);
+
+  // Dataset vintages - the current one drives every tab, the comparison one feeds period-over-period changes
+  const [vintages, setVintages] = useState(csvDataService.getVintages());
+  const [currentVintageId, setCurrentVintageId] = useState(csvDataService.getCurrentVintageId());
+  const [comparisonVintageId, setComparisonVintageId] = useState(csvDataService.getComparisonVintageId());
+  const [comparisonMapData, setComparisonMapData] = useState<MSAData[] | null>(null);
+  const [currentOpportunities, setCurrentOpportunities] = useState<OpportunityData[]>([]);
+  const [comparisonOpportunities, setComparisonOpportunities] = useState<OpportunityData[] | null>(null);
+
+  // Product every tab analyzes (or the combined view)
+  const [products, setProducts] = useState<string[]>([]);
+  const [productSelection, setProductSelection] = useState(csvDataService.getProductSelection());
   
   // Module selection state
   const [selectedModule, setSelectedModule] = useState<"market-size" | "market-attractiveness" | null>(null);
@@ -35,11 +67,24 @@ export default function App() {
   // Global weights state for What-If Analysis
   const [weights, setWeights] = useState<Weights>(DEFAULT_WEIGHTS);
   const [bucketAssignments, setBucketAssignments] = useState<BucketAssignment[]>(DEFAULT_BUCKET_ASSIGNMENTS);
-  const [bucketWeights, setBucketWeights] = useState({ high: 60, medium: 40 });
+  const [buckets, setBuckets] = useState<ScoringBucket[]>(DEFAULT_BUCKETS);
+  // How each bucket's weight is shared among its parameters
+  const [bucketWeighting, setBucketWeighting] = useState<BucketWeightingOptions>(DEFAULT_BUCKET_WEIGHTING);
+  // Label-based or continuous (raw metric) scoring
+  const [scoringOptions, setScoringOptions] = useState<ScoringOptions>(DEFAULT_SCORING_OPTIONS);
+  // Raw-value cut points that replace the file's High/Medium/Low labels for some parameters
+  const [labelThresholds, setLabelThresholds] = useState<LabelThresholds>({});
+  // How scores are cut into Attractiveness_Category tiers
+  const [categorization, setCategorization] = useState<CategorizationOptions>(DEFAULT_CATEGORIZATION);
+  // Clustering behind the market archetypes (map layer, filter and Explorer column)
+  const [archetypeOptions, setArchetypeOptions] = useState<ArchetypeOptions>(DEFAULT_ARCHETYPE_OPTIONS);
 
   // Global filter state
   const [globalFilters, setGlobalFilters] = useState<GlobalFilters>(DEFAULT_GLOBAL_FILTERS);
 
+  // What-If table column order and visibility (empty = default layout)
+  const [columnLayout, setColumnLayout] = useState<ColumnLayoutEntry[]>([]);
+
   // Proforma Acquisition Analysis state
   const [activeTab, setActiveTab] = useState("msa-explorer");
   const [selectedFranchises, setSelectedFranchises] = useState<SelectedFranchise[]>([]);
@@ -74,65 +119,150 @@ export default function App() {
     setSelectedProviders(new Set());
   };
 
+  // Labels re-derived from the raw metrics wherever a threshold is set
+  const labeledMapData = useMemo(() => applyLabelThresholds(mapData, labelThresholds), [mapData, labelThresholds]);
+
+  // Archetypes come from the metrics and labels, not the scores, so weights don't reshuffle them
+  const archetypes = useMemo(() => findArchetypes(labeledMapData, archetypeOptions), [labeledMapData, archetypeOptions]);
+
+  // Drop archetype filters whose archetype no longer exists after reclustering
+  useEffect(() => {
+    if (archetypes.profiles.length === 0) return;
+    setGlobalFilters(prev => {
+      const kept = prev.selectedArchetypes.filter(name => archetypes.profiles.some(profile => profile.name === name));
+      return kept.length === prev.selectedArchetypes.length ? prev : { ...prev, selectedArchetypes: kept };
+    });
+  }, [archetypes]);
+
   // Always recalculate data based on current bucket assignments
   // Original CSV scores are IGNORED - we calculate fresh scores every time
   const calculatedMapData = useMemo(() => {
-    console.log('=== App.tsx calculatedMapData recalculation ===');
-    console.log('App.tsx: mapData length:', mapData.length);
-    console.log('App.tsx: bucketAssignments:', bucketAssignments);
-    console.log('App.tsx: bucketWeights:', bucketWeights);
-    
-    // Debug: Check original CSV data first
-    const charlotteOriginal = mapData.find(item => item.MSA.includes('Charlotte'));
-    if (charlotteOriginal) {
-      console.log('App.tsx: Charlotte ORIGINAL CSV score:', charlotteOriginal.Attractiveness_Score);
-      console.log('App.tsx: Charlotte original parameters:', {
-        HHI_Score: charlotteOriginal.HHI_Score,
-        Economic_Growth_Score: charlotteOriginal.Economic_Growth_Score,
-        Risk_Score: charlotteOriginal.Risk_Score
-      });
-    }
-    
-    // Force a manual calculation to verify - this should be 2.30 if correct
-    if (charlotteOriginal) {
-      const manualScore = calculateBucketModeScore(charlotteOriginal, bucketAssignments, bucketWeights);
-      console.log('App.tsx: MANUAL Charlotte calculation with current params:', manualScore);
-      console.log('App.tsx: This manual score should be 2.30 if calculation is correct');
-      
-      // Also test with DEFAULT params to see baseline
-      const defaultScore = calculateBucketModeScore(charlotteOriginal, DEFAULT_BUCKET_ASSIGNMENTS, { high: 60, medium: 40 });
-      console.log('App.tsx: Charlotte with DEFAULT_BUCKET_ASSIGNMENTS:', defaultScore);
-    }
-    
-    const result = recalculateDataWithBuckets(mapData, bucketAssignments, bucketWeights);
-    
-    // Debug: Find Charlotte-Concord-Gastonia after calculation
-    const charlotte = result.find(item => item.MSA.includes('Charlotte'));
-    if (charlotte) {
-      console.log('App.tsx: Charlotte FINAL score after recalculateDataWithBuckets:', charlotte.Attractiveness_Score);
-    }
-    
-    console.log('=== End App.tsx calculation ===');
-    return result;
-  }, [mapData, bucketAssignments, bucketWeights]);
+    const result = recalculateDataWithBuckets(labeledMapData, bucketAssignments, buckets, scoringOptions, categorization, bucketWeighting);
+    return result.map(row => ({ ...row, Archetype: archetypes.assignments.get(row.MSA) }));
+  }, [labeledMapData, bucketAssignments, buckets, scoringOptions, categorization, bucketWeighting, archetypes]);
+
+  // Score the comparison vintage with the same buckets and weights so changes reflect the data, not the settings
+  const msaChanges = useMemo(() => {
+    if (!comparisonMapData) return null;
+    const calculatedComparisonData = recalculateDataWithBuckets(
+      applyLabelThresholds(comparisonMapData, labelThresholds),
+      bucketAssignments,
+      buckets,
+      scoringOptions,
+      categorization,
+      bucketWeighting
+    );
+    return compareMSAData(calculatedMapData, calculatedComparisonData);
+  }, [calculatedMapData, comparisonMapData, labelThresholds, bucketAssignments, buckets, scoringOptions, categorization, bucketWeighting]);
+
+  const providerChanges = useMemo(
+    () => comparisonOpportunities ? compareProviderShares(currentOpportunities, comparisonOpportunities) : null,
+    [currentOpportunities, comparisonOpportunities]
+  );
+
+  const comparisonLabel = csvDataService.getVintageLabel(comparisonVintageId);
 
   // Reset global filters to default
   const resetGlobalFilters = () => {
     setGlobalFilters(DEFAULT_GLOBAL_FILTERS);
     setBucketAssignments(DEFAULT_BUCKET_ASSIGNMENTS);
+    setBuckets(DEFAULT_BUCKETS);
+  };
+
+  // Everything a scoring profile saves
+  const profileSettings: ScoringProfileSettings = {
+    bucketAssignments,
+    buckets,
+    bucketWeighting,
+    globalFilters,
+    columnLayout,
+    scoringOptions,
+    labelThresholds,
+    categorization,
+  };
+
+  const applyProfileSettings = (settings: ScoringProfileSettings) => {
+    setBucketAssignments(settings.bucketAssignments);
+    setBuckets(settings.buckets);
+    setBucketWeighting(settings.bucketWeighting);
+    setGlobalFilters(settings.globalFilters);
+    setColumnLayout(settings.columnLayout);
+    setScoringOptions(settings.scoringOptions);
+    setLabelThresholds(settings.labelThresholds);
+    setCategorization(settings.categorization);
   };
 
   useEffect(() => {
-    fetchSummaryData();
     fetchMapData();
+    fetchComparisonData();
   }, []);
 
+  // The summary's targeted opportunities follow the top category
+  useEffect(() => {
+    fetchSummaryData();
+  }, [categorization]);
+
+  // Called after new datasets are loaded from the Load Data dialog or the current vintage changes
+  const handleDataLoaded = () => {
+    setVintages(csvDataService.getVintages());
+    setCurrentVintageId(csvDataService.getCurrentVintageId());
+    setComparisonVintageId(csvDataService.getComparisonVintageId());
+    fetchComparisonData();
+    setDataVersion(version => version + 1);
+    setSelectedMSAs(new Set());
+    // Let the filter drawer re-initialize the ranges from the new data
+    setGlobalFilters(prev => ({ ...prev, marketSizeRange: [0, 0], revenuePerCompanyRange: [0, 0] }));
+    fetchSummaryData();
+    fetchMapData();
+  };
+
+  const handleCurrentVintageChange = (id: string) => {
+    csvDataService.setCurrentVintage(id);
+    handleDataLoaded();
+  };
+
+  const handleProductChange = (product: string) => {
+    csvDataService.setProductSelection(product);
+    setProductSelection(product);
+    handleDataLoaded();
+  };
+
+  const handleComparisonVintageChange = (id: string | null) => {
+    csvDataService.setComparisonVintage(id);
+    setComparisonVintageId(csvDataService.getComparisonVintageId());
+    fetchComparisonData();
+  };
+
+  const fetchComparisonData = async () => {
+    if (!csvDataService.getComparisonVintageId()) {
+      setComparisonMapData(null);
+      setComparisonOpportunities(null);
+      return;
+    }
+
+    try {
+      const [comparisonMap, comparisonOpps, currentOpps] = await Promise.all([
+        csvDataService.getComparisonMapData(),
+        csvDataService.getComparisonOpportunitiesRaw(),
+        csvDataService.getAllOpportunitiesRaw()
+      ]);
+      setComparisonMapData(comparisonMap);
+      setComparisonOpportunities(comparisonOpps);
+      setCurrentOpportunities(currentOpps);
+    } catch (error) {
+      // Comparison is optional - keep the dashboard usable without it
+      console.error("Error loading comparison vintage:", error);
+      setComparisonMapData(null);
+      setComparisonOpportunities(null);
+    }
+  };
+
   const fetchSummaryData = async () => {
     setIsLoadingSummary(true);
     setError(null);
     try {
       console.log("Loading summary data from CSV files");
-      const data = await csvDataService.getSummaryData();
+      const data = await csvDataService.getSummaryData(categorization);
       setSummaryData(data);
     } catch (error) {
       console.error("Error loading summary data:", error);
@@ -150,6 +280,10 @@ export default function App() {
       console.log("Loading map data from CSV files");
       const data = await csvDataService.getMapData();
       setMapData(data);
+      setProducts(await csvDataService.getAvailableProducts());
+      setProductSelection(csvDataService.getProductSelection());
+      setParseIssues(csvDataService.getParseIssues());
+      setDataQualityReport(csvDataService.getDataQualityReport());
     } catch (error) {
       console.error("Error loading map data:", error);
       const errorMessage = error instanceof Error ? error.message : "Failed to load map data";
@@ -237,6 +371,22 @@ export default function App() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <ProfileSelector settings={profileSettings} onApply={applyProfileSettings} />
+            <ProductSelector
+              products={products}
+              value={productSelection}
+              onChange={handleProductChange}
+            />
+            <VintageSelector
+              vintages={vintages}
+              currentVintageId={currentVintageId}
+              comparisonVintageId={comparisonVintageId}
+              onCurrentChange={handleCurrentVintageChange}
+              onComparisonChange={handleComparisonVintageChange}
+            />
+            <LoadDataDialog onDataLoaded={handleDataLoaded} />
+            <DataQualityReport report={dataQualityReport} />
+            <SettingsPanel />
             <Button
               variant="ghost"
               size="sm"
@@ -252,8 +402,10 @@ export default function App() {
           </div>
         </div>
 
+        <ParseIssuesAlert issues={parseIssues} onDismiss={() => setParseIssues([])} />
+
         {/* Navigation Tabs */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-3">
+        <Tabs key={dataVersion} value={activeTab} onValueChange={setActiveTab} className="space-y-3">
           <div className="flex items-center gap-4">
             <TabsList className="grid w-full grid-cols-3 lg:w-[800px]">
               <TabsTrigger value="msa-explorer">Analyse a Market</TabsTrigger>
@@ -276,20 +428,28 @@ export default function App() {
           {/* Analyse a Market Tab */}
           <TabsContent value="msa-explorer">
             {isLoadingMap ? (
-              <div className="flex items-center justify-center py-20">
-                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-              </div>
+              <DataLoadingIndicator />
             ) : (
               <MSAExplorer 
                 data={calculatedMapData}
                 weights={weights}
                 globalFilters={globalFilters}
                 bucketAssignments={bucketAssignments}
+                buckets={buckets}
+                bucketWeighting={bucketWeighting}
                 selectedProviders={selectedProviders}
                 onToggleProviderSelection={toggleProviderSelection}
                 onClearProviderSelections={clearProviderSelections}
                 onNavigateToCompetitorAnalysis={() => setActiveTab("opportunities")}
                 onMSASelectionChange={(msas) => setSelectedMSAs(msas)}
+                msaChanges={msaChanges}
+                providerChanges={providerChanges}
+                comparisonLabel={comparisonLabel}
+                categorization={categorization}
+                scoringOptions={scoringOptions}
+                archetypes={archetypes}
+                archetypeOptions={archetypeOptions}
+                onArchetypeOptionsChange={setArchetypeOptions}
               />
             )}
           </TabsContent>
@@ -297,9 +457,7 @@ export default function App() {
           {/* Target Opportunities Tab */}
           <TabsContent value="opportunities">
             {isLoadingMap ? (
-              <div className="flex items-center justify-center py-20">
-                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-              </div>
+              <DataLoadingIndicator />
             ) : (
               <TargetOpportunities 
                 attractivenessData={calculatedMapData}
@@ -314,6 +472,7 @@ export default function App() {
                 bucketAssignments={bucketAssignments}
                 preselectedProviders={selectedProviders}
                 preselectedMSAs={selectedMSAs}
+                categorization={categorization}
               />
             )}
           </TabsContent>
@@ -332,6 +491,7 @@ export default function App() {
 
         {/* Filter Drawer - Accessible from both Analyse a Market and Analyse a Competitor */}
         <FilterDrawer
+          key={dataVersion}
           isOpen={isFilterDrawerOpen}
           onOpenChange={setIsFilterDrawerOpen}
           data={calculatedMapData}
@@ -339,11 +499,22 @@ export default function App() {
           setWeights={setWeights}
           bucketAssignments={bucketAssignments}
           setBucketAssignments={setBucketAssignments}
-          bucketWeights={bucketWeights}
-          setBucketWeights={setBucketWeights}
+          buckets={buckets}
+          setBuckets={setBuckets}
+          bucketWeighting={bucketWeighting}
+          setBucketWeighting={setBucketWeighting}
+          scoringOptions={scoringOptions}
+          setScoringOptions={setScoringOptions}
+          sourceData={mapData}
+          labelThresholds={labelThresholds}
+          setLabelThresholds={setLabelThresholds}
+          categorization={categorization}
+          setCategorization={setCategorization}
           globalFilters={globalFilters}
           setGlobalFilters={setGlobalFilters}
           resetGlobalFilters={resetGlobalFilters}
+          columnLayout={columnLayout}
+          setColumnLayout={setColumnLayout}
         />
       </div>
     </div>
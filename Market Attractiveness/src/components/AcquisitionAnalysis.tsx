@@ -24,6 +24,19 @@ interface OpportunityData {
   Attractiveness_Category: string;
 }
 
+// Market size per MSA, counting each product's market once (rows repeat it for every provider)
+const getMSAMarketSizes = (rows: OpportunityData[]): Map<string, number> => {
+  const sizes = new Map<string, number>();
+  const seen = new Set<string>();
+  rows.forEach(item => {
+    const key = `${item.MSA}|${item.Product}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    sizes.set(item.MSA, (sizes.get(item.MSA) || 0) + parseFloat(String(item["Market Size"] || 0)));
+  });
+  return sizes;
+};
+
 interface DepositData {
   MSA: string;
   Provider: string;
@@ -51,8 +64,8 @@ export function AcquisitionAnalysis({
   const [acquirerComboboxOpen, setAcquirerComboboxOpen] = useState(false);
   const [haircutPercentage, setHaircutPercentage] = useState(10);
   const [selectedFranchise, setSelectedFranchise] = useState<string | null>(null);
-  // Acquisition type is always "full" - acquiring entire provider footprint
-  const acquisitionType = "full";
+  // Acquisition type is always "full" - acquiring entire provider footprint (the local branches are kept for later)
+  const acquisitionType = "full" as "full" | "local";
   const [newsArticles, setNewsArticles] = useState<Record<string, any[]>>({});
   const [loadingNews, setLoadingNews] = useState(false);
   const [newsError, setNewsError] = useState<string | null>(null);
@@ -238,6 +251,20 @@ export function AcquisitionAnalysis({
     
     // Get all credit/cash management data for the acquiring provider to get Market Size and Defend $
     const providerData = marketData.filter(item => item.Provider === acquiringProvider);
+
+    // With several products in view (combined product view), each product's share counts in proportion
+    // to its part of the MSA's total market size. With a single product the weight is 1
+    const productSizes = new Map<string, Map<string, number>>();
+    marketData.forEach(item => {
+      if (!productSizes.has(item.MSA)) productSizes.set(item.MSA, new Map());
+      productSizes.get(item.MSA)!.set(item.Product, parseFloat(String(item["Market Size"] || 0)));
+    });
+    const shareWeight = (item: OpportunityData) => {
+      const sizes = productSizes.get(item.MSA);
+      if (!sizes || sizes.size <= 1) return 1;
+      const total = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+      return total > 0 ? (sizes.get(item.Product) || 0) / total : 1 / sizes.size;
+    };
     
     // Group by MSA - start with Market Size and Defend $ from credit/cash management
     const msaMap = new Map<string, { 
@@ -286,7 +313,7 @@ export function AcquisitionAnalysis({
       
       const existing = msaMap.get(msa);
       if (existing) {
-        existing.currentMarketShare += marketShare;
+        existing.currentMarketShare += marketShare * shareWeight(item);
       }
     });
     
@@ -310,7 +337,7 @@ export function AcquisitionAnalysis({
           
           const existing = msaMap.get(msa);
           if (existing) {
-            existing.acquiredMarketShare += marketShare;
+            existing.acquiredMarketShare += marketShare * shareWeight(item);
           } else {
             // MSA not in current footprint, but will be acquired
             const marketSize = parseFloat(String(item["Market Size"] || 0));
@@ -321,7 +348,7 @@ export function AcquisitionAnalysis({
               currentMarketShare: 0,
               marketSize,
               defendDollars,
-              acquiredMarketShare: marketShare,
+              acquiredMarketShare: marketShare * shareWeight(item),
               currentHHI: 0,
               newHHI: 0
             });
@@ -500,13 +527,7 @@ export function AcquisitionAnalysis({
     
     // Calculate total national market size (unique MSAs - avoid double counting)
     // We need to sum each MSA's market size only once, not for every provider
-    const msaMarketSizeMap = new Map<string, number>();
-    marketData.forEach(item => {
-      const msa = item.MSA;
-      const marketSize = parseFloat(String(item["Market Size"] || 0));
-      // Take the max market size for each MSA (in case there are slight variations)
-      msaMarketSizeMap.set(msa, Math.max(msaMarketSizeMap.get(msa) || 0, marketSize));
-    });
+    const msaMarketSizeMap = getMSAMarketSizes(marketData);
     const totalNationalMarketSize = Array.from(msaMarketSizeMap.values()).reduce((sum, size) => sum + size, 0);
     
     // Calculate baseline (acquirer's current position)
@@ -572,12 +593,7 @@ export function AcquisitionAnalysis({
     const allMSAsAfterAcquisition = new Set([...baselineMSAs, ...franchiseMSAs]);
     
     // Get market sizes for acquirer's MSAs
-    const acquirerMSAMarketSizeMap = new Map<string, number>();
-    baselineData.forEach(item => {
-      const msa = item.MSA;
-      const marketSize = parseFloat(String(item["Market Size"] || 0));
-      acquirerMSAMarketSizeMap.set(msa, Math.max(acquirerMSAMarketSizeMap.get(msa) || 0, marketSize));
-    });
+    const acquirerMSAMarketSizeMap = getMSAMarketSizes(baselineData);
     
     // Calculate baseline Total Addressable Market (sum of market sizes for all MSAs where acquirer operates)
     const baselineTotalAddressableMarket = Math.ceil(
@@ -585,12 +601,7 @@ export function AcquisitionAnalysis({
     );
     
     // Get market sizes for franchise's MSAs
-    const franchiseMSAMarketSizeMap = new Map<string, number>();
-    franchiseData.forEach(item => {
-      const msa = item.MSA;
-      const marketSize = parseFloat(String(item["Market Size"] || 0));
-      franchiseMSAMarketSizeMap.set(msa, Math.max(franchiseMSAMarketSizeMap.get(msa) || 0, marketSize));
-    });
+    const franchiseMSAMarketSizeMap = getMSAMarketSizes(franchiseData);
     
     // Sum market sizes for all unique MSAs after acquisition
     let totalAddressableMarketAfter = 0;
@@ -807,13 +818,7 @@ export function AcquisitionAnalysis({
             {(() => {
               // Calculate total national market size (unique MSAs for Credit and Cash Management)
               // We need to sum each MSA's market size only once, not for every provider
-              const msaMarketSizeMap = new Map<string, number>();
-              marketData.forEach(item => {
-                const msa = item.MSA;
-                const marketSize = parseFloat(String(item["Market Size"] || 0));
-                // Take the max market size for each MSA (in case there are slight variations)
-                msaMarketSizeMap.set(msa, Math.max(msaMarketSizeMap.get(msa) || 0, marketSize));
-              });
+              const msaMarketSizeMap = getMSAMarketSizes(marketData);
               const totalNationalMarketSize = Array.from(msaMarketSizeMap.values()).reduce((sum, size) => sum + size, 0);
               
               console.log('Total National Market Size:', totalNationalMarketSize, '($' + (totalNationalMarketSize / 1e9).toFixed(2) + 'B)');
@@ -847,12 +852,7 @@ export function AcquisitionAnalysis({
                 : 0;
 
               // Calculate baseline Total Addressable Market (sum of market sizes for all MSAs where acquirer operates)
-              const acquirerMSAMarketSizeMap = new Map<string, number>();
-              acquirerMarketData.forEach(item => {
-                const msa = item.MSA;
-                const marketSize = parseFloat(String(item["Market Size"] || 0));
-                acquirerMSAMarketSizeMap.set(msa, Math.max(acquirerMSAMarketSizeMap.get(msa) || 0, marketSize));
-              });
+              const acquirerMSAMarketSizeMap = getMSAMarketSizes(acquirerMarketData);
               const baselineTotalAddressableMarket = Math.ceil(
                 Array.from(acquirerMSAMarketSizeMap.values()).reduce((sum, size) => sum + size, 0)
               );
@@ -868,14 +868,8 @@ export function AcquisitionAnalysis({
                   const providerMSAs = new Set(providerMarketData.map(item => item.MSA));
                   
                   // Calculate Total Addressable Market: sum of all market sizes for all MSAs the franchise is in
-                  // Use a Map to avoid double-counting MSAs (in case there are multiple products per MSA)
-                  const msaMarketSizeMap = new Map<string, number>();
-                  providerMarketData.forEach(item => {
-                    const msa = item.MSA;
-                    const marketSize = parseFloat(String(item["Market Size"] || 0));
-                    // Take the max market size for each MSA (in case there are slight variations)
-                    msaMarketSizeMap.set(msa, Math.max(msaMarketSizeMap.get(msa) || 0, marketSize));
-                  });
+                  // Each MSA's market is counted once per product, not for every provider row
+                  const msaMarketSizeMap = getMSAMarketSizes(providerMarketData);
                   const franchiseTotalAddressableMarket = Math.ceil(
                     Array.from(msaMarketSizeMap.values()).reduce((sum, size) => sum + size, 0)
                   );
@@ -916,13 +910,8 @@ export function AcquisitionAnalysis({
                   // Calculate Total Addressable Market after acquisition
                   // Combine all unique MSAs from acquirer and franchise
                   const allMSAsAfterAcquisition = new Set([...baselineMSAs, ...providerMSAs]);
-                  const acquirerMSAMarketSizeMap = new Map<string, number>();
                   const acquirerMarketData = marketData.filter(item => item.Provider === acquiringProvider);
-                  acquirerMarketData.forEach(item => {
-                    const msa = item.MSA;
-                    const marketSize = parseFloat(String(item["Market Size"] || 0));
-                    acquirerMSAMarketSizeMap.set(msa, Math.max(acquirerMSAMarketSizeMap.get(msa) || 0, marketSize));
-                  });
+                  const acquirerMSAMarketSizeMap = getMSAMarketSizes(acquirerMarketData);
                   
                   // Sum market sizes for all unique MSAs after acquisition
                   let totalAddressableMarketAfter = 0;
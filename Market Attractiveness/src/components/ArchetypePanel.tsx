@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Shapes, RotateCcw } from "lucide-react";
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { SIMILARITY_DIMENSIONS } from "../utils/similarMarkets";
+import {
+  ARCHETYPE_METHOD_LABELS,
+  ArchetypeMethod,
+  ArchetypeOptions,
+  ArchetypeProfile,
+  ArchetypeResult,
+  DEFAULT_ARCHETYPE_OPTIONS,
+  MAX_ARCHETYPES,
+  MIN_ARCHETYPES,
+} from "../utils/marketArchetypes";
+
+interface ArchetypePanelProps {
+  result: ArchetypeResult;
+  options: ArchetypeOptions;
+  onOptionsChange: (options: ArchetypeOptions) => void;
+  // Scored rows, for each archetype's average score
+  rows: Record<string, any>[];
+}
+
+const MSA_PREVIEW_COUNT = 6;
+
+// Clusters of MSAs that look alike on the metrics, each with a profile of what sets it apart
+export function ArchetypePanel({ result, options, onOptionsChange, rows }: ArchetypePanelProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const toggleDimension = (id: string) => {
+    const { dimensionIds } = options;
+    if (dimensionIds.includes(id)) {
+      if (dimensionIds.length > 1) onOptionsChange({ ...options, dimensionIds: dimensionIds.filter(dimensionId => dimensionId !== id) });
+    } else {
+      onOptionsChange({
+        ...options,
+        dimensionIds: SIMILARITY_DIMENSIONS.map(d => d.id).filter(dimensionId => dimensionId === id || dimensionIds.includes(dimensionId)),
+      });
+    }
+  };
+
+  const scoresByMSA = new Map(rows.map(row => [row.MSA as string, row.Attractiveness_Score as number]));
+  const averageScore = (profile: ArchetypeProfile) => {
+    const scores = profile.msas.map(msa => scoresByMSA.get(msa)).filter((score): score is number => typeof score === "number");
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+  };
+
+  const renderProfile = (profile: ArchetypeProfile) => {
+    const score = averageScore(profile);
+    const isExpanded = expanded === profile.index;
+    const listedMSAs = isExpanded ? profile.msas : profile.msas.slice(0, MSA_PREVIEW_COUNT);
+    return (
+      <div key={profile.name} className="rounded-md border p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-xs font-medium">
+            <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: profile.color }} />
+            {profile.name}
+          </div>
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {profile.msas.length} MSAs{score !== null && ` · avg score ${score.toFixed(2)}`}
+          </span>
+        </div>
+
+        {profile.distinctive.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Close to the national average on every chosen metric.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody>
+              {profile.distinctive.map(feature => (
+                <tr key={feature.dimensionId} className="border-b">
+                  <td className="py-1 pr-2">{feature.label}</td>
+                  <td className="text-right py-1 px-2">{feature.value}</td>
+                  <td className="text-right py-1 px-2 text-muted-foreground">vs {feature.nationalValue}</td>
+                  <td className={`text-right py-1 pl-2 ${feature.meanZ > 0 ? "text-green-600" : "text-red-600"}`}>
+                    {feature.meanZ > 0 ? "+" : ""}{feature.meanZ.toFixed(1)} SD
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="text-xs text-muted-foreground">
+          {listedMSAs.join(" · ")}
+          {profile.msas.length > MSA_PREVIEW_COUNT && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setExpanded(isExpanded ? null : profile.index)}>
+              {isExpanded ? "Show fewer" : `+${profile.msas.length - MSA_PREVIEW_COUNT} more`}
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="mb-3">
+        <h3 className="text-sm font-semibold flex items-center gap-2">
+          <Shapes className="h-4 w-4" />
+          Market Archetypes
+        </h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          MSAs grouped by how alike they are on the chosen metrics, each measured in standard deviations from the national average. Each archetype is named after the metrics that set it apart. Archetypes color the map, appear as a column above and can be used as a filter under Filters & Preferences.
+        </p>
+      </div>
+
+      <div className="space-y-3 mb-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Method</Label>
+            <Select value={options.method} onValueChange={(method) => onOptionsChange({ ...options, method: method as ArchetypeMethod })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ARCHETYPE_METHOD_LABELS) as ArchetypeMethod[]).map(method => (
+                  <SelectItem key={method} value={method}>{ARCHETYPE_METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Number of archetypes</Label>
+            <Select value={String(options.k)} onValueChange={(k) => onOptionsChange({ ...options, k: Number(k) })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_ARCHETYPES - MIN_ARCHETYPES + 1 }, (_, i) => MIN_ARCHETYPES + i).map(k => (
+                  <SelectItem key={k} value={String(k)}>{k}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Metrics</Label>
+          <div className="flex flex-wrap gap-1">
+            {SIMILARITY_DIMENSIONS.map(dimension => {
+              const chosen = options.dimensionIds.includes(dimension.id);
+              return (
+                <Button
+                  key={dimension.id}
+                  variant={chosen ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={chosen && options.dimensionIds.length === 1}
+                  onClick={() => toggleDimension(dimension.id)}
+                >
+                  {dimension.label}
+                </Button>
+              );
+            })}
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onOptionsChange(DEFAULT_ARCHETYPE_OPTIONS)}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Defaults
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {result.profiles.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Not enough MSAs to cluster.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            {result.profiles.length} archetypes across {result.assignments.size} MSAs
+            {" · "}
+            <Badge variant="outline" className="text-[10px]">silhouette {result.silhouette.toFixed(2)}</Badge>
+            {" "}
+            (closer to 1 means tighter, better separated archetypes; near 0 means the MSAs don't fall into clear groups)
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {result.profiles.map(renderProfile)}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
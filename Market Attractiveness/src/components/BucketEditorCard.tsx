@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Boxes, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Card } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { BucketAssignment } from "../utils/scoreCalculation";
+import {
+  BUCKET_PRESETS,
+  DEFAULT_BUCKETS,
+  MAX_BUCKETS,
+  MIN_BUCKETS,
+  ScoringBucket,
+  createBucketId,
+  getBucketStyle,
+  getBucketTotal,
+  validateBuckets,
+} from "../utils/scoringBuckets";
+
+interface BucketEditorCardProps {
+  buckets: ScoringBucket[];
+  // Only called with valid buckets
+  onChange: (buckets: ScoringBucket[]) => void;
+  // Current assignments, to say which parameters a removed bucket gives back
+  bucketAssignments: BucketAssignment[];
+}
+
+// Weights are edited as text so a field can be cleared while typing
+interface DraftBucket {
+  id: string;
+  name: string;
+  weight: string;
+}
+
+const toDraft = (buckets: ScoringBucket[]): DraftBucket[] =>
+  buckets.map(bucket => ({ ...bucket, weight: String(bucket.weight) }));
+
+// Add, rename, reorder and remove importance buckets and set each one's share of the score
+export function BucketEditorCard({ buckets, onChange, bucketAssignments }: BucketEditorCardProps) {
+  // Edited as a draft and only applied once the weights total 100%
+  const [draft, setDraft] = useState<DraftBucket[]>(() => toDraft(buckets));
+
+  useEffect(() => {
+    setDraft(toDraft(buckets));
+  }, [buckets]);
+
+  const draftBuckets: ScoringBucket[] = draft.map(bucket => ({
+    id: bucket.id,
+    name: bucket.name.trim(),
+    weight: parseFloat(bucket.weight),
+  }));
+  const draftError = validateBuckets(draftBuckets);
+  const draftChanged =
+    draftBuckets.length !== buckets.length ||
+    draftBuckets.some((bucket, index) =>
+      bucket.id !== buckets[index].id || bucket.name !== buckets[index].name || bucket.weight !== buckets[index].weight
+    );
+  const draftTotal = getBucketTotal(draftBuckets.map(bucket => ({ ...bucket, weight: isFinite(bucket.weight) ? bucket.weight : 0 })));
+
+  // Parameters in buckets the draft drops go back to the list waiting to be placed
+  const removedCount = bucketAssignments.filter(
+    a => a.bucket !== "exclusions" && !draft.some(bucket => bucket.id === a.bucket)
+  ).length;
+
+  const updateBucket = (index: number, changes: Partial<DraftBucket>) =>
+    setDraft(prev => prev.map((bucket, i) => (i === index ? { ...bucket, ...changes } : bucket)));
+
+  const moveBucket = (index: number, direction: -1 | 1) => {
+    const next = [...draft];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setDraft(next);
+  };
+
+  const addBucket = () => {
+    const name = `Bucket ${draft.length + 1}`;
+    setDraft([...draft, { id: createBucketId(draftBuckets, name), name, weight: "0" }]);
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = BUCKET_PRESETS.find(p => p.id === presetId);
+    if (preset) setDraft(toDraft(preset.buckets));
+  };
+
+  const isDefault = JSON.stringify(buckets) === JSON.stringify(DEFAULT_BUCKETS);
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="text-sm flex items-center gap-2">
+            <Boxes className="h-4 w-4" />
+            Buckets
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            The importance buckets parameters are dragged into, most important first, and each one's share of the score. Weights must total 100%.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1 w-48">
+            <Label className="text-xs">Preset</Label>
+            <Select value="" onValueChange={applyPreset}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Start from a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {BUCKET_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_BUCKETS)} disabled={isDefault}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {draft.map((bucket, index) => (
+          <div key={bucket.id} className="flex items-center gap-2">
+            <Badge variant="outline" className={`text-xs w-8 justify-center ${getBucketStyle(draftBuckets, bucket.id).badge}`}>
+              {index + 1}
+            </Badge>
+            <Input
+              className="h-8 text-xs w-48"
+              value={bucket.name}
+              onChange={(e) => updateBucket(index, { name: e.target.value })}
+            />
+            <Input
+              className="h-8 text-xs w-20 text-center"
+              type="number"
+              min="0"
+              max="100"
+              value={bucket.weight}
+              onChange={(e) => updateBucket(index, { weight: e.target.value })}
+            />
+            <span className="text-xs">%</span>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === 0} onClick={() => moveBucket(index, -1)}>
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === draft.length - 1} onClick={() => moveBucket(index, 1)}>
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              disabled={draft.length <= MIN_BUCKETS}
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 mt-3">
+        <Button variant="outline" size="sm" onClick={addBucket} disabled={draft.length >= MAX_BUCKETS}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add bucket
+        </Button>
+        <Button size="sm" onClick={() => onChange(draftBuckets)} disabled={!!draftError || !draftChanged}>
+          Apply
+        </Button>
+        <span className={`text-xs ${Math.abs(draftTotal - 100) > 0.01 ? "text-destructive" : "text-muted-foreground"}`}>
+          Total {Math.round(draftTotal * 100) / 100}%
+        </span>
+        {draftError && draftChanged && <span className="text-xs text-destructive">{draftError}</span>}
+      </div>
+      {removedCount > 0 && (
+        <p className="text-xs text-amber-700 mt-2">
+          {removedCount} {removedCount === 1 ? "parameter goes" : "parameters go"} back to Ready to Place when you apply, as {removedCount === 1 ? "its bucket is" : "their buckets are"} removed.
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { ListOrdered } from "lucide-react";
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { BucketAssignment } from "../utils/scoreCalculation";
+import {
+  BUCKET_WEIGHTING_SCHEMES,
+  BucketWeightingOptions,
+  BucketWeightingScheme,
+  getManualTotals,
+  getRankShares,
+  toManualPercentages,
+} from "../utils/bucketWeighting";
+import { ScoringBucket, getBucketName } from "../utils/scoringBuckets";
+
+interface BucketWeightingCardProps {
+  options: BucketWeightingOptions;
+  onChange: (options: BucketWeightingOptions) => void;
+  // Current assignments, to start manual percentages from the shares they have now
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+}
+
+const EXAMPLE_COUNT = 3;
+
+// Choose how a bucket's weight is shared among its parameters by position
+export function BucketWeightingCard({ options, onChange, bucketAssignments, buckets }: BucketWeightingCardProps) {
+  const setScheme = (scheme: BucketWeightingScheme) => {
+    if (scheme === options.scheme) return;
+    // Manual starts from the shares the current scheme gives, so switching doesn't move any scores
+    onChange(
+      scheme === "manual"
+        ? { scheme, manual: { ...options.manual, ...toManualPercentages(bucketAssignments, options) } }
+        : { ...options, scheme }
+    );
+  };
+
+  const offBuckets = options.scheme === "manual"
+    ? Object.entries(getManualTotals(bucketAssignments, options)).filter(([, total]) => Math.abs(total - 100) > 0.01)
+    : [];
+
+  const example = options.scheme === "manual" ? null : getRankShares(EXAMPLE_COUNT, options.scheme);
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm flex items-center gap-2">
+            <ListOrdered className="h-4 w-4" />
+            Within-Bucket Weighting
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            How each bucket's weight is shared among its parameters. Drag parameters within a bucket to change their order; position 1 is the most important.
+          </p>
+        </div>
+        <div className="space-y-1 w-48">
+          <Label className="text-xs">Scheme</Label>
+          <Select value={options.scheme} onValueChange={(value) => setScheme(value as BucketWeightingScheme)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUCKET_WEIGHTING_SCHEMES.map(scheme => (
+                <SelectItem key={scheme.id} value={scheme.id}>
+                  {scheme.label} <span className="text-muted-foreground">- {scheme.description}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3">
+        {example
+          ? `With ${EXAMPLE_COUNT} parameters in a bucket: ${example.map(share => `${(share * 100).toFixed(0)}%`).join(" / ")} of its weight.`
+          : "Enter each parameter's percentage of its bucket next to it in the bucket."}
+      </p>
+      {offBuckets.length > 0 && (
+        <p className="text-xs text-amber-700 mt-1">
+          {offBuckets.map(([bucket, total]) => `${getBucketName(buckets, bucket)} totals ${Math.round(total * 10) / 10}%`).join(", ")}.
+          {" "}Adjust to 100% - until then the percentages are scaled to fill the bucket.
+        </p>
+      )}
+    </Card>
+  );
+}
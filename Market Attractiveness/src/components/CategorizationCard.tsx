@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from "react";
+import { Layers, RotateCcw } from "lucide-react";
+import { Card } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  CATEGORIZATION_METHODS,
+  CategorizationMethod,
+  CategorizationOptions,
+  DEFAULT_CATEGORIZATION,
+  MAX_TIERS,
+  MIN_TIERS,
+  getCategoryBadgeClass,
+  getCategoryBreaks,
+  validateCategorization,
+  withTierCount,
+} from "../utils/categorization";
+
+interface CategorizationCardProps {
+  options: CategorizationOptions;
+  onChange: (options: CategorizationOptions) => void;
+  // Scores currently being categorized, for the tier boundaries and counts
+  scores: number[];
+}
+
+const TIER_COUNTS = Array.from({ length: MAX_TIERS - MIN_TIERS + 1 }, (_, index) => MIN_TIERS + index);
+
+// Choose how attractiveness scores are cut into categories: method, number of tiers, labels and fixed thresholds
+export function CategorizationCard({ options, onChange, scores }: CategorizationCardProps) {
+  // Labels and thresholds are edited as drafts and only applied once they're valid
+  const [draft, setDraft] = useState<{ labels: string[]; thresholds: string[] }>({
+    labels: options.labels,
+    thresholds: options.thresholds.map(String),
+  });
+
+  useEffect(() => {
+    setDraft({ labels: options.labels, thresholds: options.thresholds.map(String) });
+  }, [options]);
+
+  const draftOptions: CategorizationOptions = {
+    ...options,
+    labels: draft.labels.map(label => label.trim()),
+    thresholds: draft.thresholds.map(value => parseFloat(value)),
+  };
+  const draftError = validateCategorization(draftOptions);
+  const draftChanged =
+    draftOptions.labels.some((label, index) => label !== options.labels[index]) ||
+    (options.method === "fixed" && draftOptions.thresholds.some((value, index) => value !== options.thresholds[index]));
+
+  const breaks = useMemo(() => getCategoryBreaks(scores, options), [scores, options]);
+
+  // MSAs per tier using the applied options (a score at a boundary goes up, as in categorizeScores)
+  const tierCounts = useMemo(() => {
+    const counts = new Array(options.labels.length).fill(0);
+    scores.forEach(score => {
+      counts[Math.min(options.labels.length - 1, breaks.filter(cut => score >= cut).length)]++;
+    });
+    return counts;
+  }, [scores, breaks, options.labels.length]);
+
+  const setLabel = (index: number, label: string) =>
+    setDraft(prev => ({ ...prev, labels: prev.labels.map((value, i) => (i === index ? label : value)) }));
+
+  const setThreshold = (index: number, value: string) =>
+    setDraft(prev => ({ ...prev, thresholds: prev.thresholds.map((current, i) => (i === index ? value : current)) }));
+
+  const isDefault =
+    options.method === DEFAULT_CATEGORIZATION.method &&
+    options.labels.join("|") === DEFAULT_CATEGORIZATION.labels.join("|");
+
+  // Tiers listed top first, like the category filters
+  const tierIndexes = options.labels.map((_, index) => index).reverse();
+
+  const formatScore = (value: number) => (isFinite(value) ? value.toFixed(2) : "-");
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="text-sm flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Categories
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            How scores are grouped into attractiveness categories on the map, in the explorer and in the bank analysis.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_CATEGORIZATION)} disabled={isDefault}>
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Method</Label>
+          <Select
+            value={options.method}
+            onValueChange={(value) => onChange({ ...options, method: value as CategorizationMethod })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CATEGORIZATION_METHODS.map(method => (
+                <SelectItem key={method.id} value={method.id}>
+                  {method.label} <span className="text-muted-foreground">- {method.description}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Tiers</Label>
+          <Select
+            value={String(options.labels.length)}
+            onValueChange={(value) => onChange(withTierCount(options, parseInt(value, 10)))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIER_COUNTS.map(count => (
+                <SelectItem key={count} value={String(count)}>{count} tiers</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {tierIndexes.map(index => (
+          <div key={index} className="flex items-center gap-3">
+            <Input
+              className="h-8 text-xs w-48"
+              value={draft.labels[index] ?? ""}
+              onChange={(e) => setLabel(index, e.target.value)}
+            />
+            {index > 0 && options.method === "fixed" ? (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">from score</span>
+                <Input
+                  className="h-8 text-xs w-20"
+                  type="number"
+                  step="0.05"
+                  value={draft.thresholds[index - 1] ?? ""}
+                  onChange={(e) => setThreshold(index - 1, e.target.value)}
+                />
+              </div>
+            ) : (
+              <span className="text-xs text-muted-foreground w-32">
+                {index === 0
+                  ? `below ${formatScore(breaks[0] ?? Infinity)}`
+                  : `from ${formatScore(breaks[index - 1] ?? Infinity)}`}
+              </span>
+            )}
+            <Badge variant="outline" className={`text-xs ${getCategoryBadgeClass(options.labels[index], options)}`}>
+              {tierCounts[index]} MSAs
+            </Badge>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 mt-3">
+        <Button size="sm" onClick={() => onChange(draftOptions)} disabled={!!draftError || !draftChanged}>
+          Apply
+        </Button>
+        {draftError && draftChanged && <span className="text-xs text-destructive">{draftError}</span>}
+      </div>
+    </Card>
+  );
+}
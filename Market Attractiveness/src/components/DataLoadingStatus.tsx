@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Loader2, AlertTriangle, X } from "lucide-react";
+import { Progress } from "./ui/progress";
+import { Alert, AlertTitle, AlertDescription } from "./ui/alert";
+import { csvDataService, DatasetLoadProgress, DatasetParseIssue } from "../utils/csvDataService";
+import { formatParseIssue } from "../utils/csvParser";
+
+const DATASET_LABELS: Record<DatasetLoadProgress["dataset"], string> = {
+  attractiveness: "Attractiveness",
+  opportunity: "Opportunities",
+  economics: "Economics",
+};
+
+// Spinner with per-dataset parse progress while the datasets load
+export function DataLoadingIndicator() {
+  const [progress, setProgress] = useState<Partial<Record<DatasetLoadProgress["dataset"], DatasetLoadProgress>>>({});
+
+  useEffect(() => {
+    return csvDataService.subscribeToProgress((update) => {
+      setProgress(prev => ({ ...prev, [update.dataset]: update }));
+    });
+  }, []);
+
+  const entries = Object.values(progress) as DatasetLoadProgress[];
+
+  return (
+    <div className="flex flex-col items-center justify-center py-20 gap-4">
+      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      {entries.length > 0 && (
+        <div className="w-72 space-y-2">
+          {entries.map(entry => {
+            const percent = entry.totalBytes > 0
+              ? Math.min(100, Math.round((entry.bytesRead / entry.totalBytes) * 100))
+              : null;
+            return (
+              <div key={entry.dataset} className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{DATASET_LABELS[entry.dataset]}</span>
+                  <span>
+                    {entry.rowsParsed.toLocaleString()} rows{percent !== null ? ` · ${percent}%` : ""}
+                  </span>
+                </div>
+                <Progress value={percent ?? 0} className="h-1.5" />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ParseIssuesAlertProps {
+  issues: DatasetParseIssue[];
+  onDismiss: () => void;
+}
+
+// Lists malformed rows that were skipped while parsing
+export function ParseIssuesAlert({ issues, onDismiss }: ParseIssuesAlertProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (issues.length === 0) return null;
+
+  const visibleIssues = expanded ? issues : issues.slice(0, 3);
+
+  return (
+    <Alert variant="destructive" className="relative">
+      <AlertTriangle />
+      <AlertTitle>
+        {issues.length} {issues.length === 1 ? "problem" : "problems"} found while parsing the data files
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="text-xs space-y-0.5">
+          {visibleIssues.map((issue, index) => (
+            <li key={index}>
+              <span className="font-medium">{DATASET_LABELS[issue.dataset]}</span> {formatParseIssue(issue)}
+            </li>
+          ))}
+        </ul>
+        {issues.length > 3 && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-xs underline mt-1"
+          >
+            {expanded ? "Show less" : `Show all ${issues.length}`}
+          </button>
+        )}
+      </AlertDescription>
+      <button
+        onClick={onDismiss}
+        className="absolute right-3 top-3 text-muted-foreground hover:text-foreground"
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </Alert>
+  );
+}
@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { ShieldCheck, ShieldAlert, Search } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { DataQualityReport as DataQualityReportData } from "../utils/csvDataService";
+import { DATASET_SCHEMAS, ViolationKind } from "../utils/dataSchema";
+import { DatasetKey } from "../utils/dataSource";
+import { UPLOAD_TARGET_LABELS, UploadTarget } from "../utils/datasetUpload";
+
+const KIND_LABELS: Record<ViolationKind, string> = {
+  "missing-column": "Missing column",
+  "missing-value": "Missing value",
+  type: "Wrong type",
+  enum: "Unexpected value",
+  range: "Out of range",
+  duplicate: "Duplicate key",
+  parse: "Parse error",
+};
+
+const DATASETS: DatasetKey[] = ["attractiveness", "opportunity", "economics"];
+
+// Rows rendered at a time - the opportunity file alone can produce thousands of violations
+const PAGE_SIZE = 200;
+
+interface DataQualityReportProps {
+  report: DataQualityReportData | null;
+}
+
+// Header button plus a browsable list of every parse issue and schema violation in the loaded data
+export function DataQualityReport({ report }: DataQualityReportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [datasetFilter, setDatasetFilter] = useState<DatasetKey | "all">("all");
+  const [kindFilter, setKindFilter] = useState<ViolationKind | "all">("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const violations = report?.violations || [];
+  const unmatchedMSAs = report?.unmatchedMSAs || [];
+  const issueCount = violations.length + unmatchedMSAs.length;
+
+  const filteredViolations = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return violations.filter(violation => {
+      if (datasetFilter !== "all" && violation.dataset !== datasetFilter) return false;
+      if (kindFilter !== "all" && violation.kind !== kindFilter) return false;
+      if (!term) return true;
+      return (
+        violation.column.toLowerCase().includes(term) ||
+        violation.message.toLowerCase().includes(term) ||
+        String(violation.value ?? "").toLowerCase().includes(term)
+      );
+    });
+  }, [violations, datasetFilter, kindFilter, searchTerm]);
+
+  // Counts per dataset and kind for the summary cards
+  const summary = useMemo(() => {
+    return DATASETS.map(dataset => {
+      const datasetViolations = violations.filter(v => v.dataset === dataset);
+      const byKind = new Map<ViolationKind, number>();
+      datasetViolations.forEach(v => byKind.set(v.kind, (byKind.get(v.kind) || 0) + 1));
+      return { dataset, total: datasetViolations.length, byKind };
+    });
+  }, [violations]);
+
+  const kindsPresent = useMemo(
+    () => (Object.keys(KIND_LABELS) as ViolationKind[]).filter(kind => violations.some(v => v.kind === kind)),
+    [violations]
+  );
+
+  if (!report) return null;
+
+  const resetPaging = () => setVisibleCount(PAGE_SIZE);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2"
+      >
+        {issueCount === 0 ? (
+          <ShieldCheck className="h-4 w-4 text-green-600" />
+        ) : (
+          <ShieldAlert className="h-4 w-4 text-amber-600" />
+        )}
+        Data Quality
+        {issueCount > 0 && (
+          <Badge variant="secondary" className="text-xs">{issueCount.toLocaleString()}</Badge>
+        )}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Data Quality Report</DialogTitle>
+            <DialogDescription>
+              Every row and column that did not match the expected schema. Values that could not be converted are treated as empty.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-3 gap-3">
+            {summary.map(({ dataset, total, byKind }) => (
+              <button
+                key={dataset}
+                onClick={() => {
+                  setDatasetFilter(datasetFilter === dataset ? "all" : dataset);
+                  resetPaging();
+                }}
+                className={`text-left border rounded-lg p-3 transition-colors ${datasetFilter === dataset ? "border-primary bg-primary/5" : "hover:bg-muted/50"}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{DATASET_SCHEMAS[dataset].label}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {report.rowCounts[dataset].toLocaleString()} rows
+                  </span>
+                </div>
+                <div className={`text-lg ${total === 0 ? "text-green-600" : "text-amber-600"}`}>
+                  {total === 0 ? "No issues" : `${total.toLocaleString()} ${total === 1 ? "issue" : "issues"}`}
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {Array.from(byKind.entries()).map(([kind, count]) => (
+                    <Badge key={kind} variant="outline" className="text-[10px]">
+                      {KIND_LABELS[kind]}: {count}
+                    </Badge>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {unmatchedMSAs.length > 0 && (
+            <div className="border border-amber-200 bg-amber-50/60 rounded-lg p-3">
+              <p className="text-sm font-medium text-amber-800">
+                {unmatchedMSAs.length} MSA {unmatchedMSAs.length === 1 ? "name" : "names"} not in the MSA registry
+              </p>
+              <p className="text-xs text-muted-foreground mb-2">
+                These rows can't be joined to other datasets by CBSA code and only match identical spellings.
+              </p>
+              <div className="max-h-24 overflow-auto flex flex-wrap gap-1">
+                {unmatchedMSAs.map(({ name, sources }) => (
+                  <Badge key={name} variant="outline" className="text-[10px] bg-white">
+                    {name}
+                    <span className="text-muted-foreground ml-1">
+                      ({sources.map(source => UPLOAD_TARGET_LABELS[source as UploadTarget] || source).join(", ")})
+                    </span>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search column, value or message..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  resetPaging();
+                }}
+                className="pl-8"
+              />
+            </div>
+            <Select
+              value={kindFilter}
+              onValueChange={(value) => {
+                setKindFilter(value as ViolationKind | "all");
+                resetPaging();
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All issue types</SelectItem>
+                {kindsPresent.map(kind => (
+                  <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex-1 overflow-auto border rounded-lg">
+            {filteredViolations.length === 0 ? (
+              <div className="py-12 text-center text-sm text-muted-foreground">
+                {violations.length === 0 ? "All datasets match their schema." : "No issues match the current filters."}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-28">Dataset</TableHead>
+                    <TableHead className="w-16 text-right">Row</TableHead>
+                    <TableHead>Column</TableHead>
+                    <TableHead className="w-32">Type</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Message</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredViolations.slice(0, visibleCount).map((violation, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="text-xs">{DATASET_SCHEMAS[violation.dataset].label}</TableCell>
+                      <TableCell className="text-xs text-right">{violation.row || "—"}</TableCell>
+                      <TableCell className="text-xs font-mono">{violation.column}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-[10px]">{KIND_LABELS[violation.kind]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono max-w-[160px] truncate">
+                        {violation.value === undefined || violation.value === null ? "—" : String(violation.value)}
+                      </TableCell>
+                      <TableCell className="text-xs">{violation.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {filteredViolations.length > visibleCount && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                Showing {visibleCount.toLocaleString()} of {filteredViolations.length.toLocaleString()}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+                Show more
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -9,7 +9,12 @@ import {
 import { ScrollArea } from "./ui/scroll-area";
 import { WhatIfAnalysis } from "./WhatIfAnalysis";
 import { Weights, BucketAssignment } from "../utils/scoreCalculation";
-import { GlobalFilters } from "../types";
+import { ScoringOptions } from "../utils/continuousScoring";
+import { LabelThresholds } from "../utils/labelThresholds";
+import { CategorizationOptions } from "../utils/categorization";
+import { BucketWeightingOptions } from "../utils/bucketWeighting";
+import { ScoringBucket } from "../utils/scoringBuckets";
+import { ColumnLayoutEntry, GlobalFilters } from "../types";
 
 interface FilterDrawerProps {
   isOpen: boolean;
@@ -19,11 +24,22 @@ interface FilterDrawerProps {
   setWeights: (weights: Weights) => void;
   bucketAssignments: BucketAssignment[];
   setBucketAssignments: (assignments: BucketAssignment[]) => void;
-  bucketWeights: { high: number; medium: number };
-  setBucketWeights: (weights: { high: number; medium: number }) => void;
+  buckets: ScoringBucket[];
+  setBuckets: (buckets: ScoringBucket[]) => void;
+  bucketWeighting: BucketWeightingOptions;
+  setBucketWeighting: (weighting: BucketWeightingOptions) => void;
+  scoringOptions: ScoringOptions;
+  setScoringOptions: (options: ScoringOptions) => void;
+  sourceData: any[];
+  labelThresholds: LabelThresholds;
+  setLabelThresholds: (thresholds: LabelThresholds) => void;
+  categorization: CategorizationOptions;
+  setCategorization: (options: CategorizationOptions) => void;
   globalFilters: GlobalFilters;
   setGlobalFilters: (filters: GlobalFilters) => void;
   resetGlobalFilters: () => void;
+  columnLayout: ColumnLayoutEntry[];
+  setColumnLayout: (layout: ColumnLayoutEntry[]) => void;
 }
 
 export function FilterDrawer({
@@ -34,11 +50,22 @@ export function FilterDrawer({
   setWeights,
   bucketAssignments,
   setBucketAssignments,
-  bucketWeights,
-  setBucketWeights,
+  buckets,
+  setBuckets,
+  bucketWeighting,
+  setBucketWeighting,
+  scoringOptions,
+  setScoringOptions,
+  sourceData,
+  labelThresholds,
+  setLabelThresholds,
+  categorization,
+  setCategorization,
   globalFilters,
   setGlobalFilters,
   resetGlobalFilters,
+  columnLayout,
+  setColumnLayout,
 }: FilterDrawerProps) {
   return (
     <Sheet open={isOpen} onOpenChange={onOpenChange}>
@@ -57,11 +84,22 @@ export function FilterDrawer({
             setWeights={setWeights}
             bucketAssignments={bucketAssignments}
             setBucketAssignments={setBucketAssignments}
-            bucketWeights={bucketWeights}
-            setBucketWeights={setBucketWeights}
+            buckets={buckets}
+            setBuckets={setBuckets}
+            bucketWeighting={bucketWeighting}
+            setBucketWeighting={setBucketWeighting}
+            scoringOptions={scoringOptions}
+            setScoringOptions={setScoringOptions}
+            sourceData={sourceData}
+            labelThresholds={labelThresholds}
+            setLabelThresholds={setLabelThresholds}
+            categorization={categorization}
+            setCategorization={setCategorization}
             globalFilters={globalFilters}
             setGlobalFilters={setGlobalFilters}
             resetGlobalFilters={resetGlobalFilters}
+            columnLayout={columnLayout}
+            setColumnLayout={setColumnLayout}
           />
         </div>
       </SheetContent>
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from "recharts";
+import { RotateCcw, Ruler, AlertTriangle } from "lucide-react";
+import { Card } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { RAW_METRICS } from "../utils/continuousScoring";
+import {
+  LabelThresholds,
+  applyLabelThresholds,
+  buildHistogram,
+  canSetThreshold,
+  deriveLabel,
+  getRawValues,
+  getThresholdLabels,
+  inferThreshold,
+  summarizeLabelChanges,
+} from "../utils/labelThresholds";
+
+interface LabelThresholdEditorProps {
+  // Rows with the labels from the file (before any thresholds)
+  rows: Record<string, any>[];
+  thresholds: LabelThresholds;
+  onChange: (thresholds: LabelThresholds) => void;
+  parameters: Array<{ id: string; label: string }>;
+}
+
+// Bar colors for the labels in order of increasing raw value
+const LABEL_COLORS = ["#94a3b8", "#60a5fa", "#2563eb"];
+
+const formatValue = (value: number): string =>
+  Math.abs(value) >= 1e6
+    ? `${(value / 1e6).toLocaleString(undefined, { maximumFractionDigits: 1 })}M`
+    : value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 3 });
+
+// Set where each parameter's High/Medium/Low labels start, with a histogram of the raw values
+export function LabelThresholdEditor({ rows, thresholds, onChange, parameters }: LabelThresholdEditorProps) {
+  const editableParameters = parameters.filter(parameter => canSetThreshold(parameter.id));
+  const [parameterId, setParameterId] = useState(editableParameters[0]?.id ?? "");
+  const [lowerDraft, setLowerDraft] = useState("");
+  const [upperDraft, setUpperDraft] = useState("");
+
+  const labels = getThresholdLabels(parameterId);
+  const inferred = useMemo(() => inferThreshold(rows, parameterId), [rows, parameterId]);
+  const threshold = thresholds[parameterId] ?? inferred?.threshold ?? null;
+  const isCustom = parameterId in thresholds;
+
+  // Show the active cut points whenever the parameter or its threshold changes
+  useEffect(() => {
+    setLowerDraft(threshold ? String(Number(threshold.lower.toPrecision(6))) : "");
+    setUpperDraft(threshold ? String(Number(threshold.upper.toPrecision(6))) : "");
+  }, [parameterId, threshold?.lower, threshold?.upper]);
+
+  const histogram = useMemo(() => buildHistogram(getRawValues(rows, parameterId)), [rows, parameterId]);
+
+  const relabeledRows = useMemo(() => applyLabelThresholds(rows, thresholds), [rows, thresholds]);
+  const summary = useMemo(
+    () => summarizeLabelChanges(rows, relabeledRows, parameterId),
+    [rows, relabeledRows, parameterId]
+  );
+  const totalMoved = useMemo(
+    () => Object.keys(thresholds).reduce((sum, id) => sum + summarizeLabelChanges(rows, relabeledRows, id).moved, 0),
+    [rows, relabeledRows, thresholds]
+  );
+
+  const lower = parseFloat(lowerDraft);
+  const upper = parseFloat(upperDraft);
+  const draftError = !isFinite(lower) || !isFinite(upper)
+    ? "Enter both cut points"
+    : lower > upper
+      ? "The lower cut point must not be above the upper one"
+      : null;
+  const draftChanged = !!threshold && !draftError && (lower !== Number(threshold.lower.toPrecision(6)) || upper !== Number(threshold.upper.toPrecision(6)));
+
+  const applyDraft = () => {
+    if (draftError) return;
+    onChange({ ...thresholds, [parameterId]: { lower, upper } });
+  };
+
+  const resetParameter = () => {
+    const { [parameterId]: _removed, ...rest } = thresholds;
+    onChange(rest);
+  };
+
+  if (editableParameters.length === 0 || !labels) return null;
+
+  const parameterLabel = editableParameters.find(parameter => parameter.id === parameterId)?.label ?? parameterId;
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="text-sm flex items-center gap-2">
+            <Ruler className="h-4 w-4" />
+            Label Thresholds
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Choose where each parameter's labels start on its raw metric. Labels are re-derived before scores are calculated.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {Object.keys(thresholds).length > 0 && (
+            <Badge variant="outline" className="text-xs">
+              {totalMoved} label {totalMoved === 1 ? "change" : "changes"} across {Object.keys(thresholds).length} {Object.keys(thresholds).length === 1 ? "parameter" : "parameters"}
+            </Badge>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => onChange({})} disabled={Object.keys(thresholds).length === 0}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset All
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-4">
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <Select value={parameterId} onValueChange={setParameterId}>
+              <SelectTrigger className="w-64 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {editableParameters.map(parameter => (
+                  <SelectItem key={parameter.id} value={parameter.id}>
+                    {parameter.label}{parameter.id in thresholds ? " (custom)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground truncate">{RAW_METRICS[parameterId]?.column}</span>
+          </div>
+
+          <ResponsiveContainer width="100%" height={180}>
+            <BarChart data={histogram} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis
+                dataKey="x0"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatValue}
+                tick={{ fontSize: 10 }}
+              />
+              <YAxis allowDecimals={false} tick={{ fontSize: 10 }} width={30} />
+              <Tooltip
+                formatter={(value: number) => [value, "MSAs"]}
+                labelFormatter={(_, payload) => {
+                  const bin = payload?.[0]?.payload;
+                  return bin ? `${formatValue(bin.x0)} - ${formatValue(bin.x1)}` : "";
+                }}
+              />
+              <Bar dataKey="count">
+                {histogram.map((bin, index) => {
+                  const label = threshold ? deriveLabel((bin.x0 + bin.x1) / 2, threshold, labels) : labels[1];
+                  return <Cell key={index} fill={LABEL_COLORS[labels.indexOf(label)]} />;
+                })}
+              </Bar>
+              {threshold && <ReferenceLine x={threshold.lower} stroke="#dc2626" strokeDasharray="4 2" />}
+              {threshold && <ReferenceLine x={threshold.upper} stroke="#dc2626" strokeDasharray="4 2" />}
+            </BarChart>
+          </ResponsiveContainer>
+
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">{labels[1]} from</Label>
+              <Input className="h-8 w-32 text-xs" type="number" value={lowerDraft} onChange={(e) => setLowerDraft(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{labels[2]} from</Label>
+              <Input className="h-8 w-32 text-xs" type="number" value={upperDraft} onChange={(e) => setUpperDraft(e.target.value)} />
+            </div>
+            <Button size="sm" onClick={applyDraft} disabled={!!draftError || (!draftChanged && isCustom)}>
+              Apply
+            </Button>
+            <Button variant="ghost" size="sm" onClick={resetParameter} disabled={!isCustom}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Use file labels
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Below {labels[1]} is {labels[0]}. {draftError && <span className="text-destructive">{draftError}.</span>}
+          </p>
+          {!isCustom && inferred && !inferred.reproducesLabels && (
+            <p className="text-xs text-amber-700 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              The file's {parameterLabel} labels aren't a single cut on this metric, so the cut points start at tertiles.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Label</TableHead>
+                <TableHead className="text-xs text-right">File</TableHead>
+                <TableHead className="text-xs text-right">Thresholds</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.counts.map(count => (
+                <TableRow key={count.label}>
+                  <TableCell className="text-xs">{count.label}</TableCell>
+                  <TableCell className="text-xs text-right">{count.before}</TableCell>
+                  <TableCell className="text-xs text-right">
+                    {count.after}
+                    {count.after !== count.before && (
+                      <span className={count.after > count.before ? "text-green-600 ml-1" : "text-red-600 ml-1"}>
+                        ({count.after > count.before ? "+" : ""}{count.after - count.before})
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            {isCustom
+              ? `${summary.moved} ${summary.moved === 1 ? "MSA" : "MSAs"} moved label`
+              : "Using the labels from the file"}
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+}
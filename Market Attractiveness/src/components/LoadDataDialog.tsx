@@ -0,0 +1,417 @@
+import { useRef, useState } from "react";
+import { Upload, FileSpreadsheet, CheckCircle2, AlertTriangle, Loader2, RotateCcw, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { csvDataService } from "../utils/csvDataService";
+import { DatasetKey, LoadedDataset } from "../utils/dataSource";
+import { clearRegionMapping, setRegionMapping } from "../utils/stateToRegionMapping";
+import {
+  ColumnMapping,
+  UploadedFile,
+  UploadTarget,
+  UPLOAD_TARGET_LABELS,
+  applyColumnMapping,
+  getExpectedColumns,
+  getUnmappedRequiredColumns,
+  readUploadedFile,
+  suggestColumnMapping,
+} from "../utils/datasetUpload";
+
+const UPLOAD_TARGETS: UploadTarget[] = ["attractiveness", "opportunity", "economics", "regions"];
+
+const UPLOAD_TARGET_DESCRIPTIONS: Record<UploadTarget, string> = {
+  attractiveness: "One row per MSA and product with the *_Score columns (replaces attractivenes.csv)",
+  opportunity: "One row per MSA, product and provider (replaces opportunity.csv)",
+  economics: "Unemployment, GDP, income and population per MSA (replaces msa_economics.csv)",
+  regions: "MSA and Region columns - overrides the state-based region of each MSA",
+};
+
+// Select value used for "not mapped" (Radix selects don't allow an empty string value)
+const UNMAPPED = "__unmapped__";
+
+interface SelectedUpload {
+  file: File;
+  uploaded: UploadedFile;
+  mapping: ColumnMapping;
+}
+
+interface LoadDataDialogProps {
+  onDataLoaded: () => void;
+}
+
+// Header button plus a two-step dialog: choose files, then map their columns onto ours
+export function LoadDataDialog({ onDataLoaded }: LoadDataDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<"files" | "columns">("files");
+  const [uploads, setUploads] = useState<Partial<Record<UploadTarget, SelectedUpload>>>({});
+  const [readingTarget, setReadingTarget] = useState<UploadTarget | null>(null);
+  const [fileErrors, setFileErrors] = useState<Partial<Record<UploadTarget, string>>>({});
+  const [mappingTarget, setMappingTarget] = useState<UploadTarget>("attractiveness");
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+  // Keep the current data as a separate vintage instead of replacing it
+  const [asNewVintage, setAsNewVintage] = useState(false);
+  const [vintageLabel, setVintageLabel] = useState("");
+  const fileInputs = useRef<Partial<Record<UploadTarget, HTMLInputElement | null>>>({});
+
+  const selectedTargets = UPLOAD_TARGETS.filter(target => uploads[target]);
+
+  const resetDialog = () => {
+    setStep("files");
+    setUploads({});
+    setFileErrors({});
+    setApplyError(null);
+    setAsNewVintage(false);
+    setVintageLabel("");
+  };
+
+  const readFile = async (target: UploadTarget, file: File, sheetName?: string) => {
+    setReadingTarget(target);
+    setFileErrors(prev => ({ ...prev, [target]: undefined }));
+    try {
+      const uploaded = await readUploadedFile(file, sheetName);
+      if (uploaded.records.length === 0) {
+        throw new Error(`${file.name} does not contain any data rows`);
+      }
+      const mapping = suggestColumnMapping(getExpectedColumns(target), uploaded.headers);
+      setUploads(prev => ({ ...prev, [target]: { file, uploaded, mapping } }));
+    } catch (error) {
+      console.error(`Error reading ${file.name}:`, error);
+      setFileErrors(prev => ({ ...prev, [target]: error instanceof Error ? error.message : "Could not read file" }));
+      setUploads(prev => ({ ...prev, [target]: undefined }));
+    } finally {
+      setReadingTarget(null);
+    }
+  };
+
+  const removeFile = (target: UploadTarget) => {
+    setUploads(prev => ({ ...prev, [target]: undefined }));
+    setFileErrors(prev => ({ ...prev, [target]: undefined }));
+    const input = fileInputs.current[target];
+    if (input) input.value = "";
+  };
+
+  const updateMapping = (target: UploadTarget, column: string, source: string) => {
+    setUploads(prev => {
+      const upload = prev[target];
+      if (!upload) return prev;
+      return {
+        ...prev,
+        [target]: { ...upload, mapping: { ...upload.mapping, [column]: source === UNMAPPED ? "" : source } },
+      };
+    });
+  };
+
+  const unmappedRequired = (target: UploadTarget) => {
+    const upload = uploads[target];
+    return upload ? getUnmappedRequiredColumns(getExpectedColumns(target), upload.mapping) : [];
+  };
+
+  const canApply = selectedTargets.length > 0 &&
+    selectedTargets.every(target => unmappedRequired(target).length === 0) &&
+    (!asNewVintage || vintageLabel.trim() !== "");
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setApplyError(null);
+    try {
+      const datasets: Partial<Record<DatasetKey, LoadedDataset>> = {};
+      let regionEntries: Array<{ MSA: string; Region: string }> | null = null;
+      for (const target of selectedTargets) {
+        const upload = uploads[target]!;
+        const records = applyColumnMapping(upload.uploaded.records, upload.mapping);
+        if (target === "regions") {
+          regionEntries = records.map(record => ({ MSA: record.MSA, Region: record.Region }));
+        } else {
+          datasets[target] = { records, issues: upload.uploaded.issues };
+        }
+      }
+
+      if (Object.keys(datasets).length > 0) {
+        csvDataService.setUploadedDatasets(datasets, asNewVintage ? vintageLabel.trim() : undefined);
+        // Load now so problems surface here rather than on every tab
+        await csvDataService.loadData();
+      }
+      // Only once the datasets have loaded, so a failed load leaves the current regions in place
+      if (regionEntries) setRegionMapping(regionEntries);
+
+      onDataLoaded();
+      setIsOpen(false);
+      resetDialog();
+    } catch (error) {
+      console.error("Error applying uploaded data:", error);
+      setApplyError(error instanceof Error ? error.message : "Failed to load the uploaded data");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleRestoreDefaults = async () => {
+    setIsApplying(true);
+    setApplyError(null);
+    try {
+      csvDataService.resetDataSource();
+      clearRegionMapping();
+      await csvDataService.loadData();
+      onDataLoaded();
+      setIsOpen(false);
+      resetDialog();
+    } catch (error) {
+      console.error("Error restoring default data:", error);
+      setApplyError(error instanceof Error ? error.message : "Failed to restore the default data");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const activeMappingTarget = uploads[mappingTarget] ? mappingTarget : selectedTargets[0];
+  const activeUpload = activeMappingTarget ? uploads[activeMappingTarget] : undefined;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2"
+      >
+        <Upload className="h-4 w-4" />
+        Load Data
+      </Button>
+
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open);
+          if (!open) resetDialog();
+        }}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Load Data</DialogTitle>
+            <DialogDescription>
+              {step === "files"
+                ? "Upload replacement datasets as CSV or Excel. Datasets you don't upload keep their current data."
+                : "Match the columns in your files to the columns the dashboard expects."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === "files" ? (
+            <div className="space-y-3 overflow-auto">
+              {UPLOAD_TARGETS.map(target => {
+                const upload = uploads[target];
+                const error = fileErrors[target];
+                return (
+                  <div key={target} className="border rounded-lg p-3 flex items-start gap-3">
+                    <FileSpreadsheet className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="text-sm font-medium">{UPLOAD_TARGET_LABELS[target]}</div>
+                      <p className="text-xs text-muted-foreground">{UPLOAD_TARGET_DESCRIPTIONS[target]}</p>
+                      {upload && (
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                          <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                          <span className="truncate max-w-[240px]">{upload.file.name}</span>
+                          <Badge variant="secondary" className="text-[10px]">
+                            {upload.uploaded.records.length.toLocaleString()} rows
+                          </Badge>
+                          {upload.uploaded.issues.length > 0 && (
+                            <Badge variant="outline" className="text-[10px] text-amber-700">
+                              {upload.uploaded.issues.length} parse issues
+                            </Badge>
+                          )}
+                          {upload.uploaded.sheetNames.length > 1 && (
+                            <Select
+                              value={upload.uploaded.sheetName}
+                              onValueChange={(sheet) => readFile(target, upload.file, sheet)}
+                            >
+                              <SelectTrigger className="h-6 w-40 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {upload.uploaded.sheetNames.map(sheet => (
+                                  <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      )}
+                      {error && (
+                        <div className="flex items-center gap-1 text-xs text-destructive">
+                          <AlertTriangle className="h-3.5 w-3.5" />
+                          {error}
+                        </div>
+                      )}
+                    </div>
+                    <input
+                      ref={(el) => { fileInputs.current[target] = el; }}
+                      type="file"
+                      accept=".csv,.txt,.xlsx,.xlsm,.xls"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) readFile(target, file);
+                      }}
+                    />
+                    <div className="flex items-center gap-1">
+                      {readingTarget === target ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => fileInputs.current[target]?.click()}>
+                          {upload ? "Replace" : "Choose file"}
+                        </Button>
+                      )}
+                      {upload && (
+                        <Button variant="ghost" size="sm" onClick={() => removeFile(target)} aria-label="Remove file">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <div className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="load-as-vintage"
+                    checked={asNewVintage}
+                    onCheckedChange={(checked) => setAsNewVintage(checked === true)}
+                  />
+                  <Label htmlFor="load-as-vintage" className="text-sm">Load as a new vintage</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Keeps the current data so the two periods can be compared. The new vintage becomes current.
+                </p>
+                {asNewVintage && (
+                  <Input
+                    placeholder="Vintage label, e.g. 2025 Q1"
+                    value={vintageLabel}
+                    onChange={(e) => setVintageLabel(e.target.value)}
+                    className="h-8 text-sm max-w-xs"
+                  />
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-3 min-h-0 flex-1">
+              <Tabs value={activeMappingTarget} onValueChange={(value) => setMappingTarget(value as UploadTarget)}>
+                <TabsList>
+                  {selectedTargets.map(target => (
+                    <TabsTrigger key={target} value={target} className="gap-1.5">
+                      {UPLOAD_TARGET_LABELS[target]}
+                      {unmappedRequired(target).length > 0 && <AlertTriangle className="h-3.5 w-3.5 text-amber-600" />}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+
+              {activeUpload && activeMappingTarget && (
+                <div className="flex-1 overflow-auto border rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted/50 sticky top-0">
+                      <tr>
+                        <th className="text-left p-2">Expected column</th>
+                        <th className="text-left p-2">Column in {activeUpload.file.name}</th>
+                        <th className="text-left p-2">Sample</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {getExpectedColumns(activeMappingTarget).map(column => {
+                        const source = activeUpload.mapping[column.name];
+                        const sample = source ? activeUpload.uploaded.records[0]?.[source] : undefined;
+                        const isMissing = column.required && !source;
+                        return (
+                          <tr key={column.name} className={`border-t ${isMissing ? "bg-amber-50" : ""}`}>
+                            <td className="p-2 font-mono">
+                              {column.name}
+                              {column.required && <span className="text-destructive ml-0.5">*</span>}
+                            </td>
+                            <td className="p-2">
+                              <Select
+                                value={source || UNMAPPED}
+                                onValueChange={(value) => updateMapping(activeMappingTarget, column.name, value)}
+                              >
+                                <SelectTrigger className="h-7 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                                  {activeUpload.uploaded.headers.map(header => (
+                                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </td>
+                            <td className="p-2 text-muted-foreground truncate max-w-[180px]">
+                              {sample === undefined || sample === null ? "—" : String(sample)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {activeMappingTarget && unmappedRequired(activeMappingTarget).length > 0 && (
+                <p className="text-xs text-amber-700">
+                  Map the required columns before loading: {unmappedRequired(activeMappingTarget).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {applyError && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {applyError}
+            </div>
+          )}
+
+          <DialogFooter className="sm:justify-between">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRestoreDefaults}
+              disabled={isApplying}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Restore default data
+            </Button>
+            <div className="flex gap-2">
+              {step === "columns" && (
+                <Button variant="outline" onClick={() => setStep("files")} disabled={isApplying}>
+                  Back
+                </Button>
+              )}
+              {step === "files" ? (
+                <Button
+                  onClick={() => {
+                    setMappingTarget(selectedTargets[0]);
+                    setStep("columns");
+                  }}
+                  disabled={selectedTargets.length === 0 || readingTarget !== null}
+                >
+                  Next: Map columns
+                </Button>
+              ) : (
+                <Button onClick={handleApply} disabled={!canApply || isApplying} className="flex items-center gap-2">
+                  {isApplying && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Load data
+                </Button>
+              )}
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
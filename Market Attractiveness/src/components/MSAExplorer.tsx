@@ -5,7 +5,7 @@ import { Label } from "./ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Badge } from "./ui/badge";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LabelList, ScatterChart, Scatter, ZAxis, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, Legend } from "recharts";
-import { Search, ChevronDown, ChevronUp, Download, Eye, Filter, TrendingUp, MapPin, Info, BarChart3, Maximize2, Target, Loader2, DollarSign, Building2, Users, ArrowUpDown, ArrowUp, ArrowDown, X } from "lucide-react";
+import { Search, ChevronDown, ChevronUp, Download, Eye, Filter, TrendingUp, MapPin, Info, BarChart3, Maximize2, Target, Loader2, DollarSign, Building2, Users, ArrowUpDown, ArrowUp, ArrowDown, X, Layers } from "lucide-react";
 import { Button } from "./ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
 import { Checkbox } from "./ui/checkbox";
@@ -13,7 +13,12 @@ import { ScrollArea } from "./ui/scroll-area";
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "./ui/command";
 import { calculateDefensiveValue, calculateBucketModeScore, calculateAttractivenessScore, getCategoriesByQuartiles, DEFAULT_BUCKET_ASSIGNMENTS } from "../utils/scoreCalculation";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION, getCategoryBadgeClass, getLabelsBestFirst } from "../utils/categorization";
+import { DEFAULT_SCORING_OPTIONS, ScoringOptions } from "../utils/continuousScoring";
+import { BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING } from "../utils/bucketWeighting";
+import { DEFAULT_BUCKETS, ScoringBucket } from "../utils/scoringBuckets";
 import { applyGlobalFilters } from "../utils/applyGlobalFilters";
+import { SCORED_PARAMETERS, getLabelScore, getParameter, getParameterValue } from "../utils/parameterRegistry";
 import { fetchFilterBuckets, fetchMSADetails, fetchAllOpportunitiesRaw, fetchMSAAttractivenessWithDeposits } from "../utils/csvDataHooks";
 import { USAMap } from "./USAMap";
 import { MSADetailView } from "./MSADetailView";
@@ -23,6 +28,16 @@ import { MSACompetitiveTable } from "./MSACompetitiveTable";
 import { SelectedProvidersPanel } from "./SelectedProvidersPanel";
 import { useMSAEconomics, fetchMSAEconomics } from "../utils/csvDataHooks";
 import { MSAEconomicsData } from "../utils/csvDataService";
+import { MSAChange, ProviderChange } from "../utils/vintageComparison";
+import { isSameMSA } from "../utils/msaRegistry";
+import { VintageChangePanel, VintageDelta } from "./VintageComparison";
+import { RankStabilityPanel } from "./RankStabilityPanel";
+import { ScoreWaterfallDialog } from "./ScoreWaterfallDialog";
+import { ParetoFrontierPanel } from "./ParetoFrontierPanel";
+import { SimilarMarketsDialog } from "./SimilarMarketsDialog";
+import { DEFAULT_PARETO_OBJECTIVES, computeParetoFrontier } from "../utils/paretoFrontier";
+import { ArchetypePanel } from "./ArchetypePanel";
+import { ArchetypeOptions, ArchetypeResult } from "../utils/marketArchetypes";
 
 interface MSAData {
   MSA: string;
@@ -48,6 +63,7 @@ interface MSAData {
   International_CM_Score: string;
   Pricing_Rationality: string;
   Pricing_Rationality_Explanation: string;
+  Archetype?: string;
 }
 
 interface OpportunityData {
@@ -69,19 +85,84 @@ interface MSAExplorerProps {
   weights: any;
   globalFilters?: any;
   bucketAssignments?: any;
-  bucketWeights?: { high: number; medium: number };
+  buckets?: ScoringBucket[];
   selectedProviders?: Set<string>;
   onToggleProviderSelection?: (provider: string) => void;
   onClearProviderSelections?: () => void;
   onNavigateToCompetitorAnalysis?: () => void;
   onMSASelectionChange?: (msas: Set<string>) => void;
+  // Period-over-period changes when a comparison vintage is selected
+  msaChanges?: Map<string, MSAChange> | null;
+  providerChanges?: ProviderChange[] | null;
+  comparisonLabel?: string | null;
+  // Tiers behind Attractiveness_Category, for ordering and colors
+  categorization?: CategorizationOptions;
+  // How parameters are scored and how bucket weights are shared, for the rank-stability simulation
+  scoringOptions?: ScoringOptions;
+  bucketWeighting?: BucketWeightingOptions;
+  // Market archetypes (clustered in App) and the settings behind them
+  archetypes?: ArchetypeResult;
+  archetypeOptions?: ArchetypeOptions;
+  onArchetypeOptionsChange?: (options: ArchetypeOptions) => void;
 }
 
 
 
 
 
-export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, bucketWeights = { high: 60, medium: 40 }, selectedProviders, onToggleProviderSelection, onClearProviderSelections, onNavigateToCompetitorAnalysis, onMSASelectionChange }: MSAExplorerProps) {
+interface ColumnFilterPopoverProps {
+  values: string[];
+  selected: Set<string>;
+  onChange: (selected: Set<string>) => void;
+}
+
+// Multi-select filter for a table column; an empty selection shows every row
+function ColumnFilterPopover({ values, selected, onChange }: ColumnFilterPopoverProps) {
+  const allSelected = selected.size === values.length && values.length > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="p-0.5 hover:bg-muted rounded">
+          <Filter className={`h-3 w-3 ${selected.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search..." />
+          <CommandList>
+            <CommandEmpty>No results found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem onSelect={() => onChange(allSelected ? new Set() : new Set(values))}>
+                <Checkbox checked={allSelected} className="mr-2" />
+                Select All
+              </CommandItem>
+              {values.map((value) => (
+                <CommandItem
+                  key={value}
+                  onSelect={() => {
+                    const newFilter = new Set(selected);
+                    if (newFilter.has(value)) {
+                      newFilter.delete(value);
+                    } else {
+                      newFilter.add(value);
+                    }
+                    onChange(newFilter);
+                  }}
+                >
+                  <Checkbox checked={selected.has(value)} className="mr-2" />
+                  {value}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, buckets = DEFAULT_BUCKETS, selectedProviders, onToggleProviderSelection, onClearProviderSelections, onNavigateToCompetitorAnalysis, onMSASelectionChange, msaChanges, providerChanges, comparisonLabel, categorization = DEFAULT_CATEGORIZATION, scoringOptions = DEFAULT_SCORING_OPTIONS, bucketWeighting = DEFAULT_BUCKET_WEIGHTING, archetypes, archetypeOptions, onArchetypeOptionsChange }: MSAExplorerProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedAttractiveness, setSelectedAttractiveness] = useState("all");
   const [selectedPricing, setSelectedPricing] = useState("all");
@@ -105,15 +186,16 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
   
   // Filter state for Top MSAs table
   const [attractivenessFilter, setAttractivenessFilter] = useState<Set<string>>(new Set());
-  const [marketConcFilter, setMarketConcFilter] = useState<Set<string>>(new Set());
-  const [econGrowthFilter, setEconGrowthFilter] = useState<Set<string>>(new Set());
-  const [loanGrowthFilter, setLoanGrowthFilter] = useState<Set<string>>(new Set());
-  const [riskFilter, setRiskFilter] = useState<Set<string>>(new Set());
-  const [riskMigrationFilter, setRiskMigrationFilter] = useState<Set<string>>(new Set());
-  const [relRiskMigFilter, setRelRiskMigFilter] = useState<Set<string>>(new Set());
-  const [premiumDiscFilter, setPremiumDiscFilter] = useState<Set<string>>(new Set());
-  const [pricingFilter, setPricingFilter] = useState<Set<string>>(new Set());
-  const [intlCMFilter, setIntlCMFilter] = useState<Set<string>>(new Set());
+  // Selected values per parameter id; a parameter with no entry (or an empty set) isn't filtered
+  const [parameterFilters, setParameterFilters] = useState<Record<string, Set<string>>>({});
+  const [moversOnly, setMoversOnly] = useState(false);
+  const [paretoObjectives, setParetoObjectives] = useState<string[]>(DEFAULT_PARETO_OBJECTIVES);
+  const [frontierOnly, setFrontierOnly] = useState(false);
+
+  // The attractiveness filter holds tier labels, so clear it when the tiers change
+  useEffect(() => {
+    setAttractivenessFilter(new Set());
+  }, [categorization.labels.join("|")]);
 
   // Get the selected MSA name when exactly one MSA is selected
   const selectedMSAName: string | null = selectedForComparison.size === 1 
@@ -227,6 +309,17 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
       : data;
   }, [data, globalFilters, bucketAssignments, filterBuckets]);
 
+  const globallyFilteredMSAs = useMemo(
+    () => new Set(globallyFilteredData.map(item => item.MSA)),
+    [globallyFilteredData]
+  );
+
+  // Pareto frontier over the MSAs the global filters leave in
+  const pareto = useMemo(
+    () => computeParetoFrontier(globallyFilteredData, paretoObjectives),
+    [globallyFilteredData, paretoObjectives]
+  );
+
   const filteredData = useMemo(() => {
     // Debug: Check what data we're receiving
     const charlotte = globallyFilteredData.find(item => item.MSA.includes('Charlotte'));
@@ -256,85 +349,15 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     });
   }, [globallyFilteredData, searchTerm, selectedAttractiveness, selectedPricing, selectedGrowth]);
 
-  // Get badge color based on parameter type and value
-  const getParameterColor = (parameterType: string, value: string): string => {
-    if (!value) return "bg-gray-50 text-gray-700 border-gray-300";
-    
-    const normalized = value.toLowerCase();
-    
-    // Inverse scoring parameters (Low is good, High is bad)
-    if (["HHI_Score", "Risk_Score", "Risk_Migration_Score"].includes(parameterType)) {
-      if (normalized === "low") return "bg-green-50 text-green-700 border-green-300";
-      if (normalized === "medium") return "bg-yellow-50 text-yellow-700 border-yellow-300";
-      if (normalized === "high") return "bg-red-50 text-red-700 border-red-300";
-    }
-    
-    // Relative Risk Migration (Below National is good, Above National is bad)
-    if (parameterType === "Relative_Risk_Migration_Score") {
-      if (normalized.includes("below")) return "bg-green-50 text-green-700 border-green-300";
-      if (normalized.includes("at")) return "bg-yellow-50 text-yellow-700 border-yellow-300";
-      if (normalized.includes("above")) return "bg-red-50 text-red-700 border-red-300";
-    }
-    
-    // Premium/Discount (Premium is good, Discount is bad)
-    if (parameterType === "Premium_Discount_Score") {
-      if (normalized === "premium") return "bg-green-50 text-green-700 border-green-300";
-      if (normalized === "par") return "bg-yellow-50 text-yellow-700 border-yellow-300";
-      if (normalized === "discount") return "bg-red-50 text-red-700 border-red-300";
-    }
-    
-    // Pricing Rationality (Rational is good, Irrational is bad)
-    if (parameterType === "Pricing_Rationality_Score") {
-      if (normalized === "rational") return "bg-green-50 text-green-700 border-green-300";
-      if (normalized === "irrational") return "bg-red-50 text-red-700 border-red-300";
-    }
-    
-    // Normal scoring parameters (High is good, Low is bad)
-    if (["Economic_Growth_Score", "Loan_Growth_Score", "International_CM_Score", "Market_Size_Score", "Revenue_per_Company_Score"].includes(parameterType)) {
-      if (normalized === "high") return "bg-green-50 text-green-700 border-green-300";
-      if (normalized === "medium") return "bg-yellow-50 text-yellow-700 border-yellow-300";
-      if (normalized === "low") return "bg-red-50 text-red-700 border-red-300";
-    }
-    
+  // Badge color from how attractive the value is for the parameter: green at the better end, red at the worse
+  const getParameterColor = (parameterId: string, value: string): string => {
+    const score = getLabelScore(parameterId, value);
+    if (score >= 3) return "bg-green-50 text-green-700 border-green-300";
+    if (score >= 2) return "bg-yellow-50 text-yellow-700 border-yellow-300";
+    if (score >= 1) return "bg-red-50 text-red-700 border-red-300";
     return "bg-gray-50 text-gray-700 border-gray-300";
   };
 
-  // Convert score text to numeric value (used for comparison radar chart)
-  const scoreToValue = (score: string, isInverse: boolean = false): number => {
-    if (!score) return 0;
-    const normalized = score.toLowerCase().trim();
-    
-    // Special handling for Pricing_Rationality_Score
-    // Values: "Rational", "Overpriced (Opportunity)", "Underpriced (Risk)"
-    if (normalized.includes("rational")) return 3; // Best - rational pricing
-    if (normalized.includes("overpriced") || normalized.includes("opportunity")) return 2; // Medium - opportunity
-    if (normalized.includes("underpriced") || normalized.includes("risk")) return 1; // Worst - risk
-    
-    // Special handling for Premium_Discount_Score
-    // Values: "Premium", "Par", "Discount"
-    if (normalized === "premium") return 3; // Best - premium pricing power
-    if (normalized === "par") return 2; // Medium - at market rate
-    if (normalized === "discount") return 1; // Worst - discount pricing
-    
-    // For inverse scoring (lower is better)
-    if (isInverse) {
-      if (normalized === "high") return 1;
-      if (normalized === "medium") return 2;
-      if (normalized === "low") return 3;
-      // For Relative Risk Migration
-      if (normalized === "above_national") return 1;
-      if (normalized === "at_national") return 2;
-      if (normalized === "below_national") return 3;
-      return 0;
-    }
-    
-    // Standard scoring (higher is better)
-    if (normalized === "high") return 3;
-    if (normalized === "medium") return 2;
-    if (normalized === "low") return 1;
-    return 0;
-  };
-
   // Handle column sorting
   const handleSort = (column: string) => {
     if (sortColumn === column) {
@@ -365,13 +388,11 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
   };
 
   // Order constants for filters and sorting: best (top) to worst (bottom)
-  const ATTRACTIVENESS_ORDER = ["Highly Attractive", "Attractive", "Neutral", "Challenging"];
-  const MARKET_CONC_ORDER = ["Low", "Medium", "High"];
-  const REL_RISK_MIG_ORDER = ["Below National Avg", "At National Avg", "Above National Avg"];
-  const HIGH_LOW_ORDER = ["High", "Medium", "Low"];
-  const RISK_ORDER = ["Low", "Medium", "High"];
-  const PREMIUM_DISC_ORDER = ["Premium", "Par", "Discount"];
-  const PRICING_ORDER = ["Rational", "Overpriced (Opportunity)", "Underpriced (Risk)"];
+  const ATTRACTIVENESS_ORDER = getLabelsBestFirst(categorization);
+
+  // Parameter values best first (by the registry's direction), then by name
+  const compareParameterValues = (parameterId: string, a: string, b: string): number =>
+    getLabelScore(parameterId, b) - getLabelScore(parameterId, a) || a.localeCompare(b);
 
   const compareByOrder = (a: string, b: string, order: string[], asc: boolean): number => {
     const idxA = order.indexOf(a);
@@ -389,32 +410,17 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     if (attractivenessFilter.size > 0) {
       result = result.filter(msa => attractivenessFilter.has(msa.Attractiveness_Category));
     }
-    if (marketConcFilter.size > 0) {
-      result = result.filter(msa => marketConcFilter.has(msa.HHI_Score));
-    }
-    if (econGrowthFilter.size > 0) {
-      result = result.filter(msa => econGrowthFilter.has(msa.Economic_Growth_Score));
-    }
-    if (loanGrowthFilter.size > 0) {
-      result = result.filter(msa => loanGrowthFilter.has(msa.Loan_Growth_Score));
-    }
-    if (riskFilter.size > 0) {
-      result = result.filter(msa => riskFilter.has(msa.Risk_Score));
-    }
-    if (riskMigrationFilter.size > 0) {
-      result = result.filter(msa => riskMigrationFilter.has(msa.Risk_Migration_Score));
-    }
-    if (relRiskMigFilter.size > 0) {
-      result = result.filter(msa => relRiskMigFilter.has(msa.Relative_Risk_Migration_Score));
-    }
-    if (premiumDiscFilter.size > 0) {
-      result = result.filter(msa => premiumDiscFilter.has(msa.Premium_Discount_Score));
-    }
-    if (pricingFilter.size > 0) {
-      result = result.filter(msa => pricingFilter.has(msa.Pricing_Rationality));
+    SCORED_PARAMETERS.forEach(parameter => {
+      const selected = parameterFilters[parameter.id];
+      if (selected && selected.size > 0) {
+        result = result.filter(msa => selected.has(getParameterValue(msa, parameter.id)));
+      }
+    });
+    if (moversOnly && msaChanges) {
+      result = result.filter(msa => msaChanges.get(msa.MSA)?.isMover);
     }
-    if (intlCMFilter.size > 0) {
-      result = result.filter(msa => intlCMFilter.has(msa.International_CM_Score));
+    if (frontierOnly) {
+      result = result.filter(msa => pareto.frontier.has(msa.MSA));
     }
     
     // Apply sorting
@@ -440,44 +446,16 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
             aValue = a.Attractiveness_Category;
             bValue = b.Attractiveness_Category;
             break;
-          case "marketConc":
-            aValue = a.HHI_Score;
-            bValue = b.HHI_Score;
-            break;
-          case "econGrowth":
-            aValue = a.Economic_Growth_Score;
-            bValue = b.Economic_Growth_Score;
-            break;
-          case "loanGrowth":
-            aValue = a.Loan_Growth_Score;
-            bValue = b.Loan_Growth_Score;
-            break;
-          case "risk":
-            aValue = a.Risk_Score;
-            bValue = b.Risk_Score;
-            break;
-          case "riskMigration":
-            aValue = a.Risk_Migration_Score;
-            bValue = b.Risk_Migration_Score;
-            break;
-          case "relRiskMig":
-            aValue = a.Relative_Risk_Migration_Score;
-            bValue = b.Relative_Risk_Migration_Score;
-            break;
-          case "premiumDisc":
-            aValue = a.Premium_Discount_Score;
-            bValue = b.Premium_Discount_Score;
+          case "archetype":
+            aValue = a.Archetype ?? "";
+            bValue = b.Archetype ?? "";
             break;
-          case "pricing":
-            aValue = a.Pricing_Rationality;
-            bValue = b.Pricing_Rationality;
-            break;
-          case "intlCM":
-            aValue = a.International_CM_Score;
-            bValue = b.International_CM_Score;
-            break;
-          default:
-            return 0;
+          default: {
+            const parameter = getParameter(sortColumn);
+            if (!parameter) return 0;
+            aValue = getParameterValue(a, parameter.id);
+            bValue = getParameterValue(b, parameter.id);
+          }
         }
         
         if (typeof aValue === "string" && typeof bValue === "string") {
@@ -485,23 +463,11 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
           switch (sortColumn) {
             case "attractiveness":
               return compareByOrder(aValue, bValue, ATTRACTIVENESS_ORDER, asc);
-            case "marketConc":
-              return compareByOrder(aValue, bValue, MARKET_CONC_ORDER, asc);
-            case "econGrowth":
-            case "loanGrowth":
-            case "intlCM":
-              return compareByOrder(aValue, bValue, HIGH_LOW_ORDER, asc);
-            case "risk":
-            case "riskMigration":
-              return compareByOrder(aValue, bValue, RISK_ORDER, asc);
-            case "relRiskMig":
-              return compareByOrder(aValue, bValue, REL_RISK_MIG_ORDER, asc);
-            case "premiumDisc":
-              return compareByOrder(aValue, bValue, PREMIUM_DISC_ORDER, asc);
-            case "pricing":
-              return compareByOrder(aValue, bValue, PRICING_ORDER, asc);
-            default:
+            case "msa":
+            case "archetype":
               return asc ? aValue.localeCompare(bValue) : bValue.localeCompare(aValue);
+            default:
+              return asc ? compareParameterValues(sortColumn, aValue, bValue) : compareParameterValues(sortColumn, bValue, aValue);
           }
         } else {
           const numA = typeof aValue === "number" ? aValue : 0;
@@ -515,7 +481,7 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     }
     
     return showAllRows ? result : result.slice(0, 10);
-  }, [filteredData, showAllRows, sortColumn, sortDirection, attractivenessFilter, marketConcFilter, econGrowthFilter, loanGrowthFilter, riskFilter, riskMigrationFilter, relRiskMigFilter, premiumDiscFilter, pricingFilter, intlCMFilter]);
+  }, [filteredData, showAllRows, sortColumn, sortDirection, attractivenessFilter, parameterFilters, moversOnly, msaChanges, frontierOnly, pareto, categorization]);
   
   const sortByOrder = (values: string[], order: string[]) => {
     return [...values].sort((a, b) => {
@@ -531,74 +497,30 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
   const uniqueAttractiveness = useMemo(() => {
     const values = Array.from(new Set(filteredData.map(m => m.Attractiveness_Category).filter(Boolean))) as string[];
     return sortByOrder(values, ATTRACTIVENESS_ORDER);
-  }, [filteredData]);
+  }, [filteredData, categorization]);
   
-  const uniqueMarketConc = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.HHI_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, MARKET_CONC_ORDER);
-  }, [filteredData]);
-  
-  const uniqueEconGrowth = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.Economic_Growth_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, HIGH_LOW_ORDER);
-  }, [filteredData]);
-  
-  const uniqueLoanGrowth = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.Loan_Growth_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, HIGH_LOW_ORDER);
-  }, [filteredData]);
-  
-  const uniqueRisk = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.Risk_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, RISK_ORDER);
-  }, [filteredData]);
-  
-  const uniquePricing = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.Pricing_Rationality).filter(Boolean))) as string[];
-    return sortByOrder(values, PRICING_ORDER);
-  }, [filteredData]);
-  
-  const uniqueRiskMigration = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.Risk_Migration_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, RISK_ORDER);
-  }, [filteredData]);
-  
-  const uniqueRelRiskMig = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.Relative_Risk_Migration_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, REL_RISK_MIG_ORDER);
-  }, [filteredData]);
-  
-  const uniquePremiumDisc = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.Premium_Discount_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, PREMIUM_DISC_ORDER);
-  }, [filteredData]);
-  
-  const uniqueIntlCM = useMemo(() => {
-    const values = Array.from(new Set(filteredData.map(m => m.International_CM_Score).filter(Boolean))) as string[];
-    return sortByOrder(values, HIGH_LOW_ORDER);
+  // Values present for each parameter, best first, for the column filters
+  const parameterValues = useMemo(() => {
+    const values: Record<string, string[]> = {};
+    SCORED_PARAMETERS.forEach(parameter => {
+      values[parameter.id] = (Array.from(new Set(filteredData.map(m => getParameterValue(m, parameter.id)).filter(Boolean))) as string[])
+        .sort((a, b) => compareParameterValues(parameter.id, a, b));
+    });
+    return values;
   }, [filteredData]);
   
   // Clear all filters
   const clearAllFilters = () => {
     setAttractivenessFilter(new Set());
-    setMarketConcFilter(new Set());
-    setEconGrowthFilter(new Set());
-    setLoanGrowthFilter(new Set());
-    setRiskFilter(new Set());
-    setRiskMigrationFilter(new Set());
-    setRelRiskMigFilter(new Set());
-    setPremiumDiscFilter(new Set());
-    setPricingFilter(new Set());
-    setIntlCMFilter(new Set());
+    setParameterFilters({});
+    setMoversOnly(false);
+    setFrontierOnly(false);
     setSortColumn(null);
     setSortDirection(null);
   };
   
-  const hasActiveFilters = attractivenessFilter.size > 0 || marketConcFilter.size > 0 || 
-    econGrowthFilter.size > 0 || loanGrowthFilter.size > 0 || 
-    riskFilter.size > 0 || riskMigrationFilter.size > 0 ||
-    relRiskMigFilter.size > 0 || premiumDiscFilter.size > 0 ||
-    pricingFilter.size > 0 || intlCMFilter.size > 0 ||
+  const hasActiveFilters = attractivenessFilter.size > 0 ||
+    SCORED_PARAMETERS.some(parameter => (parameterFilters[parameter.id]?.size ?? 0) > 0) || moversOnly || frontierOnly ||
     (sortColumn !== null && sortDirection !== null);
 
   // Toggle row expansion
@@ -711,22 +633,11 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     
     const selectedMSAs = data.filter(item => selectedForComparison.has(item.MSA));
     
-    // Create radar chart data
-    const parameters = [
-      { key: "HHI_Score", label: "Market Concentration", isInverse: true },
-      { key: "Economic_Growth_Score", label: "Economic Growth", isInverse: false },
-      { key: "Loan_Growth_Score", label: "Loan Growth", isInverse: false },
-      { key: "Risk_Score", label: "Credit Risk", isInverse: true },
-      { key: "Premium_Discount_Score", label: "Premium/Discount", isInverse: false },
-      { key: "Pricing_Rationality_Score", label: "Pricing Rationality", isInverse: false },
-      { key: "International_CM_Score", label: "International CM", isInverse: false },
-    ];
-
-    const radarData = parameters.map(param => {
-      const dataPoint: any = { parameter: param.label };
+    // Create radar chart data (1-3, higher is more attractive)
+    const radarData = SCORED_PARAMETERS.map(parameter => {
+      const dataPoint: any = { parameter: parameter.label };
       selectedMSAs.forEach(msa => {
-        const scoreValue = (msa as any)[param.key];
-        dataPoint[msa.MSA] = scoreToValue(scoreValue, param.isInverse);
+        dataPoint[msa.MSA] = getLabelScore(parameter.id, getParameterValue(msa, parameter.id));
       });
       return dataPoint;
     });
@@ -734,6 +645,12 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     return { radarData, selectedMSAs };
   }, [selectedForComparison, data]);
 
+  // Comparison card columns by the number of MSAs selected
+  const comparisonGridClass =
+    selectedForComparison.size === 1 ? 'grid-cols-1 max-w-2xl mx-auto' :
+    selectedForComparison.size === 2 ? 'grid-cols-1 lg:grid-cols-2' :
+    'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5';
+
   // Get opportunities radar data - shows top 3 opportunities for each selected MSA
   // Creates separate radar charts for each MSA
   const opportunitiesRadarData = useMemo(() => {
@@ -746,7 +663,7 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     }> = [];
     
     // For opportunities, we'll use simpler metrics that make sense
-    const opportunityParameters = [
+    const opportunityParameters: Array<{ key: "Market Share" | "Defend $" | "Market Size"; label: string }> = [
       { key: "Market Share", label: "Market Share" },
       { key: "Defend $", label: "Defensive Value" },
       { key: "Market Size", label: "Market Size" },
@@ -799,18 +716,15 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     // Sort data by attractiveness score for export
     const sortedData = [...filteredData].sort((a, b) => b.Attractiveness_Score - a.Attractiveness_Score);
 
-    const headers = ["Rank", "MSA", "Score", "Category", "Market Size", "Economic Growth", "Loan Growth", "HHI", "Risk", "Pricing"];
+    const headers = ["Rank", "MSA", "Score", "Category", "Market Size", "Archetype", ...SCORED_PARAMETERS.map(parameter => parameter.label)];
     const rows = sortedData.map((msa, idx) => [
       idx + 1,
       msa.MSA,
       msa.Attractiveness_Score.toFixed(2),
       msa.Attractiveness_Category,
       msa["Market Size"],
-      msa.Economic_Growth_Score,
-      msa.Loan_Growth_Score,
-      msa.HHI_Score,
-      msa.Risk_Score,
-      msa.Pricing_Rationality
+      msa.Archetype ?? "",
+      ...SCORED_PARAMETERS.map(parameter => getParameterValue(msa, parameter.id))
     ]);
 
     const csvContent = [headers, ...rows].map(row => row.join(",")).join("\n");
@@ -823,20 +737,7 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     URL.revokeObjectURL(url);
   };
 
-  const getAttractivenessColor = (category: string) => {
-    switch (category) {
-      case "Highly Attractive":
-        return "bg-green-100 text-green-800 border-green-300";
-      case "Attractive":
-        return "bg-yellow-100 text-yellow-800 border-yellow-300";
-      case "Neutral":
-        return "bg-orange-100 text-orange-800 border-orange-300";
-      case "Challenging":
-        return "bg-red-100 text-red-800 border-red-300";
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-300";
-    }
-  };
+  const getAttractivenessColor = (category: string) => getCategoryBadgeClass(category, categorization);
 
   return (
     <div className="space-y-4">
@@ -847,6 +748,14 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
         bucketAssignments={bucketAssignments}
         selectedMSAs={selectedForComparison}
         onToggleSelection={toggleComparison}
+        msaChanges={msaChanges}
+        comparisonLabel={comparisonLabel}
+        categorization={categorization}
+        scoringRows={data}
+        buckets={buckets}
+        scoringOptions={scoringOptions}
+        bucketWeighting={bucketWeighting}
+        archetypes={archetypes}
       />
 
       {/* MSA Name Heading - shown when a single MSA is selected */}
@@ -865,6 +774,15 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
         </div>
       )}
 
+      {/* Change vs comparison vintage - shown when a single MSA is selected */}
+      {selectedMSAName && msaChanges?.get(selectedMSAName) && comparisonLabel && (
+        <VintageChangePanel
+          change={msaChanges.get(selectedMSAName)!}
+          providerChanges={(providerChanges || []).filter(provider => isSameMSA(provider.MSA, selectedMSAName))}
+          comparisonLabel={comparisonLabel}
+        />
+      )}
+
       {/* Market Size & Company Metrics - shown when a single MSA is selected */}
       {selectedForComparison.size === 1 && (() => {
         // Format number helper
@@ -1065,24 +983,10 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
               }`}>
                 {comparisonData.selectedMSAs.map((msa, idx) => {
                   // Create radar data for this specific MSA
-                  const parameters = [
-                    { key: "HHI_Score", label: "Market Concentration", isInverse: true },
-                    { key: "Economic_Growth_Score", label: "Economic Growth", isInverse: false },
-                    { key: "Loan_Growth_Score", label: "Loan Growth", isInverse: false },
-                    { key: "Risk_Score", label: "Credit Risk", isInverse: true },
-                    { key: "Premium_Discount_Score", label: "Premium/Discount", isInverse: false },
-                    { key: "Pricing_Rationality_Score", label: "Pricing Rationality", isInverse: false },
-                    { key: "International_CM_Score", label: "International CM", isInverse: false },
-                  ];
-
-                  const msaRadarData = parameters.map(param => {
-                    const scoreValue = (msa as any)[param.key];
-                    const numericValue = scoreToValue(scoreValue, param.isInverse);
-                    return {
-                      parameter: param.label,
-                      value: numericValue
-                    };
-                  });
+                  const msaRadarData = SCORED_PARAMETERS.map(parameter => ({
+                    parameter: parameter.label,
+                    value: getLabelScore(parameter.id, getParameterValue(msa, parameter.id))
+                  }));
 
                   const colors = ['#3b82f6', '#22c55e', '#eab308', '#f97316', '#ef4444'];
                   const msaColor = colors[idx % colors.length];
@@ -1289,41 +1193,13 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
 
               <div className="mt-6 flex-1">
                   {/* Individual MSA Cards with Radar Charts - Full Width Responsive Grid */}
-                  <div className={`grid gap-4 items-stretch ${
-                    selectedForComparison.size === 1 ? 'grid-cols-1 max-w-2xl mx-auto' :
-                    selectedForComparison.size === 2 ? 'grid-cols-1 lg:grid-cols-2' :
-                    'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5'
-                  }`}>
+                  <div className={`grid gap-4 items-stretch ${comparisonGridClass}`}>
                     {comparisonData.selectedMSAs.map((msa, idx) => {
                       // Create radar data for this specific MSA
-                      const parameters = [
-                        { key: "HHI_Score", label: "Market Concentration", isInverse: true },
-                        { key: "Economic_Growth_Score", label: "Economic Growth", isInverse: false },
-                        { key: "Loan_Growth_Score", label: "Loan Growth", isInverse: false },
-                        { key: "Risk_Score", label: "Credit Risk", isInverse: true },
-                        { key: "Premium_Discount_Score", label: "Premium/Discount", isInverse: false },
-                        { key: "Pricing_Rationality_Score", label: "Pricing Rationality", isInverse: false },
-                        { key: "International_CM_Score", label: "International CM", isInverse: false },
-                      ];
-
-                      const msaRadarData = parameters.map(param => {
-                        const scoreValue = (msa as any)[param.key];
-                        const numericValue = scoreToValue(scoreValue, param.isInverse);
-                        
-                        // Debug logging for Pricing_Rationality_Score
-                        if (param.key === "Pricing_Rationality_Score") {
-                          console.log(`MSAExplorer: Pricing_Rationality_Score for ${msa.MSA}:`, {
-                            rawValue: scoreValue,
-                            normalizedValue: numericValue,
-                            type: typeof scoreValue
-                          });
-                        }
-                        
-                        return {
-                          parameter: param.label,
-                          value: numericValue
-                        };
-                      });
+                      const msaRadarData = SCORED_PARAMETERS.map(parameter => ({
+                        parameter: parameter.label,
+                        value: getLabelScore(parameter.id, getParameterValue(msa, parameter.id))
+                      }));
 
                       const colors = ['#3b82f6', '#22c55e', '#eab308', '#f97316', '#ef4444'];
                       const msaColor = colors[idx % colors.length];
@@ -1392,62 +1268,16 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
                                   <td className="py-1.5 px-2 font-medium whitespace-nowrap">Market Size</td>
                                   <td className="py-1.5 px-2 whitespace-nowrap">${(msa["Market Size"] / 1000000).toFixed(1)}M</td>
                                 </tr>
-                                <tr className="border-b">
-                                  <td className="py-1.5 px-2 font-medium whitespace-nowrap">Econ Growth</td>
-                                  <td className="py-1.5 px-2">
-                                    <Badge variant="outline" className={`text-[10px] ${getParameterColor("Economic_Growth_Score", msa.Economic_Growth_Score)}`}>
-                                      {msa.Economic_Growth_Score}
-                                    </Badge>
-                                  </td>
-                                </tr>
-                                <tr className="border-b bg-muted/30">
-                                  <td className="py-1.5 px-2 font-medium whitespace-nowrap">Loan Growth</td>
-                                  <td className="py-1.5 px-2">
-                                    <Badge variant="outline" className={`text-[10px] ${getParameterColor("Loan_Growth_Score", msa.Loan_Growth_Score)}`}>
-                                      {msa.Loan_Growth_Score}
-                                    </Badge>
-                                  </td>
-                                </tr>
-                                <tr className="border-b">
-                                  <td className="py-1.5 px-2 font-medium whitespace-nowrap">HHI</td>
-                                  <td className="py-1.5 px-2">
-                                    <Badge variant="outline" className={`text-[10px] ${getParameterColor("HHI_Score", msa.HHI_Score)}`}>
-                                      {msa.HHI_Score}
-                                    </Badge>
-                                  </td>
-                                </tr>
-                                <tr className="border-b bg-muted/30">
-                                  <td className="py-1.5 px-2 font-medium whitespace-nowrap">Credit Risk</td>
-                                  <td className="py-1.5 px-2">
-                                    <Badge variant="outline" className={`text-[10px] ${getParameterColor("Risk_Score", msa.Risk_Score)}`}>
-                                      {msa.Risk_Score}
-                                    </Badge>
-                                  </td>
-                                </tr>
-                                <tr className="border-b">
-                                  <td className="py-1.5 px-2 font-medium whitespace-nowrap">Premium/Discount</td>
-                                  <td className="py-1.5 px-2">
-                                    <Badge variant="outline" className={`text-[10px] ${getParameterColor("Premium_Discount_Score", msa.Premium_Discount_Score)}`}>
-                                      {msa.Premium_Discount_Score}
-                                    </Badge>
-                                  </td>
-                                </tr>
-                                <tr className="border-b bg-muted/30">
-                                  <td className="py-1.5 px-2 font-medium whitespace-nowrap">Pricing</td>
-                                  <td className="py-1.5 px-2">
-                                    <Badge variant="outline" className={`text-[10px] ${getParameterColor("Pricing_Rationality_Score", msa.Pricing_Rationality)}`}>
-                                      {msa.Pricing_Rationality}
-                                    </Badge>
-                                  </td>
-                                </tr>
-                                <tr className="border-b">
-                                  <td className="py-1.5 px-2 font-medium whitespace-nowrap">Int'l CM</td>
-                                  <td className="py-1.5 px-2">
-                                    <Badge variant="outline" className={`text-[10px] ${getParameterColor("International_CM_Score", msa.International_CM_Score)}`}>
-                                      {msa.International_CM_Score}
-                                    </Badge>
-                                  </td>
-                                </tr>
+                                {SCORED_PARAMETERS.map((parameter, index) => (
+                                  <tr key={parameter.id} className={`border-b ${index % 2 === 1 ? "bg-muted/30" : ""}`}>
+                                    <td className="py-1.5 px-2 font-medium whitespace-nowrap">{parameter.shortLabel}</td>
+                                    <td className="py-1.5 px-2">
+                                      <Badge variant="outline" className={`text-[10px] ${getParameterColor(parameter.id, getParameterValue(msa, parameter.id))}`}>
+                                        {getParameterValue(msa, parameter.id)}
+                                      </Badge>
+                                    </td>
+                                  </tr>
+                                ))}
                               </tbody>
                             </table>
                           </div>
@@ -1471,8 +1301,32 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
                     {topMSAs.length} of {filteredData.length} MSAs shown
                   </p>
                 )}
+                {msaChanges && comparisonLabel && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Changes vs {comparisonLabel} · {Array.from(msaChanges.values()).filter(change => change.isMover).length} movers highlighted
+                  </p>
+                )}
               </div>
               <div className="flex gap-2">
+                {msaChanges && (
+                  <Button
+                    variant={moversOnly ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setMoversOnly(!moversOnly)}
+                    className="text-xs"
+                  >
+                    Movers only
+                  </Button>
+                )}
+                <Button
+                  variant={frontierOnly ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFrontierOnly(!frontierOnly)}
+                  className="text-xs"
+                >
+                  <Layers className="h-3 w-3 mr-2" />
+                  Frontier only
+                </Button>
                 {hasActiveFilters && (
                   <Button
                     variant="outline"
@@ -1536,58 +1390,11 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
                           Attractiveness
                           {getSortIcon("attractiveness")}
                         </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${attractivenessFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (attractivenessFilter.size === uniqueAttractiveness.length) {
-                                        setAttractivenessFilter(new Set());
-                                      } else {
-                                        setAttractivenessFilter(new Set(uniqueAttractiveness));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={attractivenessFilter.size === uniqueAttractiveness.length && uniqueAttractiveness.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueAttractiveness.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(attractivenessFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setAttractivenessFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={attractivenessFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
+                        <ColumnFilterPopover
+                          values={uniqueAttractiveness}
+                          selected={attractivenessFilter}
+                          onChange={setAttractivenessFilter}
+                        />
                       </div>
                     </th>
                     <th className="text-left py-2 px-2 text-xs font-medium">
@@ -1599,579 +1406,42 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
                         {getSortIcon("marketSize")}
                       </button>
                     </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
+                    {archetypes && (
+                      <th className="text-left py-2 px-2 text-xs font-medium">
                         <button 
-                          onClick={() => handleSort("marketConc")}
+                          onClick={() => handleSort("archetype")}
                           className="flex items-center gap-1 hover:text-foreground transition-colors"
                         >
-                          Market Conc.
-                          {getSortIcon("marketConc")}
+                          Archetype
+                          {getSortIcon("archetype")}
                         </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${marketConcFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (marketConcFilter.size === uniqueMarketConc.length) {
-                                        setMarketConcFilter(new Set());
-                                      } else {
-                                        setMarketConcFilter(new Set(uniqueMarketConc));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={marketConcFilter.size === uniqueMarketConc.length && uniqueMarketConc.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueMarketConc.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(marketConcFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setMarketConcFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={marketConcFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("econGrowth")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Econ. Growth
-                          {getSortIcon("econGrowth")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${econGrowthFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (econGrowthFilter.size === uniqueEconGrowth.length) {
-                                        setEconGrowthFilter(new Set());
-                                      } else {
-                                        setEconGrowthFilter(new Set(uniqueEconGrowth));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={econGrowthFilter.size === uniqueEconGrowth.length && uniqueEconGrowth.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueEconGrowth.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(econGrowthFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setEconGrowthFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={econGrowthFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("loanGrowth")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Loan Growth
-                          {getSortIcon("loanGrowth")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${loanGrowthFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (loanGrowthFilter.size === uniqueLoanGrowth.length) {
-                                        setLoanGrowthFilter(new Set());
-                                      } else {
-                                        setLoanGrowthFilter(new Set(uniqueLoanGrowth));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={loanGrowthFilter.size === uniqueLoanGrowth.length && uniqueLoanGrowth.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueLoanGrowth.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(loanGrowthFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setLoanGrowthFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={loanGrowthFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("risk")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Risk
-                          {getSortIcon("risk")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${riskFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (riskFilter.size === uniqueRisk.length) {
-                                        setRiskFilter(new Set());
-                                      } else {
-                                        setRiskFilter(new Set(uniqueRisk));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={riskFilter.size === uniqueRisk.length && uniqueRisk.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueRisk.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(riskFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setRiskFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={riskFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("riskMigration")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Risk Mig.
-                          {getSortIcon("riskMigration")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${riskMigrationFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (riskMigrationFilter.size === uniqueRiskMigration.length) {
-                                        setRiskMigrationFilter(new Set());
-                                      } else {
-                                        setRiskMigrationFilter(new Set(uniqueRiskMigration));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={riskMigrationFilter.size === uniqueRiskMigration.length && uniqueRiskMigration.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueRiskMigration.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(riskMigrationFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setRiskMigrationFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={riskMigrationFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("relRiskMig")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Rel. Risk
-                          {getSortIcon("relRiskMig")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${relRiskMigFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (relRiskMigFilter.size === uniqueRelRiskMig.length) {
-                                        setRelRiskMigFilter(new Set());
-                                      } else {
-                                        setRelRiskMigFilter(new Set(uniqueRelRiskMig));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={relRiskMigFilter.size === uniqueRelRiskMig.length && uniqueRelRiskMig.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueRelRiskMig.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(relRiskMigFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setRelRiskMigFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={relRiskMigFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("premiumDisc")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Prem/Disc
-                          {getSortIcon("premiumDisc")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${premiumDiscFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (premiumDiscFilter.size === uniquePremiumDisc.length) {
-                                        setPremiumDiscFilter(new Set());
-                                      } else {
-                                        setPremiumDiscFilter(new Set(uniquePremiumDisc));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={premiumDiscFilter.size === uniquePremiumDisc.length && uniquePremiumDisc.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniquePremiumDisc.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(premiumDiscFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setPremiumDiscFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={premiumDiscFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("pricing")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Pricing
-                          {getSortIcon("pricing")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${pricingFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (pricingFilter.size === uniquePricing.length) {
-                                        setPricingFilter(new Set());
-                                      } else {
-                                        setPricingFilter(new Set(uniquePricing));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={pricingFilter.size === uniquePricing.length && uniquePricing.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniquePricing.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(pricingFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setPricingFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={pricingFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
-                    <th className="text-left py-2 px-2 text-xs font-medium">
-                      <div className="flex items-center gap-1">
-                        <button 
-                          onClick={() => handleSort("intlCM")}
-                          className="flex items-center gap-1 hover:text-foreground transition-colors"
-                        >
-                          Intl. CM
-                          {getSortIcon("intlCM")}
-                        </button>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <button className="p-0.5 hover:bg-muted rounded">
-                              <Filter className={`h-3 w-3 ${intlCMFilter.size > 0 ? 'text-blue-600' : 'opacity-50'}`} />
-                            </button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-64 p-0" align="start">
-                            <Command>
-                              <CommandInput placeholder="Search..." />
-                              <CommandList>
-                                <CommandEmpty>No results found.</CommandEmpty>
-                                <CommandGroup>
-                                  <CommandItem
-                                    onSelect={() => {
-                                      if (intlCMFilter.size === uniqueIntlCM.length) {
-                                        setIntlCMFilter(new Set());
-                                      } else {
-                                        setIntlCMFilter(new Set(uniqueIntlCM));
-                                      }
-                                    }}
-                                  >
-                                    <Checkbox
-                                      checked={intlCMFilter.size === uniqueIntlCM.length && uniqueIntlCM.length > 0}
-                                      className="mr-2"
-                                    />
-                                    Select All
-                                  </CommandItem>
-                                  {uniqueIntlCM.map((value) => (
-                                    <CommandItem
-                                      key={value}
-                                      onSelect={() => {
-                                        const newFilter = new Set(intlCMFilter);
-                                        if (newFilter.has(value)) {
-                                          newFilter.delete(value);
-                                        } else {
-                                          newFilter.add(value);
-                                        }
-                                        setIntlCMFilter(newFilter);
-                                      }}
-                                    >
-                                      <Checkbox
-                                        checked={intlCMFilter.has(value)}
-                                        className="mr-2"
-                                      />
-                                      {value}
-                                    </CommandItem>
-                                  ))}
-                                </CommandGroup>
-                              </CommandList>
-                            </Command>
-                          </PopoverContent>
-                        </Popover>
-                      </div>
-                    </th>
+                      </th>
+                    )}
+                    {SCORED_PARAMETERS.map(parameter => (
+                      <th key={parameter.id} className="text-left py-2 px-2 text-xs font-medium">
+                        <div className="flex items-center gap-1">
+                          <button 
+                            onClick={() => handleSort(parameter.id)}
+                            className="flex items-center gap-1 hover:text-foreground transition-colors"
+                          >
+                            {parameter.shortLabel}
+                            {getSortIcon(parameter.id)}
+                          </button>
+                          <ColumnFilterPopover
+                            values={parameterValues[parameter.id] || []}
+                            selected={parameterFilters[parameter.id] || new Set()}
+                            onChange={(selected) => setParameterFilters(prev => ({ ...prev, [parameter.id]: selected }))}
+                          />
+                        </div>
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
                   {topMSAs.map((msa, idx) => {
                     const isSelected = selectedForComparison.has(msa.MSA);
                     const canSelect = isSelected || selectedForComparison.size < 5;
+                    const change = msaChanges?.get(msa.MSA);
                     
                     return (
                       <tr 
@@ -2183,61 +1453,83 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
                         }}
                         className={`border-b transition-colors ${
                           canSelect ? 'cursor-pointer hover:bg-muted/50' : 'cursor-not-allowed opacity-50'
-                        } ${isSelected ? 'bg-blue-50 dark:bg-blue-950/20 border-l-4 border-l-blue-500' : ''}`}
+                        } ${isSelected ? 'bg-blue-50 dark:bg-blue-950/20 border-l-4 border-l-blue-500' : ''} ${
+                          !isSelected && change?.isMover ? 'bg-amber-50 border-l-4 border-l-amber-400' : ''
+                        }`}
                       >
                         <td className="py-2 px-2">{idx + 1}</td>
                         <td className="py-2 px-2">
                           <div className="flex items-center gap-1.5">
                             <MapPin className="h-3 w-3 text-muted-foreground" />
                             <span className="font-medium text-xs">{msa.MSA}</span>
+                            {pareto.frontier.has(msa.MSA) && (
+                              <Badge variant="outline" className="text-[10px] border-blue-300 text-blue-700 dark:text-blue-400">Frontier</Badge>
+                            )}
+                            <span onClick={(e) => e.stopPropagation()}>
+                              <SimilarMarketsDialog rows={data} msa={msa.MSA} />
+                            </span>
                           </div>
                         </td>
                         <td className="py-2 px-2">
                           <div className="flex items-center gap-1.5">
                             <span className="font-medium text-xs">{msa.Attractiveness_Score.toFixed(2)}</span>
-                            <TrendingUp className="h-3 w-3 text-green-600" />
+                            {/* Clicks in the dialog would otherwise reach the row and toggle its selection */}
+                            <span onClick={(e) => e.stopPropagation()}>
+                              <ScoreWaterfallDialog
+                                rows={data}
+                                msa={msa.MSA}
+                                bucketAssignments={bucketAssignments ?? DEFAULT_BUCKET_ASSIGNMENTS}
+                                buckets={buckets}
+                                scoringOptions={scoringOptions}
+                                bucketWeighting={bucketWeighting}
+                              />
+                            </span>
+                            {change ? (
+                              change.status === "new"
+                                ? <span className="text-[10px] text-blue-600">new</span>
+                                : <VintageDelta value={change.scoreChange} />
+                            ) : (
+                              <TrendingUp className="h-3 w-3 text-green-600" />
+                            )}
                           </div>
                         </td>
                         <td className="py-2 px-2">
                           <Badge className={`text-[10px] ${getAttractivenessColor(msa.Attractiveness_Category)}`}>
                             {msa.Attractiveness_Category}
                           </Badge>
+                          {change?.categoryChanged && (
+                            <div className="text-[10px] text-muted-foreground mt-0.5">was {change.previousCategory}</div>
+                          )}
                         </td>
                         <td className="py-2 px-2 text-xs">
                           ${(msa["Market Size"] / 1000000).toFixed(1)}M
+                          {change?.marketSizeChangePct !== null && change?.marketSizeChangePct !== undefined && (
+                            <div>
+                              <VintageDelta value={change.marketSizeChangePct} format={(v) => `${Math.abs(v).toFixed(1)}%`} epsilon={0.05} />
+                            </div>
+                          )}
                         </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("HHI_Score", msa.HHI_Score)}`}>{msa.HHI_Score}</Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("Economic_Growth_Score", msa.Economic_Growth_Score)}`}>{msa.Economic_Growth_Score}</Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("Loan_Growth_Score", msa.Loan_Growth_Score)}`}>{msa.Loan_Growth_Score}</Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("Risk_Score", msa.Risk_Score)}`}>{msa.Risk_Score}</Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("Risk_Migration_Score", msa.Risk_Migration_Score)}`}>{msa.Risk_Migration_Score}</Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("Relative_Risk_Migration_Score", msa.Relative_Risk_Migration_Score)}`}>{msa.Relative_Risk_Migration_Score}</Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("Premium_Discount_Score", msa.Premium_Discount_Score)}`}>{msa.Premium_Discount_Score}</Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge 
-                            variant="outline" 
-                            className={`text-[10px] ${getParameterColor("Pricing_Rationality_Score", msa.Pricing_Rationality)}`}
-                          >
-                            {msa.Pricing_Rationality}
-                          </Badge>
-                        </td>
-                        <td className="py-2 px-2">
-                          <Badge variant="outline" className={`text-[10px] ${getParameterColor("International_CM_Score", msa.International_CM_Score)}`}>{msa.International_CM_Score}</Badge>
-                        </td>
+                        {archetypes && (
+                          <td className="py-2 px-2 text-xs">
+                            {msa.Archetype && (
+                              <div className="flex items-center gap-1.5 whitespace-nowrap">
+                                <span
+                                  className="inline-block h-2 w-2 rounded-full"
+                                  style={{ backgroundColor: archetypes.profiles.find(profile => profile.name === msa.Archetype)?.color }}
+                                />
+                                {msa.Archetype}
+                              </div>
+                            )}
+                          </td>
+                        )}
+                        {SCORED_PARAMETERS.map(parameter => {
+                          const value = getParameterValue(msa, parameter.id);
+                          return (
+                            <td key={parameter.id} className="py-2 px-2">
+                              <Badge variant="outline" className={`text-[10px] ${getParameterColor(parameter.id, value)}`}>{value}</Badge>
+                            </td>
+                          );
+                        })}
                       </tr>
                     );
                   })}
@@ -2246,6 +1538,36 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
             </div>
           </Card>
           
+          {/* Rank stability under weight uncertainty */}
+          {bucketAssignments && (
+            <RankStabilityPanel
+              rows={data}
+              visibleMSAs={globallyFilteredMSAs}
+              bucketAssignments={bucketAssignments}
+              buckets={buckets}
+              scoringOptions={scoringOptions}
+              bucketWeighting={bucketWeighting}
+              categorization={categorization}
+            />
+          )}
+
+          {/* Trade-offs between objectives the blended score averages away */}
+          <ParetoFrontierPanel
+            result={pareto}
+            objectiveIds={paretoObjectives}
+            onObjectivesChange={setParetoObjectives}
+          />
+
+          {/* Groups of MSAs with a similar metric profile */}
+          {archetypes && archetypeOptions && onArchetypeOptionsChange && (
+            <ArchetypePanel
+              result={archetypes}
+              options={archetypeOptions}
+              onOptionsChange={onArchetypeOptionsChange}
+              rows={data}
+            />
+          )}
+
           {/* Competitive Landscape Table (National Level) */}
           <OpportunitiesTable 
             globalFilters={globalFilters}
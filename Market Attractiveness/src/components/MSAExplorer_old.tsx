@@ -356,7 +356,7 @@ export function MSAExplorer({ data, weights, globalFilters, bucketAssignments, b
     }> = [];
     
     // For opportunities, we'll use simpler metrics that make sense
-    const opportunityParameters = [
+    const opportunityParameters: Array<{ key: "Market Share" | "Defend $" | "Market Size"; label: string }> = [
       { key: "Market Share", label: "Market Share" },
       { key: "Defend $", label: "Defensive Value" },
       { key: "Market Size", label: "Market Size" },
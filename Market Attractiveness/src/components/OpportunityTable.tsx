@@ -27,8 +27,8 @@ interface OpportunityData {
   LON?: number;
   Opportunity_Category: string;
   Attractiveness_Category: string;
-  Provider_Opportunity_Rank: number;
-  Overall_Opportunity_Rank: number;
+  Provider_Opportunity_Rank?: number;
+  Overall_Opportunity_Rank?: number;
   Weighted_Average_Score?: number;
   Exclusion?: boolean;
   Included_In_Ranking?: boolean;
@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { Layers, X } from "lucide-react";
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  MAX_PARETO_OBJECTIVES,
+  MIN_PARETO_OBJECTIVES,
+  PARETO_OBJECTIVES,
+  ParetoPoint,
+  ParetoResult,
+} from "../utils/paretoFrontier";
+
+interface ParetoFrontierPanelProps {
+  result: ParetoResult;
+  objectiveIds: string[];
+  onObjectivesChange: (objectiveIds: string[]) => void;
+}
+
+const TOP_COUNT = 15;
+const LAYER_COLORS = { frontier: "#2563eb", second: "#93c5fd", dominated: "#d1d5db" };
+
+// Multi-objective view: which MSAs no other MSA beats on every chosen objective
+export function ParetoFrontierPanel({ result, objectiveIds, onObjectivesChange }: ParetoFrontierPanelProps) {
+  const [xId, setXId] = useState(objectiveIds[0]);
+  const [yId, setYId] = useState(objectiveIds[1]);
+  const [pinned, setPinned] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  // Keep both axes on chosen objectives (and on different ones)
+  useEffect(() => {
+    const x = objectiveIds.includes(xId) ? xId : objectiveIds[0];
+    const y = objectiveIds.includes(yId) && yId !== x ? yId : objectiveIds.find(id => id !== x) ?? objectiveIds[0];
+    setXId(x);
+    setYId(y);
+  }, [objectiveIds]);
+
+  const toggleObjective = (id: string) => {
+    if (objectiveIds.includes(id)) {
+      if (objectiveIds.length > MIN_PARETO_OBJECTIVES) onObjectivesChange(objectiveIds.filter(objectiveId => objectiveId !== id));
+    } else if (objectiveIds.length < MAX_PARETO_OBJECTIVES) {
+      onObjectivesChange([...objectiveIds, id]);
+    }
+  };
+
+  const { objectives, points } = result;
+  const xIndex = objectives.findIndex(objective => objective.id === xId);
+  const yIndex = objectives.findIndex(objective => objective.id === yId);
+  const xObjective = objectives[xIndex];
+  const yObjective = objectives[yIndex];
+
+  const toChartPoint = (point: ParetoPoint) => ({ x: point.values[xIndex], y: point.values[yIndex], msa: point.msa, point });
+  const frontierData = points.filter(point => point.layer === 1).map(toChartPoint).sort((a, b) => a.x - b.x);
+  const secondData = points.filter(point => point.layer === 2).map(toChartPoint);
+  const dominatedData = points.filter(point => point.layer > 2).map(toChartPoint);
+
+  const frontierCount = frontierData.length;
+  const listed = showAll ? points : points.filter(point => point.layer === 1).slice(0, TOP_COUNT);
+  const pinnedPoint = pinned ? points.find(point => point.msa === pinned) : undefined;
+
+  const handlePointClick = (entry: any) => {
+    const msa = entry?.payload?.msa ?? entry?.msa;
+    if (msa) setPinned(msa === pinned ? null : msa);
+  };
+
+  const renderTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const point: ParetoPoint = payload[0].payload.point;
+    return (
+      <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+        <div className="font-medium mb-1">{point.msa}</div>
+        {objectives.map((objective, i) => (
+          <div key={objective.id}>{objective.label}: {objective.format(point.values[i])}</div>
+        ))}
+        <div className="text-muted-foreground mt-1">
+          {point.layer === 1 ? "On the frontier" : `Layer ${point.layer} · beaten on every objective by ${point.dominatedBy.length}`}
+        </div>
+      </div>
+    );
+  };
+
+  const axisLabel = (objective: typeof xObjective) =>
+    `${objective.label} (${objective.higherIsBetter ? "higher" : "lower"} is better)`;
+
+  return (
+    <Card className="p-4">
+      <div className="mb-3">
+        <h3 className="text-sm font-semibold flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          Pareto Frontier
+        </h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          The frontier is the MSAs no other MSA matches or beats on every chosen objective at once - each one is a different trade-off. Axes are flipped where lower is better, so up and to the right is always more attractive. Frontier MSAs are flagged in the table above.
+        </p>
+      </div>
+
+      <div className="space-y-3 mb-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Objectives ({MIN_PARETO_OBJECTIVES}-{MAX_PARETO_OBJECTIVES})</Label>
+          <div className="flex flex-wrap gap-1">
+            {PARETO_OBJECTIVES.map(objective => {
+              const chosen = objectiveIds.includes(objective.id);
+              const disabled = chosen ? objectiveIds.length <= MIN_PARETO_OBJECTIVES : objectiveIds.length >= MAX_PARETO_OBJECTIVES;
+              return (
+                <Button
+                  key={objective.id}
+                  variant={chosen ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={disabled}
+                  onClick={() => toggleObjective(objective.id)}
+                >
+                  {objective.label}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Horizontal axis</Label>
+            <Select value={xId} onValueChange={setXId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {objectives.filter(objective => objective.id !== yId).map(objective => (
+                  <SelectItem key={objective.id} value={objective.id}>{objective.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Vertical axis</Label>
+            <Select value={yId} onValueChange={setYId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {objectives.filter(objective => objective.id !== xId).map(objective => (
+                  <SelectItem key={objective.id} value={objective.id}>{objective.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {points.length === 0 || !xObjective || !yObjective ? (
+        <p className="text-xs text-muted-foreground">No MSAs with values for every chosen objective.</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            {frontierCount} of {points.length} MSAs on the frontier
+            {objectives.length > 2 && " · with more than two objectives, frontier MSAs can sit inside the cloud on any one chart"}
+            {result.missing.length > 0 && ` · ${result.missing.length} left out for missing values`}
+          </p>
+
+          <ResponsiveContainer width="100%" height={360}>
+            <ScatterChart margin={{ top: 10, right: 20, bottom: 30, left: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="x"
+                name={xObjective.label}
+                domain={["auto", "auto"]}
+                reversed={!xObjective.higherIsBetter}
+                tickFormatter={xObjective.format}
+                tick={{ fontSize: 10 }}
+                label={{ value: axisLabel(xObjective), position: "insideBottom", offset: -15, fontSize: 11 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="y"
+                name={yObjective.label}
+                domain={["auto", "auto"]}
+                reversed={!yObjective.higherIsBetter}
+                tickFormatter={yObjective.format}
+                tick={{ fontSize: 10 }}
+                width={70}
+                label={{ value: axisLabel(yObjective), angle: -90, position: "insideLeft", offset: -5, fontSize: 11, style: { textAnchor: "middle" } }}
+              />
+              <Tooltip content={renderTooltip} cursor={{ strokeDasharray: "3 3" }} />
+              <Legend verticalAlign="top" height={28} wrapperStyle={{ fontSize: 11 }} />
+              <Scatter name="Dominated" data={dominatedData} fill={LAYER_COLORS.dominated} onClick={handlePointClick} isAnimationActive={false} />
+              <Scatter name="Second layer" data={secondData} fill={LAYER_COLORS.second} onClick={handlePointClick} isAnimationActive={false} />
+              {/* With two objectives the frontier MSAs form one line across the chart */}
+              <Scatter
+                name="Frontier"
+                data={frontierData}
+                fill={LAYER_COLORS.frontier}
+                line={objectives.length === 2 ? { stroke: LAYER_COLORS.frontier, strokeWidth: 1.5 } : false}
+                onClick={handlePointClick}
+                isAnimationActive={false}
+              />
+            </ScatterChart>
+          </ResponsiveContainer>
+
+          {pinnedPoint && (
+            <div className="rounded-md border p-3 text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium">{pinnedPoint.msa}</span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setPinned(null)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="text-muted-foreground">
+                {objectives.map((objective, i) => `${objective.label} ${objective.format(pinnedPoint.values[i])}`).join(" · ")}
+              </div>
+              <div className="mt-1">
+                {pinnedPoint.layer === 1
+                  ? "On the frontier: no other MSA is at least as good on every objective."
+                  : `Beaten on every objective by ${pinnedPoint.dominatedBy.join(", ")}.`}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {showAll ? `All ${points.length} MSAs by layer` : `Frontier MSAs${frontierCount > TOP_COUNT ? ` (first ${TOP_COUNT} by score)` : ""}`}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+              {showAll ? "Frontier only" : "Show all"}
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="text-left py-2 pr-2 font-medium">MSA</th>
+                  {objectives.map(objective => (
+                    <th key={objective.id} className="text-right py-2 px-2 font-medium">{objective.label}</th>
+                  ))}
+                  <th className="text-right py-2 px-2 font-medium">Layer</th>
+                  <th className="text-right py-2 pl-2 font-medium">Beaten by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {listed.map(point => (
+                  <tr
+                    key={point.msa}
+                    className={`border-b cursor-pointer hover:bg-muted/50 ${point.msa === pinned ? "bg-blue-50 dark:bg-blue-950/20" : ""}`}
+                    onClick={() => setPinned(point.msa === pinned ? null : point.msa)}
+                  >
+                    <td className="py-1.5 pr-2">
+                      {point.msa}
+                      {point.layer === 1 && (
+                        <Badge variant="outline" className="ml-2 text-[10px] border-blue-300 text-blue-700 dark:text-blue-400">Frontier</Badge>
+                      )}
+                    </td>
+                    {objectives.map((objective, i) => (
+                      <td key={objective.id} className="text-right py-1.5 px-2">{objective.format(point.values[i])}</td>
+                    ))}
+                    <td className="text-right py-1.5 px-2">{point.layer}</td>
+                    <td className="text-right py-1.5 pl-2">{point.dominatedBy.length || "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { Package } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { COMBINED_PRODUCT, ProductSelection, getProductLabel } from "../utils/productView";
+
+interface ProductSelectorProps {
+  products: string[];
+  value: ProductSelection;
+  onChange: (product: ProductSelection) => void;
+}
+
+// Header control for the product every tab analyzes, plus the market-size weighted combined view
+export function ProductSelector({ products, value, onChange }: ProductSelectorProps) {
+  if (products.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <Package className="h-4 w-4 text-muted-foreground" />
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 w-52 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {products.map(product => (
+            <SelectItem key={product} value={product}>{getProductLabel(product)}</SelectItem>
+          ))}
+          {products.length > 1 && (
+            <SelectItem value={COMBINED_PRODUCT}>{getProductLabel(COMBINED_PRODUCT)}</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { AlertTriangle, Bookmark, Download, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import {
+  ScoringProfile,
+  ScoringProfileSettings,
+  deleteProfile,
+  exportProfile,
+  getActiveProfileName,
+  getProfileFileName,
+  importProfile,
+  loadProfiles,
+  parseProfileSettings,
+  saveProfile,
+  setActiveProfileName,
+} from "../utils/scoringProfiles";
+
+interface ProfileSelectorProps {
+  // The configuration as it is now, for saving and to tell whether the active profile was changed
+  settings: ScoringProfileSettings;
+  onApply: (settings: ScoringProfileSettings) => void;
+}
+
+const NO_PROFILE = "__none__";
+
+const formatTime = (timestamp: string): string => (timestamp ? new Date(timestamp).toLocaleString() : "-");
+
+// Compared in the saved (normalized) shape so key order and extra fields don't count as changes
+const sameSettings = (saved: ScoringProfileSettings, current: ScoringProfileSettings) => {
+  try {
+    return JSON.stringify(saved) === JSON.stringify(parseProfileSettings(current));
+  } catch {
+    return false;
+  }
+};
+
+// Header control for named scoring profiles: switch between them, save the current setup, import and export
+export function ProfileSelector({ settings, onApply }: ProfileSelectorProps) {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>(() => loadProfiles());
+  const [activeName, setActiveNameState] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  const setActiveName = (name: string | null) => {
+    setActiveNameState(name);
+    setActiveProfileName(name);
+  };
+
+  // Pick up where the last visit left off
+  useEffect(() => {
+    const profile = profiles.find(item => item.name === getActiveProfileName());
+    if (profile) {
+      setActiveNameState(profile.name);
+      onApply(profile.settings);
+    }
+  }, []);
+
+  const activeProfile = profiles.find(profile => profile.name === activeName) || null;
+  const isModified = activeProfile !== null && !sameSettings(activeProfile.settings, settings);
+
+  const handleSelect = (name: string) => {
+    if (name === NO_PROFILE) {
+      setActiveName(null);
+      return;
+    }
+    const profile = profiles.find(item => item.name === name);
+    if (!profile) return;
+    setActiveName(profile.name);
+    onApply(profile.settings);
+  };
+
+  const handleSave = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      setProfiles(saveProfile(trimmed, settings));
+      setActiveName(trimmed);
+      setNewName("");
+      setError(null);
+    } catch (err) {
+      console.error("Error saving scoring profile:", err);
+      setError(`Couldn't save the profile: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDelete = (name: string) => {
+    setProfiles(deleteProfile(name));
+    if (activeName === name) setActiveName(null);
+  };
+
+  const handleExport = (profile: ScoringProfile) => {
+    const blob = new Blob([exportProfile(profile)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = getProfileFileName(profile.name);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // An imported profile replaces a saved profile with the same name and becomes the active one
+  const handleImport = async (file: File) => {
+    try {
+      const profile = importProfile(await file.text());
+      setProfiles(saveProfile(profile.name, profile.settings));
+      setActiveName(profile.name);
+      onApply(profile.settings);
+      setError(null);
+    } catch (err) {
+      console.error("Error importing scoring profile:", err);
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <Bookmark className="h-4 w-4 text-muted-foreground" />
+      <Select value={activeName ?? NO_PROFILE} onValueChange={handleSelect}>
+        <SelectTrigger className="h-8 w-48 text-xs">
+          <SelectValue placeholder="Scoring profile" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROFILE}>No profile</SelectItem>
+          {profiles.map(profile => (
+            <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {isModified && (
+        <Badge variant="outline" className="text-[10px] text-amber-700 border-amber-300" title="The current setup differs from the saved profile">
+          Modified
+        </Badge>
+      )}
+      <Button variant="ghost" size="sm" onClick={() => setIsOpen(true)} className="flex items-center gap-2">
+        Profiles
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Scoring Profiles</DialogTitle>
+            <DialogDescription>
+              A profile saves the bucket assignments and weights, global filters, What-If column layout, scoring method, label thresholds and categories. Profiles are kept in this browser; export one to share it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                className="h-8 text-xs"
+                placeholder="Profile name, e.g. Growth strategy"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSave(newName);
+                }}
+              />
+              <Button size="sm" onClick={() => handleSave(newName)} disabled={!newName.trim()} className="flex items-center gap-2 whitespace-nowrap">
+                <Save className="h-4 w-4" />
+                {profiles.some(profile => profile.name === newName.trim()) ? "Overwrite" : "Save current"}
+              </Button>
+              {activeProfile && isModified && (
+                <Button variant="outline" size="sm" onClick={() => handleSave(activeProfile.name)} className="whitespace-nowrap">
+                  Update "{activeProfile.name}"
+                </Button>
+              )}
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                }}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} className="flex items-center gap-2">
+                <Upload className="h-4 w-4" />
+                Import
+              </Button>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-1 text-xs text-destructive">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                {error}
+              </div>
+            )}
+
+            {profiles.length === 0 ? (
+              <div className="py-6 text-center text-sm text-muted-foreground border rounded-lg">
+                No saved profiles yet. Name the current setup above to save it.
+              </div>
+            ) : (
+              <div className="border rounded-lg max-h-72 overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Profile</TableHead>
+                      <TableHead className="w-20 text-right">Parameters</TableHead>
+                      <TableHead>Saved</TableHead>
+                      <TableHead className="w-48" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profiles.map(profile => (
+                      <TableRow key={profile.name}>
+                        <TableCell className="text-xs">
+                          {profile.name}
+                          {profile.name === activeName && (
+                            <Badge variant="outline" className="ml-2 text-[10px]">Active</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-right">{profile.settings.bucketAssignments.length}</TableCell>
+                        <TableCell className="text-xs">{formatTime(profile.savedAt)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleSelect(profile.name)}>
+                              Load
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-7 px-2" title="Export" onClick={() => handleExport(profile)}>
+                              <Download className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-7 px-2" title="Delete" onClick={() => handleDelete(profile.name)}>
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Dices, Loader2 } from "lucide-react";
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { BucketAssignment } from "../utils/scoreCalculation";
+import { ScoringOptions } from "../utils/continuousScoring";
+import { BucketWeightingOptions } from "../utils/bucketWeighting";
+import { ScoringBucket } from "../utils/scoringBuckets";
+import { CategorizationOptions, getCategoryBadgeClass, getLabelsBestFirst } from "../utils/categorization";
+import { DEFAULT_RANK_STABILITY_SETTINGS, MSARankStability, RankStabilityResult } from "../utils/rankStability";
+import { runRankStabilityInWorker } from "../utils/rankStabilityClient";
+
+interface RankStabilityPanelProps {
+  // Every MSA being scored (ranks are national)
+  rows: Record<string, any>[];
+  // MSAs to list, e.g. those left after the global filters
+  visibleMSAs: Set<string>;
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  scoringOptions: ScoringOptions;
+  bucketWeighting: BucketWeightingOptions;
+  categorization: CategorizationOptions;
+}
+
+const ITERATION_OPTIONS = [500, 1000, 2000, 5000];
+const BUCKET_SPREAD_OPTIONS = [0, 5, 10, 20];
+const WEIGHT_SPREAD_OPTIONS = [0, 0.1, 0.25, 0.5];
+const TOP_COUNT = 20;
+
+// Monte Carlo rank bands: how far each MSA's rank and category move when the weights are a little different
+export function RankStabilityPanel({ rows, visibleMSAs, bucketAssignments, buckets, scoringOptions, bucketWeighting, categorization }: RankStabilityPanelProps) {
+  const [iterations, setIterations] = useState(DEFAULT_RANK_STABILITY_SETTINGS.iterations);
+  const [bucketSpread, setBucketSpread] = useState(DEFAULT_RANK_STABILITY_SETTINGS.bucketSpread);
+  const [weightSpread, setWeightSpread] = useState(DEFAULT_RANK_STABILITY_SETTINGS.weightSpread);
+  const [result, setResult] = useState<RankStabilityResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  // Only the latest run may update the panel
+  const runId = useRef(0);
+
+  // A result is only meaningful for the setup it was run with
+  useEffect(() => {
+    runId.current++;
+    setResult(null);
+    setRunning(false);
+    setError(null);
+  }, [rows, bucketAssignments, buckets, scoringOptions, bucketWeighting, categorization]);
+
+  const hasScoredParameters = bucketAssignments.some(a => a.bucket !== "exclusions");
+
+  const run = async () => {
+    const id = ++runId.current;
+    setRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const simulation = await runRankStabilityInWorker(
+        rows,
+        { bucketAssignments, buckets, scoringOptions, bucketWeighting, categorization, iterations, bucketSpread, weightSpread },
+        (update) => {
+          if (id === runId.current) setProgress((update.completed / update.total) * 100);
+        }
+      );
+      if (id !== runId.current) return;
+      setResult(simulation);
+    } catch (err) {
+      if (id !== runId.current) return;
+      console.error("Rank stability simulation failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (id === runId.current) setRunning(false);
+    }
+  };
+
+  const listed = useMemo(() => {
+    if (!result) return [];
+    const msas = result.msas.filter(item => visibleMSAs.has(item.msa));
+    return showAll ? msas : msas.slice(0, TOP_COUNT);
+  }, [result, visibleMSAs, showAll]);
+
+  const visibleCount = result ? result.msas.filter(item => visibleMSAs.has(item.msa)).length : 0;
+
+  // Stacked from zero: an invisible offset up to the 5th percentile, then the band below and above the median
+  const chartData = listed.map(item => ({
+    name: item.msa,
+    offset: item.p5Rank,
+    lower: item.medianRank - item.p5Rank,
+    upper: item.p95Rank - item.medianRank,
+    item,
+  }));
+
+  const labelsBestFirst = getLabelsBestFirst(categorization);
+
+  const formatProbability = (value: number) => (value === 0 ? "-" : value < 0.01 ? "<1%" : `${Math.round(value * 100)}%`);
+
+  const renderTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const item: MSARankStability = payload[0].payload.item;
+    return (
+      <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+        <div className="font-medium mb-1">{item.msa}</div>
+        <div>Current rank {item.rank} · median {item.medianRank}</div>
+        <div>90% of runs between {item.p5Rank} and {item.p95Rank}</div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold flex items-center gap-2">
+            <Dices className="h-4 w-4" />
+            Rank Stability
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Re-scores every MSA thousands of times with the bucket split and parameter weights nudged around the current setup. The bar spans the 5th-95th percentile of national rank with the median where the colors meet.
+          </p>
+        </div>
+        <Button size="sm" onClick={run} disabled={running || !hasScoredParameters || rows.length === 0}>
+          {running ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Dices className="h-3 w-3 mr-1" />}
+          {running ? "Running" : "Run"}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Iterations</Label>
+          <Select value={String(iterations)} onValueChange={(value) => setIterations(Number(value))}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ITERATION_OPTIONS.map(value => (
+                <SelectItem key={value} value={String(value)}>{value.toLocaleString()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Bucket weights</Label>
+          <Select value={String(bucketSpread)} onValueChange={(value) => setBucketSpread(Number(value))}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUCKET_SPREAD_OPTIONS.map(value => (
+                <SelectItem key={value} value={String(value)}>{value === 0 ? "Fixed" : `± ${value} pts`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Parameter weights</Label>
+          <Select value={String(weightSpread)} onValueChange={(value) => setWeightSpread(Number(value))}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEIGHT_SPREAD_OPTIONS.map(value => (
+                <SelectItem key={value} value={String(value)}>{value === 0 ? "Fixed" : `± ${value * 100}%`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!hasScoredParameters && (
+        <p className="text-xs text-muted-foreground">Assign parameters to a bucket to simulate weight uncertainty.</p>
+      )}
+      {running && <Progress value={progress} className="h-2 mb-3" />}
+      {error && <p className="text-xs text-destructive">Simulation failed: {error}</p>}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {result.iterations.toLocaleString()} runs · {showAll ? `all ${visibleCount}` : `top ${Math.min(TOP_COUNT, visibleCount)} of ${visibleCount}`} MSAs by median rank, out of {result.rankedCount} ranked
+            </p>
+            {visibleCount > TOP_COUNT && (
+              <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+                {showAll ? `Show top ${TOP_COUNT}` : "Show all"}
+              </Button>
+            )}
+          </div>
+
+          <ResponsiveContainer width="100%" height={Math.max(160, chartData.length * 22 + 40)}>
+            <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+              <XAxis type="number" domain={[0, result.rankedCount]} allowDecimals={false} tick={{ fontSize: 10 }} />
+              <YAxis type="category" dataKey="name" width={220} tick={{ fontSize: 10 }} interval={0} />
+              <Tooltip content={renderTooltip} />
+              <Bar dataKey="offset" stackId="band" fill="transparent" isAnimationActive={false} />
+              <Bar dataKey="lower" stackId="band" fill="#60a5fa" isAnimationActive={false} />
+              <Bar dataKey="upper" stackId="band" fill="#1d4ed8" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="text-left py-2 pr-2 font-medium">MSA</th>
+                  <th className="text-right py-2 px-2 font-medium">Rank</th>
+                  <th className="text-right py-2 px-2 font-medium">Median</th>
+                  <th className="text-right py-2 px-2 font-medium">5th-95th</th>
+                  {labelsBestFirst.map(label => (
+                    <th key={label} className="text-right py-2 px-2 font-medium">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {listed.map(item => {
+                  const likeliest = Math.max(...labelsBestFirst.map(label => item.categoryProbabilities[label] ?? 0));
+                  return (
+                    <tr key={item.msa} className="border-b">
+                      <td className="py-1.5 pr-2">
+                        {item.msa}
+                        <Badge variant="outline" className={`ml-2 text-[10px] ${getCategoryBadgeClass(item.category, categorization)}`}>
+                          {item.category}
+                        </Badge>
+                      </td>
+                      <td className="text-right py-1.5 px-2">{item.rank}</td>
+                      <td className="text-right py-1.5 px-2">{item.medianRank}</td>
+                      <td className="text-right py-1.5 px-2">{item.p5Rank === item.p95Rank ? item.p5Rank : `${item.p5Rank}-${item.p95Rank}`}</td>
+                      {labelsBestFirst.map(label => {
+                        const probability = item.categoryProbabilities[label] ?? 0;
+                        return (
+                          <td key={label} className={`text-right py-1.5 px-2 ${probability > 0 && probability === likeliest ? "font-semibold" : "text-muted-foreground"}`}>
+                            {formatProbability(probability)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
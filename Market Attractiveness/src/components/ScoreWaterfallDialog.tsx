@@ -0,0 +1,315 @@
+import { useMemo, useState } from "react";
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LabelList } from "recharts";
+import { ChartBarDecreasing } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { BucketAssignment } from "../utils/scoreCalculation";
+import { ScoringOptions } from "../utils/continuousScoring";
+import { BucketWeightingOptions } from "../utils/bucketWeighting";
+import { ScoringBucket } from "../utils/scoringBuckets";
+import { PARAMETER_LABELS } from "../utils/parameterRegistry";
+import { ScoreDecomposition, decomposeScore } from "../utils/scoreDecomposition";
+
+interface ScoreWaterfallDialogProps {
+  // Every MSA being scored (the mean is national)
+  rows: Record<string, any>[];
+  msa: string;
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  scoringOptions: ScoringOptions;
+  bucketWeighting: BucketWeightingOptions;
+  // Shown next to the icon; icon-only when omitted (table cells)
+  label?: string;
+}
+
+type Level = "buckets" | "parameters";
+
+interface WaterfallStep {
+  name: string;
+  start: number;
+  end: number;
+  kind: "total" | "up" | "down";
+  detail: string;
+}
+
+const NO_COMPARISON = "__none__";
+
+const STEP_COLORS: Record<WaterfallStep["kind"], string> = { total: "#64748b", up: "#22c55e", down: "#ef4444" };
+
+const formatDelta = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const parameterName = (parameterId: string, selectedValue: string) =>
+  `${PARAMETER_LABELS[parameterId] || parameterId}: ${selectedValue}`;
+
+// From the national mean through each bucket's or parameter's contribution to the MSA's score
+const buildSteps = (decomposition: ScoreDecomposition, level: Level): WaterfallStep[] => {
+  const steps: WaterfallStep[] = [{
+    name: "National mean",
+    start: 0,
+    end: decomposition.nationalMean,
+    kind: "total",
+    detail: `Mean of ${decomposition.rankedCount} ranked MSAs`,
+  }];
+  let running = decomposition.nationalMean;
+  const add = (name: string, delta: number, detail: string) => {
+    steps.push({ name, start: running, end: running + delta, kind: delta >= 0 ? "up" : "down", detail });
+    running += delta;
+  };
+
+  decomposition.buckets.forEach(bucket => {
+    if (level === "buckets") {
+      add(`${bucket.label} (${bucket.weight.toFixed(0)}%)`, bucket.contribution, `${bucket.parameters.length} parameters`);
+      return;
+    }
+    bucket.parameters.forEach(parameter => {
+      add(
+        parameterName(parameter.parameterId, parameter.selectedValue),
+        parameter.contribution,
+        `${bucket.label}, ${parameter.weight.toFixed(1)}% · ${parameter.value || "No label"} · match ${parameter.matchScore.toFixed(2)} vs ${parameter.nationalMatchScore.toFixed(2)} national`
+      );
+    });
+  });
+
+  steps.push({ name: decomposition.msa, start: 0, end: decomposition.score, kind: "total", detail: "Score" });
+  return steps;
+};
+
+// Axis range covering every step, so small contributions aren't flattened against a zero baseline
+const getDomain = (steps: WaterfallStep[]): [number, number] => {
+  const values = steps.flatMap(step => (step.kind === "total" ? [step.end] : [step.start, step.end]));
+  const min = Math.max(0, Math.floor((Math.min(...values) - 0.1) * 10) / 10);
+  const max = Math.ceil((Math.max(...values) + 0.1) * 10) / 10;
+  return [min, max];
+};
+
+function WaterfallChart({ steps, domain }: { steps: WaterfallStep[]; domain: [number, number] }) {
+  // Totals are drawn from the axis minimum; other steps float between their start and end
+  const chartData = steps.map(step => ({
+    ...step,
+    range: step.kind === "total" ? [domain[0], step.end] : [Math.min(step.start, step.end), Math.max(step.start, step.end)],
+    text: step.kind === "total" ? step.end.toFixed(2) : formatDelta(step.end - step.start),
+  }));
+
+  const renderTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const step = payload[0].payload;
+    return (
+      <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+        <div className="font-medium mb-1">{step.name}</div>
+        <div>{step.kind === "total" ? step.end.toFixed(2) : `${formatDelta(step.end - step.start)} → ${step.end.toFixed(2)}`}</div>
+        <div className="text-muted-foreground">{step.detail}</div>
+      </div>
+    );
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={Math.max(160, chartData.length * 28 + 40)}>
+      <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 40, bottom: 5, left: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+        <XAxis type="number" domain={domain} allowDataOverflow tick={{ fontSize: 10 }} tickFormatter={(value: number) => value.toFixed(1)} />
+        <YAxis type="category" dataKey="name" width={190} tick={{ fontSize: 10 }} interval={0} />
+        <Tooltip content={renderTooltip} />
+        <Bar dataKey="range" isAnimationActive={false}>
+          {chartData.map((step, index) => (
+            <Cell key={index} fill={STEP_COLORS[step.kind]} />
+          ))}
+          <LabelList dataKey="text" position="right" style={{ fontSize: 10 }} />
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+// Waterfall of how an MSA's score is built from the national mean, optionally beside a second MSA
+export function ScoreWaterfallDialog(props: ScoreWaterfallDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {props.label ? (
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <ChartBarDecreasing className="h-4 w-4" />
+            {props.label}
+          </Button>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-6 px-2" title="Score waterfall">
+            <ChartBarDecreasing className="h-3 w-3" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Score Waterfall - {props.msa}</DialogTitle>
+          <DialogDescription>
+            How the score is built up from the national mean: each bucket's or parameter's weight times how far the MSA's match score sits from the national average match score
+          </DialogDescription>
+        </DialogHeader>
+        {open && <ScoreWaterfallContent {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ScoreWaterfallContent({ rows, msa, bucketAssignments, buckets, scoringOptions, bucketWeighting }: ScoreWaterfallDialogProps) {
+  const [level, setLevel] = useState<Level>("parameters");
+  const [compareMSA, setCompareMSA] = useState(NO_COMPARISON);
+
+  const decomposition = useMemo(
+    () => decomposeScore(rows, msa, bucketAssignments, buckets, scoringOptions, bucketWeighting),
+    [rows, msa, bucketAssignments, buckets, scoringOptions, bucketWeighting]
+  );
+  const comparison = useMemo(
+    () => (compareMSA === NO_COMPARISON ? null : decomposeScore(rows, compareMSA, bucketAssignments, buckets, scoringOptions, bucketWeighting)),
+    [rows, compareMSA, bucketAssignments, buckets, scoringOptions, bucketWeighting]
+  );
+
+  const otherMSAs = useMemo(
+    () => rows.map(row => row.MSA as string).filter(name => name !== msa).sort((a, b) => a.localeCompare(b)),
+    [rows, msa]
+  );
+
+  if (!decomposition) {
+    return <p className="text-sm text-muted-foreground">{msa} isn't in the scored data.</p>;
+  }
+
+  const steps = buildSteps(decomposition, level);
+  const comparisonSteps = comparison ? buildSteps(comparison, level) : null;
+  const domain = getDomain(comparisonSteps ? [...steps, ...comparisonSteps] : steps);
+
+  // Both MSAs are scored with the same assignments, so their buckets and parameters line up
+  const tableRows = decomposition.buckets.flatMap((bucket, bucketIndex) => [
+    {
+      key: bucket.bucket,
+      name: `${bucket.label} bucket`,
+      isBucket: true,
+      weight: bucket.weight,
+      value: "",
+      contribution: bucket.contribution,
+      comparison: comparison?.buckets[bucketIndex]?.contribution ?? null,
+      comparisonValue: "",
+    },
+    ...(level === "parameters" ? bucket.parameters.map((parameter, index) => {
+      const other = comparison?.buckets[bucketIndex]?.parameters[index];
+      return {
+        key: `${bucket.bucket}-${parameter.parameterId}-${parameter.selectedValue}`,
+        name: parameterName(parameter.parameterId, parameter.selectedValue),
+        isBucket: false,
+        weight: parameter.weight,
+        value: parameter.value,
+        contribution: parameter.contribution,
+        comparison: other?.contribution ?? null,
+        comparisonValue: other?.value ?? "",
+      };
+    }) : []),
+  ]);
+
+  const deltaClass = (value: number | null) =>
+    value === null || Math.abs(value) < 0.005 ? "" : value > 0 ? "text-green-600" : "text-red-600";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Badge variant="outline">National mean {decomposition.nationalMean.toFixed(2)}</Badge>
+        <Badge variant="outline">Score {decomposition.score.toFixed(2)}</Badge>
+        {decomposition.excluded && <Badge variant="outline" className="text-amber-700 border-amber-300">Excluded from the ranking</Badge>}
+        <div className="ml-auto flex items-center gap-3">
+          <Label className="text-xs">Compare with</Label>
+          <Select value={compareMSA} onValueChange={setCompareMSA}>
+            <SelectTrigger className="h-8 w-56 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COMPARISON}>No comparison</SelectItem>
+              {otherMSAs.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Tabs value={level} onValueChange={(value) => setLevel(value as Level)}>
+            <TabsList>
+              <TabsTrigger value="buckets">Buckets</TabsTrigger>
+              <TabsTrigger value="parameters">Parameters</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {decomposition.buckets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No parameters are scored in any bucket.</p>
+      ) : (
+        <div className={`grid gap-4 ${comparisonSteps ? "grid-cols-1 lg:grid-cols-2" : "grid-cols-1"}`}>
+          <div>
+            {comparisonSteps && <h4 className="text-sm font-medium mb-1">{msa}</h4>}
+            <WaterfallChart steps={steps} domain={domain} />
+          </div>
+          {comparisonSteps && comparison && (
+            <div>
+              <h4 className="text-sm font-medium mb-1">{comparison.msa}</h4>
+              <WaterfallChart steps={comparisonSteps} domain={domain} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-xs">{level === "buckets" ? "Bucket" : "Parameter"}</TableHead>
+            <TableHead className="text-xs text-right">Weight</TableHead>
+            <TableHead className="text-xs">{comparison ? msa : "Label"}</TableHead>
+            <TableHead className="text-xs text-right">Contribution</TableHead>
+            {comparison && (
+              <>
+                <TableHead className="text-xs">{comparison.msa}</TableHead>
+                <TableHead className="text-xs text-right">Contribution</TableHead>
+                <TableHead className="text-xs text-right">Difference</TableHead>
+              </>
+            )}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tableRows.map(row => (
+            <TableRow key={row.key} className={row.isBucket ? "bg-muted/30" : ""}>
+              <TableCell className={`text-xs ${row.isBucket ? "font-medium" : "pl-6"}`}>{row.name}</TableCell>
+              <TableCell className="text-xs text-right">{row.weight.toFixed(1)}%</TableCell>
+              <TableCell className="text-xs">{row.value}</TableCell>
+              <TableCell className={`text-xs text-right ${deltaClass(row.contribution)}`}>{formatDelta(row.contribution)}</TableCell>
+              {comparison && (
+                <>
+                  <TableCell className="text-xs">{row.comparisonValue}</TableCell>
+                  <TableCell className={`text-xs text-right ${deltaClass(row.comparison)}`}>
+                    {row.comparison === null ? "-" : formatDelta(row.comparison)}
+                  </TableCell>
+                  <TableCell className={`text-xs text-right ${deltaClass(row.comparison === null ? null : row.contribution - row.comparison)}`}>
+                    {row.comparison === null ? "-" : formatDelta(row.contribution - row.comparison)}
+                  </TableCell>
+                </>
+              )}
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell className="text-xs font-medium">Score</TableCell>
+            <TableCell />
+            <TableCell />
+            <TableCell className="text-xs text-right font-medium">{decomposition.score.toFixed(2)}</TableCell>
+            {comparison && (
+              <>
+                <TableCell />
+                <TableCell className="text-xs text-right font-medium">{comparison.score.toFixed(2)}</TableCell>
+                <TableCell className={`text-xs text-right font-medium ${deltaClass(decomposition.score - comparison.score)}`}>
+                  {formatDelta(decomposition.score - comparison.score)}
+                </TableCell>
+              </>
+            )}
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { Tags, TrendingUp } from "lucide-react";
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  NORMALIZATION_METHODS,
+  NormalizationMethod,
+  RAW_METRICS,
+  ScoringMode,
+  ScoringOptions,
+  getNormalizationMethod,
+  hasRawMetric,
+} from "../utils/continuousScoring";
+
+interface ScoringMethodCardProps {
+  options: ScoringOptions;
+  onChange: (options: ScoringOptions) => void;
+  parameters: Array<{ id: string; label: string }>;
+}
+
+// Toggle between label-based and continuous scoring, with the normalization used for each raw metric
+export function ScoringMethodCard({ options, onChange, parameters }: ScoringMethodCardProps) {
+  const continuousParameters = parameters.filter(parameter => hasRawMetric(parameter.id));
+  const labelOnlyParameters = parameters.filter(parameter => !hasRawMetric(parameter.id));
+
+  const setMode = (mode: ScoringMode) => onChange({ ...options, mode });
+
+  const setNormalization = (parameterId: string, method: NormalizationMethod) =>
+    onChange({ ...options, normalization: { ...options.normalization, [parameterId]: method } });
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm">Scoring Method</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            {options.mode === "labels"
+              ? "Each parameter scores 1-3 from its High/Medium/Low label."
+              : "Each parameter scores 1-3 from its raw value, normalized across the MSAs, so MSAs either side of a label boundary score almost the same."}
+          </p>
+        </div>
+        <Tabs value={options.mode} onValueChange={(value) => setMode(value as ScoringMode)}>
+          <TabsList>
+            <TabsTrigger value="labels" className="flex items-center gap-2">
+              <Tags className="h-4 w-4" />
+              Labels
+            </TabsTrigger>
+            <TabsTrigger value="continuous" className="flex items-center gap-2">
+              <TrendingUp className="h-4 w-4" />
+              Continuous
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {options.mode === "continuous" && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {continuousParameters.map(parameter => (
+              <div key={parameter.id} className="space-y-1">
+                <Label className="text-xs">{parameter.label}</Label>
+                <Select
+                  value={getNormalizationMethod(options, parameter.id)}
+                  onValueChange={(value) => setNormalization(parameter.id, value as NormalizationMethod)}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NORMALIZATION_METHODS.map(method => (
+                      <SelectItem key={method.id} value={method.id}>
+                        {method.label} <span className="text-muted-foreground">- {method.description}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-[10px] text-muted-foreground truncate" title={RAW_METRICS[parameter.id].column}>
+                  From {RAW_METRICS[parameter.id].column}
+                </p>
+              </div>
+            ))}
+          </div>
+          {labelOnlyParameters.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {labelOnlyParameters.map(parameter => parameter.label).join(", ")} {labelOnlyParameters.length === 1 ? "has" : "have"} no raw metric and {labelOnlyParameters.length === 1 ? "is" : "are"} still scored from the label.
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
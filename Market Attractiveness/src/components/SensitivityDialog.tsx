@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { Tornado } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { BucketAssignment } from "../utils/scoreCalculation";
+import { ScoringOptions } from "../utils/continuousScoring";
+import { BucketWeightingOptions } from "../utils/bucketWeighting";
+import { ScoringBucket, getBucketName } from "../utils/scoringBuckets";
+import { SensitivityKind, calculateSensitivity } from "../utils/sensitivity";
+
+interface SensitivityDialogProps {
+  // Every MSA being scored (the rank is national)
+  rows: Record<string, any>[];
+  msa: string;
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  scoringOptions: ScoringOptions;
+  bucketWeighting: BucketWeightingOptions;
+  parameterLabels: Record<string, string>;
+}
+
+const STEPS = [1, 2, 5, 10];
+
+const formatDelta = (value: number | null, digits: number) =>
+  value === null ? "-" : `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+// Tornado chart of how one MSA's score and rank move as each parameter's weight or bucket changes
+export function SensitivityDialog(props: SensitivityDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2" title="Sensitivity">
+          <Tornado className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sensitivity - {props.msa}</DialogTitle>
+          <DialogDescription>
+            How this MSA's score and national rank move when one parameter's weight or bucket changes, with everything else as it is now
+          </DialogDescription>
+        </DialogHeader>
+        {/* Only computed while open - every variation re-scores all MSAs */}
+        {open && <SensitivityContent {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SensitivityContent({ rows, msa, bucketAssignments, buckets, scoringOptions, bucketWeighting, parameterLabels }: SensitivityDialogProps) {
+  const [step, setStep] = useState(5);
+  const [kind, setKind] = useState<SensitivityKind>("weight");
+  const [metric, setMetric] = useState<"score" | "rank">("score");
+
+  const result = useMemo(
+    () => calculateSensitivity(rows, msa, bucketAssignments, buckets, scoringOptions, step, bucketWeighting),
+    [rows, msa, bucketAssignments, buckets, scoringOptions, step, bucketWeighting]
+  );
+
+  const parameterName = (parameterId: string, selectedValue: string) =>
+    `${parameterLabels[parameterId] || parameterId}: ${selectedValue}`;
+
+  // One bar per parameter from its worst to its best scenario, widest first
+  const chartData = useMemo(() => {
+    if (!result) return [];
+    return result.parameters
+      .map(parameter => {
+        const values = parameter.scenarios
+          .filter(scenario => scenario.kind === kind)
+          .map(scenario => (metric === "score" ? scenario.scoreDelta : scenario.rankChange ?? 0));
+        if (values.length === 0) return null;
+        return {
+          name: parameterName(parameter.parameterId, parameter.selectedValue),
+          down: Math.min(0, ...values),
+          up: Math.max(0, ...values),
+        };
+      })
+      .filter((item): item is { name: string; down: number; up: number } => item !== null)
+      .sort((a, b) => b.up - b.down - (a.up - a.down));
+  }, [result, kind, metric]);
+
+  if (!result) {
+    return <p className="text-sm text-muted-foreground">{msa} isn't in the scored data.</p>;
+  }
+
+  if (bucketAssignments.length === 0) {
+    return <p className="text-sm text-muted-foreground">Assign parameters to the importance buckets to see how sensitive the score is to them.</p>;
+  }
+
+  const scenarioRows = result.parameters.flatMap(parameter =>
+    parameter.scenarios
+      .filter(scenario => scenario.kind === kind)
+      .map(scenario => ({ parameter, scenario }))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Badge variant="outline">Score {result.score.toFixed(2)}</Badge>
+        <Badge variant="outline">
+          {result.rank === null ? "Excluded" : `Rank ${result.rank} of ${result.rankedCount}`}
+        </Badge>
+        <div className="ml-auto flex items-center gap-3">
+          <Tabs value={kind} onValueChange={(value) => setKind(value as SensitivityKind)}>
+            <TabsList>
+              <TabsTrigger value="weight">Weight ± step</TabsTrigger>
+              <TabsTrigger value="bucket">Bucket moves</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Tabs value={metric} onValueChange={(value) => setMetric(value as "score" | "rank")}>
+            <TabsList>
+              <TabsTrigger value="score">Score</TabsTrigger>
+              <TabsTrigger value="rank">Rank</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {kind === "weight" && (
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">Step</Label>
+          <Select value={String(step)} onValueChange={(value) => setStep(Number(value))}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STEPS.map(value => (
+                <SelectItem key={value} value={String(value)}>± {value} pts</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">The other scored parameters are rescaled so the weights still add up the same</span>
+        </div>
+      )}
+
+      {chartData.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No parameters are scored in any bucket.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={Math.max(160, chartData.length * 36 + 40)}>
+          <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis
+              type="number"
+              tick={{ fontSize: 10 }}
+              tickFormatter={(value: number) => (metric === "score" ? value.toFixed(2) : String(value))}
+              allowDecimals={metric === "score"}
+            />
+            <YAxis type="category" dataKey="name" width={180} tick={{ fontSize: 10 }} />
+            <Tooltip
+              formatter={(value: number, name: string) => [
+                formatDelta(value, metric === "score" ? 2 : 0),
+                name === "down" ? (metric === "score" ? "Largest fall" : "Most places lost") : (metric === "score" ? "Largest rise" : "Most places gained"),
+              ]}
+            />
+            <ReferenceLine x={0} stroke="#64748b" />
+            <Bar dataKey="down" stackId="range" fill="#ef4444" />
+            <Bar dataKey="up" stackId="range" fill="#22c55e" />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-xs">Parameter</TableHead>
+            <TableHead className="text-xs">Change</TableHead>
+            <TableHead className="text-xs text-right">Score</TableHead>
+            <TableHead className="text-xs text-right">Δ Score</TableHead>
+            <TableHead className="text-xs text-right">Rank</TableHead>
+            <TableHead className="text-xs text-right">Places</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {scenarioRows.map(({ parameter, scenario }, index) => (
+            <TableRow key={index}>
+              <TableCell className="text-xs">
+                {parameterName(parameter.parameterId, parameter.selectedValue)}
+                <span className="text-muted-foreground"> · {getBucketName(buckets, parameter.bucket)}{parameter.bucket !== "exclusions" ? `, ${parameter.weight.toFixed(1)}%` : ""}</span>
+              </TableCell>
+              <TableCell className="text-xs">
+                {scenario.label}
+                {scenario.weight !== undefined && <span className="text-muted-foreground"> ({scenario.weight.toFixed(1)}%)</span>}
+              </TableCell>
+              <TableCell className="text-xs text-right">{scenario.score.toFixed(2)}</TableCell>
+              <TableCell className={`text-xs text-right ${scenario.scoreDelta > 0 ? "text-green-600" : scenario.scoreDelta < 0 ? "text-red-600" : ""}`}>
+                {formatDelta(scenario.scoreDelta, 2)}
+              </TableCell>
+              <TableCell className="text-xs text-right">{scenario.rank ?? "Excluded"}</TableCell>
+              <TableCell className={`text-xs text-right ${(scenario.rankChange ?? 0) > 0 ? "text-green-600" : (scenario.rankChange ?? 0) < 0 ? "text-red-600" : ""}`}>
+                {formatDelta(scenario.rankChange, 0)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { Settings, Database, Trash2, Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { DatasetCacheEntry, clearDatasetCache, isDatasetCacheAvailable, listDatasetCache } from "../utils/datasetCache";
+import { csvDataService } from "../utils/csvDataService";
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+// Last path segment of a cached URL ("/data/attractivenes.csv" -> "attractivenes.csv")
+const fileNameOf = (url: string): string => url.split("?")[0].split("/").filter(Boolean).pop() || url;
+
+// Header button with dashboard settings: data source and the parsed-dataset cache
+export function SettingsPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [cacheAvailable, setCacheAvailable] = useState<boolean | null>(null);
+  const [entries, setEntries] = useState<DatasetCacheEntry[]>([]);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refreshCacheStatus = async () => {
+    try {
+      const available = await isDatasetCacheAvailable();
+      setCacheAvailable(available);
+      setEntries(available ? await listDatasetCache() : []);
+    } catch (error) {
+      console.error("Error reading dataset cache:", error);
+      setCacheAvailable(false);
+      setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshCacheStatus();
+    }
+  }, [isOpen]);
+
+  const handleClearCache = async () => {
+    setIsClearing(true);
+    try {
+      await clearDatasetCache();
+      await refreshCacheStatus();
+    } catch (error) {
+      console.error("Error clearing dataset cache:", error);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2"
+      >
+        <Settings className="h-4 w-4" />
+        Settings
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Settings</DialogTitle>
+            <DialogDescription>
+              Data source: <span className="font-medium">{csvDataService.getDataSource().type}</span>
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Database className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-medium">Dataset cache</span>
+                {cacheAvailable === null ? (
+                  <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                ) : cacheAvailable ? (
+                  <Badge variant="outline" className="text-[10px] text-green-700 border-green-300">Enabled</Badge>
+                ) : (
+                  <Badge variant="outline" className="text-[10px] text-amber-700 border-amber-300">Unavailable</Badge>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleClearCache}
+                disabled={!cacheAvailable || entries.length === 0 || isClearing}
+                className="flex items-center gap-2"
+              >
+                {isClearing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                Clear cache
+              </Button>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {cacheAvailable === false
+                ? "This browser doesn't allow IndexedDB or Web Crypto here, so CSV files are parsed on every load."
+                : "Parsed CSV files are kept in this browser and reused while the file contents are unchanged. A changed file is detected by its content hash and parsed again."}
+            </p>
+
+            {cacheAvailable && (
+              entries.length === 0 ? (
+                <div className="py-6 text-center text-sm text-muted-foreground border rounded-lg">
+                  Nothing cached yet. Files are cached the next time they load.
+                </div>
+              ) : (
+                <div className="border rounded-lg max-h-72 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>File</TableHead>
+                        <TableHead className="w-24">Hash</TableHead>
+                        <TableHead className="w-20 text-right">Size</TableHead>
+                        <TableHead className="w-20 text-right">Rows</TableHead>
+                        <TableHead>Cached</TableHead>
+                        <TableHead>Last used</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.map(entry => (
+                        <TableRow key={entry.key}>
+                          <TableCell className="text-xs" title={entry.url}>{fileNameOf(entry.url)}</TableCell>
+                          <TableCell className="text-xs font-mono" title={entry.hash}>{entry.hash.slice(0, 8)}</TableCell>
+                          <TableCell className="text-xs text-right">{formatBytes(entry.bytes)}</TableCell>
+                          <TableCell className="text-xs text-right">{entry.rowCount.toLocaleString()}</TableCell>
+                          <TableCell className="text-xs">{formatTime(entry.cachedAt)}</TableCell>
+                          <TableCell className="text-xs">{formatTime(entry.lastUsedAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )
+            )}
+
+            {entries.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {entries.length} {entries.length === 1 ? "file" : "files"} cached · {formatBytes(totalBytes)} of source data
+              </p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,252 @@
+import { useMemo, useState } from "react";
+import { Radar as RadarIcon, RotateCcw } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import {
+  DEFAULT_SIMILARITY_DIMENSIONS,
+  SIMILARITY_DIMENSIONS,
+  SimilarMarket,
+  findSimilarMarkets,
+} from "../utils/similarMarkets";
+
+interface SimilarMarketsDialogProps {
+  // Every MSA to search (the z-scores are national)
+  rows: Record<string, any>[];
+  msa: string;
+  // Shown next to the icon; icon-only when omitted (table cells)
+  label?: string;
+}
+
+const TOP_COUNT = 15;
+const DRIVER_COUNT = 4;
+
+// Nearest-neighbour search: the MSAs that look most like this one on the chosen metrics
+export function SimilarMarketsDialog(props: SimilarMarketsDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {props.label ? (
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <RadarIcon className="h-4 w-4" />
+            {props.label}
+          </Button>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-6 px-2" title="Similar markets">
+            <RadarIcon className="h-3 w-3" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Similar Markets - {props.msa}</DialogTitle>
+          <DialogDescription>
+            Every other MSA ranked by distance on the chosen metrics, each measured in standard deviations across all MSAs
+          </DialogDescription>
+        </DialogHeader>
+        {open && <SimilarMarketsContent {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SimilarMarketsContent({ rows, msa }: SimilarMarketsDialogProps) {
+  const [dimensionIds, setDimensionIds] = useState<string[]>(DEFAULT_SIMILARITY_DIMENSIONS);
+  const [sameRegion, setSameRegion] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [pinned, setPinned] = useState<string | null>(null);
+
+  const result = useMemo(
+    () => findSimilarMarkets(rows, msa, { dimensionIds, sameRegion }),
+    [rows, msa, dimensionIds, sameRegion]
+  );
+
+  if (!result) {
+    return <p className="text-sm text-muted-foreground">{msa} isn't in the data.</p>;
+  }
+
+  const toggleDimension = (id: string) => {
+    if (dimensionIds.includes(id)) {
+      if (dimensionIds.length > 1) setDimensionIds(dimensionIds.filter(dimensionId => dimensionId !== id));
+    } else {
+      // Keep the registry order so the comparison rows don't jump around
+      setDimensionIds(SIMILARITY_DIMENSIONS.map(d => d.id).filter(dimensionId => dimensionId === id || dimensionIds.includes(dimensionId)));
+    }
+  };
+
+  const dimensionLabel = (id: string) => result.dimensions.find(dimension => dimension.id === id)?.label ?? id;
+  const rowsByMSA = new Map(rows.map(row => [row.MSA as string, row]));
+  const targetRow = rowsByMSA.get(msa)!;
+
+  const listed = showAll ? result.markets : result.markets.slice(0, TOP_COUNT);
+  const maxDistance = Math.max(...result.markets.map(market => market.distance), 0.01);
+  // Metrics the nearest markets differ on more than usual, most different first
+  const fartherApart = result.drivers.slice(DRIVER_COUNT).filter(driver => driver.strength < 0).reverse().slice(0, 3);
+  const pinnedMarket = pinned ? result.markets.find(market => market.msa === pinned) : undefined;
+
+  const renderDimensionGroup = (kind: "raw" | "label", title: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{title}</Label>
+      <div className="flex flex-wrap gap-1">
+        {SIMILARITY_DIMENSIONS.filter(dimension => dimension.kind === kind).map(dimension => {
+          const chosen = dimensionIds.includes(dimension.id);
+          return (
+            <Button
+              key={dimension.id}
+              variant={chosen ? "default" : "outline"}
+              size="sm"
+              className="h-7 text-xs"
+              disabled={chosen && dimensionIds.length === 1}
+              onClick={() => toggleDimension(dimension.id)}
+            >
+              {kind === "label" ? dimension.label.replace(/ label$/, "") : dimension.label}
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const renderComparison = (market: SimilarMarket) => {
+    const row = rowsByMSA.get(market.msa)!;
+    return (
+      <div className="rounded-md border p-3">
+        <div className="text-xs font-medium mb-2">{msa} vs {market.msa}</div>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b text-muted-foreground">
+              <th className="text-left py-1 pr-2 font-medium">Metric</th>
+              <th className="text-right py-1 px-2 font-medium">{msa}</th>
+              <th className="text-right py-1 px-2 font-medium">{market.msa}</th>
+              <th className="text-right py-1 pl-2 font-medium">Gap (SD)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.dimensions.map((dimension, i) => (
+              <tr key={dimension.id} className="border-b">
+                <td className="py-1 pr-2">{dimension.label}</td>
+                <td className="text-right py-1 px-2">{dimension.display(targetRow)}</td>
+                <td className="text-right py-1 px-2">{dimension.display(row)}</td>
+                <td className="text-right py-1 pl-2">{market.gaps[i] === null ? "-" : market.gaps[i]!.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {renderDimensionGroup("raw", "Raw metrics")}
+        {renderDimensionGroup("label", "Parameter labels")}
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox id="similar-same-region" checked={sameRegion} onCheckedChange={(checked) => setSameRegion(checked === true)} />
+            <Label htmlFor="similar-same-region" className="text-xs">Same region only ({result.region})</Label>
+          </div>
+          <Button variant="ghost" size="sm" className="text-xs" onClick={() => setDimensionIds(DEFAULT_SIMILARITY_DIMENSIONS)}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Default metrics
+          </Button>
+        </div>
+      </div>
+
+      {result.markets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No other MSAs {sameRegion ? `in ${result.region} ` : ""}to compare on the chosen metrics.
+        </p>
+      ) : (
+        <>
+          {result.dimensions.length > 1 && result.drivers.length > 0 && (
+            <div className="rounded-md border p-3 space-y-2">
+              <div className="text-xs font-medium">What makes the nearest markets similar</div>
+              <p className="text-xs text-muted-foreground">
+                How much closer the nearest few markets are to {msa} on each metric than MSAs are on average
+              </p>
+              {result.drivers.slice(0, DRIVER_COUNT).map(driver => (
+                <div key={driver.dimensionId} className="flex items-center gap-2 text-xs">
+                  <span className="w-48 truncate">{driver.label}</span>
+                  <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                    <div className="h-2 bg-blue-500" style={{ width: `${Math.max(0, Math.min(1, driver.strength)) * 100}%` }} />
+                  </div>
+                  <span className="w-20 text-right whitespace-nowrap text-muted-foreground">
+                    {driver.neighbourGap.toFixed(2)} vs {driver.typicalGap.toFixed(2)} SD
+                  </span>
+                </div>
+              ))}
+              {fartherApart.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Further apart than MSAs in general on: {fartherApart.map(driver => driver.label).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {showAll ? `All ${result.markets.length}` : `Nearest ${listed.length} of ${result.markets.length}`} MSAs{sameRegion ? ` in ${result.region}` : ""} · click a row to compare values
+            </p>
+            {result.markets.length > TOP_COUNT && (
+              <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+                {showAll ? `Show nearest ${TOP_COUNT}` : "Show all"}
+              </Button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="text-left py-2 pr-2 font-medium">#</th>
+                  <th className="text-left py-2 px-2 font-medium">MSA</th>
+                  <th className="text-left py-2 px-2 font-medium">Distance</th>
+                  <th className="text-left py-2 px-2 font-medium">Closest on</th>
+                  <th className="text-left py-2 pl-2 font-medium">Furthest on</th>
+                </tr>
+              </thead>
+              <tbody>
+                {listed.map((market, index) => (
+                  <tr
+                    key={market.msa}
+                    className={`border-b cursor-pointer hover:bg-muted/50 ${market.msa === pinned ? "bg-blue-50 dark:bg-blue-950/20" : ""}`}
+                    onClick={() => setPinned(market.msa === pinned ? null : market.msa)}
+                  >
+                    <td className="py-1.5 pr-2">{index + 1}</td>
+                    <td className="py-1.5 px-2">
+                      {market.msa}
+                      <span className="ml-2 text-muted-foreground">{market.region}</span>
+                    </td>
+                    <td className="py-1.5 px-2">
+                      <div className="flex items-center gap-2">
+                        <div className="w-20 h-2 rounded bg-muted overflow-hidden">
+                          <div className="h-2 bg-primary" style={{ width: `${(market.distance / maxDistance) * 100}%` }} />
+                        </div>
+                        {market.distance.toFixed(2)}
+                      </div>
+                    </td>
+                    <td className="py-1.5 px-2">
+                      <div className="flex flex-wrap gap-1">
+                        {market.closestOn.map(id => (
+                          <Badge key={id} variant="outline" className="text-[10px]">{dimensionLabel(id)}</Badge>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-1.5 pl-2 text-muted-foreground">{market.furthestOn.map(dimensionLabel).join(", ") || "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {pinnedMarket && renderComparison(pinnedMarket)}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Card } from "./ui/card";
 import { TrendingUp, Crown, Star, Zap } from "lucide-react";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION, getLabelsBestFirst } from "../utils/categorization";
 
 interface MSAData {
   MSA: string;
@@ -20,17 +21,20 @@ interface MSAData {
 
 interface StrategicInsightsProps {
   mapData: MSAData[];
+  // Categories the map data was grouped with; star markets are in its top tier
+  categorization?: CategorizationOptions;
 }
 
-export function StrategicInsights({ mapData }: StrategicInsightsProps) {
+export function StrategicInsights({ mapData, categorization = DEFAULT_CATEGORIZATION }: StrategicInsightsProps) {
   // Calculate top market
   const topMarket = mapData.reduce((prev, current) => {
     return (current.Attractiveness_Score > prev.Attractiveness_Score) ? current : prev;
   }, mapData[0]);
 
-  // Calculate star markets (Highly Attractive + high growth)
+  // Calculate star markets (top category + high growth)
+  const topCategory = getLabelsBestFirst(categorization)[0];
   const starMarkets = mapData.filter(msa => 
-    msa.Attractiveness_Category === "Highly Attractive" && 
+    msa.Attractiveness_Category === topCategory && 
     msa.Economic_Growth_Score === "High"
   );
 
@@ -18,7 +18,9 @@ import { calculateDefensiveValue, categorizeOpportunitiesByPercentile, BucketAss
 import { GlobalFilters } from "../types";
 import { applyGlobalFilters } from "../utils/applyGlobalFilters";
 import { fetchFilterBuckets, fetchOpportunitiesRaw, fetchMarketData, fetchDepositData } from "../utils/csvDataHooks";
-import { getRegionFromStateCodes } from "../utils/stateToRegionMapping";
+import { getRegionForMSASync } from "../utils/stateToRegionMapping";
+import { COMBINED_PRODUCT } from "../utils/productView";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION, getCategoryBadgeClass, getCategoryColor, getCategoryGroup, getCategoryRank, getLabelsBestFirst } from "../utils/categorization";
 
 interface OpportunityData {
   Provider: string;
@@ -29,8 +31,8 @@ interface OpportunityData {
   "Market Size": string | number;
   Opportunity_Category: string;
   Attractiveness_Category: string;
-  Provider_Opportunity_Rank: number;
-  Overall_Opportunity_Rank: number;
+  Provider_Opportunity_Rank?: number;
+  Overall_Opportunity_Rank?: number;
   Exclusion?: boolean;
   Weighted_Average_Score?: number;
 }
@@ -60,6 +62,8 @@ interface TargetOpportunitiesProps {
   bucketAssignments: BucketAssignment[];
   preselectedProviders?: Set<string>;
   preselectedMSAs?: Set<string>;
+  // Tiers behind Attractiveness_Category, for colors and the good/neutral/challenging split
+  categorization?: CategorizationOptions;
 }
 
 const COLORS = {
@@ -76,7 +80,7 @@ const ATTRACTIVENESS_COLORS = {
   "Challenging": "#ef4444",
 };
 
-export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, globalFilters, bucketAssignments, preselectedProviders, preselectedMSAs }: TargetOpportunitiesProps) {
+export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, globalFilters, bucketAssignments, preselectedProviders, preselectedMSAs, categorization = DEFAULT_CATEGORIZATION }: TargetOpportunitiesProps) {
   const [data, setData] = useState<OpportunityData[]>([]);
   const [marketData, setMarketData] = useState<OpportunityData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -180,7 +184,9 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
       const opportunitiesWithScores = new Array(opportunityData.length);
       for (let i = 0; i < opportunityData.length; i++) {
         const opp = opportunityData[i];
-        const attractiveness = attractivenessMap.get(`${opp.MSA}|${opp.Product}`);
+        // In the combined product view there is one attractiveness row per MSA
+        const attractiveness = attractivenessMap.get(`${opp.MSA}|${opp.Product}`)
+          || attractivenessMap.get(`${opp.MSA}|${COMBINED_PRODUCT}`);
         
         opportunitiesWithScores[i] = {
           ...opp,
@@ -226,8 +232,8 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
 
   const attractivenessCategories = useMemo(() => {
     const catSet = new Set(data.map(d => d.Attractiveness_Category).filter(c => c && c !== "Unknown"));
-    return Array.from(catSet).sort();
-  }, [data]);
+    return Array.from(catSet).sort((a, b) => getCategoryRank(a, categorization) - getCategoryRank(b, categorization));
+  }, [data, categorization]);
 
   // Apply global filters first (from What-If Analysis page)
   const globalFilteredMSAs = useMemo(() => {
@@ -449,15 +455,7 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
     return "bg-orange-100 text-orange-800 border-orange-300";
   };
 
-  const getAttractivenessColor = (category: string) => {
-    if (!category) return "bg-gray-100 text-gray-800 border-gray-300";
-    const normalized = category.trim().toLowerCase();
-    if (normalized.includes("highly attractive")) return "bg-green-100 text-green-800 border-green-300";
-    if (normalized === "attractive") return "bg-yellow-100 text-yellow-800 border-yellow-300";
-    if (normalized.includes("neutral")) return "bg-orange-100 text-orange-800 border-orange-300";
-    if (normalized.includes("challenging")) return "bg-red-100 text-red-800 border-red-300";
-    return "bg-gray-100 text-gray-800 border-gray-300";
-  };
+  const getAttractivenessColor = (category: string) => getCategoryBadgeClass(category?.trim() || "", categorization);
 
   // Handle analyze button click
   const handleAnalyze = async () => {
@@ -741,7 +739,7 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
           const marketSharePct = totalMarketSizeInScope === 0 ? 0 : (totalFranchiseShare / totalMarketSizeInScope) * 100;
           
           // Regional Coverage - count unique regions
-          const regions = new Set(providerOpps.map(opp => getRegionFromStateCodes(opp.MSA)));
+          const regions = new Set(providerOpps.map(opp => getRegionForMSASync(opp.MSA)));
           const regionCount = regions.size;
           
           // Customer Satisfaction
@@ -764,8 +762,7 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
             const marketShare = parseFloat(String(opp["Market Share"] || 0));
             const marketSize = parseFloat(String(opp["Market Size"] || 0));
             const revenue = marketShare * marketSize;
-            const attr = opp.Attractiveness_Category?.toLowerCase() || '';
-            if (attr.includes('highly attractive') || attr === 'attractive') {
+            if (getCategoryGroup(opp.Attractiveness_Category || "", categorization) === "good") {
               goodRevenue += revenue;
             }
           });
@@ -927,17 +924,18 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
           
           // Calculate revenue distribution by market attractiveness
           const revenueByAttractiveness = {
-            good: 0,      // Highly Attractive + Attractive
-            neutral: 0,   // Neutral
-            challenging: 0 // Challenging
+            good: 0,      // Top half of the tiers (Highly Attractive + Attractive)
+            neutral: 0,   // Tiers between (Neutral)
+            challenging: 0 // Bottom tier (Challenging)
           };
           
           msaRevenues.forEach(msaRev => {
-            if (msaRev.attractiveness === "Highly Attractive" || msaRev.attractiveness === "Attractive") {
+            const group = getCategoryGroup(msaRev.attractiveness || "", categorization);
+            if (group === "good") {
               revenueByAttractiveness.good += msaRev.revenue;
-            } else if (msaRev.attractiveness === "Neutral") {
+            } else if (group === "neutral") {
               revenueByAttractiveness.neutral += msaRev.revenue;
-            } else if (msaRev.attractiveness === "Challenging") {
+            } else if (group === "challenging") {
               revenueByAttractiveness.challenging += msaRev.revenue;
             }
           });
@@ -961,7 +959,7 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
           // Calculate regional data for this provider
           const regionalOpps = providerOpps.map(opp => ({
             msa: opp.MSA,
-            region: getRegionFromStateCodes(opp.MSA),
+            region: getRegionForMSASync(opp.MSA),
             marketShare: parseFloat(String(opp["Market Share"] || 0)) * 100,
             category: opp.Attractiveness_Category || 'Unknown'
           }));
@@ -1177,7 +1175,7 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
                         const msaFilteredMarketSharePct = totalMarketSizeInScope === 0 ? 0 : (msaFilteredFranchiseShare / totalMarketSizeInScope) * 100;
                         
                         // Regional Coverage in selected MSA(s)
-                        const msaFilteredRegions = new Set(msaFilteredOpps.map(opp => getRegionFromStateCodes(opp.MSA)));
+                        const msaFilteredRegions = new Set(msaFilteredOpps.map(opp => getRegionForMSASync(opp.MSA)));
                         const msaFilteredRegionCount = msaFilteredRegions.size;
                         
                         // Customer Satisfaction in selected MSA(s)
@@ -1199,8 +1197,7 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
                           const marketShare = parseFloat(String(opp["Market Share"] || 0));
                           const marketSize = parseFloat(String(opp["Market Size"] || 0));
                           const revenue = marketShare * marketSize;
-                          const attr = opp.Attractiveness_Category?.toLowerCase() || '';
-                          if (attr.includes('highly attractive') || attr === 'attractive') {
+                          if (getCategoryGroup(opp.Attractiveness_Category || "", categorization) === "good") {
                             msaFilteredGoodRevenue += revenue;
                           }
                         });
@@ -1305,6 +1302,7 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
                                   <Radar
                                     name="Average"
                                     dataKey="value"
+                                    // @ts-expect-error Radar's props type leaves out data, but the chart plots a series' own data
                                     data={averageRadarData}
                                     stroke="#94a3b8"
                                     fill="#cbd5e1"
@@ -1790,7 +1788,11 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
                         <div className="flex flex-col gap-1">
                           <span className="font-medium text-sm">Bank Quality by Market Attractiveness</span>
                           <span className="text-xs text-muted-foreground">
-                            Good = Highly Attractive + Attractive MSAs · Neutral = Neutral MSAs · Challenging = Challenging MSAs
+                            {([["Good", "good"], ["Neutral", "neutral"], ["Challenging", "challenging"]] as const)
+                              .map(([name, group]) => [name, getLabelsBestFirst(categorization).filter(label => getCategoryGroup(label, categorization) === group)] as const)
+                              .filter(([, labels]) => labels.length > 0)
+                              .map(([name, labels]) => `${name} = ${labels.join(" + ")} MSAs`)
+                              .join(" · ")}
                           </span>
                         </div>
                       </td>
@@ -1845,409 +1847,6 @@ export function TargetOpportunities({ attractivenessData, onAnalyzeSelected, glo
         </Card>
       )}
 
-      {/* Performance Across Market Types - Only shown when provider is selected */}
-      {false && (
-        <Card className="p-6 bg-gradient-to-br from-card to-card/50 border-2">
-          <div className="flex items-center gap-3 mb-6">
-            <div className="p-2 bg-primary/10 rounded-lg">
-              <TrendingUp className="h-5 w-5 text-primary" />
-            </div>
-            <div>
-              <h3 className="mb-0">Performance Across Market Types</h3>
-              <p className="text-xs text-muted-foreground mt-1">
-                Business distribution and market share across Good, Neutral, and Challenging markets
-              </p>
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* Market Share by MSA */}
-            <div className="bg-muted/30 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-4">Market Share by MSA & Quality</h4>
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart
-                  data={(() => {
-                    // First, determine market leaders by comparing all providers in each MSA
-                    const msaLeaderMap = new Map<string, string>(); // MSA -> Provider with highest share
-                    
-                    // Check all market data (not just filtered) to find true market leaders
-                    filteredMarketData.forEach(item => {
-                      const msaKey = item.MSA;
-                      const currentShare = parseFloat(String(item["Market Share"] || 0));
-                      
-                      if (!msaLeaderMap.has(msaKey)) {
-                        msaLeaderMap.set(msaKey, item.Provider);
-                      } else {
-                        // Check if this provider has higher share
-                        const currentLeader = msaLeaderMap.get(msaKey);
-                        const currentLeaderShare = filteredMarketData
-                          .find(d => d.MSA === msaKey && d.Provider === currentLeader)
-                          ?.["Market Share"];
-                        
-                        if (currentShare > parseFloat(String(currentLeaderShare || 0))) {
-                          msaLeaderMap.set(msaKey, item.Provider);
-                        }
-                      }
-                    });
-                    
-                    // Get unique MSAs with their data for selected provider
-                    const msaDataMap = new Map<string, {
-                      msa: string;
-                      marketShare: number;
-                      businessSize: number;
-                      attractivenessCategory: string;
-                      isLeader: boolean;
-                      rank: number;
-                      color: string;
-                    }>();
-                    
-                    filteredData.forEach(opp => {
-                      if (opp.Provider !== selectedProvider) return;
-                      
-                      const msaKey = opp.MSA;
-                      if (!msaDataMap.has(msaKey)) {
-                        const marketShare = parseFloat(String(opp["Market Share"] || 0)) * 100;
-                        const marketSize = parseFloat(String(opp["Market Size"] || 0));
-                        const businessSize = marketShare * marketSize / 100;
-                        
-                        // Check if this provider is the market leader in this MSA
-                        const isLeader = msaLeaderMap.get(msaKey) === selectedProvider;
-                        
-                        // Normalize attractiveness category
-                        const normalized = opp.Attractiveness_Category?.toLowerCase() || "";
-                        let category = "Unknown";
-                        let color = "#94a3b8"; // default gray
-                        
-                        if (normalized.includes("highly attractive")) {
-                          category = "Highly Attractive";
-                          color = "#22c55e";
-                        } else if (normalized === "attractive") {
-                          category = "Attractive";
-                          color = "#eab308";
-                        } else if (normalized.includes("neutral")) {
-                          category = "Neutral";
-                          color = "#f97316";
-                        } else if (normalized.includes("challenging")) {
-                          category = "Challenging";
-                          color = "#ef4444";
-                        }
-                        
-                        msaDataMap.set(msaKey, {
-                          msa: isLeader ? `👑 ${opp.MSA}` : opp.MSA,
-                          marketShare: marketShare,
-                          businessSize: businessSize,
-                          attractivenessCategory: category,
-                          isLeader: isLeader,
-                          rank: opp.Provider_Opportunity_Rank || 0,
-                          color: color,
-                        });
-                      }
-                    });
-                    
-                    // Sort by market share descending and take top 10
-                    const result = Array.from(msaDataMap.values())
-                      .sort((a, b) => b.marketShare - a.marketShare)
-                      .slice(0, 10);
-                    
-                    return result;
-                  })()}
-                  layout="vertical"
-                  margin={{ top: 5, right: 30, left: 120, bottom: 5 }}
-                >
-                  <CartesianGrid strokeDasharray="3 3" stroke="currentColor" className="opacity-20" />
-                  <XAxis 
-                    type="number"
-                    tick={{ fontSize: 11 }}
-                    stroke="currentColor"
-                    className="opacity-60"
-                    tickFormatter={(value) => `${value.toFixed(0)}%`}
-                  />
-                  <YAxis 
-                    type="category"
-                    dataKey="msa"
-                    tick={{ fontSize: 10 }}
-                    stroke="currentColor"
-                    className="opacity-60"
-                    width={110}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      backgroundColor: 'var(--card)',
-                      border: '1px solid var(--border)',
-                      borderRadius: '8px',
-                      boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)',
-                    }}
-                    formatter={(value: number, name: string, props: any) => [
-                      `${value.toFixed(1)}%`,
-                      'Market Share'
-                    ]}
-                    labelFormatter={(label, payload) => {
-                      if (payload && payload.length > 0) {
-                        const data = payload[0].payload;
-                        return `${data.msa.replace('👑 ', '')} - ${data.attractivenessCategory}`;
-                      }
-                      return label;
-                    }}
-                  />
-                  <Bar dataKey="marketShare" radius={[0, 4, 4, 0]}>
-                    {(() => {
-                      const msaDataMap = new Map<string, {
-                        msa: string;
-                        marketShare: number;
-                        businessSize: number;
-                        attractivenessCategory: string;
-                        isLeader: boolean;
-                        rank: number;
-                        color: string;
-                      }>();
-                      
-                      filteredData.forEach(opp => {
-                        if (opp.Provider !== selectedProvider) return;
-                        
-                        const msaKey = opp.MSA;
-                        if (!msaDataMap.has(msaKey)) {
-                          const marketShare = parseFloat(String(opp["Market Share"] || 0)) * 100;
-                          const marketSize = parseFloat(String(opp["Market Size"] || 0));
-                          const businessSize = marketShare * marketSize / 100;
-                          const rank = opp.Provider_Opportunity_Rank || 0;
-                          
-                          const normalized = opp.Attractiveness_Category?.toLowerCase() || "";
-                          let category = "Unknown";
-                          let color = "#94a3b8";
-                          
-                          if (normalized.includes("highly attractive")) {
-                            category = "Highly Attractive";
-                            color = "#22c55e";
-                          } else if (normalized === "attractive") {
-                            category = "Attractive";
-                            color = "#eab308";
-                          } else if (normalized.includes("neutral")) {
-                            category = "Neutral";
-                            color = "#f97316";
-                          } else if (normalized.includes("challenging")) {
-                            category = "Challenging";
-                            color = "#ef4444";
-                          }
-                          
-                          msaDataMap.set(msaKey, {
-                            msa: rank === 1 ? `👑 ${opp.MSA}` : opp.MSA,
-                            marketShare: marketShare,
-                            businessSize: businessSize,
-                            attractivenessCategory: category,
-                            isLeader: rank === 1,
-                            rank: rank,
-                            color: color,
-                          });
-                        }
-                      });
-                      
-                      const sortedData = Array.from(msaDataMap.values())
-                        .sort((a, b) => b.marketShare - a.marketShare)
-                        .slice(0, 10);
-                      
-                      return sortedData.map((entry, index) => (
-                        <Cell 
-                          key={`cell-${index}`} 
-                          fill={entry.color}
-                          stroke={entry.isLeader ? "#fbbf24" : "none"}
-                          strokeWidth={entry.isLeader ? 3 : 0}
-                          opacity={entry.isLeader ? 1 : 0.85}
-                        />
-                      ));
-                    })()}
-                    <LabelList 
-                      dataKey="marketShare" 
-                      position="right"
-                      formatter={(value: number) => `${value.toFixed(1)}%`}
-                      style={{ fontSize: 10, fontWeight: 600, fill: 'currentColor' }}
-                    />
-                  </Bar>
-                </BarChart>
-              </ResponsiveContainer>
-              <div className="mt-3 flex flex-wrap items-center justify-center gap-3 text-xs text-muted-foreground">
-                <div className="flex items-center gap-1">
-                  <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: "#22c55e" }}></span>
-                  <span>Highly Attractive</span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: "#eab308" }}></span>
-                  <span>Attractive</span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: "#f97316" }}></span>
-                  <span>Neutral</span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: "#ef4444" }}></span>
-                  <span>Challenging</span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <span>👑 Market Leader</span>
-                </div>
-              </div>
-            </div>
-
-            {/* Market Type Summary Table */}
-            <div className="bg-muted/30 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-4">Market Type Summary</h4>
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="border-b">
-                      <th className="text-left py-2 px-2">Market Type</th>
-                      <th className="text-right py-2 px-2">Business Size</th>
-                      <th className="text-right py-2 px-2">% of Total</th>
-                      <th className="text-right py-2 px-2"># of MSAs</th>
-                      <th className="text-right py-2 px-2">Market Share at Risk</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {(() => {
-                      const goodMarkets = providerDetailedAnalysis.qualityDistribution.filter(item => {
-                        const normalized = item.category.toLowerCase();
-                        return normalized.includes("highly attractive") || normalized === "attractive";
-                      });
-                      
-                      const neutralMarkets = providerDetailedAnalysis.qualityDistribution.filter(item => {
-                        const normalized = item.category.toLowerCase();
-                        return normalized.includes("neutral");
-                      });
-                      
-                      const challengingMarkets = providerDetailedAnalysis.qualityDistribution.filter(item => {
-                        const normalized = item.category.toLowerCase();
-                        return normalized.includes("challenging");
-                      });
-                      
-                      const marketTypes = [
-                        {
-                          name: "Good",
-                          markets: goodMarkets,
-                          color: "#22c55e"
-                        },
-                        {
-                          name: "Neutral",
-                          markets: neutralMarkets,
-                          color: "#eab308"
-                        },
-                        {
-                          name: "Challenging",
-                          markets: challengingMarkets,
-                          color: "#ef4444"
-                        }
-                      ];
-                      
-                      return marketTypes.map((type, idx) => {
-                        const businessSize = type.markets.reduce((sum, m) => sum + m.businessSize, 0);
-                        const percentage = type.markets.reduce((sum, m) => sum + m.percentage, 0);
-                        
-                        // Get all opportunities for this market type
-                        const typeOpportunities = filteredData.filter(opp => {
-                          if (opp.Provider !== selectedProvider) return false;
-                          const normalized = opp.Attractiveness_Category?.toLowerCase() || "";
-                          
-                          // Check if this MSA's category matches any in this type
-                          if (type.name === "Good") {
-                            return normalized.includes("highly attractive") || normalized === "attractive";
-                          } else if (type.name === "Neutral") {
-                            return normalized.includes("neutral");
-                          } else if (type.name === "Challenging") {
-                            return normalized.includes("challenging");
-                          }
-                          return false;
-                        });
-                        
-                        // Count unique MSAs and collect ranks and market share at risk
-                        const msaStatsMap = new Map<string, { bestRank: number, totalDefend: number }>();
-                        
-                        typeOpportunities.forEach(opp => {
-                          const msaKey = opp.MSA;
-                          const rank = opp.Provider_Opportunity_Rank || 0;
-                          const defendValue = parseFloat(String(opp["Defend $"] || 0));
-                          
-                          if (!msaStatsMap.has(msaKey)) {
-                            msaStatsMap.set(msaKey, { bestRank: rank, totalDefend: defendValue });
-                          } else {
-                            const existing = msaStatsMap.get(msaKey)!;
-                            // Keep the best (lowest) rank for this MSA
-                            if (rank > 0 && (existing.bestRank === 0 || rank < existing.bestRank)) {
-                              existing.bestRank = rank;
-                            }
-                            // Sum up all defend values for this MSA
-                            existing.totalDefend += defendValue;
-                          }
-                        });
-                        
-                        // Collect total market share at risk
-                        let totalMarketShareAtRisk = 0;
-                        
-                        msaStatsMap.forEach(stats => {
-                          totalMarketShareAtRisk += stats.totalDefend;
-                        });
-                        
-                        const msaCount = msaStatsMap.size;
-                        
-                        return (
-                          <tr key={idx} className="border-b hover:bg-muted/50">
-                            <td className="py-2 px-2">
-                              <div className="flex items-center gap-2">
-                                <div 
-                                  className="w-3 h-3 rounded-full" 
-                                  style={{ backgroundColor: type.color }}
-                                />
-                                <span className="font-medium">{type.name}</span>
-                              </div>
-                            </td>
-                            <td className="py-2 px-2 text-right">{formatCurrency(businessSize)}</td>
-                            <td className="py-2 px-2 text-right">{percentage.toFixed(1)}%</td>
-                            <td className="py-2 px-2 text-right">{msaCount}</td>
-                            <td className="py-2 px-2 text-right">{formatCurrency(totalMarketShareAtRisk)}</td>
-                          </tr>
-                        );
-                      });
-                    })()}
-                  </tbody>
-                </table>
-              </div>
-              
-              {/* Additional insights */}
-              <div className="mt-4 space-y-2">
-                {(() => {
-                  const goodMarkets = providerDetailedAnalysis.qualityDistribution.filter(item => {
-                    const normalized = item.category.toLowerCase();
-                    return normalized.includes("highly attractive") || normalized === "attractive";
-                  });
-                  
-                  const challengingMarkets = providerDetailedAnalysis.qualityDistribution.filter(item => {
-                    const normalized = item.category.toLowerCase();
-                    return normalized.includes("challenging");
-                  });
-                  
-                  const goodPercentage = goodMarkets.reduce((sum, m) => sum + m.percentage, 0);
-                  const challengingPercentage = challengingMarkets.reduce((sum, m) => sum + m.percentage, 0);
-                  
-                  return (
-                    <>
-                      <div className="flex items-center justify-between text-xs bg-card/50 rounded p-2">
-                        <span className="text-muted-foreground">Good Markets Ratio</span>
-                        <span className={`font-semibold ${goodPercentage > 50 ? 'text-green-600' : 'text-yellow-600'}`}>
-                          {goodPercentage.toFixed(1)}%
-                        </span>
-                      </div>
-                      <div className="flex items-center justify-between text-xs bg-card/50 rounded p-2">
-                        <span className="text-muted-foreground">Challenging Markets Ratio</span>
-                        <span className={`font-semibold ${challengingPercentage > 30 ? 'text-red-600' : 'text-green-600'}`}>
-                          {challengingPercentage.toFixed(1)}%
-                        </span>
-                      </div>
-                    </>
-                  );
-                })()}
-              </div>
-            </div>
-          </div>
-        </Card>
-      )}
-
       {/* Proforma Acquisition Analysis Modal */}
       <Dialog open={isAnalysisModalOpen} onOpenChange={setIsAnalysisModalOpen}>
         <DialogContent className="!max-w-[98vw] !w-[98vw] h-[98vh] !max-h-[98vh] overflow-y-auto p-0" aria-describedby={undefined}>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { Card } from "./ui/card";
 import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { geoPath, geoAlbersUsa } from "d3-geo";
@@ -8,9 +9,17 @@ import { feature } from "topojson-client";
 import { TransformWrapper, TransformComponent } from "react-zoom-pan-pinch";
 import { ZoomIn, ZoomOut, Maximize2, TrendingUp, AlertTriangle, DollarSign } from "lucide-react";
 import { BucketAssignment, calculateDefensiveValue } from "../utils/scoreCalculation";
+import { ScoringOptions } from "../utils/continuousScoring";
+import { BucketWeightingOptions } from "../utils/bucketWeighting";
+import { ScoringBucket } from "../utils/scoringBuckets";
+import { ScoreWaterfallDialog } from "./ScoreWaterfallDialog";
+import { SimilarMarketsDialog } from "./SimilarMarketsDialog";
 import { GlobalFilters } from "../types";
 import { applyGlobalFilters } from "../utils/applyGlobalFilters";
 import { fetchFilterBuckets, fetchMSADetails as fetchMSADetailsFromCSV } from "../utils/csvDataHooks";
+import { MSAChange } from "../utils/vintageComparison";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION, getCategoryBadgeClass, getCategoryColor, getCategoryRank, getLabelsBestFirst } from "../utils/categorization";
+import { ArchetypeResult } from "../utils/marketArchetypes";
 
 interface MSAData {
   MSA: string;
@@ -36,6 +45,7 @@ interface MSAData {
   International_CM_Score: string;
   Pricing_Rationality: string;
   Pricing_Rationality_Explanation: string;
+  Archetype?: string;
 }
 
 interface OpportunityData {
@@ -46,8 +56,8 @@ interface OpportunityData {
   "Defend $": string | number;
   "Market Size": string | number;
   Opportunity_Category: string;
-  Provider_Opportunity_Rank: number;
-  Overall_Opportunity_Rank: number;
+  Provider_Opportunity_Rank?: number;
+  Overall_Opportunity_Rank?: number;
   Included_In_Ranking?: boolean;
   Exclusion?: boolean;
 }
@@ -58,11 +68,23 @@ interface USAMapProps {
   bucketAssignments: BucketAssignment[];
   selectedMSAs?: Set<string>;
   onToggleSelection?: (msa: string) => void;
+  // Period-over-period changes when a comparison vintage is selected; movers get a ring
+  msaChanges?: Map<string, MSAChange> | null;
+  comparisonLabel?: string | null;
+  // Tiers behind Attractiveness_Category, for pin colors and the legend
+  categorization?: CategorizationOptions;
+  // Every MSA being scored and the scoring setup, for the score waterfall in the MSA dialog
+  scoringRows?: MSAData[];
+  buckets?: ScoringBucket[];
+  scoringOptions?: ScoringOptions;
+  bucketWeighting?: BucketWeightingOptions;
+  // Market archetypes, for coloring pins by archetype instead of attractiveness tier
+  archetypes?: ArchetypeResult;
 }
 
 const geoUrl = "https://cdn.jsdelivr.net/npm/us-atlas@3/states-10m.json";
 
-export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs, onToggleSelection }: USAMapProps) {
+export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs, onToggleSelection, msaChanges, comparisonLabel, categorization = DEFAULT_CATEGORIZATION, scoringRows, buckets, scoringOptions, bucketWeighting, archetypes }: USAMapProps) {
   const [hoveredMSA, setHoveredMSA] = useState<string | null>(null);
   const [selectedMSA, setSelectedMSA] = useState<string | null>(null);
   const [tooltipData, setTooltipData] = useState<{data: MSAData, x: number, y: number} | null>(null);
@@ -75,6 +97,7 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
   const [isLoadingDetails, setIsLoadingDetails] = useState(false);
   const [usaGeoJson, setUsaGeoJson] = useState<any>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [colorBy, setColorBy] = useState<"category" | "archetype">("category");
   const [filterBuckets, setFilterBuckets] = useState<{
     marketSize?: { range: { min: number; max: number } };
     revenuePerCompany?: { range: { min: number; max: number } };
@@ -205,35 +228,18 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
     }
   };
 
-  const getColorByCategory = (category: string) => {
-    switch (category) {
-      case "Highly Attractive":
-        return "#22C55E";
-      case "Attractive":
-        return "#F59E0B";
-      case "Neutral":
-        return "#F97316";
-      case "Challenging":
-        return "#EF4444";
-      default:
-        return "#9CA3AF";
-    }
-  };
+  const getColorByCategory = (category: string) => getCategoryColor(category, categorization);
 
-  const getBadgeColorByCategory = (category: string) => {
-    switch (category) {
-      case "Highly Attractive":
-        return "bg-green-100 text-green-800 border-green-300";
-      case "Attractive":
-        return "bg-yellow-100 text-yellow-800 border-yellow-300";
-      case "Neutral":
-        return "bg-orange-100 text-orange-800 border-orange-300";
-      case "Challenging":
-        return "bg-red-100 text-red-800 border-red-300";
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-300";
-    }
-  };
+  const showArchetypes = colorBy === "archetype" && !!archetypes && archetypes.profiles.length > 0;
+  const archetypeColors = useMemo(
+    () => new Map((archetypes?.profiles ?? []).map(profile => [profile.name, profile.color])),
+    [archetypes]
+  );
+  // Pin color for the current layer; MSAs without an archetype fall back to grey
+  const getPinColor = (msa: MSAData) =>
+    showArchetypes ? archetypeColors.get(msa.Archetype ?? "") ?? "#9CA3AF" : getColorByCategory(msa.Attractiveness_Category);
+
+  const getBadgeColorByCategory = (category: string) => getCategoryBadgeClass(category, categorization);
 
   const getScoreColor = (score: string) => {
     const s = score?.toLowerCase() || "";
@@ -312,11 +318,10 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
 
   // Get unique MSAs with their primary attractiveness (use the highest category)
   const uniqueMSAs = Object.entries(msaGroups).map(([msaName, msas]) => {
-    const categorySortOrder = { "Highly Attractive": 0, Attractive: 1, Neutral: 2, Challenging: 3 };
     const primaryMSA = msas.sort(
       (a, b) =>
-        categorySortOrder[a.Attractiveness_Category as keyof typeof categorySortOrder] -
-        categorySortOrder[b.Attractiveness_Category as keyof typeof categorySortOrder]
+        getCategoryRank(a.Attractiveness_Category, categorization) -
+        getCategoryRank(b.Attractiveness_Category, categorization)
     )[0];
     return primaryMSA;
   }).filter(msa => msa.LAT != null && msa.LON != null && !isNaN(msa.LAT) && !isNaN(msa.LON));
@@ -389,10 +394,30 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
       }}>
         <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
           <DialogHeader>
-            <DialogTitle>{selectedMSA}</DialogTitle>
-            <DialogDescription>
-              View detailed market attractiveness data and opportunities for this MSA
-            </DialogDescription>
+            <div className="flex items-start justify-between gap-4 pr-6">
+              <div className="space-y-1.5">
+                <DialogTitle>{selectedMSA}</DialogTitle>
+                <DialogDescription>
+                  View detailed market attractiveness data and opportunities for this MSA
+                </DialogDescription>
+              </div>
+              {selectedMSA && (
+                <div className="flex items-center gap-2">
+                  <SimilarMarketsDialog rows={scoringRows ?? mapData} msa={selectedMSA} label="Similar markets" />
+                  {scoringRows && buckets && scoringOptions && bucketWeighting && (
+                    <ScoreWaterfallDialog
+                      rows={scoringRows}
+                      msa={selectedMSA}
+                      bucketAssignments={bucketAssignments}
+                      buckets={buckets}
+                      scoringOptions={scoringOptions}
+                      bucketWeighting={bucketWeighting}
+                      label="Score waterfall"
+                    />
+                  )}
+                </div>
+              )}
+            </div>
           </DialogHeader>
           
           {isLoadingDetails ? (
@@ -578,27 +603,45 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
                     Showing {filteredMSANames.size} of {new Set(mapData.map(m => m.MSA)).size} MSAs
                   </div>
                 )}
+                {/* Color layer */}
+                {archetypes && archetypes.profiles.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant={colorBy === "category" ? "default" : "outline"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setColorBy("category")}
+                    >
+                      Attractiveness
+                    </Button>
+                    <Button
+                      variant={colorBy === "archetype" ? "default" : "outline"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setColorBy("archetype")}
+                    >
+                      Archetype
+                    </Button>
+                  </div>
+                )}
               </div>
               
               {/* Combined Legend */}
-              <div className="flex gap-6 text-xs text-muted-foreground bg-slate-50 px-4 py-2 rounded-lg border">
-                {/* Attractiveness Categories */}
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: "#22C55E" }}></div>
-                  <span>Highly Attractive</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: "#F59E0B" }}></div>
-                  <span>Attractive</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: "#F97316" }}></div>
-                  <span>Neutral</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: "#EF4444" }}></div>
-                  <span>Challenging</span>
-                </div>
+              <div className="flex flex-wrap gap-6 text-xs text-muted-foreground bg-slate-50 px-4 py-2 rounded-lg border">
+                {/* Attractiveness Categories or Archetypes */}
+                {showArchetypes
+                  ? archetypes!.profiles.map(profile => (
+                      <div key={profile.name} className="flex items-center gap-2">
+                        <div className="w-4 h-4 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: profile.color }}></div>
+                        <span>{profile.name}</span>
+                      </div>
+                    ))
+                  : getLabelsBestFirst(categorization).map(label => (
+                      <div key={label} className="flex items-center gap-2">
+                        <div className="w-4 h-4 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: getColorByCategory(label) }}></div>
+                        <span>{label}</span>
+                      </div>
+                    ))}
                 
                 {/* Divider */}
                 <div className="w-px bg-gray-300"></div>
@@ -613,6 +656,16 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
                   </svg>
                   <span>Top Market</span>
                 </div>
+
+                {/* Vintage movers */}
+                {msaChanges && (
+                  <div className="flex items-center gap-2">
+                    <svg width="16" height="16" viewBox="-8 -8 16 16">
+                      <circle r="6" fill="none" stroke="#16A34A" strokeWidth="1.5" strokeDasharray="2 1.5" />
+                    </svg>
+                    <span>Mover vs {comparisonLabel}</span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -649,6 +702,34 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
                              {tooltipData.data.Attractiveness_Category}
                            </Badge>
                          </div>
+
+                         {tooltipData.data.Archetype && (
+                           <div className="px-3 py-1.5 border-b border-gray-100 text-[11px] text-gray-600">
+                             Archetype: <span className="font-medium text-gray-900">{tooltipData.data.Archetype}</span>
+                           </div>
+                         )}
+
+                         {/* Change vs comparison vintage */}
+                         {(() => {
+                           const change = msaChanges?.get(tooltipData.data.MSA);
+                           if (!change || change.status === "unchanged") return null;
+                           return (
+                             <div className={`px-3 py-1.5 border-b border-gray-100 text-[11px] ${change.isMover ? "bg-amber-50" : ""}`}>
+                               {change.status === "new" ? (
+                                 <span className="text-blue-700">New since {comparisonLabel}</span>
+                               ) : (
+                                 <span className="text-gray-600">
+                                   vs {comparisonLabel}:{" "}
+                                   <span className={change.scoreChange >= 0 ? "text-green-700" : "text-red-700"}>
+                                     {change.scoreChange >= 0 ? "+" : ""}{change.scoreChange.toFixed(2)} score
+                                   </span>
+                                   {change.rankChange !== 0 && `, ${change.rankChange > 0 ? "up" : "down"} ${Math.abs(change.rankChange)} ranks`}
+                                   {change.categoryChanged && `, was ${change.previousCategory}`}
+                                 </span>
+                               )}
+                             </div>
+                           );
+                         })()}
                          
                          <div className="p-3 space-y-3">
                            {/* Market Metrics */}
@@ -831,9 +912,10 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
                         const { x, y } = projectToMap(msa.LAT, msa.LON);
                         const isHovered = hoveredMSA === msa.MSA;
                         const isSelected = selectedMSAs?.has(msa.MSA);
-                        const color = getColorByCategory(msa.Attractiveness_Category);
+                        const color = getPinColor(msa);
                         const pinScale = isHovered ? 1.3 : isSelected ? 1.5 : 1;
                         const pinOpacity = isHovered ? 1 : isSelected ? 1 : 0.95;
+                        const change = msaChanges?.get(msa.MSA);
                         
                         // Extract city name from MSA (e.g., "CA-Fresno" -> "Fresno")
                         const cityName = msa.MSA.includes('-') 
@@ -842,6 +924,20 @@ export function USAMap({ mapData, globalFilters, bucketAssignments, selectedMSAs
 
                         return (
                           <g key={idx}>
+                            {/* Mover ring - green when the score rose, red when it fell */}
+                            {change?.isMover && (
+                              <circle
+                                cx={x}
+                                cy={y - 6}
+                                r={12}
+                                fill="none"
+                                stroke={change.scoreChange >= 0 ? "#16A34A" : "#DC2626"}
+                                strokeWidth="2"
+                                strokeDasharray="3 2"
+                                pointerEvents="none"
+                              />
+                            )}
+
                             {/* Location pin marker */}
                             <g 
                               transform={`translate(${x}, ${y}) scale(${pinScale})`}
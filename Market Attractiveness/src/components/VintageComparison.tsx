@@ -0,0 +1,216 @@
+import { ArrowDown, ArrowUp, GitCompare, History } from "lucide-react";
+import { Card } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { MSAChange, ProviderChange } from "../utils/vintageComparison";
+import { PARAMETERS } from "../utils/parameterRegistry";
+
+// Readable names for the *_Score columns
+const PARAMETER_LABELS: Record<string, string> = Object.fromEntries(PARAMETERS.map(parameter => [parameter.column, parameter.label]));
+
+const formatMoney = (value: number): string => {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? "-" : "";
+  if (abs >= 1_000_000_000) return `${sign}$${(abs / 1_000_000_000).toFixed(1)}B`;
+  if (abs >= 1_000_000) return `${sign}$${(abs / 1_000_000).toFixed(1)}M`;
+  if (abs >= 1_000) return `${sign}$${(abs / 1_000).toFixed(1)}K`;
+  return `${sign}$${abs.toFixed(0)}`;
+};
+
+interface VintageDeltaProps {
+  value: number;
+  format?: (value: number) => string;
+  // Changes smaller than this are shown as unchanged
+  epsilon?: number;
+}
+
+// Small green/red arrow with the change vs the comparison vintage
+export function VintageDelta({ value, format = (v) => Math.abs(v).toFixed(2), epsilon = 0.005 }: VintageDeltaProps) {
+  if (Math.abs(value) < epsilon) {
+    return <span className="text-[10px] text-muted-foreground">—</span>;
+  }
+
+  const isUp = value > 0;
+  return (
+    <span className={`inline-flex items-center text-[10px] font-medium ${isUp ? "text-green-600" : "text-red-600"}`}>
+      {isUp ? <ArrowUp className="h-2.5 w-2.5" /> : <ArrowDown className="h-2.5 w-2.5" />}
+      {format(value)}
+    </span>
+  );
+}
+
+interface VintageSelectorProps {
+  vintages: Array<{ id: string; label: string }>;
+  currentVintageId: string;
+  comparisonVintageId: string | null;
+  onCurrentChange: (id: string) => void;
+  onComparisonChange: (id: string | null) => void;
+}
+
+// Header control for picking the current and comparison vintages
+export function VintageSelector({ vintages, currentVintageId, comparisonVintageId, onCurrentChange, onComparisonChange }: VintageSelectorProps) {
+  if (vintages.length < 2) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <History className="h-4 w-4 text-muted-foreground" />
+      <Select value={currentVintageId} onValueChange={onCurrentChange}>
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {vintages.map(vintage => (
+            <SelectItem key={vintage.id} value={vintage.id}>{vintage.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-muted-foreground">vs</span>
+      <Select
+        value={comparisonVintageId ?? "none"}
+        onValueChange={(value) => onComparisonChange(value === "none" ? null : value)}
+      >
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No comparison</SelectItem>
+          {vintages
+            .filter(vintage => vintage.id !== currentVintageId)
+            .map(vintage => (
+              <SelectItem key={vintage.id} value={vintage.id}>{vintage.label}</SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface VintageChangePanelProps {
+  change: MSAChange;
+  providerChanges: ProviderChange[];
+  comparisonLabel: string;
+}
+
+// Period-over-period summary for one MSA: score, rank, category, market size, parameters and providers
+export function VintageChangePanel({ change, providerChanges, comparisonLabel }: VintageChangePanelProps) {
+  // Providers with the largest share moves first
+  const movedProviders = providerChanges
+    .filter(provider => provider.status !== "unchanged")
+    .sort((a, b) => Math.abs(b.shareChange) - Math.abs(a.shareChange))
+    .slice(0, 10);
+
+  return (
+    <Card className={`p-4 ${change.isMover ? "border-amber-300 bg-amber-50/40" : ""}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-slate-600" />
+          <h3 className="font-semibold text-slate-800">Change vs {comparisonLabel}</h3>
+        </div>
+        {change.status === "new" && <Badge variant="secondary">New in this vintage</Badge>}
+        {change.isMover && <Badge className="bg-amber-100 text-amber-800 border-amber-300">Mover</Badge>}
+      </div>
+
+      {change.status !== "new" && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+          <div className="bg-white rounded-lg p-3 border border-slate-100">
+            <p className="text-xs text-slate-500">Attractiveness Score</p>
+            <div className="flex items-baseline gap-2">
+              <span className="text-lg font-bold text-slate-800">{change.currentScore?.toFixed(2) ?? "—"}</span>
+              <VintageDelta value={change.scoreChange} />
+            </div>
+            <p className="text-[10px] text-slate-400">was {change.previousScore?.toFixed(2) ?? "—"}</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 border border-slate-100">
+            <p className="text-xs text-slate-500">National Rank</p>
+            <div className="flex items-baseline gap-2">
+              <span className="text-lg font-bold text-slate-800">#{change.currentRank ?? "—"}</span>
+              <VintageDelta value={change.rankChange} format={(v) => String(Math.abs(v))} epsilon={1} />
+            </div>
+            <p className="text-[10px] text-slate-400">was #{change.previousRank ?? "—"}</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 border border-slate-100">
+            <p className="text-xs text-slate-500">Category</p>
+            <span className="text-sm font-semibold text-slate-800">{change.currentCategory ?? "—"}</span>
+            <p className="text-[10px] text-slate-400">
+              {change.categoryChanged ? `was ${change.previousCategory}` : "unchanged"}
+            </p>
+          </div>
+          <div className="bg-white rounded-lg p-3 border border-slate-100">
+            <p className="text-xs text-slate-500">Market Size</p>
+            <div className="flex items-baseline gap-2">
+              <span className="text-lg font-bold text-slate-800">
+                {change.currentMarketSize !== null ? formatMoney(change.currentMarketSize) : "—"}
+              </span>
+              {change.marketSizeChangePct !== null && (
+                <VintageDelta value={change.marketSizeChangePct} format={(v) => `${Math.abs(v).toFixed(1)}%`} epsilon={0.05} />
+              )}
+            </div>
+            <p className="text-[10px] text-slate-400">
+              was {change.previousMarketSize !== null ? formatMoney(change.previousMarketSize) : "—"}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs font-medium text-slate-600 mb-1">Parameter changes</p>
+          {change.parameterChanges.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No parameter labels changed</p>
+          ) : (
+            <ul className="space-y-1">
+              {change.parameterChanges.map(parameter => (
+                <li key={parameter.column} className="flex items-center justify-between text-xs">
+                  <span>{PARAMETER_LABELS[parameter.column] || parameter.column}</span>
+                  <span>
+                    <span className="text-muted-foreground">{parameter.previous ?? "—"}</span>
+                    {" → "}
+                    <span className="font-medium">{parameter.current ?? "—"}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-slate-600 mb-1">Provider changes</p>
+          {movedProviders.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No provider share or Defend $ changes</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-normal">Provider</th>
+                  <th className="text-right font-normal">Share</th>
+                  <th className="text-right font-normal">Δ Share</th>
+                  <th className="text-right font-normal">Δ Defend $</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movedProviders.map(provider => (
+                  <tr key={`${provider.Product}|${provider.Provider}`}>
+                    <td className="py-0.5 truncate max-w-[160px]">
+                      {provider.Provider}
+                      {provider.status === "new" && <span className="text-[10px] text-green-700 ml-1">new</span>}
+                      {provider.status === "removed" && <span className="text-[10px] text-red-700 ml-1">exited</span>}
+                    </td>
+                    <td className="text-right">
+                      {provider.currentShare !== null ? `${(provider.currentShare * 100).toFixed(1)}%` : "—"}
+                    </td>
+                    <td className="text-right">
+                      <VintageDelta value={provider.shareChange * 100} format={(v) => `${Math.abs(v).toFixed(1)}pp`} epsilon={0.05} />
+                    </td>
+                    <td className="text-right">
+                      <VintageDelta value={provider.defendChange} format={(v) => formatMoney(Math.abs(v))} epsilon={1} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,270 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Check, ChevronsUpDown, Loader2, Plus, Target, X } from "lucide-react";
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "./ui/command";
+import { BucketAssignment } from "../utils/scoreCalculation";
+import { ScoringOptions } from "../utils/continuousScoring";
+import { BucketWeightingOptions } from "../utils/bucketWeighting";
+import { ScoringBucket } from "../utils/scoringBuckets";
+import { getParameter } from "../utils/parameterRegistry";
+import { matchesExclusion } from "../utils/applyGlobalFilters";
+import { WeightFitCandidate, WeightFitResult, fitWeights } from "../utils/weightFitting";
+
+interface WeightFittingPanelProps {
+  // Every MSA being scored (ranks are national)
+  rows: Record<string, any>[];
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  scoringOptions: ScoringOptions;
+  bucketWeighting: BucketWeightingOptions;
+  onApply: (bucketAssignments: BucketAssignment[], buckets: ScoringBucket[]) => void;
+}
+
+const MAX_TARGETS = 10;
+
+// Inverse weight fitting: pick the MSAs that should come out on top and search for buckets and weights that put them there
+export function WeightFittingPanel({ rows, bucketAssignments, buckets, scoringOptions, bucketWeighting, onApply }: WeightFittingPanelProps) {
+  const [targets, setTargets] = useState<string[]>([]);
+  const [ordered, setOrdered] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [result, setResult] = useState<WeightFitResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest run may update the panel
+  const runId = useRef(0);
+
+  const exclusions = bucketAssignments.filter(a => a.bucket === "exclusions");
+  const exclusionKey = JSON.stringify(exclusions);
+  const bucketKey = buckets.map(bucket => bucket.id).join(",");
+
+  // Candidates are fitted to one set of targets, exclusions, buckets and scoring; applying one
+  // leaves the exclusions and the bucket list as they were, so the other candidates stay listed
+  useEffect(() => {
+    runId.current++;
+    setResult(null);
+    setRunning(false);
+    setError(null);
+  }, [rows, targets, ordered, scoringOptions, bucketWeighting, exclusionKey, bucketKey]);
+
+  const msas = useMemo(
+    () => Array.from(new Set(rows.map(row => row.MSA as string).filter(Boolean))).sort(),
+    [rows]
+  );
+
+  const excludedTargets = targets.filter(msa => {
+    const row = rows.find(r => r.MSA === msa);
+    return !row || exclusions.some(exclusion => matchesExclusion(row, exclusion));
+  });
+
+  const addTarget = (msa: string) => {
+    if (!targets.includes(msa) && targets.length < MAX_TARGETS) setTargets([...targets, msa]);
+    setPickerOpen(false);
+  };
+
+  const moveTarget = (index: number, direction: -1 | 1) => {
+    const next = [...targets];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setTargets(next);
+  };
+
+  // The search runs on the main thread, so let the spinner render first
+  const run = () => {
+    const id = ++runId.current;
+    setRunning(true);
+    setError(null);
+    setTimeout(() => {
+      if (id !== runId.current) return;
+      try {
+        setResult(fitWeights(rows, { targets, ordered, bucketAssignments, buckets, scoringOptions, bucketWeighting }));
+      } catch (err) {
+        console.error("Weight fitting failed:", err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const describeBucket = (candidate: WeightFitCandidate, bucket: string) => {
+    const assigned = candidate.bucketAssignments.filter(a => a.bucket === bucket);
+    if (assigned.length === 0) return <span className="text-muted-foreground">-</span>;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {assigned.map(a => (
+          <Badge key={`${a.parameterId}-${a.selectedValue}`} variant="outline" className="text-[10px]">
+            {getParameter(a.parameterId)?.shortLabel ?? a.parameterId}: {a.selectedValue}
+          </Badge>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold flex items-center gap-2">
+            <Target className="h-4 w-4" />
+            Fit Weights to Target MSAs
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Choose the MSAs you expect to be the most attractive and search for bucket assignments and bucket weights that rank them highest. Current exclusions and bucket names are kept.
+            {bucketWeighting.scheme === "manual" && " Manual within-bucket percentages can't follow parameters between setups, so the search shares each bucket equally; set the percentages again after applying a setup."}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          onClick={run}
+          disabled={running || targets.length === 0 || excludedTargets.length > 0 || rows.length === 0}
+        >
+          {running ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Target className="h-3 w-3 mr-1" />}
+          {running ? "Searching" : "Find weights"}
+        </Button>
+      </div>
+
+      <div className="space-y-3 mb-3">
+        <div className="flex items-center gap-3">
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                role="combobox"
+                aria-expanded={pickerOpen}
+                disabled={targets.length >= MAX_TARGETS}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add target MSA
+                <ChevronsUpDown className="ml-2 h-3 w-3 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-[500px] p-0" align="start">
+              <Command>
+                <CommandInput placeholder="Search MSA..." />
+                <CommandList>
+                  <CommandEmpty>No MSA found.</CommandEmpty>
+                  <CommandGroup>
+                    {msas.map(msa => (
+                      <CommandItem key={msa} value={msa} onSelect={() => addTarget(msa)}>
+                        <Check className={`mr-2 h-4 w-4 ${targets.includes(msa) ? "opacity-100" : "opacity-0"}`} />
+                        {msa}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+          <div className="flex items-center gap-2">
+            <Checkbox id="weight-fit-ordered" checked={ordered} onCheckedChange={(checked) => setOrdered(checked === true)} />
+            <Label htmlFor="weight-fit-ordered" className="text-xs">Rank them in this order</Label>
+          </div>
+        </div>
+
+        {targets.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No targets yet - add up to {MAX_TARGETS} MSAs.</p>
+        ) : (
+          <ol className="space-y-1">
+            {targets.map((msa, index) => (
+              <li key={msa} className="flex items-center gap-2 text-xs">
+                <span className="w-5 text-right text-muted-foreground">{ordered ? `${index + 1}.` : "•"}</span>
+                <span className={excludedTargets.includes(msa) ? "text-destructive" : ""}>{msa}</span>
+                {ordered && (
+                  <>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === 0} onClick={() => moveTarget(index, -1)}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === targets.length - 1} onClick={() => moveTarget(index, 1)}>
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setTargets(targets.filter(t => t !== msa))}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {excludedTargets.length > 0 && (
+        <p className="text-xs text-destructive mb-2">
+          {excludedTargets.join(", ")} {excludedTargets.length === 1 ? "is" : "are"} filtered out by the current exclusions. Remove the exclusion or the target to search.
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive">Search failed: {error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {result.evaluated.toLocaleString()} setups tried · best {result.candidates.length} shown · ranks out of {result.rankedCount} MSAs. Fit is the share of other MSAs{ordered ? " and target pairs" : ""} the targets are ranked correctly against.
+          </p>
+          {result.candidates.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No setup found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="text-left py-2 pr-2 font-medium">#</th>
+                    <th className="text-right py-2 px-2 font-medium">Fit</th>
+                    <th className="text-left py-2 px-2 font-medium">Target ranks</th>
+                    <th className="text-right py-2 px-2 font-medium">Margin</th>
+                    <th className="text-right py-2 px-2 font-medium">{buckets.map(bucket => bucket.name).join(" / ")}</th>
+                    {buckets.map(bucket => (
+                      <th key={bucket.id} className="text-left py-2 px-2 font-medium">{bucket.name} bucket</th>
+                    ))}
+                    <th className="py-2 pl-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.candidates.map((candidate, index) => (
+                    <tr key={index} className="border-b align-top">
+                      <td className="py-1.5 pr-2">{index + 1}</td>
+                      <td className="text-right py-1.5 px-2">
+                        <span className={candidate.fit === 1 ? "font-semibold text-green-600 dark:text-green-400" : ""}>
+                          {Math.round(candidate.fit * 1000) / 10}%
+                        </span>
+                        <div className="text-muted-foreground">
+                          {candidate.inTopCount}/{targets.length} in top {targets.length}
+                          {ordered && !candidate.orderKept && " · order off"}
+                        </div>
+                      </td>
+                      <td className="py-1.5 px-2">
+                        {candidate.targetRanks.map(target => (
+                          <div key={target.msa} className="whitespace-nowrap">
+                            <span className="font-medium">#{target.rank}</span> {target.msa}
+                          </div>
+                        ))}
+                      </td>
+                      <td className={`text-right py-1.5 px-2 ${candidate.margin > 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                        {candidate.margin > 0 ? "+" : ""}{candidate.margin.toFixed(2)}
+                      </td>
+                      <td className="text-right py-1.5 px-2 whitespace-nowrap">
+                        {candidate.buckets.map(bucket => `${bucket.weight}%`).join(" / ")}
+                      </td>
+                      {candidate.buckets.map(bucket => (
+                        <td key={bucket.id} className="py-1.5 px-2">{describeBucket(candidate, bucket.id)}</td>
+                      ))}
+                      <td className="py-1.5 pl-2 text-right">
+                        <Button variant="outline" size="sm" onClick={() => onApply(candidate.bucketAssignments, candidate.buckets)}>
+                          Apply
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
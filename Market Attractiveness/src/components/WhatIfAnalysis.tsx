@@ -1,8 +1,7 @@
 import { useState, useMemo, useRef, useEffect } from "react";
-import { GlobalFilters } from "../types";
+import { ColumnLayoutEntry, GlobalFilters } from "../types";
 import { fetchFilterBuckets } from "../utils/csvDataHooks";
-import { getRegionFromCoordinates } from "../utils/applyGlobalFilters";
-import { getRegionForMSASync } from "../utils/stateToRegionMapping";
+import { applyGlobalFilters, getRegionFromCoordinates } from "../utils/applyGlobalFilters";
 import { DndProvider, useDrag, useDrop } from "react-dnd";
 import { HTML5Backend } from "react-dnd-html5-backend";
 import { Card } from "./ui/card";
@@ -14,7 +13,21 @@ import { Label } from "./ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { ArrowUpDown, X, Filter, RotateCcw, Save, Settings2, Sliders as SlidersIcon, RefreshCw, Info, GripVertical, Eye, EyeOff, Calculator } from "lucide-react";
 import { Button } from "./ui/button";
-import { Weights, DEFAULT_WEIGHTS, calculateAttractivenessScore, getCategoriesByQuartiles, BucketAssignment, ImportanceBucket, DEFAULT_BUCKET_ASSIGNMENTS, calculateBucketModeScore } from "../utils/scoreCalculation";
+import { Weights, DEFAULT_WEIGHTS, BucketAssignment, ImportanceBucket, DEFAULT_BUCKET_ASSIGNMENTS, calculateBucketModeScore, getParameterMatchScore, scoreToValue } from "../utils/scoreCalculation";
+import { ParameterDefinition, PARAMETER_LABELS, SCORED_PARAMETERS, getLabelScore, getParameter, getParameterValue, getValuesBestFirst } from "../utils/parameterRegistry";
+import { RAW_METRICS, ScoringOptions, createContinuousScoring } from "../utils/continuousScoring";
+import { ScoringMethodCard } from "./ScoringMethodCard";
+import { LabelThresholdEditor } from "./LabelThresholdEditor";
+import { LabelThresholds } from "../utils/labelThresholds";
+import { CategorizationCard } from "./CategorizationCard";
+import { SensitivityDialog } from "./SensitivityDialog";
+import { ScoreWaterfallDialog } from "./ScoreWaterfallDialog";
+import { WeightFittingPanel } from "./WeightFittingPanel";
+import { BucketWeightingCard } from "./BucketWeightingCard";
+import { BucketEditorCard } from "./BucketEditorCard";
+import { BUCKET_WEIGHTING_SCHEMES, BucketWeightingOptions, getAssignmentKey, getBucketShares } from "../utils/bucketWeighting";
+import { DEFAULT_BUCKETS, EXCLUSIONS_BUCKET, ScoringBucket, getBucketName, getBucketStyle } from "../utils/scoringBuckets";
+import { CategorizationOptions, categorizeScores, getCategoryBadgeClass, getLabelsBestFirst } from "../utils/categorization";
 import { Alert, AlertDescription } from "./ui/alert";
 import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip";
@@ -28,7 +41,7 @@ interface WhatIfData {
   Product: string;
   LAT?: number;
   LON?: number;
-  Market_Size_Score: string;  // Now used for filtering only
+  Market_Size_Score: string;
   "Market Size"?: number;     // Actual numeric value for bucket filtering
   HHI_Score: string;
   Economic_Growth_Score: string;
@@ -38,22 +51,16 @@ interface WhatIfData {
   Relative_Risk_Migration_Score: string;
   Premium_Discount_Score: string;
   Pricing_Rationality_Score: string;
-  Revenue_per_Company_Score: string;  // Now used for filtering only
+  Revenue_per_Company_Score: string;
   "Revenue per Company"?: number;     // Actual numeric value for bucket filtering
   International_CM_Score: string;
   Attractiveness_Score: number;
   Attractiveness_Category: string;
+  Archetype?: string;             // Market archetype, for the archetype filter
 }
 
-interface FilterBucket {
-  label: string;
-  min: number;
-  max: number;
-  count: number;
-}
-
+// Value range from csvDataService.getFilterBuckets
 interface FilterBucketData {
-  buckets: FilterBucket[];
   range: { min: number; max: number };
   totalCount: number;
 }
@@ -64,11 +71,24 @@ interface WhatIfAnalysisProps {
   setWeights: (weights: Weights) => void;
   bucketAssignments: BucketAssignment[];
   setBucketAssignments: (assignments: BucketAssignment[]) => void;
-  bucketWeights: { high: number; medium: number };
-  setBucketWeights: (weights: { high: number; medium: number }) => void;
+  buckets: ScoringBucket[];
+  setBuckets: (buckets: ScoringBucket[]) => void;
+  bucketWeighting: BucketWeightingOptions;
+  setBucketWeighting: (weighting: BucketWeightingOptions) => void;
+  scoringOptions: ScoringOptions;
+  setScoringOptions: (options: ScoringOptions) => void;
+  // Rows with the file's labels, before thresholds are applied
+  sourceData: any[];
+  labelThresholds: LabelThresholds;
+  setLabelThresholds: (thresholds: LabelThresholds) => void;
+  categorization: CategorizationOptions;
+  setCategorization: (options: CategorizationOptions) => void;
   globalFilters: GlobalFilters;
   setGlobalFilters: (filters: GlobalFilters) => void;
   resetGlobalFilters: () => void;
+  // Column order and visibility of the results table (kept in App so profiles can save it)
+  columnLayout: ColumnLayoutEntry[];
+  setColumnLayout: (layout: ColumnLayoutEntry[]) => void;
 }
 
 type SortField = "MSA" | "originalScore" | "calculatedScore" | "scoreDelta" | "originalCategory" | "calculatedCategory";
@@ -91,200 +111,38 @@ const DEFAULT_COLUMNS: ColumnConfig[] = [
   { id: "scoreDelta", label: "Change", visible: true, sortable: true, minWidth: "100px" },
   { id: "originalCategory", label: "Original Category", visible: true, sortable: true, minWidth: "120px" },
   { id: "calculatedCategory", label: "New Category", visible: true, sortable: true, minWidth: "120px" },
-  { id: "HHI", label: "Market Concentration", visible: true, sortable: false },
-  { id: "Economic_Growth", label: "Economic Growth", visible: true, sortable: false },
-  { id: "Loan_Growth", label: "Loan Growth", visible: true, sortable: false },
-  { id: "Risk", label: "Weighted Average Credit Risk", visible: true, sortable: false },
-  { id: "Risk_Migration", label: "1-Year Credit Risk Migration", visible: true, sortable: false },
-  { id: "Relative_Risk_Migration", label: "Relative Risk Mig.", visible: true, sortable: false },
-  { id: "Premium_Discount", label: "Premium / Discount Loan Pricing", visible: true, sortable: false },
-  { id: "Pricing_Rationality", label: "Loan Pricing Rationality", visible: true, sortable: false },
-  { id: "International_CM", label: "International CM", visible: true, sortable: false },
+  ...SCORED_PARAMETERS.map(parameter => ({ id: parameter.id, label: parameter.label, visible: true, sortable: false })),
 ];
 
-// Parameter descriptions for help tooltips
-const PARAMETER_DESCRIPTIONS: Record<string, { description: string; highMeans: string }> = {
-  HHI: {
-    description: "Market Concentration - Measures market concentration and competition intensity",
-    highMeans: "• High = Concentrated market with few dominant players (LESS attractive - harder to compete)\n• Medium = Moderately concentrated market\n• Low = Competitive market with many players (MORE attractive - easier entry)"
-  },
-  Economic_Growth: {
-    description: "Economic Growth Rate - Measures the pace of economic expansion in the MSA",
-    highMeans: "• High = Strong economic growth (MORE attractive - expanding opportunity)\n• Medium = Moderate growth\n• Low = Slower growth (LESS attractive - limited expansion)"
-  },
-  Loan_Growth: {
-    description: "Loan Growth Rate - Measures the rate at which lending volume is growing",
-    highMeans: "• High = Strong loan growth (MORE attractive - increasing demand)\n• Medium = Moderate loan growth\n• Low = Slower loan growth (LESS attractive - stagnant market)"
-  },
-  Risk: {
-    description: "Weighted Average Credit Risk - Overall credit risk profile of the market",
-    highMeans: "• High = Higher risk loans (may offer better returns but more defaults)\n• Medium = Moderate risk profile\n• Low = Lower risk loans (safer but lower returns)"
-  },
-  Risk_Migration: {
-    description: "1-Year Credit Risk Migration - Rate at which credit quality is changing over time",
-    highMeans: "• High = Credit quality deteriorating rapidly (LESS attractive - increasing defaults)\n• Medium = Moderate changes in credit quality\n• Low = Credit quality stable or improving (MORE attractive - healthier market)"
-  },
-  Relative_Risk_Migration: {
-    description: "Relative Risk Migration - Market's risk migration compared to national average",
-    highMeans: "• Below National = Better than average credit trends (MORE attractive)\n• At National = Average credit trends\n• Above National = Worse than average credit trends (LESS attractive)"
-  },
-  Premium_Discount: {
-    description: "Premium / Discount Loan Pricing - Pricing level relative to risk-adjusted returns",
-    highMeans: "• Premium = Pricing above fair value (LESS attractive - overpriced market)\n• Par = Pricing at fair value\n• Discount = Pricing below fair value (MORE attractive - underpriced opportunity)"
-  },
-  Pricing_Rationality: {
-    description: "Loan Pricing Rationality - Whether market pricing appropriately reflects underlying risk",
-    highMeans: "• Rational = Pricing matches risk levels (MORE attractive - predictable market)\n• Irrational = Pricing disconnected from risk (LESS attractive - unpredictable returns)"
-  },
-  International_CM: {
-    description: "International Cash Management - Size of international cash management opportunities",
-    highMeans: "• High = Large international CM opportunity (MORE attractive - significant revenue potential)\n• Medium = Moderate opportunity size\n• Low = Small opportunity (LESS attractive - limited revenue potential)"
-  }
+// Default columns in the saved order and visibility; unknown ids are dropped and new columns keep their default place
+const applyColumnLayout = (layout: ColumnLayoutEntry[]): ColumnConfig[] => {
+  const byId = new Map(DEFAULT_COLUMNS.map(column => [column.id, column]));
+  const ordered = layout
+    .filter(entry => byId.has(entry.id))
+    .map(entry => ({ ...byId.get(entry.id)!, visible: byId.get(entry.id)!.fixed ? true : entry.visible }));
+  const listed = new Set(ordered.map(column => column.id));
+  DEFAULT_COLUMNS.forEach((column, index) => {
+    if (!listed.has(column.id)) ordered.splice(Math.min(index, ordered.length), 0, column);
+  });
+  return ordered;
 };
 
-// Category preferences for Simple Mode
-interface CategoryPreferences {
-  HHI: string;
-  Economic_Growth: string;
-  Loan_Growth: string;
-  Risk: string;
-  Risk_Migration: string;
-  Relative_Risk_Migration: string;
-  Premium_Discount: string;
-  Pricing_Rationality: string;
-  International_CM: string;
-}
-
-// Bucket Mode - Parameter importance buckets (types imported from utils/scoreCalculation)
+// Simple Mode: the preferred value per parameter id, or "Any"
+type CategoryPreferences = Record<string, string>;
 
-interface ParameterInfo {
-  id: keyof Weights;
-  label: string;
-  description: string;
-  valueOptions: string[]; // Available values for this parameter
-  isInverse?: boolean; // For scoring direction
-}
-
-const AVAILABLE_PARAMETERS: ParameterInfo[] = [
-  { 
-    id: "HHI", 
-    label: "Market Concentration", 
-    description: "Lower is better", 
-    valueOptions: ["Low", "Medium", "High"],
-    isInverse: true 
-  },
-  { 
-    id: "Economic_Growth", 
-    label: "Economic Growth", 
-    description: "Higher is better", 
-    valueOptions: ["High", "Medium", "Low"] 
-  },
-  { 
-    id: "Loan_Growth", 
-    label: "Loan Growth", 
-    description: "Higher is better", 
-    valueOptions: ["High", "Medium", "Low"] 
-  },
-  { 
-    id: "Risk", 
-    label: "Weighted Average Credit Risk", 
-    description: "Higher is riskier", 
-    valueOptions: ["High", "Medium", "Low"],
-    isInverse: true 
-  },
-  { 
-    id: "Risk_Migration", 
-    label: "1-Year Credit Risk Migration", 
-    description: "Lower is better", 
-    valueOptions: ["Low", "Medium", "High"],
-    isInverse: true 
-  },
-  { 
-    id: "Relative_Risk_Migration", 
-    label: "Relative Risk Migration", 
-    description: "Below National Avg is best, Above National Avg is worst", 
-    valueOptions: ["Below National Avg", "At National Avg", "Above National Avg"],
-    isInverse: true 
-  },
-  { 
-    id: "Premium_Discount", 
-    label: "Premium / Discount Loan Pricing", 
-    description: "Premium is better", 
-    valueOptions: ["Premium", "Par", "Discount"] 
-  },
-  { 
-    id: "Pricing_Rationality", 
-    label: "Loan Pricing Rationality", 
-    description: "Rational is better", 
-    valueOptions: ["Rational", "Irrational"] 
-  },
-  { 
-    id: "International_CM", 
-    label: "International CM", 
-    description: "Higher is better", 
-    valueOptions: ["High", "Medium", "Low"] 
-  },
-];
+const DEFAULT_CATEGORIES: CategoryPreferences = Object.fromEntries(SCORED_PARAMETERS.map(parameter => [parameter.id, "Any"]));
 
 // DEFAULT_BUCKET_ASSIGNMENTS is now imported from utils/scoreCalculation
 // getRegionFromCoordinates is now imported from utils/applyGlobalFilters
 
-const DEFAULT_CATEGORIES: CategoryPreferences = {
-  HHI: "Any",
-  Economic_Growth: "Any",
-  Loan_Growth: "Any",
-  Risk: "Any",
-  Risk_Migration: "Any",
-  Relative_Risk_Migration: "Any",
-  Premium_Discount: "Any",
-  Pricing_Rationality: "Any",
-  International_CM: "Any",
-};
-
-// Convert category preferences to weights
+// Convert category preferences to weights: each parameter gets points for how attractive its preferred value is
 const convertCategoriesToWeights = (categories: CategoryPreferences): Weights => {
-  const getCategoryPoints = (category: string, isInverse: boolean = false, isPremiumDiscount: boolean = false, isPricingRationality: boolean = false): number => {
-    if (category === "Any") return 0;
-    if (isInverse) {
-      // For inverse scoring (HHI, Risk Migration, Relative Risk Migration): Low is good, High is bad
-      if (category === "Low") return 3;
-      if (category === "Medium") return 2;
-      if (category === "High") return 1;
-      // For Relative Risk Migration
-      if (category === "Below National Avg" || category === "Below National") return 3;
-      if (category === "At National Avg" || category === "At National") return 2;
-      if (category === "Above National Avg" || category === "Above National") return 1;
-      return 0;
-    }
-    if (isPremiumDiscount) {
-      if (category === "Premium") return 3;
-      if (category === "Par") return 2;
-      if (category === "Discount") return 1;
-      return 0;
-    }
-    if (isPricingRationality) {
-      if (category === "Rational") return 3;
-      if (category === "Irrational") return 1;
-      return 0;
-    }
-    // Standard scoring: High is good
-    if (category === "High") return 3;
-    if (category === "Medium") return 2;
-    if (category === "Low") return 1;
-    return 0;
-  };
-
-  const points = {
-    HHI: getCategoryPoints(categories.HHI, true), // HHI is inverse
-    Economic_Growth: getCategoryPoints(categories.Economic_Growth),
-    Loan_Growth: getCategoryPoints(categories.Loan_Growth),
-    Risk: getCategoryPoints(categories.Risk),
-    Risk_Migration: getCategoryPoints(categories.Risk_Migration, true), // Inverse
-    Relative_Risk_Migration: getCategoryPoints(categories.Relative_Risk_Migration, true), // Inverse
-    Premium_Discount: getCategoryPoints(categories.Premium_Discount, false, true),
-    Pricing_Rationality: getCategoryPoints(categories.Pricing_Rationality, false, false, true),
-    International_CM: getCategoryPoints(categories.International_CM),
-  };
+  const points: Record<string, number> = Object.fromEntries(
+    SCORED_PARAMETERS.map(parameter => [
+      parameter.id,
+      categories[parameter.id] && categories[parameter.id] !== "Any" ? getLabelScore(parameter.id, categories[parameter.id]) : 0,
+    ])
+  );
 
   const totalPoints = Object.values(points).reduce((sum, p) => sum + p, 0);
   
@@ -292,208 +150,14 @@ const convertCategoriesToWeights = (categories: CategoryPreferences): Weights =>
     return DEFAULT_WEIGHTS;
   }
 
-  const weights: Weights = {
-    HHI: Math.round((points.HHI / totalPoints) * 100),
-    Economic_Growth: Math.round((points.Economic_Growth / totalPoints) * 100),
-    Loan_Growth: Math.round((points.Loan_Growth / totalPoints) * 100),
-    Risk: Math.round((points.Risk / totalPoints) * 100),
-    Risk_Migration: Math.round((points.Risk_Migration / totalPoints) * 100),
-    Relative_Risk_Migration: Math.round((points.Relative_Risk_Migration / totalPoints) * 100),
-    Premium_Discount: Math.round((points.Premium_Discount / totalPoints) * 100),
-    Pricing_Rationality: Math.round((points.Pricing_Rationality / totalPoints) * 100),
-    International_CM: Math.round((points.International_CM / totalPoints) * 100),
-  };
+  const weights: Weights = Object.fromEntries(
+    SCORED_PARAMETERS.map(parameter => [parameter.id, Math.round((points[parameter.id] / totalPoints) * 100)])
+  );
 
   const actualTotal = Object.values(weights).reduce((sum, w) => sum + w, 0);
   const diff = 100 - actualTotal;
   if (diff !== 0) {
-    weights.HHI += diff;
-  }
-
-  return weights;
-};
-
-// Helper to get score value based on selected value direction
-const getScoreForValue = (actualValue: string, selectedValue: string, parameterId: string): number => {
-  const normalized = actualValue?.toLowerCase() || "";
-  const selected = selectedValue?.toLowerCase() || "";
-  
-  // For parameters with High/Medium/Low
-  if (["high", "medium", "low"].includes(selected)) {
-    // Score based on how close to the selected value
-    if (normalized === selected) return 3;
-    if (normalized === "medium") return 2;
-    if ((selected === "high" && normalized === "medium") || 
-        (selected === "low" && normalized === "medium")) return 2;
-    if ((selected === "high" && normalized === "low") || 
-        (selected === "low" && normalized === "high")) return 1;
-    return 1;
-  }
-  
-  // For Relative Risk Migration - check if it contains "national" to identify this parameter type
-  if (selected.includes("national")) {
-    // Handle exact matches for "Below National Avg", "At National Avg", "Above National Avg"
-    if (normalized.includes("below") && selected.includes("below")) return 3;
-    if (normalized.includes("at") && selected.includes("at")) return 3;
-    if (normalized.includes("above") && selected.includes("above")) return 3;
-    // Secondary matches
-    if (normalized === "at_national" || normalized === "at national") return 2;
-    return 1;
-  }
-  
-  // For Premium/Discount
-  if (["premium", "par", "discount"].includes(selected)) {
-    if (normalized === selected) return 3;
-    if (normalized === "par") return 2;
-    return 1;
-  }
-  
-  // For Pricing Rationality
-  if (["rational", "irrational"].includes(selected)) {
-    if (normalized === selected) return 3;
-    return 1;
-  }
-  
-  return 0;
-};
-
-// Calculate score using bucket mode with value preferences (DEPRECATED - use imported one from scoreCalculation.ts)
-// This function is kept for backward compatibility but should not be used
-const calculateBucketModeScoreLocal = (row: any, assignments: BucketAssignment[], weights: Weights, bucketWeightsPct: { high: number; medium: number }): number => {
-  // Ensure bucketWeightsPct is always defined
-  const safeBucketWeights = bucketWeightsPct && typeof bucketWeightsPct === 'object' && 'high' in bucketWeightsPct && 'medium' in bucketWeightsPct
-    ? bucketWeightsPct
-    : { high: 60, medium: 40 };
-    
-  if (assignments.length === 0) {
-    return calculateAttractivenessScore(row, weights);
-  }
-
-  // Convert bucket weights from percentages to decimals (exclusions always 0)
-  const total = safeBucketWeights.high + safeBucketWeights.medium;
-  const BUCKET_WEIGHTS = {
-    high: safeBucketWeights.high / total,
-    medium: safeBucketWeights.medium / total,
-    exclusions: 0,  // Excluded parameters don't contribute to score
-  };
-
-  // Position weight decay factor - very small so items stay nearly equal
-  const POSITION_DECAY = 0.02;
-
-  // Group assignments by bucket (exclusions are ignored in scoring)
-  const bucketGroups = {
-    high: assignments.filter(a => a.bucket === "high").sort((a, b) => a.position - b.position),
-    medium: assignments.filter(a => a.bucket === "medium").sort((a, b) => a.position - b.position),
-  };
-
-  let totalScore = 0;
-
-  // Calculate contribution from each bucket (exclusions bucket is skipped)
-  Object.entries(bucketGroups).forEach(([bucket, items]) => {
-    if (items.length === 0) return;
-
-    const bucketWeight = BUCKET_WEIGHTS[bucket as "high" | "medium"];
-    const numItems = items.length;
-
-    // Calculate position-weighted average for this bucket
-    let weightedSum = 0;
-    let totalPositionWeight = 0;
-
-    items.forEach((assignment, idx) => {
-      const paramId = assignment.parameterId;
-      const scoreFieldName = `${paramId}_Score`;
-      const actualValue = row[scoreFieldName];
-      
-      // Get match score (1-3) based on how well this MSA matches the desired value
-      const matchScore = getScoreForValue(actualValue, assignment.selectedValue, paramId);
-      
-      // Position weight: first item gets 1.0, second gets (1.0 - decay), etc.
-      const positionWeight = 1.0 - (idx * POSITION_DECAY);
-      
-      weightedSum += matchScore * positionWeight;
-      totalPositionWeight += positionWeight;
-    });
-
-    // Average match score for this bucket (value between 1-3)
-    const bucketAverageScore = weightedSum / totalPositionWeight;
-
-    // Contribution = bucket average × bucket weight
-    totalScore += bucketAverageScore * bucketWeight;
-  });
-
-  return Math.round(totalScore * 100) / 100;
-};
-
-// Convert bucket assignments to weights with position-based weighting
-const convertBucketsToWeights = (assignments: BucketAssignment[], bucketWeightsPct: { high: number; medium: number }): Weights => {
-  if (assignments.length === 0) {
-    return DEFAULT_WEIGHTS;
-  }
-
-  // Use dynamic bucket weights (exclusions always gets 0)
-  const BUCKET_WEIGHTS = {
-    high: bucketWeightsPct.high,
-    medium: bucketWeightsPct.medium,
-    exclusions: 0,
-  };
-
-  // Group assignments by bucket (exclusions are not weighted)
-  const bucketGroups = {
-    high: assignments.filter(a => a.bucket === "high").sort((a, b) => a.position - b.position),
-    medium: assignments.filter(a => a.bucket === "medium").sort((a, b) => a.position - b.position),
-  };
-
-  // Initialize all weights to 0
-  const weights: Weights = {
-    HHI: 0,
-    Economic_Growth: 0,
-    Loan_Growth: 0,
-    Risk: 0,
-    Risk_Migration: 0,
-    Relative_Risk_Migration: 0,
-    Premium_Discount: 0,
-    Pricing_Rationality: 0,
-    International_CM: 0,
-  };
-
-  // Calculate weights for each bucket (exclusions are skipped)
-  Object.entries(bucketGroups).forEach(([bucket, items]) => {
-    if (items.length === 0) return;
-
-    const bucketWeight = BUCKET_WEIGHTS[bucket as "high" | "medium"];
-    const numItems = items.length;
-
-    if (numItems === 1) {
-      // If only one item in bucket, it gets the full bucket weight
-      const param = items[0].parameterId as keyof Weights;
-      weights[param] = bucketWeight;
-    } else {
-      // Multiple items: distribute almost evenly with very slight position preference
-      // Use a small decay factor so items are nearly equal but maintain order
-      // Formula: weight(i) = 1.0 + (numItems - i - 1) * 0.02
-      // This gives: [1.02, 1.0] for 2 items (51%/49% split), [1.04, 1.02, 1.0] for 3 items, etc.
-      const positionWeights = items.map((_, idx) => 1.0 + (numItems - idx - 1) * 0.02);
-      const totalPositionWeight = positionWeights.reduce((sum, w) => sum + w, 0);
-
-      // Distribute bucket weight among items based on position
-      items.forEach((assignment, idx) => {
-        const param = assignment.parameterId as keyof Weights;
-        const itemWeight = (bucketWeight * positionWeights[idx]) / totalPositionWeight;
-        weights[param] = Math.round(itemWeight * 100) / 100; // Round to 2 decimals
-      });
-    }
-  });
-
-  // Adjust for rounding errors to ensure total is 100%
-  const actualTotal = Object.values(weights).reduce((sum, w) => sum + w, 0);
-  const diff = 100 - actualTotal;
-  if (Math.abs(diff) > 0.01 && assignments.length > 0) {
-    // Only adjust high/medium bucket items, not exclusions
-    const firstNonExcludedAssignment = assignments.find(a => a.bucket !== "exclusions");
-    if (firstNonExcludedAssignment) {
-      const firstParam = firstNonExcludedAssignment.parameterId as keyof Weights;
-      weights[firstParam] = Math.round((weights[firstParam] + diff) * 100) / 100;
-    }
+    weights[SCORED_PARAMETERS[0].id] += diff;
   }
 
   return weights;
@@ -501,7 +165,7 @@ const convertBucketsToWeights = (assignments: BucketAssignment[], bucketWeightsP
 
 // Clickable Parameter Card for Bucket Mode - Opens value selection dialog
 interface ParameterCardProps {
-  parameter: ParameterInfo;
+  parameter: ParameterDefinition;
   onValueSelected: (parameterId: string, value: string) => void;
   usedValues: Set<string>; // Track which parameter-value combos are already assigned
 }
@@ -509,9 +173,6 @@ interface ParameterCardProps {
 const ParameterCard = ({ parameter, onValueSelected, usedValues }: ParameterCardProps) => {
   const [isOpen, setIsOpen] = useState(false);
   
-  // Get help information from PARAMETER_DESCRIPTIONS
-  const paramKey = parameter.id.replace(/_(Score)?$/, '');
-  const helpInfo = PARAMETER_DESCRIPTIONS[paramKey];
 
   const handleValueSelect = (value: string) => {
     onValueSelected(parameter.id, value);
@@ -529,23 +190,21 @@ const ParameterCard = ({ parameter, onValueSelected, usedValues }: ParameterCard
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-1.5">
                 <p className="text-sm font-medium">{parameter.label}</p>
-                {helpInfo && (
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
-                      </TooltipTrigger>
-                      <TooltipContent side="top" className="max-w-md">
-                        <div className="space-y-2">
-                          <p className="font-medium">{helpInfo.description}</p>
-                          <div className="text-xs text-muted-foreground whitespace-pre-line">{helpInfo.highMeans}</div>
-                        </div>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                )}
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="max-w-md">
+                      <div className="space-y-2">
+                        <p className="font-medium">{parameter.description}</p>
+                        <div className="text-xs text-muted-foreground whitespace-pre-line">{parameter.valueGuide}</div>
+                      </div>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
               </div>
-              <p className="text-xs text-muted-foreground mt-0.5">{parameter.description}</p>
+              <p className="text-xs text-muted-foreground mt-0.5">{parameter.directionHint}</p>
             </div>
           </div>
         </div>
@@ -557,15 +216,13 @@ const ParameterCard = ({ parameter, onValueSelected, usedValues }: ParameterCard
             <p className="text-xs text-muted-foreground">Choose the value you want to prioritize</p>
           </div>
           
-          {helpInfo && (
-            <div className="p-2 rounded-md bg-muted/50 border text-xs space-y-1">
-              <p className="font-medium text-foreground">{helpInfo.description}</p>
-              <div className="text-muted-foreground whitespace-pre-line">{helpInfo.highMeans}</div>
-            </div>
-          )}
+          <div className="p-2 rounded-md bg-muted/50 border text-xs space-y-1">
+            <p className="font-medium text-foreground">{parameter.description}</p>
+            <div className="text-muted-foreground whitespace-pre-line">{parameter.valueGuide}</div>
+          </div>
           
           <div className="space-y-1">
-            {parameter.valueOptions.map(value => {
+            {getValuesBestFirst(parameter.id).map(value => {
               const comboKey = `${parameter.id}-${value}`;
               const isUsed = usedValues.has(comboKey);
               return (
@@ -643,14 +300,16 @@ interface DropBucketProps {
   description: string;
   color: string;
   assignments: BucketAssignment[];
-  bucketWeight: number;
-  onWeightChange: (newWeight: number) => void;
+  // % of the score; undefined for exclusions
+  bucketWeight?: number;
+  weighting: BucketWeightingOptions;
+  onManualShareChange: (assignment: BucketAssignment, percentage: number) => void;
   onDrop: (parameterId: string, selectedValue: string, bucket: ImportanceBucket, position?: number) => void;
   onRemove: (parameterId: string, selectedValue: string) => void;
   onReorder: (parameterId: string, selectedValue: string, newPosition: number, newBucket: ImportanceBucket) => void;
 }
 
-const DropBucket = ({ bucket, title, description, color, assignments, bucketWeight, onWeightChange, onDrop, onRemove, onReorder }: DropBucketProps) => {
+const DropBucket = ({ bucket, title, description, color, assignments, bucketWeight, weighting, onManualShareChange, onDrop, onRemove, onReorder }: DropBucketProps) => {
   const [{ isOver }, drop] = useDrop({
     accept: 'parameter-value',
     drop: (item: { parameterId: string; selectedValue: string; fromBucket?: ImportanceBucket; fromPosition?: number }, monitor) => {
@@ -668,6 +327,9 @@ const DropBucket = ({ bucket, title, description, color, assignments, bucketWeig
     .filter(a => a.bucket === bucket)
     .sort((a, b) => a.position - b.position);
 
+  // Each parameter's share of the bucket's weight under the chosen scheme (exclusions aren't weighted)
+  const shares = bucket === "exclusions" ? [] : getBucketShares(bucketParameters, weighting);
+
   const moveItem = (dragIndex: number, hoverIndex: number) => {
     if (dragIndex === hoverIndex) return;
     const item = bucketParameters[dragIndex];
@@ -684,18 +346,8 @@ const DropBucket = ({ bucket, title, description, color, assignments, bucketWeig
       <div className="mb-3 space-y-2">
         <div className="flex items-center justify-between">
           <h4 className="font-medium">{title}</h4>
-          {bucket !== "exclusions" && (
-            <div className="flex items-center gap-2">
-              <Input
-                type="number"
-                min="0"
-                max="100"
-                value={bucketWeight}
-                onChange={(e) => onWeightChange(parseInt(e.target.value) || 0)}
-                className="w-16 h-7 text-xs text-center"
-              />
-              <span className="text-xs">%</span>
-            </div>
+          {bucketWeight !== undefined && (
+            <Badge variant="outline" className="text-xs">{bucketWeight}%</Badge>
           )}
         </div>
         <p className="text-xs text-muted-foreground">{description}</p>
@@ -707,13 +359,16 @@ const DropBucket = ({ bucket, title, description, color, assignments, bucketWeig
           </div>
         ) : (
           bucketParameters.map((assignment, index) => {
-            const param = AVAILABLE_PARAMETERS.find(p => p.id === assignment.parameterId);
+            const param = getParameter(assignment.parameterId);
             return param ? (
               <DraggableParameterValueInBucket
                 key={`${assignment.parameterId}-${assignment.selectedValue}`}
                 assignment={assignment}
                 paramLabel={param.label}
                 index={index}
+                share={shares[index]}
+                manualPercentage={weighting.scheme === "manual" && bucket !== "exclusions" ? weighting.manual[getAssignmentKey(assignment)] ?? 0 : undefined}
+                onManualPercentageChange={(percentage) => onManualShareChange(assignment, percentage)}
                 moveItem={moveItem}
                 onRemove={() => onRemove(assignment.parameterId, assignment.selectedValue)}
               />
@@ -730,11 +385,16 @@ interface DraggableParameterValueInBucketProps {
   assignment: BucketAssignment;
   paramLabel: string;
   index: number;
+  // Share of the bucket's weight; undefined for exclusions
+  share?: number;
+  // Manual scheme only: the entered % of the bucket
+  manualPercentage?: number;
+  onManualPercentageChange: (percentage: number) => void;
   moveItem: (dragIndex: number, hoverIndex: number) => void;
   onRemove: () => void;
 }
 
-const DraggableParameterValueInBucket = ({ assignment, paramLabel, index, moveItem, onRemove }: DraggableParameterValueInBucketProps) => {
+const DraggableParameterValueInBucket = ({ assignment, paramLabel, index, share, manualPercentage, onManualPercentageChange, moveItem, onRemove }: DraggableParameterValueInBucketProps) => {
   const ref = useRef<HTMLDivElement>(null);
 
   const [{ isDragging }, drag] = useDrag({
@@ -789,6 +449,24 @@ const DraggableParameterValueInBucket = ({ assignment, paramLabel, index, moveIt
           <p className="text-xs text-muted-foreground truncate mt-0.5">{assignment.selectedValue}</p>
         </div>
       </div>
+      {manualPercentage !== undefined ? (
+        <div className="flex items-center gap-1 ml-2">
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={manualPercentage}
+            onChange={(e) => onManualPercentageChange(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-16 h-7 text-xs text-center"
+            title="% of this bucket's weight"
+          />
+          <span className="text-xs">%</span>
+        </div>
+      ) : share !== undefined && (
+        <span className="ml-2 text-xs text-muted-foreground" title="Share of this bucket's weight">
+          {(share * 100).toFixed(0)}%
+        </span>
+      )}
       <button
         onClick={onRemove}
         className="ml-2 p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors opacity-0 group-hover:opacity-100"
@@ -872,11 +550,22 @@ export function WhatIfAnalysis({
   setWeights,
   bucketAssignments,
   setBucketAssignments,
-  bucketWeights = { high: 60, medium: 40 },
-  setBucketWeights,
+  buckets = DEFAULT_BUCKETS,
+  setBuckets,
+  bucketWeighting,
+  setBucketWeighting,
+  scoringOptions,
+  setScoringOptions,
+  sourceData,
+  labelThresholds,
+  setLabelThresholds,
+  categorization,
+  setCategorization,
   globalFilters,
   setGlobalFilters,
-  resetGlobalFilters 
+  resetGlobalFilters,
+  columnLayout,
+  setColumnLayout
 }: WhatIfAnalysisProps) {
   const [sortField, setSortField] = useState<SortField>("MSA");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
@@ -885,7 +574,9 @@ export function WhatIfAnalysis({
   const [isCalculating, setIsCalculating] = useState(false);
   
   // Column configuration state
-  const [columns, setColumns] = useState<ColumnConfig[]>(DEFAULT_COLUMNS);
+  const columns = useMemo(() => applyColumnLayout(columnLayout), [columnLayout]);
+  const setColumns = (newColumns: ColumnConfig[]) =>
+    setColumnLayout(newColumns.map(column => ({ id: column.id, visible: column.visible })));
   
   // selectedParameterValues is just UI state, can remain local
   const [selectedParameterValues, setSelectedParameterValues] = useState<Array<{ parameterId: string; selectedValue: string; }>>([]);
@@ -894,6 +585,12 @@ export function WhatIfAnalysis({
   const [msaFilter, setMsaFilter] = useState("");
   const [oldCategoryFilter, setOldCategoryFilter] = useState<string>("all");
   const [newCategoryFilter, setNewCategoryFilter] = useState<string>("all");
+
+  // Category filters refer to tier labels, so clear them when the tiers change
+  useEffect(() => {
+    setOldCategoryFilter("all");
+    setNewCategoryFilter("all");
+  }, [categorization.labels.join("|")]);
   
   // Bucket data from backend
   const [marketSizeBuckets, setMarketSizeBuckets] = useState<FilterBucketData | null>(null);
@@ -906,7 +603,6 @@ export function WhatIfAnalysis({
 
   // Calculate total weight percentage (with NaN safety)
   const totalWeight = Object.values(weights).reduce((sum, w) => sum + (isNaN(w) ? 0 : w), 0);
-  const totalBucketWeight = bucketWeights.high + bucketWeights.medium;
   
   // Fetch bucket data from backend and initialize slider ranges
   useEffect(() => {
@@ -945,12 +641,12 @@ export function WhatIfAnalysis({
   }, [weights]);
 
   // Update a specific weight
-  const updateWeight = (key: keyof Weights, value: number) => {
+  const updateWeight = (key: string, value: number) => {
     setWeights({ ...weights, [key]: value });
   };
 
   // Update a specific category preference and immediately apply
-  const updateCategory = (key: keyof CategoryPreferences, value: string) => {
+  const updateCategory = (key: string, value: string) => {
     const updatedCategories = { ...categoryPreferences, [key]: value };
     setCategoryPreferences(updatedCategories);
     
@@ -1000,7 +696,7 @@ export function WhatIfAnalysis({
   };
 
   const resetColumns = () => {
-    setColumns(DEFAULT_COLUMNS);
+    setColumnLayout([]);
   };
 
   // Bucket mode handlers
@@ -1025,14 +721,12 @@ export function WhatIfAnalysis({
     const position = insertPosition !== undefined ? insertPosition : bucketItems.length;
 
     // Reindex positions in all buckets
-    const reindexedByBucket: Record<ImportanceBucket, BucketAssignment[]> = {
-      high: [],
-      medium: [],
-      exclusions: []
-    };
+    const reindexedByBucket: Record<ImportanceBucket, BucketAssignment[]> = Object.fromEntries(
+      [...buckets.map(b => b.id), EXCLUSIONS_BUCKET].map(bucketId => [bucketId, []])
+    );
 
     filtered.forEach(a => {
-      reindexedByBucket[a.bucket].push(a);
+      reindexedByBucket[a.bucket]?.push(a);
     });
 
     // Add new item to target bucket
@@ -1098,34 +792,48 @@ export function WhatIfAnalysis({
     setBucketAssignments(newAssignments);
   };
 
+  const handleManualShareChange = (assignment: BucketAssignment, percentage: number) => {
+    setBucketWeighting({ ...bucketWeighting, manual: { ...bucketWeighting.manual, [getAssignmentKey(assignment)]: percentage } });
+  };
+
   const clearAllBuckets = () => {
     setBucketAssignments([]); // Remove all parameters from boxes
     setSelectedParameterValues([]);
   };
 
+  // The default parameters are placed in the default buckets, so those come back too
   const applyDefaultParameters = () => {
     setBucketAssignments(DEFAULT_BUCKET_ASSIGNMENTS);
+    setBuckets(DEFAULT_BUCKETS);
+  };
+
+  // Parameters in a bucket that's been removed go back to Ready to Place
+  const applyBuckets = (newBuckets: ScoringBucket[]) => {
+    const kept = bucketAssignments.filter(a => a.bucket === EXCLUSIONS_BUCKET || newBuckets.some(b => b.id === a.bucket));
+    if (kept.length < bucketAssignments.length) {
+      const returned = bucketAssignments
+        .filter(a => !kept.includes(a))
+        .map(a => ({ parameterId: a.parameterId, selectedValue: a.selectedValue }));
+      setSelectedParameterValues(prev => [...prev, ...returned]);
+      setBucketAssignments(kept);
+    }
+    setBuckets(newBuckets);
   };
 
   // Get unique values for filters - Product filter removed
 
+  // Raw-metric normalizers for continuous scoring (null when scoring from labels)
+  const continuousScoring = useMemo(() => createContinuousScoring(data, scoringOptions), [data, scoringOptions]);
+
   // Calculate new scores and categories
+  // Original Score is always the default buckets scored from labels; New Score uses the current scoring method
   const enrichedData = useMemo(() => {
     // Calculate baseline scores using DEFAULT_BUCKET_ASSIGNMENTS (constant, never changes)
     // Calculate current scores using CURRENT bucket assignments (changes when user modifies parameters)
-    console.log('WhatIfAnalysis: enrichedData - data length:', data.length);
-    if (data.length > 0) {
-      console.log('WhatIfAnalysis: Sample row:', {
-        MSA: data[0].MSA,
-        Attractiveness_Score: data[0].Attractiveness_Score,
-        Attractiveness_Category: data[0].Attractiveness_Category
-      });
-    }
-    
     // Calculate baseline using DEFAULT_BUCKET_ASSIGNMENTS with default bucket weights
     const baselineScores = data.map((row, index) => ({
       ...row,
-      baselineScore: calculateBucketModeScore(row, DEFAULT_BUCKET_ASSIGNMENTS, { high: 60, medium: 40 }),
+      baselineScore: calculateBucketModeScore(row, DEFAULT_BUCKET_ASSIGNMENTS, DEFAULT_BUCKETS),
       originalIndex: index,
     }));
     
@@ -1134,20 +842,14 @@ export function WhatIfAnalysis({
       score: row.baselineScore,
       index,
     }));
-    const baselineCategories = getCategoriesByQuartiles(baselineScoreData);
+    const baselineCategories = categorizeScores(baselineScoreData, categorization);
     
     // Calculate current scores using CURRENT bucket assignments and bucket weights
-    const currentBucketWeights = bucketWeights || { high: 60, medium: 40 };
     const dataWithCurrentScores = baselineScores.map((row, index) => {
       // Use the EXACT same calculation as Score Breakdown Dialog
       const currentBucketAssignments = bucketAssignments || DEFAULT_BUCKET_ASSIGNMENTS;
-      const calculatedScore = calculateBucketModeScore(row, currentBucketAssignments, currentBucketWeights);
-      
-      // Debug Charlotte specifically
-      if (row.MSA && row.MSA.includes('Charlotte')) {
-        console.log('WhatIfAnalysis enrichedData: Charlotte calculatedScore:', calculatedScore, 'using assignments:', currentBucketAssignments.length, 'weights:', currentBucketWeights);
-      }
-      
+      const calculatedScore = calculateBucketModeScore(row, currentBucketAssignments, buckets, continuousScoring, bucketWeighting);
+
       return {
         ...row,
         calculatedScore: calculatedScore,
@@ -1160,101 +862,38 @@ export function WhatIfAnalysis({
       score: row.calculatedScore,
       index,
     }));
-    const calculatedCategories = getCategoriesByQuartiles(currentScoreData);
+    const calculatedCategories = categorizeScores(currentScoreData, categorization);
     
     return dataWithCurrentScores.map((row, index) => ({
       ...row,
       calculatedCategory: calculatedCategories[index],
       scoreDelta: row.calculatedScore - row.baselineScore,
     }));
-  }, [data, bucketAssignments, bucketWeights]);
+  }, [data, bucketAssignments, buckets, continuousScoring, bucketWeighting, categorization]);
 
   // Apply filters
   const filteredData = useMemo(() => {
-    console.log('WhatIfAnalysis: Filtering enrichedData, length:', enrichedData.length);
-    const filtered = enrichedData.filter((row) => {
+    // Market size, revenue, region, archetype and exclusions are the global filters every view shares
+    const globallyFiltered = applyGlobalFilters(enrichedData, globalFilters, bucketAssignments, {
+      marketSize: marketSizeBuckets ?? undefined,
+      revenuePerCompany: revenuePerCompanyBuckets ?? undefined,
+    });
+    return globallyFiltered.filter((row) => {
       const matchesMSA = !msaFilter || row.MSA.toLowerCase().includes(msaFilter.toLowerCase());
       const matchesOldCategory = oldCategoryFilter === "all" || row.baselineCategory === oldCategoryFilter;
       const matchesNewCategory = newCategoryFilter === "all" || row.calculatedCategory === newCategoryFilter;
       
-      // Market Size slider filter
-      let matchesMarketSize = true;
-      if (marketSizeBuckets?.range) {
-        const value = row["Market Size"];
-        // Treat [0, 0] as "not initialized" and skip filtering
-        const isNotInitialized = globalFilters.marketSizeRange[0] === 0 && globalFilters.marketSizeRange[1] === 0;
-        const isFullRange = globalFilters.marketSizeRange[0] === marketSizeBuckets.range.min && 
-                           globalFilters.marketSizeRange[1] === marketSizeBuckets.range.max;
-        if (!isFullRange && !isNotInitialized) {
-          matchesMarketSize = value !== undefined && value !== null && 
-            value >= globalFilters.marketSizeRange[0] && value <= globalFilters.marketSizeRange[1];
-        }
-      }
-      
-      // Revenue per Company slider filter
-      let matchesRevenuePerCompany = true;
-      if (revenuePerCompanyBuckets?.range) {
-        const value = row["Revenue per Company"];
-        // Treat [0, 0] as "not initialized" and skip filtering
-        const isNotInitialized = globalFilters.revenuePerCompanyRange[0] === 0 && globalFilters.revenuePerCompanyRange[1] === 0;
-        const isFullRange = globalFilters.revenuePerCompanyRange[0] === revenuePerCompanyBuckets.range.min && 
-                           globalFilters.revenuePerCompanyRange[1] === revenuePerCompanyBuckets.range.max;
-        if (!isFullRange && !isNotInitialized) {
-          matchesRevenuePerCompany = value !== undefined && value !== null && 
-            value >= globalFilters.revenuePerCompanyRange[0] && value <= globalFilters.revenuePerCompanyRange[1];
-        }
-      }
-      
-      // Geography filter - use MSA name mapping first, then fallback to coordinates
-      let matchesRegion = true;
-      if (globalFilters.selectedRegions.length > 0) {
-        const msaName = row.MSA;
-        const msaRegion = getRegionForMSASync(msaName, row.LAT, row.LON);
-        matchesRegion = globalFilters.selectedRegions.includes(msaRegion);
-      }
-      
-      // Industry filter (placeholder - always matches for now)
-      let matchesIndustry = true;
-      if (globalFilters.selectedIndustries.length > 0) {
-        // Placeholder: will be implemented when industry data is available
-        matchesIndustry = true;
-      }
-      
-      // Exclusions filter - filter out MSAs that match excluded parameter values
-      let passesExclusions = true;
-      const exclusionAssignments = bucketAssignments.filter(a => a.bucket === "exclusions");
-      if (exclusionAssignments.length > 0) {
-        // Check if this MSA matches any exclusion criterion
-        for (const exclusion of exclusionAssignments) {
-          const paramId = exclusion.parameterId;
-          const scoreFieldName = `${paramId}_Score`;
-          const actualValue = row[scoreFieldName];
-          
-          // Normalize both values for comparison
-          const normalizedActual = actualValue?.toLowerCase().replace(/ /g, "_") || "";
-          const normalizedExcluded = exclusion.selectedValue.toLowerCase().replace(/ /g, "_");
-          
-          // If the MSA's value matches the excluded value, filter it out
-          if (normalizedActual === normalizedExcluded) {
-            passesExclusions = false;
-            break;
-          }
-        }
-      }
-      
-      return matchesMSA && matchesOldCategory && matchesNewCategory && 
-             matchesMarketSize && matchesRevenuePerCompany && matchesRegion && matchesIndustry && passesExclusions;
+      return matchesMSA && matchesOldCategory && matchesNewCategory;
     });
-    console.log('WhatIfAnalysis: Filtered data length:', filtered.length);
-    return filtered;
   }, [enrichedData, msaFilter, oldCategoryFilter, newCategoryFilter, globalFilters, 
       marketSizeBuckets, revenuePerCompanyBuckets, bucketAssignments]);
 
   // Calculate impact summary statistics
   const impactStats = useMemo(() => {
+    const emptyCounts = () => Object.fromEntries(categorization.labels.map(label => [label, 0])) as Record<string, number>;
     const categoryCounts = {
-      original: { "Highly Attractive": 0, Attractive: 0, Neutral: 0, Challenging: 0 },
-      calculated: { "Highly Attractive": 0, Attractive: 0, Neutral: 0, Challenging: 0 },
+      original: emptyCounts(),
+      calculated: emptyCounts(),
     };
     
     let totalIncrease = 0;
@@ -1264,8 +903,8 @@ export function WhatIfAnalysis({
     enrichedData.forEach((row) => {
       // Use baselineCategory instead of database category
       const baselineCat = row.baselineCategory || row.Attractiveness_Category;
-      categoryCounts.original[baselineCat as keyof typeof categoryCounts.original]++;
-      categoryCounts.calculated[row.calculatedCategory as keyof typeof categoryCounts.calculated]++;
+      categoryCounts.original[baselineCat] = (categoryCounts.original[baselineCat] || 0) + 1;
+      categoryCounts.calculated[row.calculatedCategory] = (categoryCounts.calculated[row.calculatedCategory] || 0) + 1;
       
       if (row.scoreDelta > 0) totalIncrease++;
       if (row.scoreDelta < 0) totalDecrease++;
@@ -1279,7 +918,7 @@ export function WhatIfAnalysis({
       msasWithChanges,
       avgScoreChange: enrichedData.reduce((sum, row) => sum + (isNaN(row.scoreDelta) ? 0 : row.scoreDelta), 0) / enrichedData.length,
     };
-  }, [enrichedData]);
+  }, [enrichedData, categorization]);
 
   // Apply sorting
   const sortedData = useMemo(() => {
@@ -1366,15 +1005,8 @@ export function WhatIfAnalysis({
 
   // Category badge component
   const CategoryBadge = ({ category }: { category: string }) => {
-    const getCategoryColor = (category: string) => {
-      if (category === "Highly Attractive") return "bg-green-100 text-green-800 border-green-300";
-      if (category === "Attractive") return "bg-yellow-100 text-yellow-800 border-yellow-300";
-      if (category === "Neutral") return "bg-orange-100 text-orange-800 border-orange-300";
-      return "bg-red-100 text-red-800 border-red-300";
-    };
-
     return (
-      <Badge variant="outline" className={`${getCategoryColor(category)} border`}>
+      <Badge variant="outline" className={`${getCategoryBadgeClass(category, categorization)} border`}>
         {category}
       </Badge>
     );
@@ -1384,66 +1016,28 @@ export function WhatIfAnalysis({
   const ScoreBreakdownDialog = ({ row }: { row: any }) => {
     const [open, setOpen] = useState(false);
     
-    // Ensure bucketWeights is always defined
-    const safeBucketWeights = bucketWeights && typeof bucketWeights === 'object' && 'high' in bucketWeights && 'medium' in bucketWeights
-      ? bucketWeights
-      : { high: 60, medium: 40 };
-
     // Calculate breakdown based on current mode
     const getBreakdown = () => {
-      // Double-check bucketWeights is safe
-      const finalSafeBucketWeights = safeBucketWeights;
-      
       if (mode === "bucket" && bucketAssignments.length > 0) {
         // Use EXACT same calculation as recalculateDataWithBuckets
-        const currentBucketWeights = finalSafeBucketWeights;
-        console.log('ScoreBreakdown: Using bucketWeights:', currentBucketWeights, 'for', row.MSA);
-        
-        // Verify bucketWeights is valid before calling
-        if (!currentBucketWeights || typeof currentBucketWeights !== 'object' || !('high' in currentBucketWeights) || !('medium' in currentBucketWeights)) {
-          console.error('ScoreBreakdown: Invalid bucketWeights, using defaults');
-          return { buckets: [], totalScore: 0, mode: "bucket" };
-        }
-        
-        // Verify what score we're breaking down - should match the displayed "New Score" (calculatedScore)
-        const displayedScore = row.calculatedScore;
-        console.log('ScoreBreakdown: Breaking down score for', row.MSA);
-        console.log('ScoreBreakdown: Displayed New Score (calculatedScore):', displayedScore);
-        console.log('ScoreBreakdown: Displayed Original Score (baselineScore):', row.baselineScore);
-        console.log('ScoreBreakdown: Current bucketAssignments:', bucketAssignments.length, 'items');
-        console.log('ScoreBreakdown: Current bucketWeights:', currentBucketWeights);
-        
-        // Recalculate to verify it matches
-        const recalculatedScore = calculateBucketModeScore(row, bucketAssignments || DEFAULT_BUCKET_ASSIGNMENTS, currentBucketWeights);
-        console.log('ScoreBreakdown: Recalculated score:', recalculatedScore, 'should match displayed:', displayedScore);
-        
-        if (Math.abs(recalculatedScore - displayedScore) > 0.01) {
-          console.warn('ScoreBreakdown: MISMATCH! Recalculated:', recalculatedScore, 'Displayed:', displayedScore);
-        }
-        
-        // Bucket mode breakdown with dynamic bucket weights
-        const total = currentBucketWeights.high + currentBucketWeights.medium;
-        const BUCKET_WEIGHTS = {
-          high: currentBucketWeights.high / total,
-          medium: currentBucketWeights.medium / total,
-          exclusions: 0,  // Excluded parameters don't contribute
-        };
-
-        // Group assignments by bucket (exclusions shown but not scored)
-        const bucketGroups = {
-          high: bucketAssignments.filter(a => a.bucket === "high").sort((a, b) => a.position - b.position),
-          medium: bucketAssignments.filter(a => a.bucket === "medium").sort((a, b) => a.position - b.position),
-          exclusions: bucketAssignments.filter(a => a.bucket === "exclusions").sort((a, b) => a.position - b.position),
-        };
+        // Each bucket's share of the score (excluded parameters don't contribute)
+        const bucketWeightById: Record<string, number> = Object.fromEntries(buckets.map(b => [b.id, b.weight / 100]));
+
+        // Group assignments by bucket, most important first (exclusions shown but not scored)
+        const bucketGroups = [...buckets.map(b => b.id), EXCLUSIONS_BUCKET].map(bucket => ({
+          bucket,
+          items: bucketAssignments.filter(a => a.bucket === bucket).sort((a, b) => a.position - b.position),
+        }));
 
         // Store bucket-level data
-        const buckets: Array<{
+        const bucketBreakdowns: Array<{
           bucket: string;
           bucketWeight: number;
           parameters: Array<{
             parameter: string;
             targetValue: string;
             actualValue: string;
+            rawValue?: number;
             matchScore: number;
             position: number;
             positionWeight: number;
@@ -1456,33 +1050,33 @@ export function WhatIfAnalysis({
         let totalScore = 0;
 
         // Calculate for each bucket
-        Object.entries(bucketGroups).forEach(([bucket, items]) => {
+        bucketGroups.forEach(({ bucket, items }) => {
           if (items.length === 0) return;
 
-          const bucketWeight = BUCKET_WEIGHTS[bucket as ImportanceBucket];
+          const bucketWeight = bucketWeightById[bucket] ?? 0;
           const parameters: Array<any> = [];
+          // Share of the bucket's weight for each position, as calculateBucketModeScore applies it
+          const shares = bucket === "exclusions" ? items.map(() => 0) : getBucketShares(items, bucketWeighting);
           
           let sumOfScores = 0;
 
           items.forEach((assignment, idx) => {
             const paramId = assignment.parameterId;
-            const paramLabel = AVAILABLE_PARAMETERS.find(p => p.id === paramId)?.label || paramId;
-            const scoreFieldName = `${paramId}_Score`;
-            const actualValue = row[scoreFieldName] || "";
-            const matchScore = getScoreForValue(actualValue, assignment.selectedValue, paramId);
-            
-            console.log(`  ScoreBreakdown ${bucket}: ${paramId}="${actualValue}" vs target="${assignment.selectedValue}" → score=${matchScore}`);
-            
-            // All parameters weighted equally (positionWeight = 1.0 for all)
-            const positionWeight = bucket === "exclusions" ? 0 : 1.0;
+            const paramLabel = PARAMETER_LABELS[paramId] || paramId;
+            const actualValue = getParameterValue(row, paramId);
+            const matchScore = getParameterMatchScore(row, assignment, continuousScoring);
+            const rawValue = continuousScoring && RAW_METRICS[paramId] ? row[RAW_METRICS[paramId].column] : undefined;
+
+            const positionWeight = shares[idx];
             const weightedScore = matchScore * positionWeight;
             
-            sumOfScores += matchScore;
+            sumOfScores += weightedScore;
 
             parameters.push({
               parameter: paramLabel,
               targetValue: assignment.selectedValue,
               actualValue: actualValue,
+              rawValue: typeof rawValue === "number" ? rawValue : undefined,
               matchScore: matchScore,
               position: idx + 1,
               positionWeight: positionWeight,
@@ -1490,11 +1084,12 @@ export function WhatIfAnalysis({
             });
           });
 
-          const averageScore = items.length > 0 ? sumOfScores / items.length : 0;
+          // Shares total 1, so the sum is the bucket's weighted average
+          const averageScore = sumOfScores;
           const contribution = averageScore * bucketWeight;
           totalScore += contribution;
 
-          buckets.push({
+          bucketBreakdowns.push({
             bucket: bucket,
             bucketWeight: bucketWeight,
             parameters: parameters,
@@ -1504,9 +1099,7 @@ export function WhatIfAnalysis({
         });
 
         const finalScore = Math.round(totalScore * 100) / 100;
-        console.log('ScoreBreakdown: Final calculated score:', finalScore, 'should match displayed calculatedScore:', row.calculatedScore);
-        console.log('ScoreBreakdown: If mismatch, check bucket assignments and weights match');
-        return { buckets, totalScore: finalScore, mode: "bucket" };
+        return { buckets: bucketBreakdowns, totalScore: finalScore, mode: "bucket" as const };
       } else {
         // Standard mode breakdown (simple/advanced)
         const components: Array<{
@@ -1517,32 +1110,15 @@ export function WhatIfAnalysis({
           contribution: number;
         }> = [];
 
-        const params: Array<keyof Weights> = [
-          "HHI", "Economic_Growth", "Loan_Growth", "Risk", "Risk_Migration",
-          "Relative_Risk_Migration", "Premium_Discount", "Pricing_Rationality", "International_CM"
-        ];
-
         let totalContribution = 0;
 
-        params.forEach(paramId => {
-          const paramLabel = AVAILABLE_PARAMETERS.find(p => p.id === paramId)?.label || paramId;
-          const scoreFieldName = `${paramId}_Score`;
-          const actualValue = row[scoreFieldName] || "";
+        SCORED_PARAMETERS.forEach(parameter => {
+          const paramId = parameter.id;
+          const paramLabel = parameter.label;
+          const actualValue = getParameterValue(row, paramId);
           
-          // Convert category to numeric score
-          let numericScore = 0;
-          const normalized = actualValue.toLowerCase();
-          if (normalized === "high") numericScore = 3;
-          else if (normalized === "medium") numericScore = 2;
-          else if (normalized === "low") numericScore = 1;
-          else if (normalized === "premium") numericScore = 3;
-          else if (normalized === "par") numericScore = 2;
-          else if (normalized === "discount") numericScore = 1;
-          else if (normalized === "rational") numericScore = 3;
-          else if (normalized === "irrational") numericScore = 1;
-          else if (normalized === "below_national" || normalized === "below national") numericScore = 3;
-          else if (normalized === "at_national" || normalized === "at national") numericScore = 2;
-          else if (normalized === "above_national" || normalized === "above national") numericScore = 1;
+          // Convert the label to its 1-3 score, with the parameter's better end scoring 3
+          const numericScore = scoreToValue(actualValue, parameter.better === "bottom");
 
           const weight = weights[paramId] || 0;
           const contribution = (numericScore * (weight / 100));
@@ -1559,7 +1135,7 @@ export function WhatIfAnalysis({
           }
         });
 
-        return { components, totalScore: Math.round(totalContribution * 100) / 100, mode: "standard" };
+        return { components, totalScore: Math.round(totalContribution * 100) / 100, mode: "standard" as const };
       }
     };
 
@@ -1591,29 +1167,21 @@ export function WhatIfAnalysis({
                 <Alert className="bg-blue-50 dark:bg-blue-950/20 border-blue-200">
                   <Info className="h-4 w-4 text-blue-600" />
                   <AlertDescription className="ml-2 text-sm">
-                    <strong>Bucket Priority Mode:</strong> Each bucket calculates an average match score (all parameters weighted equally at 1.0), then multiplies by the bucket's weight (High=60%, Medium=40%). Exclusions filter out MSAs entirely - they don't appear in results.
+                    <strong>Bucket Priority Mode:</strong> Each bucket calculates a weighted average match score, then multiplies by the bucket's weight ({buckets.map(b => `${b.name}=${b.weight}%`).join(", ")}). Within a bucket each parameter's share comes from the <strong>{BUCKET_WEIGHTING_SCHEMES.find(scheme => scheme.id === bucketWeighting.scheme)?.label}</strong> scheme ({BUCKET_WEIGHTING_SCHEMES.find(scheme => scheme.id === bucketWeighting.scheme)?.description}). Exclusions filter out MSAs entirely - they don't appear in results.
                   </AlertDescription>
                 </Alert>
 
                 <div className="space-y-4">
-                  {breakdown.buckets?.map((bucket, bucketIdx) => (
+                  {breakdown.buckets.map((bucket, bucketIdx) => (
                     <Card key={bucketIdx} className="p-4 border-2" style={{
-                      borderColor: bucket.bucket === "high" ? "rgb(34, 197, 94)" :
-                                   bucket.bucket === "medium" ? "rgb(234, 179, 8)" :
-                                   bucket.bucket === "exclusions" ? "rgb(156, 163, 175)" :
-                                   "rgb(251, 146, 60)"
+                      borderColor: getBucketStyle(buckets, bucket.bucket).border
                     }}>
                       <div className="space-y-3">
                         {/* Bucket Header */}
                         <div className="flex items-center justify-between pb-2 border-b">
                           <div className="flex items-center gap-2">
-                            <Badge variant="outline" className={
-                              bucket.bucket === "high" ? "bg-green-50 border-green-300 text-green-800" :
-                              bucket.bucket === "medium" ? "bg-yellow-50 border-yellow-300 text-yellow-800" :
-                              bucket.bucket === "exclusions" ? "bg-gray-50 border-gray-300 text-gray-800" :
-                              "bg-orange-50 border-orange-300 text-orange-800"
-                            }>
-                              {bucket.bucket === "exclusions" ? "Exclusions" : `${bucket.bucket.charAt(0).toUpperCase() + bucket.bucket.slice(1)} Importance`} Bucket
+                            <Badge variant="outline" className={getBucketStyle(buckets, bucket.bucket).badge}>
+                              {getBucketName(buckets, bucket.bucket)} Bucket
                             </Badge>
                             <span className="text-sm text-muted-foreground">
                               ({(bucket.bucketWeight * 100).toFixed(0)}% weight)
@@ -1639,14 +1207,17 @@ export function WhatIfAnalysis({
                                 <div>
                                   <span className="text-muted-foreground">Actual:</span>
                                   <p className="font-medium">{param.actualValue}</p>
+                                  {param.rawValue !== undefined && (
+                                    <p className="text-muted-foreground">{param.rawValue.toLocaleString(undefined, { maximumFractionDigits: 3 })}</p>
+                                  )}
                                 </div>
                                 <div>
                                   <span className="text-muted-foreground">Match:</span>
-                                  <p className="font-medium">{param.matchScore}/3</p>
+                                  <p className="font-medium">{Number.isInteger(param.matchScore) ? param.matchScore : param.matchScore.toFixed(2)}/3</p>
                                 </div>
                                 <div>
-                                  <span className="text-muted-foreground">Pos Weight:</span>
-                                  <p className="font-medium">{param.positionWeight.toFixed(3)}</p>
+                                  <span className="text-muted-foreground">Share:</span>
+                                  <p className="font-medium">{(param.positionWeight * 100).toFixed(1)}%</p>
                                 </div>
                                 <div>
                                   <span className="text-muted-foreground">Weighted:</span>
@@ -1660,7 +1231,7 @@ export function WhatIfAnalysis({
                         {/* Bucket Calculation */}
                         <div className="pt-3 border-t space-y-2">
                           <div className="flex justify-between items-center text-sm">
-                            <span className="text-muted-foreground">Bucket Average Score:</span>
+                            <span className="text-muted-foreground">Bucket Weighted Average:</span>
                             <span className="font-medium">{bucket.averageScore.toFixed(3)}</span>
                           </div>
                           <div className="flex justify-between items-center">
@@ -1743,8 +1314,17 @@ export function WhatIfAnalysis({
     return enrichedData.filter(row => row.baselineCategory !== row.calculatedCategory).length;
   }, [enrichedData]);
 
+  // Archetypes in the data, largest first
+  const archetypeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    data.forEach(row => {
+      if (row.Archetype) counts.set(row.Archetype, (counts.get(row.Archetype) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [data]);
+
   const hasActiveFilters = msaFilter !== "" || oldCategoryFilter !== "all" || newCategoryFilter !== "all" || 
-    globalFilters.selectedRegions.length > 0 || globalFilters.selectedIndustries.length > 0 ||
+    globalFilters.selectedRegions.length > 0 || globalFilters.selectedIndustries.length > 0 || globalFilters.selectedArchetypes.length > 0 ||
     (marketSizeBuckets && (globalFilters.marketSizeRange[0] !== marketSizeBuckets.range.min || globalFilters.marketSizeRange[1] !== marketSizeBuckets.range.max)) ||
     (revenuePerCompanyBuckets && (globalFilters.revenuePerCompanyRange[0] !== revenuePerCompanyBuckets.range.min || globalFilters.revenuePerCompanyRange[1] !== revenuePerCompanyBuckets.range.max));
 
@@ -1767,6 +1347,23 @@ export function WhatIfAnalysis({
               {row.calculatedScore.toFixed(2)}
             </span>
             <ScoreBreakdownDialog row={row} />
+            <SensitivityDialog
+              rows={data}
+              msa={row.MSA}
+              bucketAssignments={bucketAssignments}
+              buckets={buckets}
+              scoringOptions={scoringOptions}
+              bucketWeighting={bucketWeighting}
+              parameterLabels={PARAMETER_LABELS}
+            />
+            <ScoreWaterfallDialog
+              rows={data}
+              msa={row.MSA}
+              bucketAssignments={bucketAssignments}
+              buckets={buckets}
+              scoringOptions={scoringOptions}
+              bucketWeighting={bucketWeighting}
+            />
           </div>
         );
       case "scoreDelta":
@@ -1786,26 +1383,11 @@ export function WhatIfAnalysis({
             <CategoryBadge category={row.calculatedCategory} />
           </span>
         );
-      case "HHI":
-        return <ScoreBadge score={row.HHI_Score} />;
-      case "Economic_Growth":
-        return <ScoreBadge score={row.Economic_Growth_Score} />;
-      case "Loan_Growth":
-        return <ScoreBadge score={row.Loan_Growth_Score} />;
-      case "Risk":
-        return <ScoreBadge score={row.Risk_Score} />;
-      case "Risk_Migration":
-        return <ScoreBadge score={row.Risk_Migration_Score} />;
-      case "Relative_Risk_Migration":
-        return <ScoreBadge score={row.Relative_Risk_Migration_Score} />;
-      case "Premium_Discount":
-        return <ScoreBadge score={row.Premium_Discount_Score} />;
-      case "Pricing_Rationality":
-        return <ScoreBadge score={row.Pricing_Rationality_Score} />;
-      case "International_CM":
-        return <ScoreBadge score={row.International_CM_Score} />;
-      default:
-        return null;
+      default: {
+        // Parameter columns show the MSA's label
+        const parameter = getParameter(columnId);
+        return parameter ? <ScoreBadge score={row[parameter.column]} /> : null;
+      }
     }
   };
 
@@ -2012,6 +1594,36 @@ export function WhatIfAnalysis({
                   </div>
                 </div>
               </div>
+
+              {/* Archetype Filter */}
+              {archetypeCounts.length > 0 && (
+                <div className="space-y-3">
+                  <Label>Market Archetype</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {archetypeCounts.map(([archetype, count]) => (
+                      <div key={archetype} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`archetype-${archetype}`}
+                          checked={globalFilters.selectedArchetypes.includes(archetype)}
+                          onCheckedChange={(checked) => {
+                            if (checked) {
+                              setGlobalFilters({ ...globalFilters, selectedArchetypes: [...globalFilters.selectedArchetypes, archetype] });
+                            } else {
+                              setGlobalFilters({ ...globalFilters, selectedArchetypes: globalFilters.selectedArchetypes.filter(a => a !== archetype) });
+                            }
+                          }}
+                        />
+                        <label
+                          htmlFor={`archetype-${archetype}`}
+                          className="text-sm cursor-pointer leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                        >
+                          {archetype} <span className="text-muted-foreground">({count})</span>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
           
@@ -2029,7 +1641,9 @@ export function WhatIfAnalysis({
             
             const regionsActive = globalFilters.selectedRegions.length > 0;
             
-            const hasActiveFilters = marketSizeActive || revenueActive || regionsActive;
+            const archetypesActive = globalFilters.selectedArchetypes.length > 0;
+            
+            const hasActiveFilters = marketSizeActive || revenueActive || regionsActive || archetypesActive;
             
             return hasActiveFilters ? (
               <div className="flex items-center justify-between bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800 rounded-md p-3">
@@ -2050,6 +1664,7 @@ export function WhatIfAnalysis({
                         : [0, 0],
                       selectedRegions: [],
                       selectedIndustries: [],
+                      selectedArchetypes: [],
                     });
                   }}
                 >
@@ -2075,76 +1690,37 @@ export function WhatIfAnalysis({
           </div>
           <TooltipProvider>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {Object.entries(categoryPreferences).map(([key, value]) => {
-                const isHHI = key === "HHI";
-                const isRiskMigration = key === "Risk_Migration";
-                const isRelativeRisk = key === "Relative_Risk_Migration";
-                const isPremiumDiscount = key === "Premium_Discount";
-                const isPricingRationality = key === "Pricing_Rationality";
-                const isInternationalCM = key === "International_CM";
-                const label = key.replace(/_/g, " ");
-                const paramInfo = PARAMETER_DESCRIPTIONS[key];
+              {SCORED_PARAMETERS.map(parameter => {
+                const value = categoryPreferences[parameter.id] ?? "Any";
+                const bestValue = getValuesBestFirst(parameter.id)[0];
                 
                 return (
-                  <div key={key} className="space-y-2">
+                  <div key={parameter.id} className="space-y-2">
                     <div className="flex items-center gap-1.5">
-                      <label className="text-sm">{label}</label>
-                      {paramInfo && (
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
-                          </TooltipTrigger>
-                          <TooltipContent className="max-w-md">
-                            <div className="space-y-2">
-                              <p className="font-medium">{paramInfo.description}</p>
-                              <div className="text-xs text-muted-foreground whitespace-pre-line">{paramInfo.highMeans}</div>
-                            </div>
-                          </TooltipContent>
-                        </Tooltip>
-                      )}
+                      <label className="text-sm">{parameter.label}</label>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-md">
+                          <div className="space-y-2">
+                            <p className="font-medium">{parameter.description}</p>
+                            <div className="text-xs text-muted-foreground whitespace-pre-line">{parameter.valueGuide}</div>
+                          </div>
+                        </TooltipContent>
+                      </Tooltip>
                     </div>
-                    <Select value={value} onValueChange={(val) => updateCategory(key as keyof CategoryPreferences, val)}>
+                    <Select value={value} onValueChange={(val) => updateCategory(parameter.id, val)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="Any">Any</SelectItem>
-                        {isRelativeRisk ? (
-                          <>
-                            <SelectItem value="Below National Avg">Below National Avg</SelectItem>
-                            <SelectItem value="At National Avg">At National Avg</SelectItem>
-                            <SelectItem value="Above National Avg">Above National Avg</SelectItem>
-                          </>
-                        ) : isPremiumDiscount ? (
-                          <>
-                            <SelectItem value="Premium">Premium</SelectItem>
-                            <SelectItem value="Par">Par</SelectItem>
-                            <SelectItem value="Discount">Discount</SelectItem>
-                          </>
-                        ) : isPricingRationality ? (
-                          <>
-                            <SelectItem value="Rational">Rational</SelectItem>
-                            <SelectItem value="Irrational">Irrational</SelectItem>
-                          </>
-                        ) : (isHHI || isRiskMigration) ? (
-                          <>
-                            <SelectItem value="Low">Low (Best)</SelectItem>
-                            <SelectItem value="Medium">Medium</SelectItem>
-                            <SelectItem value="High">High</SelectItem>
-                          </>
-                        ) : isInternationalCM ? (
-                          <>
-                            <SelectItem value="High">High</SelectItem>
-                            <SelectItem value="Medium">Medium</SelectItem>
-                            <SelectItem value="Low">Low</SelectItem>
-                          </>
-                        ) : (
-                          <>
-                            <SelectItem value="High">High (Best)</SelectItem>
-                            <SelectItem value="Medium">Medium</SelectItem>
-                            <SelectItem value="Low">Low</SelectItem>
-                          </>
-                        )}
+                        {getValuesBestFirst(parameter.id).map(option => (
+                          <SelectItem key={option} value={option}>
+                            {option}{option === bestValue ? " (Best)" : ""}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -2169,7 +1745,7 @@ export function WhatIfAnalysis({
                 const safeValue = isNaN(value) ? 0 : value;
                 return (
                   <div key={key} className="text-xs">
-                    <div className="text-muted-foreground">{key.replace(/_/g, " ")}</div>
+                    <div className="text-muted-foreground">{PARAMETER_LABELS[key] || key}</div>
                     <div className={`font-medium transition-all duration-300 ${isCalculating ? 'opacity-50' : 'opacity-100'}`}>{safeValue}%</div>
                   </div>
                 );
@@ -2185,49 +1761,30 @@ export function WhatIfAnalysis({
           <h3 className="mb-4">Component Weights</h3>
           <TooltipProvider>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {Object.entries(weights).map(([key, value]) => {
-                const paramKey = key as keyof Weights;
-                const paramInfo = PARAMETER_DESCRIPTIONS[paramKey];
-                const label = key.replace(/_/g, " ");
-                
-                return (
-                  <div key={key} className="space-y-2">
-                    <div className="flex items-center gap-1.5">
-                      <label className="text-sm">{label}</label>
-                      {paramInfo && (
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
-                          </TooltipTrigger>
-                          <TooltipContent className="max-w-md">
-                            <div className="space-y-2">
-                              <p className="font-medium">{paramInfo.description}</p>
-                              <div className="text-xs text-muted-foreground whitespace-pre-line">{paramInfo.highMeans}</div>
-                            </div>
-                          </TooltipContent>
-                        </Tooltip>
-                      )}
-                    </div>
-                    <WeightSlider
-                      label=""
-                      value={value}
-                      defaultValue={DEFAULT_WEIGHTS[paramKey]}
-                      onChange={(newValue) => updateWeight(paramKey, newValue)}
-                    />
+              {SCORED_PARAMETERS.map(parameter => (
+                <div key={parameter.id} className="space-y-2">
+                  <div className="flex items-center gap-1.5">
+                    <label className="text-sm">{parameter.label}</label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-md">
+                        <div className="space-y-2">
+                          <p className="font-medium">{parameter.description}</p>
+                          <div className="text-xs text-muted-foreground whitespace-pre-line">{parameter.valueGuide}</div>
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
                   </div>
-                );
-              })}
-              
-              {/* Revenue per Company - Coming Soon */}
-              <div className="space-y-2 opacity-60">
-                <div className="flex items-center gap-1.5">
-                  <label className="text-sm">Revenue per Company</label>
-                  <Badge variant="outline" className="text-xs">Coming Soon</Badge>
-                </div>
-                <div className="h-10 flex items-center justify-center border border-dashed border-muted-foreground/30 rounded-md bg-muted/30">
-                  <span className="text-xs text-muted-foreground italic">Not yet available</span>
+                  <WeightSlider
+                    label=""
+                    value={weights[parameter.id] ?? 0}
+                    defaultValue={parameter.defaultWeight}
+                    onChange={(newValue) => updateWeight(parameter.id, newValue)}
+                  />
                 </div>
-              </div>
+              ))}
             </div>
           </TooltipProvider>
         </Card>
@@ -2256,15 +1813,41 @@ export function WhatIfAnalysis({
                 <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1 list-disc ml-4">
                   <li>Click a parameter and select your target value (e.g., "Market Concentration - Low" or "Loan Growth - High")</li>
                   <li>Drag the parameter-value combination into an importance bucket</li>
-                  <li><strong>High bucket:</strong> Gets 60% of scoring weight (adjustable)</li>
-                  <li><strong>Medium bucket:</strong> Gets 40% of scoring weight (adjustable)</li>
+                  <li><strong>Importance buckets:</strong> Each gets a share of the scoring weight - High 60% and Medium 40% by default. Add, rename, reorder or remove buckets and set their weights under <strong>Buckets</strong></li>
                   <li><strong>Exclusions bucket:</strong> Filters out MSAs that match the selected value (e.g., exclude "Market Concentration - High" removes all MSAs with high market concentration from results)</li>
-                  <li>Within each bucket, weight is split equally among all parameters</li>
-                  <li>MSAs are scored based on how well they match your selected parameter values in High/Medium buckets</li>
+                  <li>Within each bucket, weight is split equally among its parameters unless you choose a scheme under <strong>Within-Bucket Weighting</strong> that favors the top positions, or set the percentages yourself</li>
+                  <li>MSAs are scored based on how well they match your selected parameter values in the importance buckets</li>
+                  <li>With <strong>Continuous</strong> scoring, the match comes from the parameter's raw value rather than its label - e.g. for "Loan Growth - High", the higher the MSA's loan growth the closer its match gets to 3</li>
+                  <li>MSAs are grouped into categories by quartile of their score unless you choose another method, number of tiers or labels under <strong>Categories</strong></li>
+                  <li>The tornado button next to an MSA's New Score shows how its score and national rank move when one parameter's weight goes up or down, or the parameter moves to another bucket</li>
+                  <li><strong>Fit Weights to Target MSAs</strong> works backwards: choose the MSAs you expect on top and it suggests bucket assignments and weights that rank them highest, ready to apply</li>
+                  <li><strong>Label Thresholds</strong> replace a parameter's labels with ones cut from its raw metric at the values you choose, before any scores are calculated</li>
                 </ul>
               )}
             </Card>
 
+            {/* Label-based or continuous scoring */}
+            <ScoringMethodCard
+              options={scoringOptions}
+              onChange={setScoringOptions}
+              parameters={SCORED_PARAMETERS}
+            />
+
+            {/* Where each parameter's labels start on its raw metric */}
+            <LabelThresholdEditor
+              rows={sourceData}
+              thresholds={labelThresholds}
+              onChange={setLabelThresholds}
+              parameters={SCORED_PARAMETERS}
+            />
+
+            {/* How scores are grouped into categories */}
+            <CategorizationCard
+              options={categorization}
+              onChange={setCategorization}
+              scores={data.map(row => row.Attractiveness_Score)}
+            />
+
             {/* Available Parameters */}
             <Card className="p-4">
               <div className="mb-3 flex items-center justify-between">
@@ -2286,7 +1869,7 @@ export function WhatIfAnalysis({
                 </div>
               </div>
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-2">
-                {AVAILABLE_PARAMETERS.map(param => {
+                {SCORED_PARAMETERS.map(param => {
                   const usedValues = new Set(
                     bucketAssignments.map(a => `${a.parameterId}-${a.selectedValue}`)
                   );
@@ -2311,7 +1894,7 @@ export function WhatIfAnalysis({
                 </p>
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
                   {selectedParameterValues.map(item => {
-                    const param = AVAILABLE_PARAMETERS.find(p => p.id === item.parameterId);
+                    const param = getParameter(item.parameterId);
                     if (!param) return null;
                     
                     return (
@@ -2320,7 +1903,7 @@ export function WhatIfAnalysis({
                         assignment={{
                           parameterId: item.parameterId,
                           selectedValue: item.selectedValue,
-                          bucket: "high", // temporary, will be set on drop
+                          bucket: buckets[0].id, // temporary, will be set on drop
                           position: 0
                         }}
                         paramLabel={param.label}
@@ -2336,54 +1919,65 @@ export function WhatIfAnalysis({
               </Card>
             )}
 
+            {/* How each bucket's weight is shared among its parameters */}
+            <BucketWeightingCard
+              options={bucketWeighting}
+              onChange={setBucketWeighting}
+              bucketAssignments={bucketAssignments}
+              buckets={buckets}
+            />
+
             {/* Importance Buckets */}
             <div className="space-y-3">
-              {totalBucketWeight !== 100 && (
-                <Alert>
-                  <AlertDescription className="text-sm">
-                    Bucket weights total {totalBucketWeight}%. Adjust weights to total 100%.
-                  </AlertDescription>
-                </Alert>
-              )}
+              <BucketEditorCard
+                buckets={buckets}
+                onChange={applyBuckets}
+                bucketAssignments={bucketAssignments}
+              />
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <DropBucket
-                  bucket="high"
-                  title="High Importance"
-                  description="Adjust weight % for this bucket"
-                  color="bg-green-50 dark:bg-green-950/20 border-green-300 dark:border-green-800"
-                  assignments={bucketAssignments}
-                  bucketWeight={bucketWeights.high}
-                  onWeightChange={(newWeight) => setBucketWeights({ ...bucketWeights, high: newWeight })}
-                  onDrop={handleDropParameter}
-                  onRemove={handleRemoveParameter}
-                  onReorder={handleReorderParameter}
-                />
-                <DropBucket
-                  bucket="medium"
-                  title="Medium Importance"
-                  description="Adjust weight % for this bucket"
-                  color="bg-yellow-50 dark:bg-yellow-950/20 border-yellow-300 dark:border-yellow-800"
-                  assignments={bucketAssignments}
-                  bucketWeight={bucketWeights.medium}
-                  onWeightChange={(newWeight) => setBucketWeights({ ...bucketWeights, medium: newWeight })}
-                  onDrop={handleDropParameter}
-                  onRemove={handleRemoveParameter}
-                  onReorder={handleReorderParameter}
-                />
+                {buckets.map(bucket => (
+                  <DropBucket
+                    key={bucket.id}
+                    bucket={bucket.id}
+                    title={`${bucket.name} Importance`}
+                    description="Change names and weights under Buckets"
+                    color={getBucketStyle(buckets, bucket.id).card}
+                    assignments={bucketAssignments}
+                    bucketWeight={bucket.weight}
+                    weighting={bucketWeighting}
+                    onManualShareChange={handleManualShareChange}
+                    onDrop={handleDropParameter}
+                    onRemove={handleRemoveParameter}
+                    onReorder={handleReorderParameter}
+                  />
+                ))}
                 <DropBucket
                   bucket="exclusions"
                   title="Exclusions"
                   description="Filter out MSAs matching these values"
                   color="bg-gray-50 dark:bg-gray-950/20 border-gray-300 dark:border-gray-800"
                   assignments={bucketAssignments}
-                  bucketWeight={0}
-                  onWeightChange={() => {}}
+                  weighting={bucketWeighting}
+                  onManualShareChange={handleManualShareChange}
                   onDrop={handleDropParameter}
                   onRemove={handleRemoveParameter}
                   onReorder={handleReorderParameter}
                 />
               </div>
             </div>
+
+            {/* Search for buckets and weights that rank chosen MSAs highest */}
+            <WeightFittingPanel
+              rows={data}
+              bucketAssignments={bucketAssignments}
+              buckets={buckets}
+              scoringOptions={scoringOptions}
+              bucketWeighting={bucketWeighting}
+              onApply={(assignments, fittedBuckets) => {
+                setBucketAssignments(assignments);
+                setBuckets(fittedBuckets);
+              }}
+            />
           </div>
 
 
@@ -2482,8 +2076,6 @@ export function WhatIfAnalysis({
                     setMsaFilter("");
                     setOldCategoryFilter("all");
                     setNewCategoryFilter("all");
-                    setMarketSizeFilter("all");
-                    setRevenuePerCompanyFilter("all");
                   }}
                 >
                   <X className="h-4 w-4 mr-2" />
@@ -2515,10 +2107,9 @@ export function WhatIfAnalysis({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Original Categories</SelectItem>
-                <SelectItem value="Highly Attractive">Highly Attractive</SelectItem>
-                <SelectItem value="Attractive">Attractive</SelectItem>
-                <SelectItem value="Neutral">Neutral</SelectItem>
-                <SelectItem value="Challenging">Challenging</SelectItem>
+                {getLabelsBestFirst(categorization).map(label => (
+                  <SelectItem key={label} value={label}>{label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <Select value={newCategoryFilter} onValueChange={setNewCategoryFilter}>
@@ -2527,10 +2118,9 @@ export function WhatIfAnalysis({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All New Categories</SelectItem>
-                <SelectItem value="Highly Attractive">Highly Attractive</SelectItem>
-                <SelectItem value="Attractive">Attractive</SelectItem>
-                <SelectItem value="Neutral">Neutral</SelectItem>
-                <SelectItem value="Challenging">Challenging</SelectItem>
+                {getLabelsBestFirst(categorization).map(label => (
+                  <SelectItem key={label} value={label}>{label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
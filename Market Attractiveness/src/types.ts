@@ -3,6 +3,14 @@ export interface GlobalFilters {
   revenuePerCompanyRange: [number, number];
   selectedRegions: string[];
   selectedIndustries: string[];
+  // Market archetype names (see utils/marketArchetypes); empty = every archetype
+  selectedArchetypes: string[];
+}
+
+// What-If table columns in display order; columns not listed keep their default place and visibility
+export interface ColumnLayoutEntry {
+  id: string;
+  visible: boolean;
 }
 
 export interface SummaryData {
@@ -57,6 +65,16 @@ export interface MSAData {
   International_CM_Score: string;
   Pricing_Rationality: string;
   Pricing_Rationality_Explanation: string;
+  // Raw metrics behind the labels (used by continuous scoring)
+  "Revenue per Company"?: number;
+  "Herfindahl-Hirschman Index (HHI)"?: number;
+  Economic_Growth?: number;
+  "Lending Volume Annual Change"?: number;
+  Net_Risk_Migration?: number;
+  Relative_Risk_Migration?: number;
+  "Proportion of International Cash Management Revenue"?: number;
+  // Market archetype the MSA was clustered into
+  Archetype?: string;
 }
 
 export interface SelectedFranchise {
@@ -1,9 +1,16 @@
 import { BucketAssignment } from "./scoreCalculation";
 import { getRegionForMSASync, getRegionFromCoordinates } from "./stateToRegionMapping";
+import { getParameterValue, isSameValue } from "./parameterRegistry";
 
 // Re-export for backward compatibility
 export { getRegionFromCoordinates };
 
+// Whether a row has the value an exclusions-bucket assignment filters out
+export function matchesExclusion(row: Record<string, any>, exclusion: Pick<BucketAssignment, "parameterId" | "selectedValue">): boolean {
+  // Compared by the registry's spelling, so e.g. excluding Irrational also removes over- and underpriced MSAs
+  return isSameValue(exclusion.parameterId, getParameterValue(row, exclusion.parameterId), exclusion.selectedValue);
+}
+
 // Apply global filters to a dataset
 export function applyGlobalFilters<T extends {
   "Market Size"?: number;
@@ -21,6 +28,7 @@ export function applyGlobalFilters<T extends {
     revenuePerCompanyRange: [number, number];
     selectedRegions: string[];
     selectedIndustries: string[];
+    selectedArchetypes?: string[];
   },
   bucketAssignments: BucketAssignment[],
   filterBuckets?: {
@@ -75,21 +83,19 @@ export function applyGlobalFilters<T extends {
       matchesIndustry = true;
     }
     
+    // Archetype filter - rows carry the archetype App clustered them into
+    let matchesArchetype = true;
+    if (filters.selectedArchetypes && filters.selectedArchetypes.length > 0) {
+      matchesArchetype = filters.selectedArchetypes.includes(row.Archetype);
+    }
+    
     // Exclusions filter - filter out MSAs that match excluded parameter values
     let passesExclusions = true;
     const exclusionAssignments = bucketAssignments.filter(a => a.bucket === "exclusions");
     if (exclusionAssignments.length > 0) {
       for (const exclusion of exclusionAssignments) {
-        const paramId = exclusion.parameterId;
-        const scoreFieldName = `${paramId}_Score`;
-        const actualValue = row[scoreFieldName];
-        
-        // Normalize both values for comparison
-        const normalizedActual = actualValue?.toLowerCase().replace(/ /g, "_") || "";
-        const normalizedExcluded = exclusion.selectedValue.toLowerCase().replace(/ /g, "_");
-        
         // If the MSA's value matches the excluded value, filter it out
-        if (normalizedActual === normalizedExcluded) {
+        if (matchesExclusion(row, exclusion)) {
           passesExclusions = false;
           break;
         }
@@ -97,6 +103,6 @@ export function applyGlobalFilters<T extends {
     }
     
     return matchesMarketSize && matchesRevenuePerCompany && matchesRegion && 
-           matchesIndustry && passesExclusions;
+           matchesIndustry && matchesArchetype && passesExclusions;
   });
 }
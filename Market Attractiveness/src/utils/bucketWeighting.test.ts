@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { getBucketShares, getManualTotals, getRankShares, toManualPercentages } from "./bucketWeighting";
+
+const item = (parameterId: string, position: number, bucket = "high") => ({ parameterId, selectedValue: "High", bucket, position });
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe("getRankShares", () => {
+  it("gives every position the same share with the equal scheme", () => {
+    expect(getRankShares(4, "equal")).toEqual([0.25, 0.25, 0.25, 0.25]);
+  });
+
+  it("computes rank-order centroid shares", () => {
+    const shares = getRankShares(3, "rank-order-centroid");
+    expect(shares[0]).toBeCloseTo(11 / 18);
+    expect(shares[1]).toBeCloseTo(5 / 18);
+    expect(shares[2]).toBeCloseTo(2 / 18);
+  });
+
+  it("steps rank-sum shares down evenly", () => {
+    const shares = getRankShares(3, "rank-sum");
+    expect(shares[0]).toBeCloseTo(3 / 6);
+    expect(shares[1]).toBeCloseTo(2 / 6);
+    expect(shares[2]).toBeCloseTo(1 / 6);
+  });
+
+  it("totals 1 for every scheme and size", () => {
+    (["equal", "rank-order-centroid", "rank-sum"] as const).forEach(scheme => {
+      for (let count = 1; count <= 8; count++) {
+        expect(sum(getRankShares(count, scheme))).toBeCloseTo(1);
+      }
+    });
+  });
+
+  it("returns no shares for an empty bucket", () => {
+    expect(getRankShares(0, "rank-sum")).toEqual([]);
+  });
+});
+
+describe("getBucketShares", () => {
+  const items = [item("HHI", 0), item("Risk", 1)];
+
+  it("rescales manual percentages that don't total 100", () => {
+    const shares = getBucketShares(items, { scheme: "manual", manual: { "HHI:High": 30, "Risk:High": 10 } });
+    expect(shares[0]).toBeCloseTo(0.75);
+    expect(shares[1]).toBeCloseTo(0.25);
+  });
+
+  it("falls back to equal shares when the manual percentages total 0", () => {
+    expect(getBucketShares(items, { scheme: "manual", manual: {} })).toEqual([0.5, 0.5]);
+  });
+
+  it("ignores negative manual percentages", () => {
+    expect(getBucketShares(items, { scheme: "manual", manual: { "HHI:High": 50, "Risk:High": -20 } })).toEqual([1, 0]);
+  });
+});
+
+describe("toManualPercentages", () => {
+  it("rounds each bucket to whole percentages totalling 100", () => {
+    const items = [item("HHI", 0), item("Risk", 1), item("Loan_Growth", 2), item("Economic_Growth", 0, "medium")];
+    const manual = toManualPercentages(items, { scheme: "equal", manual: {} });
+    expect(manual).toEqual({ "HHI:High": 34, "Risk:High": 33, "Loan_Growth:High": 33, "Economic_Growth:High": 100 });
+    expect(getManualTotals(items, { scheme: "manual", manual })).toEqual({ high: 100, medium: 100 });
+  });
+
+  it("leaves out excluded parameters", () => {
+    const manual = toManualPercentages([item("HHI", 0), item("Risk", 0, "exclusions")], { scheme: "equal", manual: {} });
+    expect(manual).toEqual({ "HHI:High": 100 });
+  });
+});
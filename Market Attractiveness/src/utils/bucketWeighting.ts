@@ -0,0 +1,95 @@
+// Bucket Weighting - How a bucket's weight is shared among the parameters in it
+//
+// Equal shares ignore the order within a bucket. Rank-order centroid and rank-sum turn the order into weights:
+// the parameter at position 1 matters most. Rank-order centroid gives the first position a much larger share,
+// while rank-sum steps down evenly. Manual shares are the user's percentages of the bucket, per parameter and
+// target value. If they don't total 100 they are rescaled so the bucket still carries its full weight.
+
+export type BucketWeightingScheme = "equal" | "rank-order-centroid" | "rank-sum" | "manual";
+
+export interface BucketWeightingOptions {
+  scheme: BucketWeightingScheme;
+  // Manual scheme only: % of its bucket's weight by assignment key; each bucket's should total 100
+  manual: Record<string, number>;
+}
+
+// The parts of a bucket assignment the shares depend on
+interface WeightedItem {
+  parameterId: string;
+  selectedValue: string;
+  bucket: string;
+  position: number;
+}
+
+export const BUCKET_WEIGHTING_SCHEMES: Array<{ id: BucketWeightingScheme; label: string; description: string }> = [
+  { id: "equal", label: "Equal", description: "Every parameter in a bucket gets the same share; order doesn't matter" },
+  { id: "rank-order-centroid", label: "Rank-order centroid", description: "Shares fall steeply with position, so the top parameter dominates its bucket" },
+  { id: "rank-sum", label: "Rank-sum", description: "Shares step down evenly with position (e.g. 3:2:1 for three parameters)" },
+  { id: "manual", label: "Manual", description: "Set each parameter's percentage of its bucket; each bucket should total 100%" },
+];
+
+export const DEFAULT_BUCKET_WEIGHTING: BucketWeightingOptions = { scheme: "equal", manual: {} };
+
+// Manual percentages are stored per parameter and target value, since a parameter can sit in a bucket more than once
+export const getAssignmentKey = (item: Pick<WeightedItem, "parameterId" | "selectedValue">) =>
+  `${item.parameterId}:${item.selectedValue}`;
+
+/**
+ * Shares (fractions totalling 1) for a bucket of count parameters by position, first position first
+ */
+export const getRankShares = (count: number, scheme: Exclude<BucketWeightingScheme, "manual">): number[] => {
+  if (count <= 0) return [];
+  switch (scheme) {
+    case "rank-order-centroid":
+      // w_i = (1/n) * sum over k = i..n of 1/k
+      return Array.from({ length: count }, (_, i) => {
+        let sum = 0;
+        for (let k = i + 1; k <= count; k++) sum += 1 / k;
+        return sum / count;
+      });
+    case "rank-sum":
+      // w_i = 2(n + 1 - i) / (n(n + 1))
+      return Array.from({ length: count }, (_, i) => (2 * (count - i)) / (count * (count + 1)));
+    default:
+      return new Array(count).fill(1 / count);
+  }
+};
+
+/**
+ * Shares (fractions totalling 1) for the items of one bucket, in the order given
+ * items should be sorted by position; manual shares are rescaled to total 1, falling back to equal when they total 0
+ */
+export const getBucketShares = (items: WeightedItem[], options: BucketWeightingOptions): number[] => {
+  if (options.scheme !== "manual") return getRankShares(items.length, options.scheme);
+  const percentages = items.map(item => Math.max(0, options.manual[getAssignmentKey(item)] ?? 0));
+  const total = percentages.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? percentages.map(value => value / total) : getRankShares(items.length, "equal");
+};
+
+// Sum of the manual percentages in each scored bucket that has parameters
+export const getManualTotals = (items: WeightedItem[], options: BucketWeightingOptions): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  items
+    .filter(item => item.bucket !== "exclusions")
+    .forEach(item => {
+      totals[item.bucket] = (totals[item.bucket] ?? 0) + (options.manual[getAssignmentKey(item)] ?? 0);
+    });
+  return totals;
+};
+
+/**
+ * Manual percentages matching the shares the items get now, rounded to whole percentages that total 100 per bucket
+ * Used as the starting point when switching to the manual scheme
+ */
+export const toManualPercentages = (items: WeightedItem[], options: BucketWeightingOptions): Record<string, number> => {
+  const manual: Record<string, number> = {};
+  const buckets = Array.from(new Set(items.filter(item => item.bucket !== "exclusions").map(item => item.bucket)));
+  buckets.forEach(bucket => {
+    const bucketItems = items.filter(item => item.bucket === bucket).sort((a, b) => a.position - b.position);
+    const percentages = getBucketShares(bucketItems, options).map(share => Math.round(share * 100));
+    // Rounding can leave the bucket a point or two off 100; the first position takes the difference
+    percentages[0] += 100 - percentages.reduce((sum, value) => sum + value, 0);
+    bucketItems.forEach((item, index) => (manual[getAssignmentKey(item)] = percentages[index]));
+  });
+  return manual;
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  CategorizationOptions,
+  DEFAULT_CATEGORIZATION,
+  categorizeScores,
+  getCategoryBreaks,
+  getDefaultLabels,
+  getDefaultThresholds,
+  validateCategorization,
+  withTierCount,
+} from "./categorization";
+
+const categorize = (scores: number[], options: CategorizationOptions = DEFAULT_CATEGORIZATION) =>
+  categorizeScores(scores.map((score, index) => ({ score, index })), options);
+
+const withMethod = (method: CategorizationOptions["method"], tierCount = 4): CategorizationOptions => ({
+  method,
+  labels: getDefaultLabels(tierCount),
+  thresholds: getDefaultThresholds(tierCount),
+});
+
+describe("categorizeScores", () => {
+  it("puts equal numbers of scores in each quantile tier", () => {
+    expect(categorize([8, 1, 7, 2, 6, 3, 5, 4])).toEqual([
+      "Highly Attractive", "Challenging", "Highly Attractive", "Challenging",
+      "Attractive", "Neutral", "Attractive", "Neutral",
+    ]);
+  });
+
+  it("keeps tied scores in the same quantile tier", () => {
+    const categories = categorize([1, 1, 1, 1, 2, 3, 4, 5]);
+    expect(new Set(categories.slice(0, 4)).size).toBe(1);
+  });
+
+  it("sends a score at a fixed threshold to the tier above", () => {
+    expect(categorize([1.4, 1.5, 2, 2.6], withMethod("fixed"))).toEqual(["Challenging", "Neutral", "Attractive", "Highly Attractive"]);
+  });
+
+  it("puts scores with no value in the lowest tier", () => {
+    expect(categorize([NaN, 2, 3], withMethod("jenks", 2))).toEqual(["Challenging", "Challenging", "Attractive"]);
+  });
+});
+
+describe("getCategoryBreaks", () => {
+  it("finds Jenks breaks at the largest gaps", () => {
+    expect(getCategoryBreaks([3.1, 1, 2, 1.1, 3, 1.2, 2.1], withMethod("jenks", 3))).toEqual([2, 3]);
+  });
+
+  it("uses fewer Jenks breaks than tiers when there are fewer distinct scores", () => {
+    expect(getCategoryBreaks([1, 1, 2, 2], withMethod("jenks", 4))).toEqual([2]);
+  });
+
+  it("places standard deviation bands around the mean", () => {
+    const sd = Math.sqrt(2 / 3);
+    const breaks = getCategoryBreaks([1, 2, 3], withMethod("stddev"));
+    expect(breaks[0]).toBeCloseTo(2 - sd);
+    expect(breaks[1]).toBeCloseTo(2);
+    expect(breaks[2]).toBeCloseTo(2 + sd);
+  });
+
+  it("gives the lowest score of each quantile tier", () => {
+    expect(getCategoryBreaks([1, 2, 3, 4, 5, 6, 7, 8], DEFAULT_CATEGORIZATION)).toEqual([3, 5, 7]);
+  });
+});
+
+describe("validateCategorization", () => {
+  it("accepts the default", () => {
+    expect(validateCategorization(DEFAULT_CATEGORIZATION)).toBeNull();
+  });
+
+  it("rejects duplicate labels and descending thresholds", () => {
+    expect(validateCategorization({ ...DEFAULT_CATEGORIZATION, labels: ["A", "B", "B", "C"] })).toBe("Tier labels must be different");
+    expect(validateCategorization({ ...withMethod("fixed"), thresholds: [2, 1.5, 2.5] })).toBe("Thresholds must increase from one tier to the next");
+  });
+});
+
+describe("withTierCount", () => {
+  it("keeps renamed labels for the tiers that remain", () => {
+    const renamed = { ...DEFAULT_CATEGORIZATION, labels: ["Weak", "Neutral", "Attractive", "Highly Attractive"] };
+    expect(withTierCount(renamed, 3).labels).toEqual(["Weak", "Neutral", "Attractive"]);
+    expect(withTierCount(DEFAULT_CATEGORIZATION, 3).labels).toEqual(getDefaultLabels(3));
+  });
+});
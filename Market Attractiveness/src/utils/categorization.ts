@@ -0,0 +1,265 @@
+// Categorization - Turns attractiveness scores into named tiers (Challenging ... Highly Attractive)
+//
+// Scores used to be cut into four equal-count quartiles. The method, the number of tiers and their
+// labels are now configurable, and every recalculation (map, explorer, What-If, comparison vintage)
+// categorizes with the same options so Attractiveness_Category means the same thing everywhere.
+
+export type CategorizationMethod = "quantiles" | "fixed" | "jenks" | "stddev";
+
+export interface CategorizationOptions {
+  method: CategorizationMethod;
+  // Tier labels from the lowest scores to the highest
+  labels: string[];
+  // Score cut points for the fixed method, ascending, one fewer than labels (a score at a cut point goes up)
+  thresholds: number[];
+}
+
+export const MIN_TIERS = 2;
+export const MAX_TIERS = 6;
+
+// Default labels for each tier count, lowest tier first
+const DEFAULT_LABELS: Record<number, string[]> = {
+  2: ["Challenging", "Attractive"],
+  3: ["Challenging", "Neutral", "Attractive"],
+  4: ["Challenging", "Neutral", "Attractive", "Highly Attractive"],
+  5: ["Challenging", "Below Average", "Neutral", "Attractive", "Highly Attractive"],
+  6: ["Very Challenging", "Challenging", "Below Average", "Above Average", "Attractive", "Highly Attractive"],
+};
+
+export const getDefaultLabels = (tierCount: number): string[] =>
+  DEFAULT_LABELS[tierCount] || Array.from({ length: tierCount }, (_, index) => `Tier ${index + 1}`);
+
+// Cut points spread evenly over the 1-3 score scale
+export const getDefaultThresholds = (tierCount: number): number[] =>
+  Array.from({ length: tierCount - 1 }, (_, index) => Math.round((1 + (2 * (index + 1)) / tierCount) * 100) / 100);
+
+export const DEFAULT_CATEGORIZATION: CategorizationOptions = {
+  method: "quantiles",
+  labels: getDefaultLabels(4),
+  thresholds: getDefaultThresholds(4),
+};
+
+export const CATEGORIZATION_METHODS: Array<{ id: CategorizationMethod; label: string; description: string }> = [
+  { id: "quantiles", label: "Quantiles", description: "Equal numbers of MSAs per tier; tied scores stay together" },
+  { id: "fixed", label: "Fixed thresholds", description: "Absolute score cut points you set" },
+  { id: "jenks", label: "Natural breaks", description: "Jenks breaks at the largest gaps between scores" },
+  { id: "stddev", label: "Standard deviation", description: "One standard deviation wide bands around the mean" },
+];
+
+// Change the number of tiers, keeping labels the user renamed where the tier still exists
+export const withTierCount = (options: CategorizationOptions, tierCount: number): CategorizationOptions => {
+  const count = Math.min(MAX_TIERS, Math.max(MIN_TIERS, tierCount));
+  if (count === options.labels.length) return options;
+  const previousDefaults = getDefaultLabels(options.labels.length);
+  const renamed = options.labels.some((label, index) => label !== previousDefaults[index]);
+  return {
+    ...options,
+    labels: renamed
+      ? getDefaultLabels(count).map((label, index) => options.labels[index] ?? label)
+      : getDefaultLabels(count),
+    thresholds: getDefaultThresholds(count),
+  };
+};
+
+// Labels must be non-empty and distinct, and fixed thresholds ascending with one per boundary
+export const validateCategorization = (options: CategorizationOptions): string | null => {
+  const labels = options.labels.map(label => label.trim());
+  if (labels.length < MIN_TIERS || labels.length > MAX_TIERS) return `Use ${MIN_TIERS}-${MAX_TIERS} tiers`;
+  if (labels.some(label => !label)) return "Every tier needs a label";
+  if (new Set(labels).size !== labels.length) return "Tier labels must be different";
+  if (options.method === "fixed") {
+    if (options.thresholds.length !== labels.length - 1 || options.thresholds.some(value => !isFinite(value))) {
+      return "Set a score for every tier boundary";
+    }
+    if (options.thresholds.some((value, index) => index > 0 && value < options.thresholds[index - 1])) {
+      return "Thresholds must increase from one tier to the next";
+    }
+  }
+  return null;
+};
+
+// Jenks natural breaks (Fisher's exact optimization): the lowest value of every class after the first
+const getJenksBreaks = (sorted: number[], classCount: number): number[] => {
+  const n = sorted.length;
+  const k = Math.min(classCount, new Set(sorted).size);
+  if (k <= 1) return [];
+
+  // Prefix sums give the squared deviation of any run of values in constant time
+  const sum = [0];
+  const sumSquares = [0];
+  sorted.forEach((value, index) => {
+    sum.push(sum[index] + value);
+    sumSquares.push(sumSquares[index] + value * value);
+  });
+  const deviation = (from: number, to: number) => {
+    const count = to - from;
+    const total = sum[to] - sum[from];
+    return sumSquares[to] - sumSquares[from] - (total * total) / count;
+  };
+
+  // cost[c][i]: least total deviation splitting the first i values into c + 1 classes
+  const cost: number[][] = [Array.from({ length: n + 1 }, (_, i) => (i === 0 ? 0 : deviation(0, i)))];
+  const splitAt: number[][] = [new Array(n + 1).fill(0)];
+  for (let c = 1; c < k; c++) {
+    cost.push(new Array(n + 1).fill(Infinity));
+    splitAt.push(new Array(n + 1).fill(0));
+    for (let i = c + 1; i <= n; i++) {
+      for (let j = c; j < i; j++) {
+        const candidate = cost[c - 1][j] + deviation(j, i);
+        if (candidate < cost[c][i]) {
+          cost[c][i] = candidate;
+          splitAt[c][i] = j;
+        }
+      }
+    }
+  }
+
+  const breaks: number[] = [];
+  let end = n;
+  for (let c = k - 1; c > 0; c--) {
+    const start = splitAt[c][end];
+    breaks.unshift(sorted[start]);
+    end = start;
+  }
+  return breaks;
+};
+
+/**
+ * Score cut points between the tiers for the scores being categorized (a score at a cut point goes up)
+ * Quantile cut points are the lowest score of each tier, for display
+ */
+export const getCategoryBreaks = (scores: number[], options: CategorizationOptions): number[] => {
+  const tierCount = options.labels.length;
+  const sorted = scores.filter(score => isFinite(score)).sort((a, b) => a - b);
+
+  if (options.method === "fixed") return options.thresholds.slice(0, tierCount - 1);
+  if (sorted.length === 0) return [];
+
+  if (options.method === "jenks") return getJenksBreaks(sorted, tierCount);
+
+  if (options.method === "stddev") {
+    const mean = sorted.reduce((total, score) => total + score, 0) / sorted.length;
+    const sd = Math.sqrt(sorted.reduce((total, score) => total + (score - mean) ** 2, 0) / sorted.length);
+    return Array.from({ length: tierCount - 1 }, (_, index) => mean + (index + 1 - tierCount / 2) * sd);
+  }
+
+  const tiers = getQuantileTiers(sorted, tierCount);
+  return Array.from({ length: tierCount - 1 }, (_, index) => {
+    const first = tiers.findIndex(tier => tier > index);
+    return first === -1 ? Infinity : sorted[first];
+  });
+};
+
+// Tier of each value in a sorted list, by the average rank of the values tied with it
+const getQuantileTiers = (sorted: number[], tierCount: number): number[] => {
+  const tiers = new Array(sorted.length);
+  let start = 0;
+  while (start < sorted.length) {
+    let end = start;
+    while (end + 1 < sorted.length && sorted[end + 1] === sorted[start]) end++;
+    const averageRank = (start + end) / 2;
+    const tier = Math.min(tierCount - 1, Math.floor(((averageRank + 0.5) / sorted.length) * tierCount));
+    for (let index = start; index <= end; index++) tiers[index] = tier;
+    start = end + 1;
+  }
+  return tiers;
+};
+
+/**
+ * Category for each score, indexed like getCategoriesByQuartiles
+ * Scores with no value (NaN) land in the lowest tier
+ */
+export const categorizeScores = (
+  scores: { score: number; index: number }[],
+  options: CategorizationOptions = DEFAULT_CATEGORIZATION
+): string[] => {
+  const labels = options.labels;
+  const categories: string[] = new Array(scores.length);
+
+  if (options.method === "quantiles") {
+    const sorted = scores.filter(item => isFinite(item.score)).sort((a, b) => a.score - b.score);
+    const tiers = getQuantileTiers(sorted.map(item => item.score), labels.length);
+    sorted.forEach((item, position) => {
+      categories[item.index] = labels[tiers[position]];
+    });
+  } else {
+    const breaks = getCategoryBreaks(scores.map(item => item.score), options);
+    scores.forEach(item => {
+      if (!isFinite(item.score)) return;
+      const tier = breaks.filter(cut => item.score >= cut).length;
+      categories[item.index] = labels[Math.min(tier, labels.length - 1)];
+    });
+  }
+
+  scores.forEach(item => {
+    if (categories[item.index] === undefined) categories[item.index] = labels[0];
+  });
+  return categories;
+};
+
+// Position of a category from the top tier (0) down, for sorting; unknown categories sort last
+export const getCategoryRank = (category: string, options: CategorizationOptions): number => {
+  const index = options.labels.indexOf(category);
+  if (index !== -1) return options.labels.length - 1 - index;
+  const defaultIndex = DEFAULT_CATEGORIZATION.labels.indexOf(category);
+  return defaultIndex !== -1 ? DEFAULT_CATEGORIZATION.labels.length - 1 - defaultIndex : Number.MAX_SAFE_INTEGER;
+};
+
+// Labels from the top tier down
+export const getLabelsBestFirst = (options: CategorizationOptions): string[] => [...options.labels].reverse();
+
+interface TierStyle {
+  color: string;
+  badge: string;
+}
+
+const RED: TierStyle = { color: "#EF4444", badge: "bg-red-100 text-red-800 border-red-300" };
+const ORANGE: TierStyle = { color: "#F97316", badge: "bg-orange-100 text-orange-800 border-orange-300" };
+// Amber on the map with a yellow badge, as Attractive has always been shown
+const AMBER: TierStyle = { color: "#F59E0B", badge: "bg-yellow-100 text-yellow-800 border-yellow-300" };
+const YELLOW: TierStyle = { color: "#EAB308", badge: "bg-amber-100 text-amber-800 border-amber-300" };
+const GREEN: TierStyle = { color: "#22C55E", badge: "bg-green-100 text-green-800 border-green-300" };
+const DARK_GREEN: TierStyle = { color: "#15803D", badge: "bg-emerald-100 text-green-800 border-green-300" };
+const UNKNOWN: TierStyle = { color: "#9CA3AF", badge: "bg-gray-100 text-gray-800 border-gray-300" };
+
+// Colors for each tier count, lowest tier first (four tiers keep the original category colors)
+const TIER_STYLES: Record<number, TierStyle[]> = {
+  2: [RED, GREEN],
+  3: [RED, AMBER, GREEN],
+  4: [RED, ORANGE, AMBER, GREEN],
+  5: [RED, ORANGE, AMBER, YELLOW, GREEN],
+  6: [RED, ORANGE, AMBER, YELLOW, GREEN, DARK_GREEN],
+};
+
+// Categories from the file (or another product's rows) keep the default colors when they aren't current tiers
+const getTierStyle = (category: string, options: CategorizationOptions): TierStyle => {
+  const index = options.labels.indexOf(category);
+  if (index !== -1) return TIER_STYLES[options.labels.length]?.[index] || UNKNOWN;
+  const defaultIndex = DEFAULT_CATEGORIZATION.labels.indexOf(category);
+  return defaultIndex !== -1 ? TIER_STYLES[4][defaultIndex] : UNKNOWN;
+};
+
+export const getCategoryColor = (category: string, options: CategorizationOptions): string =>
+  getTierStyle(category, options).color;
+
+export const getCategoryBadgeClass = (category: string, options: CategorizationOptions): string =>
+  getTierStyle(category, options).badge;
+
+/**
+ * Broad group of a category for summaries that split markets three ways:
+ * the bottom tier is challenging, the top half of the tiers is good, anything between is neutral
+ */
+export const getCategoryGroup = (
+  category: string,
+  options: CategorizationOptions
+): "good" | "neutral" | "challenging" | null => {
+  let labels = options.labels;
+  let index = labels.indexOf(category);
+  if (index === -1) {
+    labels = DEFAULT_CATEGORIZATION.labels;
+    index = labels.indexOf(category);
+  }
+  if (index === -1) return null;
+  if (index === 0) return "challenging";
+  return index >= Math.ceil(labels.length / 2) ? "good" : "neutral";
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { NormalizationMethod, createContinuousScoring, getContinuousMatchScore } from "./continuousScoring";
+
+// Risk is read from the "Risk" column, and a higher raw value sits towards its High (top) label
+const rows = [10, 20, 30, 40, 50].map(Risk => ({ Risk }));
+
+const positions = (method: NormalizationMethod, data: Record<string, any>[] = rows) => {
+  const scoring = createContinuousScoring(data, { mode: "continuous", normalization: { Risk: method } });
+  return data.map(row => scoring!.positionOf("Risk", row));
+};
+
+describe("createContinuousScoring", () => {
+  it("is off in label mode", () => {
+    expect(createContinuousScoring(rows, { mode: "labels", normalization: {} })).toBeNull();
+  });
+
+  it("places values by percentile rank", () => {
+    expect(positions("percentile")).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+
+  it("gives tied values their average percentile rank", () => {
+    expect(positions("percentile", [{ Risk: 1 }, { Risk: 1 }, { Risk: 2 }])).toEqual([0.25, 0.25, 1]);
+  });
+
+  it("scales values between the minimum and maximum", () => {
+    expect(positions("minmax")).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+
+  it("maps z-scores of -2 to 2 onto 0 to 1", () => {
+    const [low, , middle, , high] = positions("zscore") as number[];
+    const z = 20 / Math.sqrt(200);
+    expect(middle).toBeCloseTo(0.5);
+    expect(high).toBeCloseTo((z + 2) / 4);
+    expect(low).toBeCloseTo((2 - z) / 4);
+  });
+
+  it("puts every row in the middle when the values don't vary", () => {
+    expect(positions("minmax", [{ Risk: 5 }, { Risk: 5 }])).toEqual([0.5, 0.5]);
+    expect(positions("zscore", [{ Risk: 5 }, { Risk: 5 }])).toEqual([0.5, 0.5]);
+  });
+
+  it("has no position for a row without a usable value", () => {
+    expect(positions("percentile", [...rows, { Risk: "" }, { Risk: "n/a" }]).slice(-2)).toEqual([null, null]);
+  });
+});
+
+describe("getContinuousMatchScore", () => {
+  it("scores top and bottom targets linearly towards their end", () => {
+    expect(getContinuousMatchScore(0.75, "Risk", "High")).toBeCloseTo(2.5);
+    expect(getContinuousMatchScore(0.75, "Risk", "Low")).toBeCloseTo(1.5);
+  });
+
+  it("scores middle targets by closeness to the centre", () => {
+    expect(getContinuousMatchScore(0.5, "Risk", "Medium")).toBe(3);
+    expect(getContinuousMatchScore(0, "Risk", "Medium")).toBe(1);
+  });
+
+  it("has no score for a value the parameter doesn't take", () => {
+    expect(getContinuousMatchScore(0.5, "Risk", "Premium")).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+// Continuous Scoring - Scores parameters from their raw metric values instead of the High/Medium/Low labels
+//
+// Label scoring puts two MSAs either side of a label boundary a whole point apart. In continuous mode each
+// raw metric is normalized across the MSAs being scored, and the MSA's place in that distribution is
+// scored against the target value on the same 1-3 scale the labels use.
+
+import { PARAMETERS, RawMetric, getTargetPlace } from "./parameterRegistry";
+
+export type ScoringMode = "labels" | "continuous";
+
+export type NormalizationMethod = "percentile" | "zscore" | "minmax";
+
+export interface ScoringOptions {
+  mode: ScoringMode;
+  // Per parameter; parameters not listed use DEFAULT_NORMALIZATION
+  normalization: Record<string, NormalizationMethod>;
+}
+
+export const DEFAULT_NORMALIZATION: NormalizationMethod = "percentile";
+
+export const DEFAULT_SCORING_OPTIONS: ScoringOptions = {
+  mode: "labels",
+  normalization: {},
+};
+
+export const NORMALIZATION_METHODS: Array<{ id: NormalizationMethod; label: string; description: string }> = [
+  { id: "percentile", label: "Percentile", description: "Rank among the MSAs - robust to outliers" },
+  { id: "zscore", label: "Z-score", description: "Standard deviations from the mean, capped at ±2" },
+  { id: "minmax", label: "Min-max", description: "Position between the lowest and highest value" },
+];
+
+// Raw column behind each parameter's label, from the registry. Parameters without one (Pricing_Rationality)
+// are always scored from their label
+export const RAW_METRICS: Record<string, RawMetric> = Object.fromEntries(
+  PARAMETERS.filter(parameter => parameter.rawMetric).map(parameter => [parameter.id, parameter.rawMetric!])
+);
+
+export const hasRawMetric = (parameterId: string): boolean => parameterId in RAW_METRICS;
+
+export const getNormalizationMethod = (options: ScoringOptions, parameterId: string): NormalizationMethod =>
+  options.normalization[parameterId] || DEFAULT_NORMALIZATION;
+
+// Normalizers built from one dataset. positionOf gives where a row sits on the parameter's label scale,
+// from 0 (bottom label end) to 1 (top label end), or null when the row has no usable raw value
+export interface ContinuousScoring {
+  positionOf: (parameterId: string, row: Record<string, any>) => number | null;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return isFinite(number) ? number : null;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Map a raw value to 0-1 with the chosen method, using the distribution of values
+const createNormalizer = (values: number[], method: NormalizationMethod): ((value: number) => number) => {
+  if (values.length <= 1) return () => 0.5;
+
+  if (method === "minmax") {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return value => (max === min ? 0.5 : clamp01((value - min) / (max - min)));
+  }
+
+  if (method === "zscore") {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const sd = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+    return value => (sd === 0 ? 0.5 : clamp01(((value - mean) / sd + 2) / 4));
+  }
+
+  // Percentile rank with ties sharing their average rank
+  const sorted = [...values].sort((a, b) => a - b);
+  const countBelow = (value: number, inclusive: boolean) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sorted[mid] < value || (inclusive && sorted[mid] === value)) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  return value => {
+    const below = countBelow(value, false);
+    const equal = countBelow(value, true) - below;
+    const rank = equal > 0 ? below + (equal - 1) / 2 : below - 0.5;
+    return clamp01(rank / (sorted.length - 1));
+  };
+};
+
+/**
+ * Build the normalizers for the rows being scored, or null in label mode
+ * Every MSA is placed relative to the others in the same dataset (product view or vintage)
+ */
+export const createContinuousScoring = (rows: Record<string, any>[], options: ScoringOptions): ContinuousScoring | null => {
+  if (options.mode !== "continuous") return null;
+
+  const normalizers = new Map<string, (value: number) => number>();
+  Object.entries(RAW_METRICS).forEach(([parameterId, metric]) => {
+    const values = rows
+      .map(row => toNumber(row[metric.column]))
+      .filter((value): value is number => value !== null);
+    if (values.length > 0) {
+      normalizers.set(parameterId, createNormalizer(values, getNormalizationMethod(options, parameterId)));
+    }
+  });
+
+  return {
+    positionOf: (parameterId, row) => {
+      const metric = RAW_METRICS[parameterId];
+      const normalize = normalizers.get(parameterId);
+      const value = metric ? toNumber(row[metric.column]) : null;
+      if (!metric || !normalize || value === null) return null;
+      const position = normalize(value);
+      return metric.higherIsTopLabel ? position : 1 - position;
+    },
+  };
+};
+
+/**
+ * Score (1-3) for an MSA at a position on the label scale against a target value
+ * Top and bottom targets score linearly towards their end; middle targets score by closeness to the centre
+ */
+export const getContinuousMatchScore = (position: number, parameterId: string, selectedValue: string): number | null => {
+  const place = getTargetPlace(parameterId, selectedValue);
+  if (!place) return null;
+
+  const fit = place === "top"
+    ? position
+    : place === "bottom"
+      ? 1 - position
+      : 1 - 2 * Math.abs(position - 0.5);
+  return 1 + 2 * fit;
+};
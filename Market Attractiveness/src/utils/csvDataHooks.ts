@@ -203,4 +203,6 @@ export const fetchAllOpportunitiesRaw = () => csvDataService.getAllOpportunities
 export const fetchMarketData = () => csvDataService.getMarketData();
 export const fetchDepositData = () => csvDataService.getDepositData();
 export const fetchMSAEconomics = (msaName: string) => csvDataService.getMSAEconomics(msaName);
-export const fetchAllMSAEconomics = () => csvDataService.getAllMSAEconomics();
\ No newline at end of file
+export const fetchAllMSAEconomics = () => csvDataService.getAllMSAEconomics();
+export const fetchProviderOpportunities = (provider: string) => csvDataService.getProviderOpportunities(provider);
+export const fetchRegionOpportunities = (region: string) => csvDataService.getRegionOpportunities(region);
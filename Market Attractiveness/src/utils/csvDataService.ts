@@ -1,6 +1,31 @@
-// CSV Data Service - Loads and parses local CSV files
+// CSV Data Service - Loads datasets through a configurable DataSource and serves typed queries
 
 import { SummaryData, MSAData, OpportunityData } from "../types";
+import { DataSource, DatasetKey, LoadedDataset, RawRecord, UploadedDataSource, createDataSource, getDataSourceConfig, getVintageConfigs } from "./dataSource";
+import { ParseIssue, ParseProgress } from "./csvParser";
+import { DATASET_SCHEMAS, SchemaViolation, validateDataset } from "./dataSchema";
+import { findUnmatchedMSAs, getMSAKey } from "./msaRegistry";
+import { COMBINED_PRODUCT, DEFAULT_PRODUCT, ProductSelection } from "./productView";
+import { QueryStore } from "./queryStore";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION, categorizeScores, getLabelsBestFirst } from "./categorization";
+
+// Progress of a dataset being loaded, as reported by the data source
+export interface DatasetLoadProgress extends ParseProgress {
+  dataset: DatasetKey;
+}
+
+// A parse problem together with the dataset it came from
+export interface DatasetParseIssue extends ParseIssue {
+  dataset: DatasetKey;
+}
+
+// Everything wrong with the loaded data: parse issues plus schema violations
+export interface DataQualityReport {
+  violations: SchemaViolation[];
+  rowCounts: Record<DatasetKey, number>;
+  // MSA names in the datasets that don't resolve to a CBSA code, with the files they appear in
+  unmatchedMSAs: Array<{ name: string; sources: string[] }>;
+}
 
 interface AttractivenessRow {
   MSA: string;
@@ -86,78 +111,216 @@ export interface MSAEconomicsData {
   populationGrowth: number;
 }
 
+type DataStore = QueryStore<AttractivenessRow, OpportunityRow>;
+
+// Everything loaded from one data source
+interface LoadedData {
+  attractiveness: AttractivenessRow[];
+  opportunity: OpportunityRow[];
+  economics: MSAEconomicsData[];
+  // Indexed view of the attractiveness and opportunity rows
+  store: DataStore;
+  economicsByMSA: Map<string, MSAEconomicsData>;
+  parseIssues: DatasetParseIssue[];
+  schemaViolations: SchemaViolation[];
+}
+
+// A labeled snapshot of the datasets (e.g. a quarterly extract)
+export interface Vintage {
+  id: string;
+  label: string;
+  source: DataSource;
+}
+
+// Vintages from VITE_DATA_VINTAGES (oldest first), or a single vintage for the configured source
+const createConfiguredVintages = (): Vintage[] => {
+  const configured = getVintageConfigs().map((vintage, index) => ({
+    id: `vintage-${index + 1}`,
+    label: vintage.label,
+    source: createDataSource(vintage.config),
+  }));
+  return configured.length > 0
+    ? configured
+    : [{ id: 'vintage-1', label: 'Current data', source: createDataSource(getDataSourceConfig()) }];
+};
+
+// Sort opportunities by overall rank, unranked last
+const byOverallRank = (a: { Overall_Opportunity_Rank?: number }, b: { Overall_Opportunity_Rank?: number }) =>
+  (a.Overall_Opportunity_Rank || 999999) - (b.Overall_Opportunity_Rank || 999999);
+
 class CSVDataService {
   private attractivenessData: AttractivenessRow[] = [];
   private opportunityData: OpportunityRow[] = [];
   private economicsData: MSAEconomicsData[] = [];
+  private store: DataStore = new QueryStore<AttractivenessRow, OpportunityRow>([], []);
+  private economicsByMSA = new Map<string, MSAEconomicsData>();
+  private vintages: Vintage[] = createConfiguredVintages();
+  // Latest vintage is current; with several configured vintages the one before it is the comparison
+  private currentVintageId = this.vintages[this.vintages.length - 1].id;
+  private comparisonVintageId: string | null = this.vintages.length > 1 ? this.vintages[this.vintages.length - 2].id : null;
+  private dataSource: DataSource = this.vintages[this.vintages.length - 1].source;
   private dataLoaded = false;
   private loadingPromise: Promise<void> | null = null;
+  // Bumped by setDataSource so a load of the previous source doesn't overwrite the new one's data
+  private loadGeneration = 0;
+  private comparisonData: LoadedData | null = null;
+  private comparisonPromise: Promise<LoadedData | null> | null = null;
+  private nextVintageNumber = this.vintages.length + 1;
+  private parseIssues: DatasetParseIssue[] = [];
+  private schemaViolations: SchemaViolation[] = [];
+  private progressListeners = new Set<(progress: DatasetLoadProgress) => void>();
+  // Product every query is scoped to, or COMBINED_PRODUCT for all products weighted by market size
+  private productSelection: ProductSelection = DEFAULT_PRODUCT;
+
+  // Swap the data source of the current vintage and drop any loaded data so the next access reloads
+  setDataSource(dataSource: DataSource): void {
+    this.dataSource = dataSource;
+    this.vintages = this.vintages.map(vintage =>
+      vintage.id === this.currentVintageId ? { ...vintage, source: dataSource } : vintage
+    );
+    this.attractivenessData = [];
+    this.opportunityData = [];
+    this.economicsData = [];
+    this.store = new QueryStore<AttractivenessRow, OpportunityRow>([], []);
+    this.economicsByMSA = new Map();
+    this.parseIssues = [];
+    this.schemaViolations = [];
+    this.dataLoaded = false;
+    this.loadingPromise = null;
+    this.loadGeneration++;
+  }
 
-  // Parse CSV string to array of objects
-  private parseCSV<T>(csvText: string, skipHeader = true): T[] {
-    const lines = csvText.trim().split('\n');
-    if (lines.length === 0) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim());
-    const startIndex = skipHeader ? 1 : 0;
-    const data: T[] = [];
-
-    for (let i = startIndex; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-      if (values.length !== headers.length) continue;
-
-      const row: any = {};
-      headers.forEach((header, index) => {
-        let value = values[index]?.trim() || '';
-        
-        if (value === 'TRUE') {
-          row[header] = true;
-        } else if (value === 'FALSE') {
-          row[header] = false;
-        } else if (value === '' || value === 'null' || value === 'undefined') {
-          row[header] = null;
-        } else if (!isNaN(Number(value)) && value !== '') {
-          row[header] = Number(value);
-        } else {
-          row[header] = value;
-        }
-      });
-      data.push(row as T);
+  getDataSource(): DataSource {
+    return this.dataSource;
+  }
+
+  // Replace datasets with uploaded ones (anything not uploaded keeps coming from the current source).
+  // With a label, the upload becomes a new vintage instead and the previous current vintage is kept for comparison
+  setUploadedDatasets(datasets: Partial<Record<DatasetKey, LoadedDataset>>, vintageLabel?: string): void {
+    const source = new UploadedDataSource(datasets, this.dataSource);
+    if (!vintageLabel) {
+      this.setDataSource(source);
+      return;
     }
 
-    return data;
+    const previousVintageId = this.currentVintageId;
+    const vintageId = this.addVintage(vintageLabel, source);
+    this.setCurrentVintage(vintageId);
+    if (!this.comparisonVintageId) {
+      this.setComparisonVintage(previousVintageId);
+    }
   }
 
-  // Parse a single CSV line, handling quoted values
-  private parseCSVLine(line: string): string[] {
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
+  // Drop uploaded datasets and vintages and go back to the configured data sources
+  resetDataSource(): void {
+    this.vintages = createConfiguredVintages();
+    this.nextVintageNumber = this.vintages.length + 1;
+    this.currentVintageId = this.vintages[this.vintages.length - 1].id;
+    this.setComparisonVintage(this.vintages.length > 1 ? this.vintages[this.vintages.length - 2].id : null);
+    this.setDataSource(this.vintages[this.vintages.length - 1].source);
+  }
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
+  // Labeled vintages available for current/comparison selection
+  getVintages(): Array<{ id: string; label: string }> {
+    return this.vintages.map(({ id, label }) => ({ id, label }));
+  }
 
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        values.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
+  // Register a new vintage. Returns its id
+  addVintage(label: string, source: DataSource): string {
+    const id = `vintage-${this.nextVintageNumber++}`;
+    this.vintages = [...this.vintages, { id, label, source }];
+    return id;
+  }
+
+  getCurrentVintageId(): string {
+    return this.currentVintageId;
+  }
+
+  getComparisonVintageId(): string | null {
+    return this.comparisonVintageId;
+  }
+
+  getVintageLabel(id: string | null): string | null {
+    return this.vintages.find(vintage => vintage.id === id)?.label ?? null;
+  }
+
+  // Make a vintage the one every tab works from
+  setCurrentVintage(id: string): void {
+    const vintage = this.vintages.find(v => v.id === id);
+    if (!vintage) {
+      throw new Error(`Unknown vintage: ${id}`);
+    }
+    this.currentVintageId = id;
+    if (this.comparisonVintageId === id) {
+      this.setComparisonVintage(null);
     }
-    
-    values.push(current);
-    return values;
+    this.setDataSource(vintage.source);
   }
 
-  // Load CSV files
+  // Choose the vintage to compare against (null turns comparison off)
+  setComparisonVintage(id: string | null): void {
+    if (id !== null && !this.vintages.some(v => v.id === id)) {
+      throw new Error(`Unknown vintage: ${id}`);
+    }
+    this.comparisonVintageId = id === this.currentVintageId ? null : id;
+    this.comparisonData = null;
+    this.comparisonPromise = null;
+  }
+
+  // Receive progress updates while datasets load. Returns an unsubscribe function
+  subscribeToProgress(listener: (progress: DatasetLoadProgress) => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  getProductSelection(): ProductSelection {
+    return this.productSelection;
+  }
+
+  // Scope every query to one product, or COMBINED_PRODUCT to weight all products by market size
+  setProductSelection(product: ProductSelection): void {
+    this.productSelection = product;
+  }
+
+  // Products present in the loaded data, in the order they first appear
+  async getAvailableProducts(): Promise<string[]> {
+    await this.loadData();
+    return this.store.getProducts();
+  }
+
+  // Problems found while parsing the loaded datasets (malformed rows are skipped)
+  getParseIssues(): DatasetParseIssue[] {
+    return this.parseIssues;
+  }
+
+  // Parse issues and schema violations for the loaded datasets
+  getDataQualityReport(): DataQualityReport {
+    const parseViolations: SchemaViolation[] = this.parseIssues.map(issue => ({
+      dataset: issue.dataset,
+      kind: 'parse',
+      row: issue.row,
+      column: `line ${issue.line}, column ${issue.column}`,
+      message: issue.message
+    }));
+
+    return {
+      violations: [...parseViolations, ...this.schemaViolations],
+      rowCounts: {
+        attractiveness: this.attractivenessData.length,
+        opportunity: this.opportunityData.length,
+        economics: this.economicsData.length
+      },
+      unmatchedMSAs: findUnmatchedMSAs({
+        attractiveness: this.attractivenessData.map(row => row.MSA),
+        opportunity: this.opportunityData.map(row => row.MSA),
+        economics: this.economicsData.map(row => row.MSA)
+      })
+    };
+  }
+
+  // Load datasets from the configured data source
   async loadData(): Promise<void> {
     if (this.loadingPromise) {
       return this.loadingPromise;
@@ -172,101 +335,179 @@ class CSVDataService {
   }
 
   private async performDataLoad(): Promise<void> {
+    const generation = this.loadGeneration;
+    const source = this.dataSource;
     try {
-      console.log('CSVDataService: Starting to load CSV files...');
-      
-      const [attractivenessResponse, opportunityResponse, economicsResponse] = await Promise.all([
-        fetch('/attractivenes.csv'),
-        fetch('/opportunity.csv'),
-        fetch('/msa_economics.csv')
-      ]);
-
-      if (!attractivenessResponse.ok) {
-        throw new Error(`Failed to load attractivenes.csv: ${attractivenessResponse.status}`);
+      console.log(`CSVDataService: Starting to load data from ${source.type} source...`);
+
+      const loaded = await this.loadFromSource(source, true);
+
+      // The source changed while loading: leave the fields alone and wait for the new source instead
+      if (generation !== this.loadGeneration) {
+        return this.loadData();
       }
-      if (!opportunityResponse.ok) {
-        throw new Error(`Failed to load opportunity.csv: ${opportunityResponse.status}`);
+
+      this.attractivenessData = loaded.attractiveness;
+      this.opportunityData = loaded.opportunity;
+      this.economicsData = loaded.economics;
+      this.store = loaded.store;
+      this.economicsByMSA = loaded.economicsByMSA;
+      this.parseIssues = loaded.parseIssues;
+      this.schemaViolations = loaded.schemaViolations;
+
+      if (this.schemaViolations.length > 0) {
+        console.warn(`CSVDataService: ${this.schemaViolations.length} schema violations found`);
       }
-      
-      const [attractivenessText, opportunityText, economicsText] = await Promise.all([
-        attractivenessResponse.text(),
-        opportunityResponse.text(),
-        economicsResponse.ok ? economicsResponse.text() : ''
-      ]);
-
-      this.attractivenessData = this.parseCSV<AttractivenessRow>(attractivenessText);
-      this.opportunityData = this.parseCSV<OpportunityRow>(opportunityText);
-      
-      // Parse economics data
-      if (economicsText) {
-        this.economicsData = this.parseEconomicsCSV(economicsText);
-        console.log(`CSVDataService: Loaded ${this.economicsData.length} economics records`);
+      if (this.parseIssues.length > 0) {
+        console.warn(`CSVDataService: ${this.parseIssues.length} parse issues found`, this.parseIssues);
       }
 
-      console.log(`CSVDataService: Loaded ${this.attractivenessData.length} attractiveness records and ${this.opportunityData.length} opportunity records`);
+      console.log(`CSVDataService: Loaded ${this.attractivenessData.length} attractiveness records, ${this.opportunityData.length} opportunity records and ${this.economicsData.length} economics records`);
+
+      // Uploaded data may not contain the selected product
+      const products = this.store.getProducts();
+      if (this.productSelection !== COMBINED_PRODUCT && products.length > 0 && !products.includes(this.productSelection)) {
+        this.productSelection = products[0];
+      }
 
       this.dataLoaded = true;
     } catch (error) {
-      console.error('CSVDataService: Error loading CSV data:', error);
+      if (generation !== this.loadGeneration) {
+        return this.loadData();
+      }
+      console.error('CSVDataService: Error loading data:', error);
       throw error;
     } finally {
-      this.loadingPromise = null;
+      // A newer load owns loadingPromise now
+      if (generation === this.loadGeneration) {
+        this.loadingPromise = null;
+      }
     }
   }
 
-  // Parse economics CSV with specific column mapping
-  // Columns: MSA,Unemp_2023,Unemp_2024,GDP_K,GDP_YoY,Per_Capita_Income,Income_YoY,Pop_2023,Pop_2024
-  private parseEconomicsCSV(csvText: string): MSAEconomicsData[] {
-    const lines = csvText.trim().split('\n');
-    if (lines.length <= 1) return [];
-
-    const data: MSAEconomicsData[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-      if (values.length < 9) continue;
-
-      const unemployment2023 = parseFloat(values[1]) || 0;
-      const unemployment2024 = parseFloat(values[2]) || 0;
-      const population2023 = parseFloat(values[7]) || 0;
-      const population2024 = parseFloat(values[8]) || 0;
-      const gdpYoY = parseFloat(values[4]) || 0;
-      const incomeYoY = parseFloat(values[6]) || 0;
-
-      data.push({
-        MSA: values[0]?.trim() || '',
-        unemployment2023,
-        unemployment2024,
-        unemploymentChange: unemployment2024 - unemployment2023,
-        gdp: parseFloat(values[3]) || 0, // GDP in thousands
-        gdpGrowth: gdpYoY < 1 ? gdpYoY * 100 : gdpYoY, // Convert decimal to percentage if needed
-        perCapitaIncome: parseFloat(values[5]) || 0,
-        incomeGrowth: incomeYoY < 1 ? incomeYoY * 100 : incomeYoY, // Convert decimal to percentage if needed
-        population2023,
-        population2024,
-        populationGrowth: population2023 > 0 
-          ? ((population2024 - population2023) / population2023) * 100 
-          : 0,
-      });
+  // Load, validate and map all datasets from a source
+  private async loadFromSource(source: DataSource, reportProgress: boolean): Promise<LoadedData> {
+    const loadDataset = (dataset: DatasetKey) => source.load(dataset, {
+      onProgress: reportProgress
+        ? progress => this.progressListeners.forEach(listener => listener({ dataset, ...progress }))
+        : undefined
+    });
+
+    const [attractiveness, opportunity, economics] = await Promise.all([
+      loadDataset('attractiveness'),
+      loadDataset('opportunity'),
+      loadDataset('economics')
+    ]);
+
+    if (!attractiveness) {
+      throw new Error(`Failed to load attractiveness data from ${source.type} source`);
     }
+    if (!opportunity) {
+      throw new Error(`Failed to load opportunity data from ${source.type} source`);
+    }
+
+    // Coerce every column to its schema type and collect violations instead of letting bad values become NaN
+    const attractivenessResult = validateDataset('attractiveness', attractiveness.records, DATASET_SCHEMAS.attractiveness);
+    const opportunityResult = validateDataset('opportunity', opportunity.records, DATASET_SCHEMAS.opportunity);
+    const economicsResult = economics
+      ? validateDataset('economics', economics.records, DATASET_SCHEMAS.economics)
+      : null;
+
+    const attractivenessRows = attractivenessResult.records as AttractivenessRow[];
+    const opportunityRows = opportunityResult.records as OpportunityRow[];
+    const economicsRows = economicsResult
+      ? economicsResult.records
+        .map(record => this.mapEconomicsRecord(record))
+        .filter(row => row.MSA !== '')
+      : [];
+
+    // First row wins when the economics file lists a market twice
+    const economicsByMSA = new Map<string, MSAEconomicsData>();
+    economicsRows.forEach(row => {
+      const key = getMSAKey(row.MSA);
+      if (!economicsByMSA.has(key)) economicsByMSA.set(key, row);
+    });
 
-    return data;
+    return {
+      attractiveness: attractivenessRows,
+      opportunity: opportunityRows,
+      economics: economicsRows,
+      store: new QueryStore(attractivenessRows, opportunityRows),
+      economicsByMSA,
+      // Keep parse issues so the UI can point at the offending rows
+      parseIssues: [
+        ...attractiveness.issues.map(issue => ({ dataset: 'attractiveness' as const, ...issue })),
+        ...opportunity.issues.map(issue => ({ dataset: 'opportunity' as const, ...issue })),
+        ...(economics?.issues || []).map(issue => ({ dataset: 'economics' as const, ...issue }))
+      ],
+      schemaViolations: [
+        ...attractivenessResult.violations,
+        ...opportunityResult.violations,
+        ...(economicsResult?.violations || [])
+      ]
+    };
+  }
+
+  // Load the comparison vintage, if one is selected
+  private async loadComparisonData(): Promise<LoadedData | null> {
+    const vintage = this.vintages.find(v => v.id === this.comparisonVintageId);
+    if (!vintage) return null;
+    if (this.comparisonData) return this.comparisonData;
+
+    if (!this.comparisonPromise) {
+      const vintageId = vintage.id;
+      this.comparisonPromise = this.loadFromSource(vintage.source, false)
+        .then(loaded => {
+          // Ignore the result if the selection changed while loading
+          if (this.comparisonVintageId === vintageId) {
+            this.comparisonData = loaded;
+          }
+          return loaded;
+        })
+        .finally(() => {
+          this.comparisonPromise = null;
+        });
+    }
+    return this.comparisonPromise;
   }
 
-  // Get summary statistics
-  async getSummaryData(): Promise<SummaryData> {
+  // Map an economics record to MSAEconomicsData
+  // Columns: MSA,Unemp_2023,Unemp_2024,GDP_K,GDP_YoY,Per_Capita_Income,Income_YoY,Pop_2023,Pop_2024
+  private mapEconomicsRecord(record: RawRecord): MSAEconomicsData {
+    const toNumber = (value: any) => parseFloat(String(value ?? '')) || 0;
+
+    const unemployment2023 = toNumber(record.Unemp_2023);
+    const unemployment2024 = toNumber(record.Unemp_2024);
+    const population2023 = toNumber(record.Pop_2023);
+    const population2024 = toNumber(record.Pop_2024);
+    const gdpYoY = toNumber(record.GDP_YoY);
+    const incomeYoY = toNumber(record.Income_YoY);
+
+    return {
+      MSA: String(record.MSA ?? '').trim(),
+      unemployment2023,
+      unemployment2024,
+      unemploymentChange: unemployment2024 - unemployment2023,
+      gdp: toNumber(record.GDP_K), // GDP in thousands
+      gdpGrowth: gdpYoY < 1 ? gdpYoY * 100 : gdpYoY, // Convert decimal to percentage if needed
+      perCapitaIncome: toNumber(record.Per_Capita_Income),
+      incomeGrowth: incomeYoY < 1 ? incomeYoY * 100 : incomeYoY, // Convert decimal to percentage if needed
+      population2023,
+      population2024,
+      populationGrowth: population2023 > 0 
+        ? ((population2024 - population2023) / population2023) * 100 
+        : 0,
+    };
+  }
+
+  // Get summary statistics. Targeted opportunities count the MSAs in the top tier of the categorization
+  async getSummaryData(categorization: CategorizationOptions = DEFAULT_CATEGORIZATION): Promise<SummaryData> {
     await this.loadData();
 
-    // Filter out Deposits product (only show Credit_Cash_Management)
-    const attractivenessFiltered = this.attractivenessData.filter(
-      row => row.Product !== 'Deposits'
-    );
-    const opportunityFiltered = this.opportunityData.filter(
-      row => row.Product !== 'Deposits' && row.Included_In_Ranking === true
-    );
-    const allOpportunityData = this.opportunityData.filter(
-      row => row.Product !== 'Deposits'
-    );
+    // Scope to the selected product (one combined row per MSA in the combined view)
+    const attractivenessFiltered = this.store.getAttractivenessView(this.productSelection);
+    const allOpportunityData = this.store.getOpportunities(this.productSelection);
+    const opportunityFiltered = allOpportunityData.filter(row => row.Included_In_Ranking === true);
 
     // Card 1: MSA Overview
     const uniqueMSAs = new Set(attractivenessFiltered.map(row => row.MSA));
@@ -280,10 +521,13 @@ class CSVDataService {
     const totalBanks = uniqueBanks.size;
 
     // Card 2: Targeted Opportunities
-    const highAttractivenessData = attractivenessFiltered.filter(
-      row => row.Attractiveness_Category === 'Highly Attractive'
-    );
-    const highAttractiveMSAs = new Set(highAttractivenessData.map(row => row.MSA));
+    // The file's categories are the default tiers; other categorizations re-group the file's scores
+    const categories = JSON.stringify(categorization) === JSON.stringify(DEFAULT_CATEGORIZATION)
+      ? attractivenessFiltered.map(row => row.Attractiveness_Category)
+      : categorizeScores(attractivenessFiltered.map((row, index) => ({ score: row.Attractiveness_Score, index })), categorization);
+    const topCategory = getLabelsBestFirst(categorization)[0];
+    const highAttractivenessData = attractivenessFiltered.filter((_, index) => categories[index] === topCategory);
+    const highAttractiveMSAs = new Set(highAttractivenessData.map(row => getMSAKey(row.MSA)));
 
     const uniqueOpportunities = new Set<string>();
     const opportunityDistribution: Record<string, number> = {};
@@ -301,8 +545,7 @@ class CSVDataService {
     opportunityFiltered.forEach(opp => {
       const uniqueKey = `${opp.MSA}|${opp.Provider}|${opp.Product}`;
       if (!uniqueExcellentInHigh.has(uniqueKey)) {
-        const msaProducts = highAttractivenessData.filter(attr => attr.MSA === opp.MSA);
-        if (msaProducts.length > 0 && opp.Opportunity_Category === 'Excellent') {
+        if (highAttractiveMSAs.has(getMSAKey(opp.MSA)) && opp.Opportunity_Category === 'Excellent') {
           uniqueExcellentInHigh.add(uniqueKey);
         }
       }
@@ -375,11 +618,27 @@ class CSVDataService {
     };
   }
 
-  // Get map data (filter out Deposits)
+  // Get map data for the selected product
   async getMapData(): Promise<MSAData[]> {
     await this.loadData();
-    return this.attractivenessData
-      .filter(row => row.Product !== 'Deposits')
+    return this.toMapData(this.store);
+  }
+
+  // Map data for the comparison vintage, or null when no comparison vintage is selected
+  async getComparisonMapData(): Promise<MSAData[] | null> {
+    const comparison = await this.loadComparisonData();
+    return comparison ? this.toMapData(comparison.store) : null;
+  }
+
+  // All opportunities (including excluded) in the comparison vintage
+  async getComparisonOpportunitiesRaw(): Promise<OpportunityData[] | null> {
+    const comparison = await this.loadComparisonData();
+    if (!comparison) return null;
+    return comparison.store.getOpportunities(this.productSelection).map(this.mapOpportunityRow);
+  }
+
+  private toMapData(store: DataStore): MSAData[] {
+    return store.getAttractivenessView(this.productSelection)
       .map(row => ({
         MSA: row.MSA,
         Product: row.Product,
@@ -404,19 +663,29 @@ class CSVDataService {
         International_CM_Score: row.International_CM_Score,
         Pricing_Rationality: row.Pricing_Rationality,
         Pricing_Rationality_Explanation: row.Pricing_Rationality_Explanation,
+        "Revenue per Company": row["Revenue per Company"],
+        "Herfindahl-Hirschman Index (HHI)": row["Herfindahl-Hirschman Index (HHI)"],
+        Economic_Growth: row.Economic_Growth,
+        "Lending Volume Annual Change": row["Lending Volume Annual Change"],
+        Net_Risk_Migration: row.Net_Risk_Migration,
+        Relative_Risk_Migration: row.Relative_Risk_Migration,
+        "Proportion of International Cash Management Revenue": row["Proportion of International Cash Management Revenue"],
       }));
   }
 
-  // Get MSA details
+  // Get MSA details (index lookups - called on map hover and row expansion)
   async getMSADetails(msaName: string) {
     await this.loadData();
 
-    const attractiveness = this.attractivenessData.filter(
-      row => row.MSA === msaName && row.Product !== 'Deposits'
-    );
+    const attractiveness = this.store.getMSAAttractiveness(msaName, this.productSelection);
 
-    const opportunities = this.opportunityData
-      .filter(row => row.MSA === msaName && row.Product !== 'Deposits')
+    // Categories default to '' as in mapOpportunityRow, so the rows can be used as OpportunityData
+    const opportunities = this.store.getMSAOpportunities(msaName, this.productSelection)
+      .map(row => ({
+        ...row,
+        Opportunity_Category: row.Opportunity_Category || '',
+        Attractiveness_Category: row.Attractiveness_Category || '',
+      }))
       .sort((a, b) => (a.Provider_Opportunity_Rank || 999999) - (b.Provider_Opportunity_Rank || 999999));
 
     return {
@@ -425,89 +694,80 @@ class CSVDataService {
     };
   }
 
-  // Get attractiveness data for MSA including Deposits (for market size breakdown)
+  // Get attractiveness data for MSA across every product (for market size breakdown)
   async getMSAAttractivenessWithDeposits(msaName: string) {
     await this.loadData();
-    return this.attractivenessData.filter(row => row.MSA === msaName);
+    return this.store.getMSAAttractiveness(msaName);
   }
 
   // Get raw opportunities (only Included_In_Ranking)
   async getOpportunitiesRaw(): Promise<OpportunityData[]> {
     await this.loadData();
-    return this.opportunityData
-      .filter(row => row.Product !== 'Deposits' && row.Included_In_Ranking === true)
-      .sort((a, b) => (a.Overall_Opportunity_Rank || 999999) - (b.Overall_Opportunity_Rank || 999999))
-      .map(this.mapOpportunityRow);
+    return [...this.store.memo(`opportunitiesRaw:${this.productSelection}`, () =>
+      this.store.getOpportunities(this.productSelection)
+        .filter(row => row.Included_In_Ranking === true)
+        .sort(byOverallRank)
+        .map(this.mapOpportunityRow)
+    )];
   }
 
   // Get all opportunities (including excluded)
   async getAllOpportunitiesRaw(): Promise<OpportunityData[]> {
     await this.loadData();
-    return this.opportunityData
-      .filter(row => row.Product !== 'Deposits')
-      .sort((a, b) => (a.Overall_Opportunity_Rank || 999999) - (b.Overall_Opportunity_Rank || 999999))
-      .map(this.mapOpportunityRow);
+    return [...this.store.memo(`allOpportunitiesRaw:${this.productSelection}`, () =>
+      [...this.store.getOpportunities(this.productSelection)]
+        .sort(byOverallRank)
+        .map(this.mapOpportunityRow)
+    )];
   }
 
   // Get opportunities with attractiveness category
   async getOpportunities(): Promise<OpportunityData[]> {
     await this.loadData();
-
-    const opportunities = this.opportunityData.filter(
-      row => row.Product !== 'Deposits' && row.Included_In_Ranking === true
-    );
-
-    const attractivenessMap = new Map<string, string>();
-    this.attractivenessData
-      .filter(row => row.Product !== 'Deposits')
-      .forEach(item => {
-        const key = `${item.MSA}|${item.Product}`;
-        attractivenessMap.set(key, item.Attractiveness_Category);
-      });
-
-    return opportunities
-      .map(opp => {
-        const key = `${opp.MSA}|${opp.Product}`;
-        return {
-          ...this.mapOpportunityRow(opp),
-          Attractiveness_Category: attractivenessMap.get(key) || 'Unknown',
-        };
-      })
-      .sort((a, b) => (a.Overall_Opportunity_Rank || 999999) - (b.Overall_Opportunity_Rank || 999999));
+    return [...this.store.memo(`opportunities:${this.productSelection}`, () =>
+      this.store.getOpportunities(this.productSelection)
+        .filter(row => row.Included_In_Ranking === true)
+        .map(opp => this.withAttractivenessCategory(opp))
+        .sort(byOverallRank)
+    )];
   }
 
   // Get market data (all opportunities with attractiveness)
   async getMarketData(): Promise<OpportunityData[]> {
     await this.loadData();
+    return [...this.store.memo(`marketData:${this.productSelection}`, () =>
+      this.store.getOpportunities(this.productSelection).map(opp => this.withAttractivenessCategory(opp))
+    )];
+  }
 
-    const allMarketData = this.opportunityData.filter(
-      row => row.Product !== 'Deposits'
-    );
+  // Opportunities for one provider across every MSA in the selected product
+  async getProviderOpportunities(provider: string): Promise<OpportunityData[]> {
+    await this.loadData();
+    return [...this.store.getProviderOpportunities(provider, this.productSelection)]
+      .sort(byOverallRank)
+      .map(opp => this.withAttractivenessCategory(opp));
+  }
 
-    const attractivenessMap = new Map<string, string>();
-    this.attractivenessData
-      .filter(row => row.Product !== 'Deposits')
-      .forEach(item => {
-        const key = `${item.MSA}|${item.Product}`;
-        attractivenessMap.set(key, item.Attractiveness_Category);
-      });
-
-    return allMarketData.map(opp => {
-      const key = `${opp.MSA}|${opp.Product}`;
-      return {
-        ...this.mapOpportunityRow(opp),
-        Attractiveness_Category: attractivenessMap.get(key) || 'Unknown',
-      };
-    });
+  // Opportunities in every MSA of a region in the selected product
+  async getRegionOpportunities(region: string): Promise<OpportunityData[]> {
+    await this.loadData();
+    return this.store.getRegionOpportunities(region, this.productSelection)
+      .sort(byOverallRank)
+      .map(opp => this.withAttractivenessCategory(opp));
+  }
+
+  private withAttractivenessCategory(opp: OpportunityRow): OpportunityData {
+    return {
+      ...this.mapOpportunityRow(opp),
+      Attractiveness_Category: this.store.getAttractivenessCategory(opp, this.productSelection) || 'Unknown',
+    };
   }
 
   // Get filter buckets
   async getFilterBuckets() {
     await this.loadData();
 
-    const attractivenessFiltered = this.attractivenessData.filter(
-      row => row.Product !== 'Deposits'
-    );
+    const attractivenessFiltered = this.store.getAttractivenessView(this.productSelection);
 
     const marketSizeValues = attractivenessFiltered
       .map(row => row["Market Size"])
@@ -540,62 +800,18 @@ class CSVDataService {
   // Get deposit data (Deposits product only)
   async getDepositData() {
     await this.loadData();
-    return this.opportunityData
-      .filter(row => row.Product === 'Deposits')
-      .map(row => ({
-        MSA: row.MSA,
-        Provider: row.Provider,
-        "Market Share": row["Market Share"],
-      }));
-      }
-      
-  // Get MSA economics data by MSA name
+    return this.store.getOpportunities('Deposits').map(row => ({
+      MSA: row.MSA,
+      Provider: row.Provider,
+      "Market Share": row["Market Share"],
+    }));
+  }
+
+  // Get MSA economics data by MSA name. The economics file uses its own short names
+  // ("AZ-Phoenix-Mesa"), so rows are matched on CBSA code via the MSA registry
   async getMSAEconomics(msaName: string): Promise<MSAEconomicsData | null> {
     await this.loadData();
-    
-    // Try exact match first
-    let economics = this.economicsData.find(row => row.MSA === msaName);
-    if (economics) return economics;
-    
-    // Extract state codes and city name from the MSA name
-    // Examples: "NC-SC-Charlotte-Concord-Gastonia" -> states: [NC, SC], city: Charlotte
-    //           "GA-Atlanta-Sandy Springs-Roswell" -> states: [GA], city: Atlanta
-    const msaParts = msaName.split('-');
-    const stateCodes: string[] = [];
-    let cityIndex = 0;
-    
-    // State codes are 2-letter uppercase at the beginning
-    for (let i = 0; i < msaParts.length; i++) {
-      const part = msaParts[i].trim();
-      if (part.length === 2 && part === part.toUpperCase() && /^[A-Z]+$/.test(part)) {
-        stateCodes.push(part);
-        cityIndex = i + 1;
-      } else {
-        break;
-      }
-    }
-    
-    // Get the city name (first non-state part)
-    const cityName = msaParts[cityIndex]?.toLowerCase() || '';
-    
-    if (cityName.length > 0) {
-      // Try to find a match where the economics MSA contains the city name
-      // and shares at least one state code
-      economics = this.economicsData.find(row => {
-        const rowParts = row.MSA.split('-');
-        const rowState = rowParts[0];
-        const rowCity = rowParts[1]?.toLowerCase() || '';
-        
-        // Check if any of the state codes match and city names are similar
-        const stateMatches = stateCodes.includes(rowState);
-        const cityMatches = rowCity.includes(cityName.substring(0, 4)) || 
-                           cityName.includes(rowCity.substring(0, 4));
-        
-        return stateMatches && cityMatches;
-      });
-    }
-    
-    return economics || null;
+    return this.economicsByMSA.get(getMSAKey(msaName)) || null;
   }
 
   // Get all MSA economics data
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { CSVStreamParser, coerceValue, parseCSVText } from "./csvParser";
+
+describe("parseCSVText", () => {
+  it("parses quoted fields with commas, line breaks and escaped quotes", () => {
+    const result = parseCSVText('MSA,Note\n"Birmingham, AL","says ""hi""\nand bye"\n');
+    expect(result.headers).toEqual(["MSA", "Note"]);
+    expect(result.records).toEqual([{ MSA: "Birmingham, AL", Note: 'says "hi"\nand bye' }]);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("accepts LF, CRLF and CR record endings and skips blank lines", () => {
+    const result = parseCSVText("a,b\r\n1,2\r3,4\n\n5,6");
+    expect(result.records).toEqual([{ a: 1, b: 2 }, { a: 3, b: 4 }, { a: 5, b: 6 }]);
+  });
+
+  it("drops a leading byte order mark", () => {
+    expect(parseCSVText("﻿MSA\nX").headers).toEqual(["MSA"]);
+  });
+
+  it("reports and skips rows with the wrong number of fields", () => {
+    const result = parseCSVText("a,b\n1,2\n3\n4,5");
+    expect(result.records).toEqual([{ a: 1, b: 2 }, { a: 4, b: 5 }]);
+    expect(result.issues).toEqual([{ row: 2, line: 3, column: 1, message: "Expected 2 fields but found 1; row skipped" }]);
+  });
+
+  it("reports an unterminated quoted field where it starts", () => {
+    const result = parseCSVText('a,b\n1,"open\nmore');
+    expect(result.issues).toContainEqual({ row: 1, line: 2, column: 3, message: "Unterminated quoted field" });
+  });
+
+  it("reports a quote inside an unquoted field", () => {
+    const result = parseCSVText('a\nab"c');
+    expect(result.records).toEqual([{ a: 'ab"c' }]);
+    expect(result.issues[0]).toMatchObject({ line: 2, column: 3, message: "Unexpected quote in unquoted field" });
+  });
+});
+
+describe("CSVStreamParser", () => {
+  it("gives the same result however the text is split into chunks", () => {
+    const text = 'MSA,Score\r\n"Charlotte, NC-SC",2.5\r\n"A ""quoted"" name",1\r\n';
+    const whole = parseCSVText(text);
+    for (let size = 1; size <= 5; size++) {
+      const parser = new CSVStreamParser();
+      for (let i = 0; i < text.length; i += size) parser.feed(text.slice(i, i + size));
+      expect(parser.end()).toEqual(whole);
+    }
+  });
+});
+
+describe("coerceValue", () => {
+  it("converts booleans, empty values and numbers", () => {
+    expect(coerceValue("TRUE")).toBe(true);
+    expect(coerceValue(" 12.5 ")).toBe(12.5);
+    expect(coerceValue("")).toBeNull();
+    expect(coerceValue("null")).toBeNull();
+    expect(coerceValue("High")).toBe("High");
+  });
+});
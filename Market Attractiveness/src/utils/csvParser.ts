@@ -0,0 +1,273 @@
+// CSV Parser - RFC 4180 streaming parser with row/column error positions
+// Used by the CSV parser worker and as a main-thread fallback when workers are unavailable
+
+export type CSVRecord = Record<string, any>;
+
+// A problem found while parsing. row is the 1-based data row (header excluded, 0 for the header),
+// line and column are the 1-based physical position in the file where the problem starts
+export interface ParseIssue {
+  row: number;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface ParseProgress {
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number; // 0 when the size is unknown
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  records: CSVRecord[];
+  issues: ParseIssue[];
+}
+
+// Convert a raw cell to a typed value (TRUE/FALSE, empty, numeric, text)
+export const coerceValue = (raw: unknown): any => {
+  if (typeof raw !== "string") {
+    return raw === undefined ? null : raw;
+  }
+
+  const value = raw.trim();
+  if (value === "TRUE") return true;
+  if (value === "FALSE") return false;
+  if (value === "" || value === "null" || value === "undefined") return null;
+  if (!isNaN(Number(value))) return Number(value);
+  return value;
+};
+
+type ParserState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted";
+
+// Incremental RFC 4180 parser: feed() chunks of text in order, then call end()
+// - Fields may be quoted; quoted fields may contain commas, CR/LF line breaks and "" escapes
+// - Records end with LF, CRLF or CR
+// - The first record is the header; later records with a different field count are reported and skipped
+export class CSVStreamParser {
+  private state: ParserState = "fieldStart";
+  private field = "";
+  private fields: string[] = [];
+  private headers: string[] | null = null;
+  private records: CSVRecord[] = [];
+  private issues: ParseIssue[] = [];
+  private afterCR = false;
+
+  // Current physical position (1-based)
+  private line = 1;
+  private column = 0;
+
+  // Position where the current record / quoted field started
+  private recordLine = 1;
+  private quoteLine = 1;
+  private quoteColumn = 1;
+  private dataRow = 0;
+
+  get rowsParsed(): number {
+    return this.dataRow;
+  }
+
+  feed(chunk: string): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // Second half of a CRLF pair - the line break was already counted
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === "\n") {
+          if (this.state === "quoted") {
+            this.field += char;
+          }
+          continue;
+        }
+      }
+
+      this.column++;
+
+      switch (this.state) {
+        case "fieldStart":
+          if (char === '"') {
+            this.state = "quoted";
+            this.quoteLine = this.line;
+            this.quoteColumn = this.column;
+          } else if (char === ",") {
+            this.pushField();
+          } else if (char === "\n" || char === "\r") {
+            this.endRecord(char);
+          } else {
+            this.field += char;
+            this.state = "unquoted";
+          }
+          break;
+
+        case "unquoted":
+          if (char === ",") {
+            this.pushField();
+            this.state = "fieldStart";
+          } else if (char === "\n" || char === "\r") {
+            this.endRecord(char);
+          } else {
+            if (char === '"') {
+              this.addIssue(this.line, this.column, 'Unexpected quote in unquoted field');
+            }
+            this.field += char;
+          }
+          break;
+
+        case "quoted":
+          if (char === '"') {
+            this.state = "quoteInQuoted";
+          } else {
+            this.field += char;
+            if (char === "\n" || char === "\r") {
+              this.newLine(char);
+            }
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (char === '"') {
+            // Escaped quote ("")
+            this.field += '"';
+            this.state = "quoted";
+          } else if (char === ",") {
+            this.pushField();
+            this.state = "fieldStart";
+          } else if (char === "\n" || char === "\r") {
+            this.endRecord(char);
+          } else {
+            this.addIssue(this.line, this.column, `Unexpected character "${char}" after closing quote`);
+            this.field += char;
+            this.state = "unquoted";
+          }
+          break;
+      }
+    }
+  }
+
+  end(): CSVParseResult {
+    if (this.state === "quoted") {
+      this.addIssue(this.quoteLine, this.quoteColumn, "Unterminated quoted field");
+    }
+    if (this.state !== "fieldStart" || this.field !== "" || this.fields.length > 0) {
+      this.pushField();
+      this.emitRecord();
+    }
+
+    return {
+      headers: this.headers || [],
+      records: this.records,
+      issues: this.issues,
+    };
+  }
+
+  private pushField(): void {
+    this.fields.push(this.field);
+    this.field = "";
+  }
+
+  private endRecord(char: string): void {
+    this.pushField();
+    this.emitRecord();
+    this.newLine(char);
+    this.state = "fieldStart";
+  }
+
+  private newLine(char: string): void {
+    if (char === "\r") {
+      this.afterCR = true;
+    }
+    this.line++;
+    this.column = 0;
+  }
+
+  private emitRecord(): void {
+    const fields = this.fields;
+    this.fields = [];
+    const startLine = this.recordLine;
+    this.recordLine = this.line + 1;
+
+    // Blank line
+    if (fields.length === 1 && fields[0] === "") {
+      return;
+    }
+
+    if (!this.headers) {
+      this.headers = fields.map(h => h.trim());
+      return;
+    }
+
+    this.dataRow++;
+    if (fields.length !== this.headers.length) {
+      this.issues.push({
+        row: this.dataRow,
+        line: startLine,
+        column: 1,
+        message: `Expected ${this.headers.length} fields but found ${fields.length}; row skipped`,
+      });
+      return;
+    }
+
+    const record: CSVRecord = {};
+    this.headers.forEach((header, index) => {
+      record[header] = coerceValue(fields[index]);
+    });
+
+    this.records.push(record);
+  }
+
+  private addIssue(line: number, column: number, message: string): void {
+    this.issues.push({ row: this.headers ? this.dataRow + 1 : 0, line, column, message });
+  }
+}
+
+// Parse a complete CSV string
+export const parseCSVText = (text: string): CSVParseResult => {
+  const parser = new CSVStreamParser();
+  parser.feed(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  return parser.end();
+};
+
+// Parse a fetch Response body chunk by chunk, reporting progress as bytes arrive
+export const parseCSVResponse = async (
+  response: Response,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<CSVParseResult> => {
+  const totalBytes = parseInt(response.headers.get("content-length") || "0", 10) || 0;
+
+  if (!response.body) {
+    const result = parseCSVText(await response.text());
+    onProgress?.({ rowsParsed: result.records.length, bytesRead: totalBytes, totalBytes });
+    return result;
+  }
+
+  const parser = new CSVStreamParser();
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let bytesRead = 0;
+  let isFirstChunk = true;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    let text = decoder.decode(value, { stream: true });
+    if (isFirstChunk && text.charCodeAt(0) === 0xfeff) {
+      text = text.slice(1);
+    }
+    isFirstChunk = false;
+
+    parser.feed(text);
+    onProgress?.({ rowsParsed: parser.rowsParsed, bytesRead, totalBytes });
+  }
+
+  parser.feed(decoder.decode());
+  const result = parser.end();
+  onProgress?.({ rowsParsed: result.records.length, bytesRead, totalBytes: totalBytes || bytesRead });
+  return result;
+};
+
+// Format an issue for display, e.g. "line 12, column 5: Unterminated quoted field"
+export const formatParseIssue = (issue: ParseIssue): string =>
+  `line ${issue.line}, column ${issue.column}: ${issue.message}`;
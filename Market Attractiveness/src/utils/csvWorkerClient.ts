@@ -0,0 +1,34 @@
+// CSV Worker Client - Runs CSV parsing in a Web Worker, falling back to the main thread
+
+import { CSVParseResult, ParseProgress, parseCSVText } from "./csvParser";
+import { fetchCSVWithCache } from "./datasetCache";
+import { WorkerResponse, createWorkerClient } from "./workerClient";
+
+export interface CSVWorkerRequest {
+  id: number;
+  url?: string;
+  text?: string;
+}
+
+export type CSVWorkerResponse = WorkerResponse<{ found: boolean } & CSVParseResult, ParseProgress>;
+
+// Resolves to null when the file is not found
+const parseCSV = createWorkerClient({
+  name: "CSV worker",
+  createWorker: () => new Worker(new URL("../workers/csvParser.worker.ts", import.meta.url), { type: "module" }),
+  toResult: ({ found, headers, records, issues }: { found: boolean } & CSVParseResult): CSVParseResult | null =>
+    found ? { headers, records, issues } : null,
+  runOnMainThread: ({ url, text }: Omit<CSVWorkerRequest, "id">, onProgress?: (progress: ParseProgress) => void) =>
+    text !== undefined ? parseCSVText(text) : fetchCSVWithCache(url!, onProgress),
+});
+
+// Fetch and parse a CSV file off the main thread, reusing cached results for unchanged files.
+// Resolves to null when the file is not found
+export const parseCSVInWorker = (
+  url: string,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<CSVParseResult | null> => parseCSV({ url }, onProgress);
+
+// Parse CSV text (e.g. an uploaded file) off the main thread
+export const parseCSVTextInWorker = async (text: string): Promise<CSVParseResult> =>
+  (await parseCSV({ text })) as CSVParseResult;
@@ -0,0 +1,282 @@
+// Data Schema - Declarative column schemas, type coercion and validation for the loaded datasets
+
+import type { DatasetKey, RawRecord } from "./dataSource";
+
+export type FieldType = "string" | "number" | "boolean";
+
+export interface FieldSchema {
+  type: FieldType;
+  // Column must be present and non-empty on every row
+  required?: boolean;
+  // Allowed values (string fields). Matching is case-insensitive; values are rewritten to the canonical spelling
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+}
+
+export interface DatasetSchema {
+  label: string;
+  fields: Record<string, FieldSchema>;
+  // Columns that together identify a row; repeated keys are reported as duplicates
+  key?: string[];
+}
+
+export type ViolationKind = "missing-column" | "missing-value" | "type" | "enum" | "range" | "duplicate" | "parse";
+
+export interface SchemaViolation {
+  dataset: DatasetKey;
+  kind: ViolationKind;
+  // 1-based record number within the dataset (0 for dataset-wide problems such as a missing column)
+  row: number;
+  column: string;
+  value?: unknown;
+  message: string;
+}
+
+export interface ValidationResult {
+  records: RawRecord[];
+  violations: SchemaViolation[];
+}
+
+export const LEVEL_VALUES = ["High", "Medium", "Low"] as const;
+export const PREMIUM_DISCOUNT_VALUES = ["Premium", "Par", "Discount"] as const;
+// "Irrational" is the umbrella label used by the What-If filters; the source data splits it into over/underpriced
+export const PRICING_RATIONALITY_VALUES = ["Rational", "Irrational", "Overpriced (Opportunity)", "Underpriced (Risk)"] as const;
+export const RELATIVE_RISK_MIGRATION_VALUES = ["Above National Avg", "At National Avg", "Below National Avg"] as const;
+export const ATTRACTIVENESS_CATEGORY_VALUES = ["Highly Attractive", "Attractive", "Neutral", "Challenging"] as const;
+export const OPPORTUNITY_CATEGORY_VALUES = ["Excellent", "Good", "Fair", "Poor"] as const;
+
+const level: FieldSchema = { type: "string", required: true, enum: LEVEL_VALUES };
+
+export const ATTRACTIVENESS_SCHEMA: DatasetSchema = {
+  label: "Attractiveness",
+  key: ["MSA", "Product"],
+  fields: {
+    MSA: { type: "string", required: true },
+    Product: { type: "string", required: true },
+    LAT: { type: "number", required: true, min: -90, max: 90 },
+    LON: { type: "number", required: true, min: -180, max: 180 },
+    "Market Size": { type: "number", required: true, min: 0 },
+    "Number of Companies": { type: "number", required: true, min: 0 },
+    Risk: { type: "number" },
+    Price: { type: "number" },
+    Premium_Discount: { type: "string", enum: PREMIUM_DISCOUNT_VALUES },
+    Pricing_Rationality: { type: "string", enum: PRICING_RATIONALITY_VALUES },
+    Pricing_Rationality_Explanation: { type: "string" },
+    Market_Size_Score: level,
+    HHI_Score: level,
+    Economic_Growth_Score: level,
+    Loan_Growth_Score: level,
+    Risk_Score: level,
+    Risk_Migration_Score: level,
+    Relative_Risk_Migration_Score: { type: "string", required: true, enum: RELATIVE_RISK_MIGRATION_VALUES },
+    Premium_Discount_Score: { type: "string", required: true, enum: PREMIUM_DISCOUNT_VALUES },
+    Pricing_Rationality_Score: { type: "string", required: true, enum: PRICING_RATIONALITY_VALUES },
+    Revenue_per_Company_Score: level,
+    International_CM_Score: level,
+    Attractiveness_Score: { type: "number" },
+    Attractiveness_Category: { type: "string", enum: ATTRACTIVENESS_CATEGORY_VALUES },
+    Driving_Metric: { type: "string" },
+    Driving_Metric_Score: { type: "string" },
+    "Herfindahl-Hirschman Index (HHI)": { type: "number", min: 0, max: 10000 },
+    Economic_Growth: { type: "number" },
+    "Lending Volume Annual Change": { type: "number" },
+    "Proportion of International Cash Management Revenue": { type: "number", min: 0 },
+    "Loan to Deposit Ratio": { type: "number", min: 0 },
+    "Revenue per Company": { type: "number", min: 0 },
+    Net_Risk_Migration: { type: "number" },
+    National_Net_Risk_Migration: { type: "number" },
+    Relative_Risk_Migration: { type: "number" },
+    Risk_Migration_Stability: { type: "number" },
+    National_Risk_Migration_Stability: { type: "number" },
+    Relative_Risk_Migration_Stability: { type: "number" },
+    Risk_Migration_Composite: { type: "number" },
+    Relative_Risk_Migration_Composite: { type: "number" },
+    "Risk Migration": { type: "string", enum: ["Upgraded", "Downgraded"] },
+  },
+};
+
+export const OPPORTUNITY_SCHEMA: DatasetSchema = {
+  label: "Opportunity",
+  key: ["MSA", "Product", "Provider"],
+  fields: {
+    MSA: { type: "string", required: true },
+    LAT: { type: "number", min: -90, max: 90 },
+    LON: { type: "number", min: -180, max: 180 },
+    Provider: { type: "string", required: true },
+    "Market Size": { type: "number", required: true, min: 0 },
+    "Number of Companies": { type: "number", min: 0 },
+    "Market Share": { type: "number", required: true, min: 0, max: 1 },
+    "Defend $": { type: "number", min: 0 },
+    Product: { type: "string", required: true },
+    Exclusion: { type: "boolean", required: true },
+    Included_In_Ranking: { type: "boolean", required: true },
+    Provider_Ratio: { type: "number" },
+    Benchmark: { type: "number" },
+    Competitor_Ratio: { type: "number" },
+    Provider_Opportunity_Rank: { type: "number", min: 1 },
+    Overall_Opportunity_Rank: { type: "number", min: 1 },
+    Opportunity_Score: { type: "number" },
+    Opportunity_Category: { type: "string", enum: OPPORTUNITY_CATEGORY_VALUES },
+    "Firm ID": { type: "number" },
+    Total_Weight: { type: "number" },
+    Number_of_Occurrences: { type: "number", min: 0 },
+    Weighted_Average_Score: { type: "number" },
+  },
+};
+
+// Source columns of MSAEconomicsData (see CSVDataService.mapEconomicsRecord)
+export const ECONOMICS_SCHEMA: DatasetSchema = {
+  label: "Economics",
+  key: ["MSA"],
+  fields: {
+    MSA: { type: "string", required: true },
+    Unemp_2023: { type: "number", required: true, min: 0, max: 100 },
+    Unemp_2024: { type: "number", required: true, min: 0, max: 100 },
+    GDP_K: { type: "number", required: true, min: 0 },
+    GDP_YoY: { type: "number", required: true },
+    Per_Capita_Income: { type: "number", required: true, min: 0 },
+    Income_YoY: { type: "number", required: true },
+    Pop_2023: { type: "number", required: true, min: 0 },
+    Pop_2024: { type: "number", required: true, min: 0 },
+  },
+};
+
+export const DATASET_SCHEMAS: Record<DatasetKey, DatasetSchema> = {
+  attractiveness: ATTRACTIVENESS_SCHEMA,
+  opportunity: OPPORTUNITY_SCHEMA,
+  economics: ECONOMICS_SCHEMA,
+};
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+
+// Coerce a value to the field type. Returns undefined when the value cannot be converted
+const coerceField = (value: unknown, type: FieldType): unknown => {
+  switch (type) {
+    case "number": {
+      if (typeof value === "number") return isNaN(value) ? undefined : value;
+      if (typeof value === "boolean") return undefined;
+      // Allow thousands separators, currency symbols and percent signs from spreadsheet exports
+      const cleaned = String(value).trim().replace(/[$,%\s]/g, "");
+      // pandas writes infinite values as inf / -inf
+      if (/^[+-]?inf(inity)?$/i.test(cleaned)) return cleaned.startsWith("-") ? -Infinity : Infinity;
+      const parsed = Number(cleaned);
+      return cleaned === "" || isNaN(parsed) ? undefined : parsed;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (["true", "yes", "y", "1"].includes(normalized)) return true;
+      if (["false", "no", "n", "0"].includes(normalized)) return false;
+      return undefined;
+    }
+    case "string":
+    default:
+      return String(value).trim();
+  }
+};
+
+// Validate and coerce records against a schema. Values that fail coercion become null so they
+// can't leak into calculations as NaN; every problem is reported as a violation
+export const validateDataset = (dataset: DatasetKey, records: RawRecord[], schema: DatasetSchema): ValidationResult => {
+  const violations: SchemaViolation[] = [];
+  const columns = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(column => columns.add(column)));
+
+  const fieldEntries = Object.entries(schema.fields);
+  const missingColumns = new Set<string>();
+
+  fieldEntries.forEach(([column, field]) => {
+    if (!columns.has(column) && records.length > 0) {
+      missingColumns.add(column);
+      violations.push({
+        dataset,
+        kind: "missing-column",
+        row: 0,
+        column,
+        message: field.required
+          ? `Required column "${column}" is missing`
+          : `Column "${column}" is missing`,
+      });
+    }
+  });
+
+  const seenKeys = new Map<string, number>();
+
+  const validated = records.map((record, index) => {
+    const row = index + 1;
+    const result: RawRecord = { ...record };
+
+    fieldEntries.forEach(([column, field]) => {
+      if (missingColumns.has(column)) {
+        result[column] = null;
+        return;
+      }
+
+      const value = record[column];
+      if (isEmpty(value)) {
+        result[column] = null;
+        if (field.required) {
+          violations.push({ dataset, kind: "missing-value", row, column, value, message: `"${column}" is empty` });
+        }
+        return;
+      }
+
+      const coerced = coerceField(value, field.type);
+      if (coerced === undefined) {
+        result[column] = null;
+        violations.push({ dataset, kind: "type", row, column, value, message: `Expected a ${field.type} but found "${value}"` });
+        return;
+      }
+
+      if (field.enum) {
+        const match = field.enum.find(option => option.toLowerCase() === String(coerced).toLowerCase());
+        if (!match) {
+          violations.push({
+            dataset,
+            kind: "enum",
+            row,
+            column,
+            value,
+            message: `"${value}" is not one of ${field.enum.join(", ")}`,
+          });
+          result[column] = coerced;
+          return;
+        }
+        result[column] = match;
+        return;
+      }
+
+      if (typeof coerced === "number") {
+        if ((field.min !== undefined && coerced < field.min) || (field.max !== undefined && coerced > field.max)) {
+          const bounds = field.max === undefined ? `>= ${field.min}` : field.min === undefined ? `<= ${field.max}` : `between ${field.min} and ${field.max}`;
+          violations.push({ dataset, kind: "range", row, column, value, message: `${coerced} should be ${bounds}` });
+        }
+      }
+
+      result[column] = coerced;
+    });
+
+    if (schema.key) {
+      const key = schema.key.map(column => String(result[column] ?? "")).join("|");
+      const firstRow = seenKeys.get(key);
+      if (firstRow !== undefined) {
+        violations.push({
+          dataset,
+          kind: "duplicate",
+          row,
+          column: schema.key.join("|"),
+          value: key,
+          message: `Duplicate of row ${firstRow} (${key})`,
+        });
+      } else {
+        seenKeys.set(key, row);
+      }
+    }
+
+    return result;
+  });
+
+  return { records: validated, violations };
+};
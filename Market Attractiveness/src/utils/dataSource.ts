@@ -0,0 +1,273 @@
+// Data Source layer - Pluggable loaders for the raw datasets behind csvDataService
+
+import * as XLSX from "xlsx";
+import { coerceValue, ParseIssue, ParseProgress } from "./csvParser";
+import { parseCSVInWorker } from "./csvWorkerClient";
+
+// Datasets the dashboard knows how to load
+export type DatasetKey = "attractiveness" | "opportunity" | "economics";
+
+export type DataSourceType = "csv" | "json" | "xlsx" | "http" | "upload";
+
+// A loaded dataset: one record per row, keyed by column header
+export type RawRecord = Record<string, any>;
+
+// Records plus any problems found while parsing them
+export interface LoadedDataset {
+  records: RawRecord[];
+  issues: ParseIssue[];
+}
+
+export interface LoadOptions {
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+export interface DataSource {
+  readonly type: DataSourceType;
+  // Resolves to null when the dataset is not available from this source
+  load(dataset: DatasetKey, options?: LoadOptions): Promise<LoadedDataset | null>;
+}
+
+export interface DataSourceConfig {
+  type: DataSourceType;
+  // Path or URL per dataset (csv, json and xlsx sources)
+  locations?: Partial<Record<DatasetKey, string>>;
+  // Sheet name per dataset (xlsx source); defaults to the first sheet
+  sheets?: Partial<Record<DatasetKey, string>>;
+  // Root URL of the local data server (http source)
+  baseUrl?: string;
+}
+
+// Datasets that must load for the dashboard to work (economics is optional)
+export const REQUIRED_DATASETS: DatasetKey[] = ["attractiveness", "opportunity"];
+
+// Default file names per source type - matches the files shipped in public/
+const DEFAULT_LOCATIONS: Record<Exclude<DataSourceType, "http" | "upload">, Record<DatasetKey, string>> = {
+  csv: {
+    attractiveness: "/attractivenes.csv",
+    opportunity: "/opportunity.csv",
+    economics: "/msa_economics.csv",
+  },
+  json: {
+    attractiveness: "/attractiveness.json",
+    opportunity: "/opportunity.json",
+    economics: "/msa_economics.json",
+  },
+  xlsx: {
+    attractiveness: "/attractiveness.xlsx",
+    opportunity: "/opportunity.xlsx",
+    economics: "/MSA_Economics_Merged.xlsx",
+  },
+};
+
+export const DEFAULT_DATA_SOURCE_CONFIG: DataSourceConfig = { type: "csv" };
+
+// Apply coerceValue to every field and trim header names
+export const normalizeRecord = (record: RawRecord): RawRecord => {
+  const normalized: RawRecord = {};
+  Object.entries(record).forEach(([key, value]) => {
+    normalized[key.trim()] = coerceValue(value);
+  });
+  return normalized;
+};
+
+// Fetch a resource, returning null on 404/network failure so optional datasets can be skipped
+const fetchOptional = async (url: string): Promise<Response | null> => {
+  try {
+    const response = await fetch(url);
+    return response.ok ? response : null;
+  } catch (error) {
+    console.warn(`DataSource: Could not fetch ${url}:`, error);
+    return null;
+  }
+};
+
+// CSV files served as static assets (the default)
+export class CSVDataSource implements DataSource {
+  readonly type = "csv" as const;
+
+  constructor(private locations: Record<DatasetKey, string>) {}
+
+  // Parsed in a Web Worker so large files don't block the UI
+  async load(dataset: DatasetKey, options: LoadOptions = {}): Promise<LoadedDataset | null> {
+    try {
+      const result = await parseCSVInWorker(this.locations[dataset], options.onProgress);
+      return result ? { records: result.records, issues: result.issues } : null;
+    } catch (error) {
+      console.warn(`DataSource: Could not load ${this.locations[dataset]}:`, error);
+      return null;
+    }
+  }
+}
+
+// JSON files containing an array of row objects
+export class JSONDataSource implements DataSource {
+  readonly type = "json" as const;
+
+  constructor(private locations: Record<DatasetKey, string>) {}
+
+  async load(dataset: DatasetKey): Promise<LoadedDataset | null> {
+    const response = await fetchOptional(this.locations[dataset]);
+    if (!response) return null;
+
+    const json = await response.json();
+    if (!Array.isArray(json)) {
+      throw new Error(`${this.locations[dataset]} must contain a JSON array of rows`);
+    }
+    return { records: json.map(normalizeRecord), issues: [] };
+  }
+}
+
+// Excel workbooks - one workbook per dataset, optionally with a named sheet
+export class XLSXDataSource implements DataSource {
+  readonly type = "xlsx" as const;
+
+  constructor(
+    private locations: Record<DatasetKey, string>,
+    private sheets: Partial<Record<DatasetKey, string>> = {}
+  ) {}
+
+  async load(dataset: DatasetKey): Promise<LoadedDataset | null> {
+    const response = await fetchOptional(this.locations[dataset]);
+    if (!response) return null;
+
+    const workbook = XLSX.read(await response.arrayBuffer(), { type: "array" });
+    const sheetName = this.sheets[dataset] || workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      throw new Error(`Sheet "${sheetName}" not found in ${this.locations[dataset]}`);
+    }
+
+    const rows = XLSX.utils.sheet_to_json<RawRecord>(sheet, { defval: null });
+    return { records: rows.map(normalizeRecord), issues: [] };
+  }
+}
+
+// Local data server exposing GET {baseUrl}/datasets/{dataset} as a JSON array
+export class HTTPDataSource implements DataSource {
+  readonly type = "http" as const;
+
+  constructor(private baseUrl: string) {}
+
+  async load(dataset: DatasetKey): Promise<LoadedDataset | null> {
+    const url = `${this.baseUrl.replace(/\/$/, "")}/datasets/${dataset}`;
+    const response = await fetchOptional(url);
+    if (!response) return null;
+
+    const json = await response.json();
+    return Array.isArray(json) ? { records: json.map(normalizeRecord), issues: [] } : null;
+  }
+}
+
+// Datasets uploaded in the browser, layered over another source for anything not uploaded
+export class UploadedDataSource implements DataSource {
+  readonly type = "upload" as const;
+  readonly overrides: Partial<Record<DatasetKey, LoadedDataset>>;
+  readonly fallback: DataSource;
+
+  constructor(overrides: Partial<Record<DatasetKey, LoadedDataset>>, fallback: DataSource) {
+    // Uploading on top of an upload merges with it instead of stacking sources
+    if (fallback instanceof UploadedDataSource) {
+      this.overrides = { ...fallback.overrides, ...overrides };
+      this.fallback = fallback.fallback;
+    } else {
+      this.overrides = overrides;
+      this.fallback = fallback;
+    }
+  }
+
+  async load(dataset: DatasetKey, options: LoadOptions = {}): Promise<LoadedDataset | null> {
+    return this.overrides[dataset] || this.fallback.load(dataset, options);
+  }
+}
+
+// Create a data source from configuration
+export const createDataSource = (config: DataSourceConfig = DEFAULT_DATA_SOURCE_CONFIG): DataSource => {
+  if (config.type === "upload") {
+    throw new Error("Uploaded data sources are created from the Load data dialog, not from configuration");
+  }
+
+  if (config.type === "http") {
+    return new HTTPDataSource(config.baseUrl || "http://localhost:8787/api");
+  }
+
+  const locations = { ...DEFAULT_LOCATIONS[config.type], ...config.locations };
+
+  switch (config.type) {
+    case "json":
+      return new JSONDataSource(locations);
+    case "xlsx":
+      return new XLSXDataSource(locations, config.sheets);
+    case "csv":
+    default:
+      return new CSVDataSource(locations);
+  }
+};
+
+// Read data source configuration from Vite environment variables
+// VITE_DATA_SOURCE=csv|json|xlsx|http
+// VITE_DATA_BASE_URL=http://localhost:8787/api (http only)
+// VITE_DATA_ATTRACTIVENESS / VITE_DATA_OPPORTUNITY / VITE_DATA_ECONOMICS = per-dataset path
+export const getDataSourceConfig = (): DataSourceConfig => {
+  // Not defined outside Vite, e.g. in the API server bundle
+  const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+  const type = (env.VITE_DATA_SOURCE || DEFAULT_DATA_SOURCE_CONFIG.type) as DataSourceType;
+
+  if (!["csv", "json", "xlsx", "http"].includes(type)) {
+    console.warn(`DataSource: Unknown VITE_DATA_SOURCE "${type}", falling back to csv`);
+    return DEFAULT_DATA_SOURCE_CONFIG;
+  }
+
+  const locations: Partial<Record<DatasetKey, string>> = {};
+  if (env.VITE_DATA_ATTRACTIVENESS) locations.attractiveness = env.VITE_DATA_ATTRACTIVENESS;
+  if (env.VITE_DATA_OPPORTUNITY) locations.opportunity = env.VITE_DATA_OPPORTUNITY;
+  if (env.VITE_DATA_ECONOMICS) locations.economics = env.VITE_DATA_ECONOMICS;
+
+  return {
+    type,
+    locations,
+    baseUrl: env.VITE_DATA_BASE_URL,
+  };
+};
+
+export interface VintageConfig {
+  label: string;
+  config: DataSourceConfig;
+}
+
+// Read labeled dataset vintages from VITE_DATA_VINTAGES, oldest first:
+// VITE_DATA_VINTAGES=2024 Q4=/vintages/2024-q4,2025 Q1=/vintages/2025-q1
+// Each location is a folder holding the usual dataset files (csv, json and xlsx sources)
+// or the root URL of a data server (http source)
+export const getVintageConfigs = (): VintageConfig[] => {
+  const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+  if (!env.VITE_DATA_VINTAGES) return [];
+
+  const base = getDataSourceConfig();
+
+  return env.VITE_DATA_VINTAGES.split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry): VintageConfig[] => {
+      const separator = entry.indexOf("=");
+      if (separator <= 0) {
+        console.warn(`DataSource: Ignoring vintage "${entry}" - expected label=location`);
+        return [];
+      }
+
+      const label = entry.slice(0, separator).trim();
+      const location = entry.slice(separator + 1).trim().replace(/\/$/, "");
+
+      if (base.type === "http") {
+        return [{ label, config: { type: "http", baseUrl: location } }];
+      }
+
+      const defaults = DEFAULT_LOCATIONS[base.type as keyof typeof DEFAULT_LOCATIONS];
+      const locations = {} as Record<DatasetKey, string>;
+      (Object.keys(defaults) as DatasetKey[]).forEach(dataset => {
+        locations[dataset] = `${location}/${defaults[dataset].split("/").pop()}`;
+      });
+
+      return [{ label, config: { ...base, locations } }];
+    });
+};
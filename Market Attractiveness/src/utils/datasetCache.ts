@@ -0,0 +1,241 @@
+// Dataset Cache - Parsed CSV files kept in IndexedDB, keyed by a SHA-256 hash of the file contents
+//
+// Used from the parser worker and the main thread. A changed file hashes differently, so its old entry is
+// simply never hit again (and is dropped when the new one is stored). Only parser output is cached -
+// schema validation still runs on every load, so schema changes never serve stale results.
+
+import { CSVParseResult, ParseProgress, parseCSVResponse, parseCSVText } from "./csvParser";
+
+const DB_NAME = "market-attractiveness-cache";
+const DB_VERSION = 1;
+const ENTRY_STORE = "entries";
+const RESULT_STORE = "results";
+
+// Bump when the parser output changes so results cached by older builds are ignored
+const PARSER_VERSION = 1;
+
+// Metadata for one cached file (the parsed records live in a separate store)
+export interface DatasetCacheEntry {
+  key: string;
+  hash: string;
+  url: string;
+  bytes: number;
+  rowCount: number;
+  issueCount: number;
+  cachedAt: number;
+  lastUsedAt: number;
+}
+
+interface CachedResult {
+  key: string;
+  result: CSVParseResult;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+// Open (or create) the cache database. Resolves to null where IndexedDB isn't available (e.g. private browsing)
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise(resolve => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(RESULT_STORE)) {
+          db.createObjectStore(RESULT_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Dataset cache unavailable:", request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn("Dataset cache unavailable:", error);
+      resolve(null);
+    }
+  });
+
+  return databasePromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Whether this browser can cache datasets (IndexedDB plus Web Crypto, which needs a secure context)
+export const isDatasetCacheAvailable = async (): Promise<boolean> =>
+  typeof crypto !== "undefined" && !!crypto.subtle && (await openDatabase()) !== null;
+
+// Hex SHA-256 of the file contents
+export const hashContent = async (bytes: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const cacheKey = (hash: string) => `v${PARSER_VERSION}:${hash}`;
+
+// Cached parse result for a content hash, or null on a miss
+export const getCachedParse = async (hash: string): Promise<CSVParseResult | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  const key = cacheKey(hash);
+  try {
+    const transaction = db.transaction([ENTRY_STORE, RESULT_STORE], "readwrite");
+    const cached = await promisifyRequest<CachedResult | undefined>(transaction.objectStore(RESULT_STORE).get(key));
+    const entry = await promisifyRequest<DatasetCacheEntry | undefined>(transaction.objectStore(ENTRY_STORE).get(key));
+    if (!cached || !entry) return null;
+
+    transaction.objectStore(ENTRY_STORE).put({ ...entry, lastUsedAt: Date.now() });
+    await completeTransaction(transaction);
+    return cached.result;
+  } catch (error) {
+    console.warn("Dataset cache read failed:", error);
+    return null;
+  }
+};
+
+// Store a parse result. Older entries for the same URL (previous versions of the file) are removed
+export const putCachedParse = async (url: string, hash: string, bytes: number, result: CSVParseResult): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const key = cacheKey(hash);
+  try {
+    const transaction = db.transaction([ENTRY_STORE, RESULT_STORE], "readwrite");
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const results = transaction.objectStore(RESULT_STORE);
+
+    const existing = await promisifyRequest<DatasetCacheEntry[]>(entries.getAll());
+    existing
+      .filter(entry => entry.url === url && entry.key !== key)
+      .forEach(entry => {
+        entries.delete(entry.key);
+        results.delete(entry.key);
+      });
+
+    const now = Date.now();
+    const entry: DatasetCacheEntry = {
+      key,
+      hash,
+      url,
+      bytes,
+      rowCount: result.records.length,
+      issueCount: result.issues.length,
+      cachedAt: now,
+      lastUsedAt: now,
+    };
+    const cachedResult: CachedResult = { key, result };
+    entries.put(entry);
+    results.put(cachedResult);
+    await completeTransaction(transaction);
+  } catch (error) {
+    // A full or blocked cache shouldn't stop the data from loading
+    console.warn("Dataset cache write failed:", error);
+  }
+};
+
+// Every cached file, most recently used first
+export const listDatasetCache = async (): Promise<DatasetCacheEntry[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  const entries = await promisifyRequest<DatasetCacheEntry[]>(
+    db.transaction(ENTRY_STORE, "readonly").objectStore(ENTRY_STORE).getAll()
+  );
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+// Remove every cached file. The next load parses from scratch
+export const clearDatasetCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const transaction = db.transaction([ENTRY_STORE, RESULT_STORE], "readwrite");
+  transaction.objectStore(ENTRY_STORE).clear();
+  transaction.objectStore(RESULT_STORE).clear();
+  await completeTransaction(transaction);
+};
+
+// Read the whole body, reporting download progress
+const readBody = async (response: Response, onProgress?: (progress: ParseProgress) => void): Promise<ArrayBuffer> => {
+  const totalBytes = parseInt(response.headers.get("content-length") || "0", 10) || 0;
+  if (!response.body) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytesRead = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    bytesRead += value.byteLength;
+    onProgress?.({ rowsParsed: 0, bytesRead, totalBytes });
+  }
+
+  const bytes = new Uint8Array(bytesRead);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes.buffer;
+};
+
+/**
+ * Fetch a CSV file and parse it, reusing the cached result when the file contents haven't changed
+ * Without a usable cache the response is parsed while it streams in
+ * Resolves to null when the file is not found
+ */
+export const fetchCSVWithCache = async (
+  url: string,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<CSVParseResult | null> => {
+  const response = await fetch(url);
+  if (!response.ok) return null;
+
+  if (!(await isDatasetCacheAvailable())) {
+    return parseCSVResponse(response, onProgress);
+  }
+
+  const bytes = await readBody(response, onProgress);
+  const hash = await hashContent(bytes);
+
+  const cached = await getCachedParse(hash);
+  if (cached) {
+    onProgress?.({ rowsParsed: cached.records.length, bytesRead: bytes.byteLength, totalBytes: bytes.byteLength });
+    return cached;
+  }
+
+  let text = new TextDecoder("utf-8").decode(bytes);
+  if (text.charCodeAt(0) === 0xfeff) {
+    text = text.slice(1);
+  }
+  const result = parseCSVText(text);
+  onProgress?.({ rowsParsed: result.records.length, bytesRead: bytes.byteLength, totalBytes: bytes.byteLength });
+
+  await putCachedParse(url, hash, bytes.byteLength, result);
+  return result;
+};
@@ -0,0 +1,127 @@
+// Dataset Upload - Reads user-supplied CSV/XLSX files and maps their columns onto the dataset schemas
+
+import * as XLSX from "xlsx";
+import { ParseIssue } from "./csvParser";
+import { parseCSVTextInWorker } from "./csvWorkerClient";
+import { DATASET_SCHEMAS } from "./dataSchema";
+import { DatasetKey, RawRecord, normalizeRecord } from "./dataSource";
+
+// Files that can be uploaded: the three datasets plus an MSA -> region mapping
+export type UploadTarget = DatasetKey | "regions";
+
+export interface ExpectedColumn {
+  name: string;
+  required: boolean;
+}
+
+export interface UploadedFile {
+  fileName: string;
+  headers: string[];
+  records: RawRecord[];
+  issues: ParseIssue[];
+  // Sheet names (xlsx only) and the one that was read
+  sheetNames: string[];
+  sheetName?: string;
+}
+
+// Target column -> source header in the uploaded file ("" when not mapped)
+export type ColumnMapping = Record<string, string>;
+
+export const UPLOAD_TARGET_LABELS: Record<UploadTarget, string> = {
+  attractiveness: "Attractiveness",
+  opportunity: "Opportunity",
+  economics: "MSA Economics",
+  regions: "Region Mapping",
+};
+
+// Columns expected for each upload target, taken from the dataset schemas
+export const getExpectedColumns = (target: UploadTarget): ExpectedColumn[] => {
+  if (target === "regions") {
+    return [
+      { name: "MSA", required: true },
+      { name: "Region", required: true },
+    ];
+  }
+
+  return Object.entries(DATASET_SCHEMAS[target].fields).map(([name, field]) => ({
+    name,
+    required: !!field.required,
+  }));
+};
+
+const isExcelFile = (fileName: string) => /\.(xlsx|xlsm|xls)$/i.test(fileName);
+
+// Read a CSV or Excel file chosen in the browser. For workbooks, sheetName picks the sheet (first by default)
+export const readUploadedFile = async (file: File, sheetName?: string): Promise<UploadedFile> => {
+  if (isExcelFile(file.name)) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+    const selectedSheet = sheetName && workbook.SheetNames.includes(sheetName) ? sheetName : workbook.SheetNames[0];
+    const sheet = workbook.Sheets[selectedSheet];
+    if (!sheet) {
+      throw new Error(`${file.name} does not contain any sheets`);
+    }
+
+    const headerRow = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 })[0] || [];
+    const rows = XLSX.utils.sheet_to_json<RawRecord>(sheet, { defval: null });
+
+    return {
+      fileName: file.name,
+      headers: headerRow.map(header => String(header ?? "").trim()).filter(Boolean),
+      records: rows.map(normalizeRecord),
+      issues: [],
+      sheetNames: workbook.SheetNames,
+      sheetName: selectedSheet,
+    };
+  }
+
+  if (!/\.(csv|txt)$/i.test(file.name)) {
+    throw new Error(`${file.name} is not a CSV or Excel file`);
+  }
+
+  const result = await parseCSVTextInWorker(await file.text());
+  return {
+    fileName: file.name,
+    headers: result.headers,
+    records: result.records,
+    issues: result.issues,
+    sheetNames: [],
+  };
+};
+
+// Compare headers ignoring case, spacing and punctuation ("Market Size" == "market_size")
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Propose a mapping by matching each expected column to a header with the same normalized name
+export const suggestColumnMapping = (expected: ExpectedColumn[], headers: string[]): ColumnMapping => {
+  const byNormalized = new Map<string, string>();
+  headers.forEach(header => {
+    const key = normalizeHeader(header);
+    if (!byNormalized.has(key)) byNormalized.set(key, header);
+  });
+
+  const mapping: ColumnMapping = {};
+  expected.forEach(column => {
+    mapping[column.name] = byNormalized.get(normalizeHeader(column.name)) || "";
+  });
+  return mapping;
+};
+
+// Required columns that have no source header assigned
+export const getUnmappedRequiredColumns = (expected: ExpectedColumn[], mapping: ColumnMapping): string[] =>
+  expected.filter(column => column.required && !mapping[column.name]).map(column => column.name);
+
+// Rename source columns to the expected names. Columns not involved in the mapping are kept as-is
+export const applyColumnMapping = (records: RawRecord[], mapping: ColumnMapping): RawRecord[] => {
+  const mappedSources = new Set(Object.values(mapping).filter(Boolean));
+
+  return records.map(record => {
+    const result: RawRecord = {};
+    Object.entries(record).forEach(([key, value]) => {
+      if (!mappedSources.has(key)) result[key] = value;
+    });
+    Object.entries(mapping).forEach(([target, source]) => {
+      if (source) result[target] = record[source] ?? null;
+    });
+    return result;
+  });
+};
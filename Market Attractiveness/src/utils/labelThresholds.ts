@@ -0,0 +1,163 @@
+// Label Thresholds - Re-derive a parameter's three labels from its raw metric using cut points the user sets
+//
+// The *_Score labels arrive precomputed in the attractiveness file. A threshold replaces a parameter's labels
+// with ones cut from its raw column (e.g. HHI at or above 2500 is High) before scores are calculated.
+
+import { RAW_METRICS } from "./continuousScoring";
+import { getParameter } from "./parameterRegistry";
+
+// Raw-value cut points: below lower, between, and at or above upper get the parameter's three labels
+export interface LabelThreshold {
+  lower: number;
+  upper: number;
+}
+
+// Keyed by parameter id. Parameters without a threshold keep the labels from the file
+export type LabelThresholds = Record<string, LabelThreshold>;
+
+// Labels in order of increasing raw value, or null when the parameter has no raw metric or isn't a three-label scale
+export const getThresholdLabels = (parameterId: string): [string, string, string] | null => {
+  const parameter = getParameter(parameterId);
+  const metric = RAW_METRICS[parameterId];
+  if (!parameter || !metric || parameter.values.length !== 3) return null;
+  const [bottom, middle, top] = parameter.values;
+  return metric.higherIsTopLabel ? [bottom, middle, top] : [top, middle, bottom];
+};
+
+export const canSetThreshold = (parameterId: string): boolean => getThresholdLabels(parameterId) !== null;
+
+const labelColumn = (parameterId: string) => getParameter(parameterId)?.column ?? `${parameterId}_Score`;
+
+export const getRawValue = (row: Record<string, any>, parameterId: string): number | null => {
+  const metric = RAW_METRICS[parameterId];
+  if (!metric) return null;
+  const value = row[metric.column];
+  const number = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return isFinite(number) ? number : null;
+};
+
+export const getRawValues = (rows: Record<string, any>[], parameterId: string): number[] =>
+  rows
+    .map(row => getRawValue(row, parameterId))
+    .filter((value): value is number => value !== null);
+
+export const deriveLabel = (value: number, threshold: LabelThreshold, labels: [string, string, string]): string => {
+  if (value < threshold.lower) return labels[0];
+  if (value < threshold.upper) return labels[1];
+  return labels[2];
+};
+
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const base = Math.floor(position);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (next - sorted[base]) * (position - base);
+};
+
+/**
+ * Cut points that reproduce the labels in the file, as a starting point for editing
+ * When a parameter's labels overlap on the raw values (they weren't cut from this column alone),
+ * tertiles are used instead and reproducesLabels is false
+ */
+export const inferThreshold = (
+  rows: Record<string, any>[],
+  parameterId: string
+): { threshold: LabelThreshold; reproducesLabels: boolean } | null => {
+  const labels = getThresholdLabels(parameterId);
+  const values = getRawValues(rows, parameterId).sort((a, b) => a - b);
+  if (!labels || values.length === 0) return null;
+
+  const ranges = labels.map(label => {
+    const labelValues = rows
+      .filter(row => row[labelColumn(parameterId)] === label)
+      .map(row => getRawValue(row, parameterId))
+      .filter((value): value is number => value !== null);
+    return labelValues.length > 0 ? { min: Math.min(...labelValues), max: Math.max(...labelValues) } : null;
+  });
+
+  const [bottom, middle, top] = ranges;
+  if (bottom && middle && top && bottom.max < middle.min && middle.max < top.min) {
+    return {
+      threshold: { lower: (bottom.max + middle.min) / 2, upper: (middle.max + top.min) / 2 },
+      reproducesLabels: true,
+    };
+  }
+
+  return {
+    threshold: { lower: quantile(values, 1 / 3), upper: quantile(values, 2 / 3) },
+    reproducesLabels: false,
+  };
+};
+
+/**
+ * Replace the labels of every parameter with a threshold. Rows without a raw value keep their label
+ * Returns the rows unchanged (same array) when no thresholds are set
+ */
+export const applyLabelThresholds = <T extends Record<string, any>>(rows: T[], thresholds: LabelThresholds): T[] => {
+  const active = Object.entries(thresholds).filter(([parameterId]) => canSetThreshold(parameterId));
+  if (active.length === 0) return rows;
+
+  return rows.map(row => {
+    const updated: Record<string, any> = { ...row };
+    active.forEach(([parameterId, threshold]) => {
+      const value = getRawValue(row, parameterId);
+      if (value !== null) {
+        updated[labelColumn(parameterId)] = deriveLabel(value, threshold, getThresholdLabels(parameterId)!);
+      }
+    });
+    return updated as T;
+  });
+};
+
+export interface LabelChangeSummary {
+  parameterId: string;
+  // MSAs whose label differs from the file
+  moved: number;
+  counts: Array<{ label: string; before: number; after: number }>;
+}
+
+// Label counts before and after thresholds for one parameter (rows in the same order)
+export const summarizeLabelChanges = (
+  before: Record<string, any>[],
+  after: Record<string, any>[],
+  parameterId: string
+): LabelChangeSummary => {
+  const column = labelColumn(parameterId);
+  const labels = getThresholdLabels(parameterId) || [];
+  const countOf = (rows: Record<string, any>[], label: string) => rows.filter(row => row[column] === label).length;
+
+  return {
+    parameterId,
+    moved: before.filter((row, index) => row[column] !== after[index]?.[column]).length,
+    counts: [...labels].reverse().map(label => ({
+      label,
+      before: countOf(before, label),
+      after: countOf(after, label),
+    })),
+  };
+};
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+// Equal-width bins over the values
+export const buildHistogram = (values: number[], binCount: number = 20): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [{ x0: min, x1: max, count: values.length }];
+
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    x0: min + index * width,
+    x1: min + (index + 1) * width,
+    count: 0,
+  }));
+  values.forEach(value => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
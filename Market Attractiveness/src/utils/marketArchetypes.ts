@@ -0,0 +1,258 @@
+// Market Archetypes - Groups of MSAs with a similar profile across the attractiveness metrics
+//
+// MSAs are clustered on the same z-scored metrics as the similar-markets search, with a missing value placed
+// at the national average. k-means keeps the best of several seeded k-means++ runs, and hierarchical clustering
+// merges with Ward's linkage until k clusters are left, so the same data and settings always give the same
+// archetypes. Each profile lists the metrics on which the cluster's average is furthest from the national
+// average, and the archetype is named from the registry's trait words for the most distinctive ones.
+
+import { getParameter } from "./parameterRegistry";
+import { DEFAULT_SIMILARITY_DIMENSIONS, SIMILARITY_DIMENSIONS, SimilarityDimension, standardizeDimensions } from "./similarMarkets";
+import { createRandom } from "./rankStability";
+
+export type ArchetypeMethod = "kmeans" | "hierarchical";
+
+export interface ArchetypeOptions {
+  method: ArchetypeMethod;
+  k: number;
+  // Ids from SIMILARITY_DIMENSIONS
+  dimensionIds: string[];
+}
+
+export interface ArchetypeFeature {
+  dimensionId: string;
+  label: string;
+  // Cluster average in standard deviations from the national average
+  meanZ: number;
+  value: string;
+  nationalValue: string;
+  // Trait word for the end of the scale the cluster leans toward
+  trait: string | null;
+}
+
+export interface ArchetypeProfile {
+  index: number;
+  name: string;
+  color: string;
+  msas: string[];
+  // Every metric, most distinctive first
+  features: ArchetypeFeature[];
+  // The features that set the cluster apart (at least half a standard deviation from average)
+  distinctive: ArchetypeFeature[];
+}
+
+export interface ArchetypeResult {
+  options: ArchetypeOptions;
+  // Largest first
+  profiles: ArchetypeProfile[];
+  // Archetype name by MSA
+  assignments: Map<string, string>;
+  // Mean silhouette, -1 to 1: higher when MSAs sit well inside their own cluster
+  silhouette: number;
+}
+
+export const MIN_ARCHETYPES = 2;
+export const MAX_ARCHETYPES = 8;
+
+export const DEFAULT_ARCHETYPE_OPTIONS: ArchetypeOptions = {
+  method: "kmeans",
+  k: 4,
+  dimensionIds: DEFAULT_SIMILARITY_DIMENSIONS,
+};
+
+export const ARCHETYPE_COLORS = ["#2563eb", "#f97316", "#16a34a", "#9333ea", "#dc2626", "#0891b2", "#ca8a04", "#db2777"];
+
+export const ARCHETYPE_METHOD_LABELS: Record<ArchetypeMethod, string> = {
+  kmeans: "k-means",
+  hierarchical: "Hierarchical (Ward)",
+};
+
+const KMEANS_RUNS = 10;
+const KMEANS_ITERATIONS = 100;
+const DISTINCTIVE_Z = 0.5;
+
+const squaredDistance = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0);
+
+const centroidOf = (points: number[][], members: number[]) => {
+  const centroid = new Array(points[0].length).fill(0);
+  members.forEach(member => points[member].forEach((value, i) => (centroid[i] += value / members.length)));
+  return centroid;
+};
+
+const inertiaOf = (points: number[][], labels: number[], k: number) => {
+  const centroids = Array.from({ length: k }, (_, c) => centroidOf(points, labels.flatMap((label, i) => (label === c ? [i] : []))));
+  return points.reduce((sum, point, i) => sum + squaredDistance(point, centroids[labels[i]]), 0);
+};
+
+const kMeans = (points: number[][], k: number): number[] => {
+  const random = createRandom(1);
+  let best: { labels: number[]; inertia: number } | null = null;
+
+  for (let run = 0; run < KMEANS_RUNS; run++) {
+    // k-means++: each next centre is drawn with probability proportional to its squared distance
+    const centroids = [points[Math.floor(random() * points.length)]];
+    while (centroids.length < k) {
+      const weights = points.map(point => Math.min(...centroids.map(centroid => squaredDistance(point, centroid))));
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      let pick = random() * total;
+      const index = weights.findIndex(weight => (pick -= weight) <= 0);
+      centroids.push(points[index === -1 || total === 0 ? Math.floor(random() * points.length) : index]);
+    }
+
+    let labels = new Array(points.length).fill(-1);
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+      const next = points.map(point => {
+        let nearest = 0;
+        centroids.forEach((centroid, c) => {
+          if (squaredDistance(point, centroid) < squaredDistance(point, centroids[nearest])) nearest = c;
+        });
+        return nearest;
+      });
+      if (next.every((label, i) => label === labels[i])) break;
+      labels = next;
+      centroids.forEach((_, c) => {
+        const members = labels.flatMap((label, i) => (label === c ? [i] : []));
+        // An emptied cluster keeps its centre
+        if (members.length > 0) centroids[c] = centroidOf(points, members);
+      });
+    }
+
+    const inertia = inertiaOf(points, labels, k);
+    if (!best || inertia < best.inertia) best = { labels, inertia };
+  }
+  return best!.labels;
+};
+
+// Agglomerative clustering with Ward's linkage (Lance-Williams updates on squared distances)
+const hierarchical = (points: number[][], k: number): number[] => {
+  const n = points.length;
+  const distance = points.map(a => points.map(b => squaredDistance(a, b)));
+  const sizes = new Array(n).fill(1);
+  const members = points.map((_, i) => [i]);
+  const active = new Set(points.map((_, i) => i));
+
+  while (active.size > k) {
+    let pair: [number, number] = [-1, -1];
+    let closest = Infinity;
+    active.forEach(i => active.forEach(j => {
+      if (i < j && distance[i][j] < closest) {
+        closest = distance[i][j];
+        pair = [i, j];
+      }
+    }));
+    const [a, b] = pair;
+    active.forEach(c => {
+      if (c === a || c === b) return;
+      const total = sizes[a] + sizes[b] + sizes[c];
+      const merged = ((sizes[a] + sizes[c]) * distance[a][c] + (sizes[b] + sizes[c]) * distance[b][c] - sizes[c] * closest) / total;
+      distance[a][c] = merged;
+      distance[c][a] = merged;
+    });
+    sizes[a] += sizes[b];
+    members[a].push(...members[b]);
+    active.delete(b);
+  }
+
+  const labels = new Array(n).fill(0);
+  Array.from(active).forEach((cluster, c) => members[cluster].forEach(i => (labels[i] = c)));
+  return labels;
+};
+
+const silhouetteOf = (points: number[][], labels: number[], k: number) => {
+  if (k < 2) return 0;
+  const scores = points.map((point, i) => {
+    const meanTo = (c: number) => {
+      const others = labels.flatMap((label, j) => (label === c && j !== i ? [Math.sqrt(squaredDistance(point, points[j]))] : []));
+      return others.length > 0 ? others.reduce((sum, d) => sum + d, 0) / others.length : null;
+    };
+    const own = meanTo(labels[i]);
+    // A cluster of one scores 0
+    if (own === null) return 0;
+    const nearest = Math.min(
+      ...Array.from({ length: k }, (_, c) => c).filter(c => c !== labels[i]).map(c => meanTo(c) ?? Infinity)
+    );
+    return nearest === Infinity ? 0 : (nearest - own) / Math.max(own, nearest);
+  });
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+};
+
+const traitFor = (dimension: SimilarityDimension, meanZ: number): string | null => {
+  const traits = getParameter(dimension.parameterId)?.traits;
+  if (!traits) return null;
+  return meanZ > 0 === dimension.higherIsTopLabel ? traits.top : traits.bottom;
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Cluster the rows into k archetypes over the chosen metrics and profile each one
+ * k is capped at the number of rows; returns no profiles when there are fewer than two rows
+ */
+export const findArchetypes = (rows: Record<string, any>[], options: ArchetypeOptions): ArchetypeResult => {
+  const dimensions = options.dimensionIds
+    .map(id => SIMILARITY_DIMENSIONS.find(dimension => dimension.id === id))
+    .filter((dimension): dimension is SimilarityDimension => dimension !== undefined);
+  const k = Math.min(Math.max(MIN_ARCHETYPES, options.k), MAX_ARCHETYPES, rows.length);
+
+  if (rows.length < MIN_ARCHETYPES || dimensions.length === 0) {
+    return { options, profiles: [], assignments: new Map(), silhouette: 0 };
+  }
+
+  // Row-major z-scores; a missing value sits at the national average
+  const zScores = standardizeDimensions(rows, dimensions);
+  const points = rows.map((_, i) => zScores.map(z => z[i] ?? 0));
+
+  const labels = options.method === "hierarchical" ? hierarchical(points, k) : kMeans(points, k);
+
+  const nationalMeans = dimensions.map(dimension => {
+    const values = rows.map(row => dimension.getValue(row)).filter((value): value is number => value !== null);
+    return values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+  });
+
+  const clusters = Array.from({ length: k }, (_, c) => labels.flatMap((label, i) => (label === c ? [i] : [])))
+    .filter(members => members.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+  const usedNames = new Set<string>();
+  const profiles = clusters.map((members, index): ArchetypeProfile => {
+    const features = dimensions
+      .map((dimension, d): ArchetypeFeature => {
+        const meanZ = members.reduce((sum, i) => sum + points[i][d], 0) / members.length;
+        const values = members.map(i => dimension.getValue(rows[i])).filter((value): value is number => value !== null);
+        const mean = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+        return {
+          dimensionId: dimension.id,
+          label: dimension.label,
+          meanZ,
+          value: mean === null ? "-" : dimension.format(mean),
+          nationalValue: dimension.format(nationalMeans[d]),
+          trait: traitFor(dimension, meanZ),
+        };
+      })
+      .sort((a, b) => Math.abs(b.meanZ) - Math.abs(a.meanZ));
+    const distinctive = features.filter(feature => Math.abs(feature.meanZ) >= DISTINCTIVE_Z).slice(0, 3);
+
+    // Two trait words, a third if that name is taken, then a number
+    const traits = Array.from(new Set(distinctive.map(feature => feature.trait).filter((trait): trait is string => trait !== null)));
+    let name = traits.length > 0 ? capitalize(traits.slice(0, 2).join(" ")) : "Average profile";
+    if (usedNames.has(name) && traits.length > 2) name = capitalize(traits.join(" "));
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${name.replace(/ \d+$/, "")} ${suffix}`;
+    }
+    usedNames.add(name);
+
+    return {
+      index,
+      name,
+      color: ARCHETYPE_COLORS[index % ARCHETYPE_COLORS.length],
+      msas: members.map(i => rows[i].MSA as string).sort((a, b) => a.localeCompare(b)),
+      features,
+      distinctive,
+    };
+  });
+
+  const assignments = new Map<string, string>();
+  profiles.forEach(profile => profile.msas.forEach(msa => assignments.set(msa, profile.name)));
+
+  return { options, profiles, assignments, silhouette: silhouetteOf(points, labels, k) };
+};
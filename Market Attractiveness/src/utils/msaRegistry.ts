@@ -0,0 +1,191 @@
+// MSA Registry - Canonical MSA identifiers keyed by CBSA code
+//
+// Each file spells markets its own way: "AL-Birmingham" (attractiveness/opportunity), "AZ-Phoenix-Mesa"
+// (economics), "Birmingham-Hoover, AL MSA" (geo_maps). Every join between datasets resolves names here
+// so markets match on CBSA code rather than on how the name happens to be written.
+// The registry covers the markets in the datasets; the rest of geo_maps joins by name.
+
+export interface MSARegistryEntry {
+  // 5-digit OMB CBSA code (metropolitan division code for divisions)
+  cbsa: string;
+  // OMB title, "Principal City-Other Cities, ST-ST"
+  name: string;
+  // Principal state first
+  states: string[];
+  // Other spellings used by our source files
+  aliases: string[];
+}
+
+// Declared as [cbsa, OMB title, aliases]; states are read from the title
+const REGISTRY_DATA: Array<[string, string, string[]]> = [
+  ["13820", "Birmingham, AL", ["AL-Birmingham", "Birmingham-Hoover, AL MSA"]],
+  ["38060", "Phoenix-Mesa-Chandler, AZ", ["AZ-Phoenix-Mesa-Chandler", "AZ-Phoenix-Mesa", "Phoenix-Mesa-Scottsdale, AZ MSA"]],
+  ["23420", "Fresno, CA", ["CA-Fresno", "Fresno, CA MSA"]],
+  ["31080", "Los Angeles-Long Beach-Anaheim, CA", ["CA-Los Angeles-Long Beach-Anaheim", "CA-Los Angeles", "Los Angeles-Long Beach-Santa Ana, CA MSA"]],
+  ["40140", "Riverside-San Bernardino-Ontario, CA", ["CA-Riverside-San Bernardino-Ontario", "CA-Riverside", "Riverside-San Bernardino-Ontario, CA MSA"]],
+  ["40900", "Sacramento-Roseville-Folsom, CA", ["CA-Sacramento-Roseville-Folsom", "CA-Sacramento", "Sacramento-Arden-Arcade-Roseville, CA MSA"]],
+  ["41740", "San Diego-Chula Vista-Carlsbad, CA", ["CA-San Diego-Chula Vista-Carlsbad", "CA-San Diego", "San Diego-Carlsbad-San Marcos, CA MSA"]],
+  ["41860", "San Francisco-Oakland-Fremont, CA", ["CA-San Francisco-Oakland-Fremont", "CA-San Francisco", "San Francisco-Oakland-Fremont, CA MSA", "San Francisco-Oakland-Berkeley, CA"]],
+  ["41940", "San Jose-Sunnyvale-Santa Clara, CA", ["CA-San Jose-Sunnyvale-Santa Clara", "CA-San Jose", "San Jose-Sunnyvale-Santa Clara, CA MSA"]],
+  ["19740", "Denver-Aurora-Centennial, CO", ["CO-Denver-Aurora-Centennial", "CO-Denver-Aurora", "Denver-Aurora, CO MSA", "Denver-Aurora-Lakewood, CO"]],
+  ["25540", "Hartford-West Hartford-East Hartford, CT", ["CT-Hartford-East Hartford-Middletown", "CT-Hartford", "Hartford-West Hartford-East Hartford, CT MSA"]],
+  ["47900", "Washington-Arlington-Alexandria, DC-VA-MD-WV", ["DC-VA-MD-WV-Washington-Arlington-Alexandria", "DC-Washington", "Washington-Arlington-Alexandria, DC-VA-MD-WV MSA"]],
+  ["27260", "Jacksonville, FL", ["FL-Jacksonville", "Jacksonville, FL MSA"]],
+  ["33100", "Miami-Fort Lauderdale-West Palm Beach, FL", ["FL-Miami-Fort Lauderdale-West Palm Beach", "FL-Miami-Fort", "Miami-Fort Lauderdale-Pompano Beach, FL MSA"]],
+  ["36740", "Orlando-Kissimmee-Sanford, FL", ["FL-Orlando-Kissimmee-Sanford", "FL-Orlando", "Orlando-Kissimmee, FL MSA"]],
+  ["45300", "Tampa-St. Petersburg-Clearwater, FL", ["FL-Tampa-St. Petersburg-Clearwater", "FL-Tampa-St", "Tampa-St. Petersburg-Clearwater, FL MSA"]],
+  ["12060", "Atlanta-Sandy Springs-Roswell, GA", ["GA-Atlanta-Sandy Springs-Roswell", "GA-Atlanta-Sandy", "Atlanta-Sandy Springs-Marietta, GA MSA", "Atlanta-Sandy Springs-Alpharetta, GA"]],
+  ["16980", "Chicago-Naperville-Elgin, IL-IN", ["IL-IN-Chicago-Naperville-Elgin", "IL-Chicago", "Chicago-Naperville-Joliet, IL-IN-WI MSA", "Chicago-Naperville-Elgin, IL-IN-WI"]],
+  ["26900", "Indianapolis-Carmel-Greenwood, IN", ["IN-Indianapolis-Carmel-Greenwood", "IN-Indianapolis", "Indianapolis-Carmel, IN MSA", "Indianapolis-Carmel-Anderson, IN"]],
+  ["31140", "Louisville/Jefferson County, KY-IN", ["KY-IN-Louisville/Jefferson County", "KY-Louisville", "Louisville/Jefferson County, KY-IN MSA"]],
+  ["35380", "New Orleans-Metairie, LA", ["LA-New Orleans", "New Orleans-Metairie-Kenner, LA MSA"]],
+  ["14460", "Boston-Cambridge-Newton, MA-NH", ["MA-NH-Boston-Cambridge-Newton", "MA-Boston", "Boston-Cambridge-Quincy, MA-NH MSA"]],
+  ["12580", "Baltimore-Columbia-Towson, MD", ["MD-Baltimore-Columbia-Towson", "MD-Baltimore", "Baltimore-Towson, MD MSA"]],
+  ["19820", "Detroit-Warren-Dearborn, MI", ["MI-Detroit-Warren-Dearborn", "MI-Detroit", "Detroit-Warren-Livonia, MI MSA"]],
+  ["24340", "Grand Rapids-Wyoming-Kentwood, MI", ["MI-Grand Rapids-Wyoming-Kentwood", "MI-Grand Rapids", "Grand Rapids-Wyoming, MI MSA"]],
+  ["33460", "Minneapolis-St. Paul-Bloomington, MN-WI", ["MN-WI-Minneapolis-St. Paul-Bloomington", "MN-Minneapolis", "Minneapolis-St. Paul-Bloomington, MN-WI MSA"]],
+  ["41180", "St. Louis, MO-IL", ["MO-IL-St. Louis", "MO-St. Louis", "St. Louis, MO-IL MSA"]],
+  ["28140", "Kansas City, MO-KS", ["MO-KS-Kansas City", "MO-Kansas City", "Kansas City, MO-KS MSA"]],
+  ["39580", "Raleigh-Cary, NC", ["NC-Raleigh-Cary", "Raleigh-Cary, NC MSA"]],
+  ["16740", "Charlotte-Concord-Gastonia, NC-SC", ["NC-SC-Charlotte-Concord-Gastonia", "NC-Charlotte", "Charlotte-Gastonia-Concord, NC-SC MSA"]],
+  ["35084", "Newark, NJ-PA", ["NJ-Newark"]], // Metropolitan division of New York-Newark-Jersey City
+  ["29820", "Las Vegas-Henderson-North Las Vegas, NV", ["NV-Las Vegas-Henderson-North Las Vegas", "NV-Las Vegas", "Las Vegas-Paradise, NV MSA", "Las Vegas-Henderson-Paradise, NV"]],
+  ["35620", "New York-Newark-Jersey City, NY-NJ", ["NY-NJ-New York-Newark-Jersey City", "NY-New York", "New York-Northern New Jersey-Long Island, NY-NJ-PA MSA", "New York-Newark-Jersey City, NY-NJ-PA"]],
+  ["17460", "Cleveland, OH", ["OH-Cleveland", "Cleveland-Elyria-Mentor, OH MSA", "Cleveland-Elyria, OH"]],
+  ["18140", "Columbus, OH", ["OH-Columbus", "Columbus, OH MSA"]],
+  ["17140", "Cincinnati, OH-KY-IN", ["OH-KY-IN-Cincinnati", "OH-Cincinnati", "Cincinnati-Middletown, OH-KY-IN MSA"]],
+  ["36420", "Oklahoma City, OK", ["OK-Oklahoma City", "Oklahoma City, OK MSA"]],
+  ["38900", "Portland-Vancouver-Hillsboro, OR-WA", ["OR-WA-Portland-Vancouver-Hillsboro", "OR-Portland", "Portland-Vancouver-Beaverton, OR-WA MSA"]],
+  ["37980", "Philadelphia-Camden-Wilmington, PA-NJ-DE-MD", ["PA-NJ-DE-MD-Philadelphia-Camden-Wilmington", "PA-Philadelphia", "Philadelphia-Camden-Wilmington, PA-NJ-DE-MD MSA"]],
+  ["38300", "Pittsburgh, PA", ["PA-Pittsburgh", "Pittsburgh, PA MSA"]],
+  ["39300", "Providence-Warwick, RI-MA", ["RI-MA-Providence-Warwick", "RI-Providence", "Providence-New Bedford-Fall River, RI-MA MSA"]],
+  ["32820", "Memphis, TN-MS-AR", ["TN-MS-AR-Memphis", "TN-Memphis", "Memphis, TN-AR-MS MSA"]],
+  ["34980", "Nashville-Davidson--Murfreesboro--Franklin, TN", ["TN-Nashville-Davidson--Murfreesboro--Franklin", "TN-Nashville", "Nashville-Davidson-Murfreesboro-Franklin, TN MSA"]],
+  ["12420", "Austin-Round Rock-San Marcos, TX", ["TX-Austin-Round Rock-San Marcos", "TX-Austin", "Austin-Round Rock, TX MSA", "Austin-Round Rock-Georgetown, TX"]],
+  ["19100", "Dallas-Fort Worth-Arlington, TX", ["TX-Dallas-Fort Worth-Arlington", "TX-Dallas-Fort", "Dallas-Fort Worth-Arlington, TX MSA"]],
+  ["26420", "Houston-Pasadena-The Woodlands, TX", ["TX-Houston-Pasadena-The Woodlands", "TX-Houston", "Houston-Sugar Land-Baytown, TX MSA", "Houston-The Woodlands-Sugar Land, TX"]],
+  ["41700", "San Antonio-New Braunfels, TX", ["TX-San Antonio-New Braunfels", "TX-San Antonio", "San Antonio, TX MSA"]],
+  ["41620", "Salt Lake City-Murray, UT", ["UT-Salt Lake City-Murray", "UT-Salt Lake City", "Salt Lake City, UT MSA"]],
+  ["47260", "Virginia Beach-Chesapeake-Norfolk, VA-NC", ["VA-NC-Virginia Beach-Chesapeake-Norfolk", "VA-Virginia Beach", "Virginia Beach-Norfolk-Newport News, VA-NC MSA"]],
+  ["40060", "Richmond, VA", ["VA-Richmond", "Richmond, VA MSA"]],
+  ["42660", "Seattle-Tacoma-Bellevue, WA", ["WA-Seattle-Tacoma-Bellevue", "WA-Seattle", "Seattle-Tacoma-Bellevue, WA MSA"]],
+  ["33340", "Milwaukee-Waukesha, WI", ["WI-Milwaukee-Waukesha", "WI-Milwaukee", "Milwaukee-Waukesha-West Allis, WI MSA"]],
+];
+
+export const MSA_REGISTRY: MSARegistryEntry[] = REGISTRY_DATA.map(([cbsa, name, aliases]) => ({
+  cbsa,
+  name,
+  states: name.slice(name.lastIndexOf(",") + 1).trim().split("-"),
+  aliases,
+}));
+
+// Lower-case, collapse whitespace and drop the "MSA"/"Metro Area" suffixes used by OMB-style files
+export const normalizeMSAName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\s+(msa|metro area|metropolitan statistical area|metropolitan division)$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const byCBSA = new Map(MSA_REGISTRY.map(entry => [entry.cbsa, entry]));
+
+// Alias table: every known spelling (normalized) -> registry entry
+const aliasTable = new Map<string, MSARegistryEntry>();
+MSA_REGISTRY.forEach(entry => {
+  [entry.name, ...entry.aliases].forEach(alias => aliasTable.set(normalizeMSAName(alias), entry));
+});
+
+// Principal city as written in the OMB title ("Louisville/Jefferson County" -> "louisville")
+const principalCity = (city: string) => city.split("/")[0].trim().toLowerCase();
+
+const registryCities = MSA_REGISTRY.map(entry => ({
+  entry,
+  city: principalCity(entry.name.slice(0, entry.name.lastIndexOf(",")).split("-")[0]),
+}));
+
+// Split a name into state codes and principal city, for both "ST-ST-City-City" and "City-City, ST-ST" styles
+const parseMSAName = (name: string): { states: string[]; city: string } | null => {
+  const trimmed = name.trim().replace(/\s+(MSA|Metro Area)$/i, "");
+
+  const prefixed = trimmed.match(/^((?:[A-Z]{2}-)+)(.+)$/);
+  if (prefixed) {
+    return {
+      states: prefixed[1].split("-").filter(Boolean),
+      city: principalCity(prefixed[2].split("-")[0]),
+    };
+  }
+
+  const suffixed = trimmed.match(/^(.+),\s*([A-Z]{2}(?:-[A-Z]{2})*)$/);
+  if (suffixed) {
+    return {
+      states: suffixed[2].split("-"),
+      city: principalCity(suffixed[1].split("-")[0]),
+    };
+  }
+
+  return null;
+};
+
+const resolvedCache = new Map<string, MSARegistryEntry | null>();
+
+/**
+ * Resolve any MSA spelling (or a CBSA code) to its registry entry
+ * 1. CBSA code
+ * 2. Alias table (exact spelling, ignoring case and the MSA suffix)
+ * 3. Same principal city and at least one shared state - catches new spellings of known markets
+ * Returns null when the name can't be matched
+ */
+export const resolveMSA = (name: string | null | undefined): MSARegistryEntry | null => {
+  if (!name) return null;
+
+  const cached = resolvedCache.get(name);
+  if (cached !== undefined) return cached;
+
+  const trimmed = name.trim();
+  let entry: MSARegistryEntry | null =
+    byCBSA.get(trimmed) ||
+    aliasTable.get(normalizeMSAName(trimmed)) ||
+    null;
+
+  if (!entry) {
+    const parsed = parseMSAName(trimmed);
+    if (parsed) {
+      const match = registryCities.find(({ entry: candidate, city }) =>
+        city === parsed.city && candidate.states.some(state => parsed.states.includes(state))
+      );
+      entry = match?.entry || null;
+    }
+  }
+
+  resolvedCache.set(name, entry);
+  return entry;
+};
+
+/**
+ * Join key for an MSA name: its CBSA code when known, otherwise the normalized name
+ * so unmatched markets still join with identical spellings of themselves
+ */
+export const getMSAKey = (name: string | null | undefined): string => {
+  const entry = resolveMSA(name);
+  return entry ? entry.cbsa : `name:${normalizeMSAName(name || "")}`;
+};
+
+export const isSameMSA = (a: string | null | undefined, b: string | null | undefined): boolean =>
+  getMSAKey(a) === getMSAKey(b);
+
+/**
+ * Names (with the sources they came from) that didn't resolve to a registry entry
+ */
+export const findUnmatchedMSAs = (namesBySource: Record<string, Iterable<string>>): Array<{ name: string; sources: string[] }> => {
+  const unmatched = new Map<string, Set<string>>();
+  Object.entries(namesBySource).forEach(([source, names]) => {
+    for (const name of names) {
+      if (!name || resolveMSA(name)) continue;
+      if (!unmatched.has(name)) unmatched.set(name, new Set());
+      unmatched.get(name)!.add(source);
+    }
+  });
+  return Array.from(unmatched.entries())
+    .map(([name, sources]) => ({ name, sources: Array.from(sources) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,333 @@
+// Parameter Registry - One declarative entry per scoring parameter
+//
+// Each entry says where the parameter's label lives in the attractiveness file, which values it takes
+// (from the bottom of its scale to the top), which end makes a market more attractive, its raw metric
+// and how it's described. Scoring, exclusions, the What-If parameter cards, the explorer's column filters
+// and the breakdown dialogs all read from here, so adding a metric means adding an entry.
+
+export type ScaleEnd = "top" | "bottom";
+
+export interface RawMetric {
+  column: string;
+  // Whether a higher raw value goes with the top of the parameter's scale (High, Above National Avg, Premium)
+  higherIsTopLabel: boolean;
+  // How raw values are displayed; two decimals when omitted
+  format?: "integer" | "percent" | "millions" | "thousands";
+}
+
+export interface ParameterDefinition {
+  id: string;
+  // Label column in the attractiveness file
+  column: string;
+  label: string;
+  // For table headers and chart axes
+  shortLabel: string;
+  description: string;
+  // What each value means, one line per value
+  valueGuide: string;
+  // Short note on which way is better, shown on the parameter cards
+  directionHint: string;
+  // Values from the bottom of the scale to the top
+  values: string[];
+  // Other spellings found in the data, mapped to one of the values
+  aliases?: Record<string, string>;
+  // The end of the scale that makes a market more attractive
+  better: ScaleEnd;
+  // Raw column behind the label, for continuous scoring and label thresholds
+  rawMetric?: RawMetric;
+  // Offered in the What-If modes; label columns that aren't scored are kept for display
+  scorable: boolean;
+  // Weight (%) in the weights modes
+  defaultWeight: number;
+  // Bucket the parameter starts in, targeting its better end, and its place in that bucket
+  defaultBucket?: { bucket: "high" | "medium"; position: number };
+  // How to describe MSAs toward the top and bottom of the scale, for naming market archetypes
+  traits?: { top: string; bottom: string };
+}
+
+const LEVELS = ["Low", "Medium", "High"];
+
+export const PARAMETERS: ParameterDefinition[] = [
+  {
+    id: "HHI",
+    column: "HHI_Score",
+    label: "Market Concentration",
+    shortLabel: "Market Conc.",
+    description: "Market Concentration - Measures market concentration and competition intensity",
+    valueGuide: "• High = Concentrated market with few dominant players (LESS attractive - harder to compete)\n• Medium = Moderately concentrated market\n• Low = Competitive market with many players (MORE attractive - easier entry)",
+    directionHint: "Lower is better",
+    values: LEVELS,
+    better: "bottom",
+    rawMetric: { column: "Herfindahl-Hirschman Index (HHI)", higherIsTopLabel: true, format: "integer" },
+    scorable: true,
+    defaultWeight: 12,
+    defaultBucket: { bucket: "high", position: 0 },
+    traits: { top: "consolidated", bottom: "fragmented" },
+  },
+  {
+    id: "Economic_Growth",
+    column: "Economic_Growth_Score",
+    label: "Economic Growth",
+    shortLabel: "Econ. Growth",
+    description: "Economic Growth Rate - Measures the pace of economic expansion in the MSA",
+    valueGuide: "• High = Strong economic growth (MORE attractive - expanding opportunity)\n• Medium = Moderate growth\n• Low = Slower growth (LESS attractive - limited expansion)",
+    directionHint: "Higher is better",
+    values: LEVELS,
+    better: "top",
+    rawMetric: { column: "Economic_Growth", higherIsTopLabel: true },
+    scorable: true,
+    defaultWeight: 12,
+    defaultBucket: { bucket: "high", position: 1 },
+    traits: { top: "high-growth", bottom: "slow-growth" },
+  },
+  {
+    id: "Loan_Growth",
+    column: "Loan_Growth_Score",
+    label: "Loan Growth",
+    shortLabel: "Loan Growth",
+    description: "Loan Growth Rate - Measures the rate at which lending volume is growing",
+    valueGuide: "• High = Strong loan growth (MORE attractive - increasing demand)\n• Medium = Moderate loan growth\n• Low = Slower loan growth (LESS attractive - stagnant market)",
+    directionHint: "Higher is better",
+    values: LEVELS,
+    better: "top",
+    rawMetric: { column: "Lending Volume Annual Change", higherIsTopLabel: true },
+    scorable: true,
+    defaultWeight: 10,
+    defaultBucket: { bucket: "medium", position: 0 },
+    traits: { top: "fast-lending", bottom: "slow-lending" },
+  },
+  {
+    id: "Risk",
+    column: "Risk_Score",
+    label: "Weighted Average Credit Risk",
+    shortLabel: "Credit Risk",
+    description: "Weighted Average Credit Risk - Overall credit risk profile of the market",
+    valueGuide: "• High = Higher risk loans (may offer better returns but more defaults)\n• Medium = Moderate risk profile\n• Low = Lower risk loans (safer but lower returns)",
+    directionHint: "Higher is riskier",
+    values: LEVELS,
+    better: "bottom",
+    rawMetric: { column: "Risk", higherIsTopLabel: true },
+    scorable: true,
+    defaultWeight: 8,
+    defaultBucket: { bucket: "medium", position: 2 },
+    traits: { top: "high-risk", bottom: "low-risk" },
+  },
+  {
+    id: "Risk_Migration",
+    column: "Risk_Migration_Score",
+    label: "1-Year Credit Risk Migration",
+    shortLabel: "Risk Migration",
+    description: "1-Year Credit Risk Migration - Rate at which credit quality is changing over time",
+    valueGuide: "• High = Credit quality deteriorating rapidly (LESS attractive - increasing defaults)\n• Medium = Moderate changes in credit quality\n• Low = Credit quality stable or improving (MORE attractive - healthier market)",
+    directionHint: "Lower is better",
+    values: LEVELS,
+    better: "bottom",
+    // Net migration is negative when downgrades dominate, which is what a High risk migration label means
+    rawMetric: { column: "Net_Risk_Migration", higherIsTopLabel: false },
+    scorable: true,
+    defaultWeight: 12,
+    defaultBucket: { bucket: "high", position: 2 },
+    traits: { top: "deteriorating-credit", bottom: "improving-credit" },
+  },
+  {
+    id: "Relative_Risk_Migration",
+    column: "Relative_Risk_Migration_Score",
+    label: "Relative Risk Migration",
+    shortLabel: "Rel. Risk Mig.",
+    description: "Relative Risk Migration - Market's risk migration compared to national average",
+    valueGuide: "• Below National = Better than average credit trends (MORE attractive)\n• At National = Average credit trends\n• Above National = Worse than average credit trends (LESS attractive)",
+    directionHint: "Below National Avg is best, Above National Avg is worst",
+    values: ["Below National Avg", "At National Avg", "Above National Avg"],
+    aliases: {
+      "Below National": "Below National Avg",
+      "At National": "At National Avg",
+      "Above National": "Above National Avg",
+    },
+    better: "bottom",
+    rawMetric: { column: "Relative_Risk_Migration", higherIsTopLabel: false },
+    scorable: true,
+    defaultWeight: 10,
+    defaultBucket: { bucket: "medium", position: 1 },
+    traits: { top: "credit-lagging", bottom: "credit-leading" },
+  },
+  {
+    id: "Premium_Discount",
+    column: "Premium_Discount_Score",
+    label: "Premium / Discount Loan Pricing",
+    shortLabel: "Premium/Disc.",
+    description: "Premium / Discount Loan Pricing - Pricing level relative to risk-adjusted returns",
+    valueGuide: "• Premium = Pricing above fair value (LESS attractive - overpriced market)\n• Par = Pricing at fair value\n• Discount = Pricing below fair value (MORE attractive - underpriced opportunity)",
+    directionHint: "Premium is better",
+    values: ["Discount", "Par", "Premium"],
+    better: "top",
+    rawMetric: { column: "Price", higherIsTopLabel: true, format: "integer" },
+    scorable: true,
+    defaultWeight: 12,
+    defaultBucket: { bucket: "high", position: 3 },
+    traits: { top: "premium", bottom: "discount" },
+  },
+  {
+    id: "Pricing_Rationality",
+    column: "Pricing_Rationality_Score",
+    label: "Loan Pricing Rationality",
+    shortLabel: "Pricing",
+    description: "Loan Pricing Rationality - Whether market pricing appropriately reflects underlying risk",
+    valueGuide: "• Rational = Pricing matches risk levels (MORE attractive - predictable market)\n• Irrational = Pricing disconnected from risk (LESS attractive - unpredictable returns)",
+    directionHint: "Rational is better",
+    values: ["Irrational", "Rational"],
+    // The source data splits irrational pricing by direction
+    aliases: {
+      "Overpriced (Opportunity)": "Irrational",
+      "Underpriced (Risk)": "Irrational",
+    },
+    better: "top",
+    scorable: true,
+    defaultWeight: 12,
+    defaultBucket: { bucket: "high", position: 4 },
+    traits: { top: "rational-pricing", bottom: "irrational-pricing" },
+  },
+  {
+    id: "International_CM",
+    column: "International_CM_Score",
+    label: "International CM",
+    shortLabel: "Intl. CM",
+    description: "International Cash Management - Size of international cash management opportunities",
+    valueGuide: "• High = Large international CM opportunity (MORE attractive - significant revenue potential)\n• Medium = Moderate opportunity size\n• Low = Small opportunity (LESS attractive - limited revenue potential)",
+    directionHint: "Higher is better",
+    values: LEVELS,
+    better: "top",
+    rawMetric: { column: "Proportion of International Cash Management Revenue", higherIsTopLabel: true, format: "percent" },
+    scorable: true,
+    defaultWeight: 12,
+    defaultBucket: { bucket: "high", position: 5 },
+    traits: { top: "international", bottom: "domestic" },
+  },
+  {
+    id: "Market_Size",
+    column: "Market_Size_Score",
+    label: "Market Size",
+    shortLabel: "Size Tier",
+    description: "Market Size - Total revenue pool for the product in the MSA",
+    valueGuide: "• High = Large revenue pool\n• Medium = Mid-sized market\n• Low = Small revenue pool",
+    directionHint: "Higher is better",
+    values: LEVELS,
+    better: "top",
+    rawMetric: { column: "Market Size", higherIsTopLabel: true, format: "millions" },
+    scorable: true,
+    // Not part of the original model, so it starts unweighted and outside the buckets
+    defaultWeight: 0,
+    traits: { top: "large", bottom: "small" },
+  },
+  {
+    id: "Revenue_per_Company",
+    column: "Revenue_per_Company_Score",
+    label: "Revenue per Company",
+    shortLabel: "Rev./Co. Tier",
+    description: "Revenue per Company - Average product revenue per company in the MSA",
+    valueGuide: "• High = Each company brings more revenue\n• Medium = Average revenue per company\n• Low = Each company brings less revenue",
+    directionHint: "Higher is better",
+    values: LEVELS,
+    better: "top",
+    rawMetric: { column: "Revenue per Company", higherIsTopLabel: true, format: "thousands" },
+    scorable: true,
+    // Not part of the original model, so it starts unweighted and outside the buckets
+    defaultWeight: 0,
+    traits: { top: "high-revenue", bottom: "low-revenue" },
+  },
+];
+
+// Parameters offered for scoring, in display order
+export const SCORED_PARAMETERS = PARAMETERS.filter(parameter => parameter.scorable);
+
+const PARAMETERS_BY_ID = new Map(PARAMETERS.map(parameter => [parameter.id, parameter]));
+
+export const getParameter = (parameterId: string): ParameterDefinition | undefined => PARAMETERS_BY_ID.get(parameterId);
+
+export const PARAMETER_LABELS: Record<string, string> = Object.fromEntries(PARAMETERS.map(parameter => [parameter.id, parameter.label]));
+
+// A raw metric value as shown in tables and chart axes
+export const formatRawValue = (parameterId: string, value: number): string => {
+  switch (getParameter(parameterId)?.rawMetric?.format) {
+    case "integer":
+      return value.toFixed(0);
+    case "percent":
+      return `${(value * 100).toFixed(1)}%`;
+    case "millions":
+      return `$${(value / 1000000).toFixed(1)}M`;
+    case "thousands":
+      return `$${(value / 1000).toFixed(1)}K`;
+    default:
+      return value.toFixed(2);
+  }
+};
+
+const toKey = (value: string) => value.toLowerCase().trim().replace(/[\s_]+/g, " ");
+
+/**
+ * The canonical spelling of a value, or null when the parameter doesn't take it
+ * Matching ignores case, spaces vs underscores and follows the aliases
+ */
+export const normalizeValue = (parameterId: string, value: string | null | undefined): string | null => {
+  const parameter = getParameter(parameterId);
+  if (!parameter || value === null || value === undefined) return null;
+  const key = toKey(String(value));
+  if (!key) return null;
+  const match = parameter.values.find(candidate => toKey(candidate) === key);
+  if (match) return match;
+  const alias = Object.entries(parameter.aliases ?? {}).find(([spelling]) => toKey(spelling) === key);
+  return alias ? alias[1] : null;
+};
+
+// Index of a value on the parameter's scale (0 = bottom), or -1
+const scaleIndex = (parameter: ParameterDefinition, value: string | null | undefined): number => {
+  const normalized = normalizeValue(parameter.id, value);
+  return normalized === null ? -1 : parameter.values.indexOf(normalized);
+};
+
+// Values with the more attractive end first
+export const getValuesBestFirst = (parameterId: string): string[] => {
+  const parameter = getParameter(parameterId);
+  if (!parameter) return [];
+  return parameter.better === "top" ? [...parameter.values].reverse() : [...parameter.values];
+};
+
+// The value a parameter scores best at
+export const getPreferredValue = (parameterId: string): string => getValuesBestFirst(parameterId)[0] ?? "";
+
+/**
+ * How attractive a value is on a 1-3 scale (3 at the better end), or 0 for a value the parameter doesn't take
+ * Used to compare and chart labels, e.g. in the radar charts. Scores follow scoreToValue in scoreCalculation.ts
+ */
+export const getLabelScore = (parameterId: string, value: string | null | undefined): number => {
+  const parameter = getParameter(parameterId);
+  if (!parameter) return 0;
+  const index = scaleIndex(parameter, value);
+  if (index === -1) return 0;
+  const position = parameter.values.length > 1 ? index / (parameter.values.length - 1) : 1;
+  return 1 + 2 * (parameter.better === "top" ? position : 1 - position);
+};
+
+// Whether two values are the same once spellings are normalized (unknown values compare as text)
+export const isSameValue = (parameterId: string, a: string | null | undefined, b: string | null | undefined): boolean => {
+  const normalizedA = normalizeValue(parameterId, a);
+  const normalizedB = normalizeValue(parameterId, b);
+  if (normalizedA !== null || normalizedB !== null) return normalizedA === normalizedB;
+  return toKey(String(a ?? "")) === toKey(String(b ?? "")) && toKey(String(a ?? "")) !== "";
+};
+
+// Where a target value sits on its parameter's scale
+export const getTargetPlace = (parameterId: string, value: string): "top" | "middle" | "bottom" | null => {
+  const parameter = getParameter(parameterId);
+  if (!parameter) return null;
+  const index = scaleIndex(parameter, value);
+  if (index === -1) return null;
+  if (index === parameter.values.length - 1) return "top";
+  if (index === 0) return "bottom";
+  return "middle";
+};
+
+// The label an MSA has for a parameter
+export const getParameterValue = (row: Record<string, any>, parameterId: string): string => {
+  const parameter = getParameter(parameterId);
+  return parameter ? String(row[parameter.column] ?? "") : "";
+};
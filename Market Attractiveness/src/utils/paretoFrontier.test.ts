@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { SCORE_OBJECTIVE_ID, computeParetoFrontier } from "./paretoFrontier";
+
+// A higher score is better and a lower risk is better
+const rows = [
+  { MSA: "A", Attractiveness_Score: 3, Risk: 1 },
+  { MSA: "B", Attractiveness_Score: 2, Risk: 2 },
+  { MSA: "C", Attractiveness_Score: 3.5, Risk: 5 },
+  { MSA: "D", Attractiveness_Score: 1, Risk: 6 },
+  { MSA: "E", Attractiveness_Score: 2.5, Risk: "" },
+];
+
+describe("computeParetoFrontier", () => {
+  const result = computeParetoFrontier(rows, [SCORE_OBJECTIVE_ID, "Risk"]);
+  const byMSA = Object.fromEntries(result.points.map(point => [point.msa, point]));
+
+  it("puts the MSAs nothing beats on every objective on the frontier", () => {
+    expect(result.frontier).toEqual(new Set(["A", "C"]));
+  });
+
+  it("peels the frontier off to number the other layers", () => {
+    expect(byMSA.B.layer).toBe(2);
+    expect(byMSA.D.layer).toBe(3);
+  });
+
+  it("lists the MSAs that dominate each point", () => {
+    expect(byMSA.B.dominatedBy).toEqual(["A"]);
+    expect(byMSA.D.dominatedBy).toEqual(["A", "B", "C"]);
+  });
+
+  it("sorts by layer, then by score", () => {
+    expect(result.points.map(point => point.msa)).toEqual(["C", "A", "B", "D"]);
+  });
+
+  it("leaves out MSAs missing an objective value", () => {
+    expect(result.missing).toEqual(["E"]);
+    expect(byMSA.E).toBeUndefined();
+  });
+
+  it("doesn't let equal MSAs dominate each other", () => {
+    const tied = computeParetoFrontier([
+      { MSA: "X", Attractiveness_Score: 2, Risk: 3 },
+      { MSA: "Y", Attractiveness_Score: 2, Risk: 3 },
+    ], [SCORE_OBJECTIVE_ID, "Risk"]);
+    expect(tied.frontier).toEqual(new Set(["X", "Y"]));
+  });
+});
@@ -0,0 +1,158 @@
+// Pareto Frontier - MSAs that no other MSA beats on every chosen objective at once
+//
+// An objective is the attractiveness score or one scored parameter, read from its raw metric (its label score
+// when it has none) and oriented so that more attractive is better. One MSA dominates another when it is at
+// least as good on every objective and better on at least one. The frontier is the MSAs nothing dominates;
+// peeling it off and repeating gives the next layers, so every MSA gets a layer number (1 = frontier).
+
+import { SCORED_PARAMETERS, formatRawValue, getLabelScore, getParameterValue } from "./parameterRegistry";
+
+export interface ParetoObjective {
+  id: string;
+  label: string;
+  // Whether a higher value is more attractive
+  higherIsBetter: boolean;
+  // Column the value comes from, for display
+  source: string;
+  getValue: (row: Record<string, any>) => number | null;
+  format: (value: number) => string;
+}
+
+export interface ParetoPoint {
+  msa: string;
+  // One value per objective, in objective order
+  values: number[];
+  // 1 for the frontier, 2 for the frontier once layer 1 is removed, and so on
+  layer: number;
+  // MSAs that beat this one on every objective
+  dominatedBy: string[];
+}
+
+export interface ParetoResult {
+  objectives: ParetoObjective[];
+  // Best layer first, then by score
+  points: ParetoPoint[];
+  frontier: Set<string>;
+  // MSAs left out because an objective value is missing
+  missing: string[];
+}
+
+export const SCORE_OBJECTIVE_ID = "Attractiveness_Score";
+export const MIN_PARETO_OBJECTIVES = 2;
+export const MAX_PARETO_OBJECTIVES = 4;
+export const DEFAULT_PARETO_OBJECTIVES = [SCORE_OBJECTIVE_ID, "Market_Size", "Risk"];
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return isFinite(number) ? number : null;
+};
+
+const formatNumber = (value: number) => value.toFixed(2);
+
+export const PARETO_OBJECTIVES: ParetoObjective[] = [
+  {
+    id: SCORE_OBJECTIVE_ID,
+    label: "Attractiveness Score",
+    higherIsBetter: true,
+    source: "Attractiveness_Score",
+    getValue: row => toNumber(row.Attractiveness_Score),
+    format: formatNumber,
+  },
+  ...SCORED_PARAMETERS.map((parameter): ParetoObjective => {
+    const metric = parameter.rawMetric;
+    if (!metric) {
+      // No raw metric: the label's 1-3 score, already oriented
+      return {
+        id: parameter.id,
+        label: parameter.label,
+        higherIsBetter: true,
+        source: parameter.column,
+        getValue: row => getLabelScore(parameter.id, getParameterValue(row, parameter.id)) || null,
+        format: formatNumber,
+      };
+    }
+    return {
+      id: parameter.id,
+      label: parameter.label,
+      // Higher raw values go with the top label; whether that's good depends on which end is better
+      higherIsBetter: metric.higherIsTopLabel === (parameter.better === "top"),
+      source: metric.column,
+      getValue: row => toNumber(row[metric.column]),
+      format: value => formatRawValue(parameter.id, value),
+    };
+  }),
+];
+
+export const getParetoObjective = (id: string): ParetoObjective | undefined =>
+  PARETO_OBJECTIVES.find(objective => objective.id === id);
+
+// a dominates b: at least as good everywhere and better somewhere (values already oriented)
+const dominates = (a: number[], b: number[]) => {
+  let better = false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return false;
+    if (a[i] > b[i]) better = true;
+  }
+  return better;
+};
+
+/**
+ * Pareto layers of the rows over the chosen objectives (ids from PARETO_OBJECTIVES)
+ * Rows missing a value for any objective are left out and listed
+ */
+export const computeParetoFrontier = (rows: Record<string, any>[], objectiveIds: string[]): ParetoResult => {
+  const objectives = objectiveIds
+    .map(getParetoObjective)
+    .filter((objective): objective is ParetoObjective => objective !== undefined);
+
+  const missing: string[] = [];
+  const candidates: { msa: string; values: number[]; oriented: number[]; score: number }[] = [];
+  rows.forEach(row => {
+    const values = objectives.map(objective => objective.getValue(row));
+    if (values.some(value => value === null)) {
+      missing.push(row.MSA);
+      return;
+    }
+    const known = values as number[];
+    candidates.push({
+      msa: row.MSA,
+      values: known,
+      oriented: known.map((value, i) => (objectives[i].higherIsBetter ? value : -value)),
+      score: toNumber(row.Attractiveness_Score) ?? 0,
+    });
+  });
+
+  const dominatedBy = candidates.map(candidate =>
+    candidates.filter(other => other !== candidate && dominates(other.oriented, candidate.oriented)).map(other => other.msa)
+  );
+
+  // Non-dominated sorting: peel off the current frontier until everything has a layer
+  const layers = new Array<number>(candidates.length).fill(0);
+  let remaining = candidates.map((_, index) => index);
+  for (let layer = 1; remaining.length > 0; layer++) {
+    const front = remaining.filter(i => !remaining.some(j => j !== i && dominates(candidates[j].oriented, candidates[i].oriented)));
+    front.forEach(i => {
+      layers[i] = layer;
+    });
+    remaining = remaining.filter(i => layers[i] === 0);
+  }
+
+  const points = candidates
+    .map((candidate, index): ParetoPoint & { score: number } => ({
+      msa: candidate.msa,
+      values: candidate.values,
+      layer: layers[index],
+      dominatedBy: dominatedBy[index],
+      score: candidate.score,
+    }))
+    .sort((a, b) => a.layer - b.layer || b.score - a.score)
+    .map(({ score, ...point }) => point);
+
+  return {
+    objectives,
+    points,
+    frontier: new Set(points.filter(point => point.layer === 1).map(point => point.msa)),
+    missing,
+  };
+};
@@ -0,0 +1,112 @@
+// Product View - Which product the dashboard analyzes, and the market-size weighted combined view
+
+// A single product (as spelled in the Product column) or every product combined
+export type ProductSelection = string;
+
+export const COMBINED_PRODUCT = "Combined";
+
+// Product analyzed before any selection is made
+export const DEFAULT_PRODUCT = "Credit_Cash_Management";
+
+const PRODUCT_LABELS: Record<string, string> = {
+  Credit_Cash_Management: "Credit & Cash Management",
+  Deposits: "Deposits",
+  [COMBINED_PRODUCT]: "All products (combined)",
+};
+
+export const getProductLabel = (product: ProductSelection): string =>
+  PRODUCT_LABELS[product] || product.replace(/_/g, " ");
+
+// Ordered label scales (low -> high). Label columns on one of these scales are combined by weighted position
+const ORDINAL_SCALES: string[][] = [
+  ["Low", "Medium", "High"],
+  ["Below National Avg", "At National Avg", "Above National Avg"],
+  ["Discount", "Par", "Premium"],
+];
+
+// Columns added up across products rather than averaged (every product shares the MSA's company count)
+const SUMMED_COLUMNS = new Set(["Market Size", "Revenue per Company"]);
+
+// Columns that describe the MSA rather than the product - the same in every product row
+const SHARED_COLUMNS = new Set(["MSA", "LAT", "LON", "Number of Companies"]);
+
+interface ProductRow {
+  MSA: string;
+  Product: string;
+  "Market Size": number;
+}
+
+const findScale = (values: unknown[]): string[] | null => {
+  const present = values.filter(value => value !== null && value !== undefined && value !== "");
+  if (present.length === 0) return null;
+  return ORDINAL_SCALES.find(scale => present.every(value => scale.includes(String(value)))) || null;
+};
+
+/**
+ * Combine each MSA's product rows into one row, weighting every product by its market size
+ * - Market Size and Revenue per Company are totals across products
+ * - Other numeric columns are market-size weighted averages
+ * - Ordinal labels (High/Medium/Low, Premium/Par/Discount, vs National Avg) take the weighted position on their scale
+ * - Any other text column comes from the largest product in the MSA
+ * Rows are keyed with keyOf so differently spelled MSA names can still be grouped together
+ */
+export const combineProductRows = <T extends ProductRow>(rows: T[], keyOf: (msa: string) => string = msa => msa): T[] => {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const key = keyOf(row.MSA);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+
+  return Array.from(groups.values()).map(group => {
+    if (group.length === 1) {
+      return { ...group[0], Product: COMBINED_PRODUCT };
+    }
+
+    const sizes = group.map(row => Math.max(0, Number(row["Market Size"]) || 0));
+    const totalSize = sizes.reduce((sum, size) => sum + size, 0);
+    // Equal weights when no product has a market size
+    const weights = sizes.map(size => (totalSize > 0 ? size / totalSize : 1 / group.length));
+    const largest = group[sizes.indexOf(Math.max(...sizes))];
+
+    const combined: Record<string, unknown> = { ...(largest as Record<string, unknown>), Product: COMBINED_PRODUCT };
+    Object.keys(largest).forEach(column => {
+      if (column === "Product" || SHARED_COLUMNS.has(column)) return;
+      const values = group.map(row => (row as Record<string, unknown>)[column]);
+
+      if (values.every(value => typeof value === "number" || value === null || value === undefined)) {
+        const numeric = values.map(value => (typeof value === "number" && isFinite(value) ? value : null));
+        if (numeric.every(value => value === null)) return;
+        if (SUMMED_COLUMNS.has(column)) {
+          combined[column] = numeric.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+          return;
+        }
+        // Weighted average over the products that have a value
+        let weightedSum = 0;
+        let weightTotal = 0;
+        numeric.forEach((value, index) => {
+          if (value === null) return;
+          weightedSum += value * weights[index];
+          weightTotal += weights[index];
+        });
+        combined[column] = weightTotal > 0 ? weightedSum / weightTotal : null;
+        return;
+      }
+
+      const scale = findScale(values);
+      if (scale) {
+        let position = 0;
+        let weightTotal = 0;
+        values.forEach((value, index) => {
+          const scaleIndex = scale.indexOf(String(value));
+          if (scaleIndex === -1) return;
+          position += scaleIndex * weights[index];
+          weightTotal += weights[index];
+        });
+        combined[column] = scale[Math.round(position / weightTotal)];
+      }
+    });
+
+    return combined as unknown as T;
+  });
+};
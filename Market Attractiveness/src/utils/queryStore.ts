@@ -0,0 +1,174 @@
+// Query Store - Indexed in-memory view of the loaded attractiveness and opportunity rows
+//
+// Rows are grouped once by MSA (registry key), provider, product and region, so per-MSA lookups
+// (map hover, row expansion) read a handful of rows instead of scanning the whole extract.
+// Product views, the opportunity -> attractiveness join and other derived results are built on
+// first use and kept until the data reloads (a new store is created for every load).
+
+import { getMSAKey } from "./msaRegistry";
+import { COMBINED_PRODUCT, ProductSelection, combineProductRows } from "./productView";
+import { getRegionForMSASync, getRegionMappingVersion } from "./stateToRegionMapping";
+
+// Columns the store indexes on
+export interface IndexedAttractivenessRow {
+  MSA: string;
+  Product: string;
+  LAT: number;
+  LON: number;
+  "Market Size": number;
+  Attractiveness_Category: string;
+}
+
+export interface IndexedOpportunityRow {
+  MSA: string;
+  Product: string;
+  Provider: string;
+  LAT: number;
+  LON: number;
+}
+
+interface RegionIndex {
+  mappingVersion: number;
+  regionByMSA: Map<string, string>;
+  msaKeysByRegion: Map<string, string[]>;
+}
+
+const groupBy = <T>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  });
+  return groups;
+};
+
+export class QueryStore<A extends IndexedAttractivenessRow, O extends IndexedOpportunityRow> {
+  private readonly attractivenessByMSA: Map<string, A[]>;
+  private readonly attractivenessByProduct: Map<string, A[]>;
+  private readonly opportunityByMSA: Map<string, O[]>;
+  private readonly opportunityByProvider: Map<string, O[]>;
+  private readonly opportunityByProduct: Map<string, O[]>;
+  private readonly products: string[];
+  private regionIndex: RegionIndex | null = null;
+  private readonly memoized = new Map<string, unknown>();
+
+  constructor(readonly attractiveness: A[], readonly opportunity: O[]) {
+    this.attractivenessByMSA = groupBy(attractiveness, row => getMSAKey(row.MSA));
+    this.attractivenessByProduct = groupBy(attractiveness, row => row.Product);
+    this.opportunityByMSA = groupBy(opportunity, row => getMSAKey(row.MSA));
+    this.opportunityByProvider = groupBy(opportunity, row => row.Provider?.trim() || "");
+    this.opportunityByProduct = groupBy(opportunity, row => row.Product);
+
+    // Products in the order they first appear (attractiveness rows first)
+    const products = new Set<string>();
+    [...this.attractivenessByProduct.keys(), ...this.opportunityByProduct.keys()].forEach(product => {
+      if (product) products.add(product);
+    });
+    this.products = Array.from(products);
+  }
+
+  getProducts(): string[] {
+    return this.products;
+  }
+
+  // Compute a derived result once and reuse it for the lifetime of this store
+  memo<T>(key: string, compute: () => T): T {
+    if (!this.memoized.has(key)) {
+      this.memoized.set(key, compute());
+    }
+    return this.memoized.get(key) as T;
+  }
+
+  // Attractiveness rows for one product, or one market-size weighted row per MSA for COMBINED_PRODUCT
+  getAttractivenessView(product: ProductSelection): A[] {
+    return this.memo(`view:${product}`, () =>
+      product === COMBINED_PRODUCT
+        ? combineProductRows(this.attractiveness, getMSAKey)
+        : this.attractivenessByProduct.get(product) || []
+    );
+  }
+
+  // An MSA's attractiveness rows in the product view, or for every product when no product is given
+  getMSAAttractiveness(msa: string, product?: ProductSelection): A[] {
+    const key = getMSAKey(msa);
+    if (product === undefined) {
+      return this.attractivenessByMSA.get(key) || [];
+    }
+    const viewByMSA = this.memo(`viewByMSA:${product}`, () =>
+      groupBy(this.getAttractivenessView(product), row => getMSAKey(row.MSA))
+    );
+    return viewByMSA.get(key) || [];
+  }
+
+  // Opportunity rows for one product (every row for COMBINED_PRODUCT)
+  getOpportunities(product: ProductSelection): O[] {
+    return product === COMBINED_PRODUCT ? this.opportunity : this.opportunityByProduct.get(product) || [];
+  }
+
+  getMSAOpportunities(msa: string, product: ProductSelection): O[] {
+    const rows = this.opportunityByMSA.get(getMSAKey(msa)) || [];
+    return product === COMBINED_PRODUCT ? rows : rows.filter(row => row.Product === product);
+  }
+
+  getProviderOpportunities(provider: string, product: ProductSelection): O[] {
+    const rows = this.opportunityByProvider.get(provider.trim()) || [];
+    return product === COMBINED_PRODUCT ? rows : rows.filter(row => row.Product === product);
+  }
+
+  // Region of an MSA, using the same rules as getRegionForMSASync (uploaded mapping, states, coordinates)
+  getRegion(msa: string): string {
+    return this.getRegionIndex().regionByMSA.get(getMSAKey(msa)) || getRegionForMSASync(msa);
+  }
+
+  getRegionOpportunities(region: string, product: ProductSelection): O[] {
+    const msaKeys = this.getRegionIndex().msaKeysByRegion.get(region) || [];
+    return msaKeys.flatMap(key => {
+      const rows = this.opportunityByMSA.get(key) || [];
+      return product === COMBINED_PRODUCT ? rows : rows.filter(row => row.Product === product);
+    });
+  }
+
+  getRegionAttractiveness(region: string, product: ProductSelection): A[] {
+    return this.getAttractivenessView(product).filter(row => this.getRegion(row.MSA) === region);
+  }
+
+  // Attractiveness category of the MSA an opportunity row belongs to, in the product view
+  // (joined on MSA and product, or on MSA alone in the combined view)
+  getAttractivenessCategory(row: O, product: ProductSelection): string | undefined {
+    const joinKey = (msa: string, rowProduct: string) =>
+      product === COMBINED_PRODUCT ? getMSAKey(msa) : `${getMSAKey(msa)}|${rowProduct}`;
+
+    const categories = this.memo(`categories:${product}`, () => {
+      const byKey = new Map<string, string>();
+      this.getAttractivenessView(product).forEach(item => {
+        byKey.set(joinKey(item.MSA, item.Product), item.Attractiveness_Category);
+      });
+      return byKey;
+    });
+    return categories.get(joinKey(row.MSA, row.Product));
+  }
+
+  // Regions are rebuilt when the uploaded region mapping changes
+  private getRegionIndex(): RegionIndex {
+    const mappingVersion = getRegionMappingVersion();
+    if (this.regionIndex?.mappingVersion === mappingVersion) {
+      return this.regionIndex;
+    }
+
+    const regionByMSA = new Map<string, string>();
+    const msaKeysByRegion = new Map<string, string[]>();
+    [...this.attractiveness, ...this.opportunity].forEach(row => {
+      const key = getMSAKey(row.MSA);
+      if (regionByMSA.has(key)) return;
+      const region = getRegionForMSASync(row.MSA, row.LAT, row.LON);
+      regionByMSA.set(key, region);
+      if (!msaKeysByRegion.has(region)) msaKeysByRegion.set(region, []);
+      msaKeysByRegion.get(region)!.push(key);
+    });
+
+    this.regionIndex = { mappingVersion, regionByMSA, msaKeysByRegion };
+    return this.regionIndex;
+  }
+}
@@ -0,0 +1,197 @@
+// Rank Stability - Monte Carlo simulation of how firmly each MSA holds its rank when the weights are uncertain
+//
+// Every iteration nudges each bucket's weight and each scored parameter's weight around the current
+// bucket setup, re-scores every MSA with the bucket engine in scoreCalculation.ts and re-cuts the categories.
+// Each MSA then gets the median and 5th-95th percentile of its national rank and how often it fell in each tier.
+
+import {
+  BucketAssignment,
+  getBucketParameterWeights,
+  getParameterMatchScore,
+} from "./scoreCalculation";
+import { DEFAULT_SCORING_OPTIONS, ScoringOptions, createContinuousScoring } from "./continuousScoring";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION, categorizeScores } from "./categorization";
+import { matchesExclusion } from "./applyGlobalFilters";
+import { BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING } from "./bucketWeighting";
+import { ScoringBucket, getBucketTotal } from "./scoringBuckets";
+
+export interface RankStabilityConfig {
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  scoringOptions?: ScoringOptions;
+  categorization?: CategorizationOptions;
+  // How each bucket's weight is shared among its parameters before the noise is added
+  bucketWeighting?: BucketWeightingOptions;
+  iterations: number;
+  // Each bucket's weight moves by up to this many points either way, then the buckets are rescaled to their total
+  bucketSpread: number;
+  // Each parameter's weight is scaled by up to this fraction either way, within its bucket
+  weightSpread: number;
+  seed?: number;
+}
+
+export interface RankStabilityProgress {
+  completed: number;
+  total: number;
+}
+
+export interface MSARankStability {
+  msa: string;
+  // Rank and category with the current weights
+  rank: number;
+  category: string;
+  medianRank: number;
+  p5Rank: number;
+  p95Rank: number;
+  // Share of iterations (0-1) the MSA spent in each category
+  categoryProbabilities: Record<string, number>;
+}
+
+export interface RankStabilityResult {
+  iterations: number;
+  // MSAs ranked (after the current exclusions)
+  rankedCount: number;
+  // Sorted by median rank, then current rank
+  msas: MSARankStability[];
+}
+
+export const DEFAULT_RANK_STABILITY_SETTINGS = {
+  iterations: 2000,
+  bucketSpread: 10,
+  weightSpread: 0.25,
+};
+
+// Small seeded generator so a run can be repeated exactly
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Rank of each included row by score (ties share the better rank); excluded rows get 0
+const rankScores = (scores: Float64Array, included: number[], ranks: Int32Array) => {
+  const order = [...included].sort((a, b) => scores[b] - scores[a]);
+  order.forEach((rowIndex, position) => {
+    const previous = order[position - 1];
+    ranks[rowIndex] = position > 0 && scores[previous] === scores[rowIndex] ? ranks[previous] : position + 1;
+  });
+};
+
+// Value at a percentile of an ascending list (nearest rank)
+const percentile = (sorted: Int32Array, fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1))];
+
+/**
+ * Run the simulation over every MSA being scored
+ * Needs at least one parameter in a scored bucket; returns null otherwise
+ */
+export const simulateRankStability = (
+  rows: Record<string, any>[],
+  config: RankStabilityConfig,
+  onProgress?: (progress: RankStabilityProgress) => void
+): RankStabilityResult | null => {
+  const {
+    bucketAssignments,
+    buckets,
+    scoringOptions = DEFAULT_SCORING_OPTIONS,
+    categorization = DEFAULT_CATEGORIZATION,
+    bucketWeighting = DEFAULT_BUCKET_WEIGHTING,
+    iterations,
+    bucketSpread,
+    weightSpread,
+    seed = 1,
+  } = config;
+
+  const scored = bucketAssignments.filter(a => buckets.some(bucket => bucket.id === a.bucket));
+  if (scored.length === 0 || rows.length === 0) return null;
+
+  const exclusions = bucketAssignments.filter(a => a.bucket === "exclusions");
+  const included = rows
+    .map((row, index) => (exclusions.some(exclusion => matchesExclusion(row, exclusion)) ? -1 : index))
+    .filter(index => index !== -1);
+
+  // Match scores don't depend on the weights, so they're worked out once
+  const scoring = createContinuousScoring(rows, scoringOptions);
+  const matchScores = rows.map(row => scored.map(assignment => getParameterMatchScore(row, assignment, scoring)));
+  const baseWeights = getBucketParameterWeights(scored, buckets, bucketWeighting);
+  const bucketTotal = getBucketTotal(buckets);
+
+  const scores = new Float64Array(rows.length);
+  const ranks = new Int32Array(rows.length);
+  const categoryIndex = new Map(categorization.labels.map((label, index) => [label, index]));
+
+  // Score, rank and categorize every row for one set of parameter weights
+  const evaluate = (weights: number[]) => {
+    rows.forEach((_, rowIndex) => {
+      const total = weights.reduce((sum, weight, i) => sum + matchScores[rowIndex][i] * (weight / 100), 0);
+      scores[rowIndex] = Math.round(total * 100) / 100;
+    });
+    rankScores(scores, included, ranks);
+    return categorizeScores(Array.from(scores, (score, index) => ({ score, index })), categorization);
+  };
+
+  const baselineCategories = evaluate(baseWeights);
+  const baselineRanks = Int32Array.from(ranks);
+
+  const random = createRandom(seed);
+  const rankSamples = included.map(() => new Int32Array(iterations));
+  const categoryCounts = included.map(() => new Array(categorization.labels.length).fill(0));
+  const progressEvery = Math.max(1, Math.floor(iterations / 20));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    // Bucket weights, rescaled to keep the buckets' total
+    const nudged = buckets.map(bucket => Math.max(0, bucket.weight + (random() * 2 - 1) * bucketSpread));
+    const nudgedTotal = nudged.reduce((sum, weight) => sum + weight, 0);
+    const bucketShare: Record<string, number> = {};
+    buckets.forEach((bucket, b) => {
+      bucketShare[bucket.id] = nudgedTotal > 0 ? (nudged[b] / nudgedTotal) * bucketTotal : bucket.weight;
+    });
+
+    // Parameter weights, rescaled so each bucket still carries its share
+    const noisy = baseWeights.map(weight => weight * (1 + (random() * 2 - 1) * weightSpread));
+    const noisyTotals: Record<string, number> = {};
+    scored.forEach((assignment, i) => {
+      noisyTotals[assignment.bucket] = (noisyTotals[assignment.bucket] ?? 0) + noisy[i];
+    });
+    const weights = noisy.map((weight, i) => {
+      const bucket = scored[i].bucket;
+      return noisyTotals[bucket] > 0 ? (weight / noisyTotals[bucket]) * (bucketShare[bucket] ?? 0) : 0;
+    });
+
+    const categories = evaluate(weights);
+    included.forEach((rowIndex, position) => {
+      rankSamples[position][iteration] = ranks[rowIndex];
+      const tier = categoryIndex.get(categories[rowIndex]);
+      if (tier !== undefined) categoryCounts[position][tier]++;
+    });
+
+    if (onProgress && ((iteration + 1) % progressEvery === 0 || iteration + 1 === iterations)) {
+      onProgress({ completed: iteration + 1, total: iterations });
+    }
+  }
+
+  const msas = included.map((rowIndex, position): MSARankStability => {
+    const sorted = rankSamples[position].sort();
+    const categoryProbabilities: Record<string, number> = {};
+    categorization.labels.forEach((label, tier) => {
+      categoryProbabilities[label] = categoryCounts[position][tier] / iterations;
+    });
+    return {
+      msa: rows[rowIndex].MSA,
+      rank: baselineRanks[rowIndex],
+      category: baselineCategories[rowIndex],
+      medianRank: percentile(sorted, 0.5),
+      p5Rank: percentile(sorted, 0.05),
+      p95Rank: percentile(sorted, 0.95),
+      categoryProbabilities,
+    };
+  });
+
+  msas.sort((a, b) => a.medianRank - b.medianRank || a.rank - b.rank);
+  return { iterations, rankedCount: included.length, msas };
+};
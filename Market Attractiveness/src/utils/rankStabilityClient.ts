@@ -0,0 +1,32 @@
+// Rank Stability Client - Runs the rank-stability simulation in a Web Worker, falling back to the main thread
+
+import {
+  RankStabilityConfig,
+  RankStabilityProgress,
+  RankStabilityResult,
+  simulateRankStability,
+} from "./rankStability";
+import { WorkerResponse, createWorkerClient } from "./workerClient";
+
+export interface RankStabilityWorkerRequest {
+  id: number;
+  rows: Record<string, any>[];
+  config: RankStabilityConfig;
+}
+
+export type RankStabilityWorkerResponse = WorkerResponse<{ result: RankStabilityResult | null }, RankStabilityProgress>;
+
+const simulate = createWorkerClient({
+  name: "Rank stability worker",
+  createWorker: () => new Worker(new URL("../workers/rankStability.worker.ts", import.meta.url), { type: "module" }),
+  toResult: ({ result }: { result: RankStabilityResult | null }) => result,
+  runOnMainThread: ({ rows, config }: Omit<RankStabilityWorkerRequest, "id">, onProgress?: (progress: RankStabilityProgress) => void) =>
+    simulateRankStability(rows, config, onProgress),
+});
+
+// Simulate rank stability off the main thread. Resolves to null when no parameter is scored in a bucket
+export const runRankStabilityInWorker = (
+  rows: Record<string, any>[],
+  config: RankStabilityConfig,
+  onProgress?: (progress: RankStabilityProgress) => void
+): Promise<RankStabilityResult | null> => simulate({ rows, config }, onProgress);
@@ -1,18 +1,16 @@
 // Shared utility functions for attractiveness score calculation
 
-export interface Weights {
-  HHI: number;
-  Economic_Growth: number;
-  Loan_Growth: number;
-  Risk: number;
-  Risk_Migration: number;
-  Relative_Risk_Migration: number;
-  Premium_Discount: number;
-  Pricing_Rationality: number;
-  International_CM: number;
-}
+import { ContinuousScoring, DEFAULT_SCORING_OPTIONS, ScoringOptions, createContinuousScoring, getContinuousMatchScore } from "./continuousScoring";
+import { CategorizationOptions, DEFAULT_CATEGORIZATION, categorizeScores } from "./categorization";
+import { SCORED_PARAMETERS, getParameterValue, getPreferredValue } from "./parameterRegistry";
+import { BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING, getBucketShares } from "./bucketWeighting";
+import { DEFAULT_BUCKETS, ScoringBucket } from "./scoringBuckets";
+
+// Weight (%) per parameter id in the weights modes
+export type Weights = Record<string, number>;
 
-export type ImportanceBucket = "high" | "medium" | "exclusions";
+// A scored bucket's id (see scoringBuckets.ts) or "exclusions"
+export type ImportanceBucket = string;
 
 export interface BucketAssignment {
   parameterId: string;
@@ -21,40 +19,27 @@ export interface BucketAssignment {
   position: number;
 }
 
-export const DEFAULT_WEIGHTS: Weights = {
-  HHI: 12,
-  Economic_Growth: 12,
-  Loan_Growth: 10,
-  Risk: 8,
-  Risk_Migration: 12,
-  Relative_Risk_Migration: 10,
-  Premium_Discount: 12,
-  Pricing_Rationality: 12,
-  International_CM: 12,
-};
-
-// Default bucket assignments to match original scoring as closely as possible
-// HIGH (60%): 6 parameters with 12% original weight - HHI, Economic_Growth, Risk_Migration, Premium_Discount, Pricing_Rationality, International_CM
-// MEDIUM (40%): 3 parameters with 8-10% original weight - Loan_Growth, Relative_Risk_Migration, Risk
-// EXCLUSIONS: Empty by default
-export const DEFAULT_BUCKET_ASSIGNMENTS: BucketAssignment[] = [
-  // HIGH IMPORTANCE (60% total weight) - 6 parameters (each gets ~10%)
-  { parameterId: "HHI", selectedValue: "Low", bucket: "high", position: 0 },
-  { parameterId: "Economic_Growth", selectedValue: "High", bucket: "high", position: 1 },
-  { parameterId: "Risk_Migration", selectedValue: "Low", bucket: "high", position: 2 },
-  { parameterId: "Premium_Discount", selectedValue: "Premium", bucket: "high", position: 3 },
-  { parameterId: "Pricing_Rationality", selectedValue: "Rational", bucket: "high", position: 4 },
-  { parameterId: "International_CM", selectedValue: "High", bucket: "high", position: 5 },
-  
-  // MEDIUM IMPORTANCE (40% total weight) - 3 parameters (each gets ~13.33%)
-  { parameterId: "Loan_Growth", selectedValue: "High", bucket: "medium", position: 0 },
-  { parameterId: "Relative_Risk_Migration", selectedValue: "Below National Avg", bucket: "medium", position: 1 },
-  { parameterId: "Risk", selectedValue: "Low", bucket: "medium", position: 2 },
-  
-  // EXCLUSIONS - empty by default (no MSAs filtered out)
-];
+export const DEFAULT_WEIGHTS: Weights = Object.fromEntries(
+  SCORED_PARAMETERS.map(parameter => [parameter.id, parameter.defaultWeight])
+);
+
+// Default bucket assignments to match original scoring as closely as possible: the parameters with the
+// larger original weights in High (60%), the rest in Medium (40%), each targeting its better end.
+// Exclusions are empty by default (no MSAs filtered out)
+export const DEFAULT_BUCKET_ASSIGNMENTS: BucketAssignment[] = DEFAULT_BUCKETS.map(bucket => bucket.id).flatMap(bucket =>
+  SCORED_PARAMETERS
+    .filter(parameter => parameter.defaultBucket?.bucket === bucket)
+    .sort((a, b) => a.defaultBucket!.position - b.defaultBucket!.position)
+    .map(parameter => ({
+      parameterId: parameter.id,
+      selectedValue: getPreferredValue(parameter.id),
+      bucket,
+      position: parameter.defaultBucket!.position,
+    }))
+);
 
 // Convert score text to numeric value
+// Labels are scored by their own spelling, not the registry's aliases, so "... National Avg" and over/underpriced labels score 0
 export const scoreToValue = (score: string, isInverse: boolean = false): number => {
   if (!score) return 0;
   const normalized = score.toLowerCase();
@@ -88,21 +73,17 @@ export const scoreToValue = (score: string, isInverse: boolean = false): number
 };
 
 // Calculate attractiveness score based on weights
-export const calculateAttractivenessScore = (row: any, weights: Weights): number => {
-  const components = [
-    { score: scoreToValue(row.HHI_Score, true), weight: weights.HHI }, // HHI is inverse: Low is good, High is bad
-    { score: scoreToValue(row.Economic_Growth_Score), weight: weights.Economic_Growth },
-    { score: scoreToValue(row.Loan_Growth_Score), weight: weights.Loan_Growth },
-    { score: scoreToValue(row.Risk_Score, true), weight: weights.Risk }, // Risk is inverse: Low is good, High is bad
-    { score: scoreToValue(row.Risk_Migration_Score, true), weight: weights.Risk_Migration },
-    { score: scoreToValue(row.Relative_Risk_Migration_Score, true), weight: weights.Relative_Risk_Migration },
-    { score: scoreToValue(row.Premium_Discount_Score), weight: weights.Premium_Discount },
-    { score: scoreToValue(row.Pricing_Rationality_Score), weight: weights.Pricing_Rationality },
-    { score: scoreToValue(row.International_CM_Score), weight: weights.International_CM },
-  ];
-
-  const totalScore = components.reduce((sum, component) => {
-    return sum + (component.score * (component.weight / 100));
+// With continuous scoring, parameters that have a raw metric are scored from it instead of their label
+export const calculateAttractivenessScore = (row: any, weights: Weights, scoring: ContinuousScoring | null = null): number => {
+  const totalScore = SCORED_PARAMETERS.reduce((sum, parameter) => {
+    const weight = weights[parameter.id] || 0;
+    if (weight === 0) return sum;
+    const position = scoring?.positionOf(parameter.id, row);
+    const continuousScore = position === null || position === undefined
+      ? null
+      : getContinuousMatchScore(position, parameter.id, getPreferredValue(parameter.id));
+    const score = continuousScore ?? scoreToValue(getParameterValue(row, parameter.id), parameter.better === "bottom");
+    return sum + (score * (weight / 100));
   }, 0);
 
   return Math.round(totalScore * 100) / 100;
@@ -148,27 +129,31 @@ export const getCategoriesByQuartiles = (scores: { score: number; index: number
 export const recalculateData = <T extends Record<string, any>>(
   data: T[],
   weights: Weights,
-  useOriginal: boolean = false
+  useOriginal: boolean = false,
+  scoringOptions: ScoringOptions = DEFAULT_SCORING_OPTIONS,
+  categorization: CategorizationOptions = DEFAULT_CATEGORIZATION
 ): T[] => {
   if (useOriginal) {
     // Return original data unchanged
     return data;
   }
 
+  const scoring = createContinuousScoring(data, scoringOptions);
+
   // Calculate new scores
   const dataWithNewScores = data.map((row, index) => ({
     ...row,
-    Attractiveness_Score: calculateAttractivenessScore(row, weights),
+    Attractiveness_Score: calculateAttractivenessScore(row, weights, scoring),
     originalIndex: index,
   }));
 
-  // Calculate new categories based on quartiles
+  // Calculate new categories with the chosen categorization method
   const scores = dataWithNewScores.map((row, index) => ({
     score: row.Attractiveness_Score,
     index,
   }));
 
-  const categories = getCategoriesByQuartiles(scores);
+  const categories = categorizeScores(scores, categorization);
 
   // Apply new categories
   return dataWithNewScores.map((row, index) => ({
@@ -221,65 +206,58 @@ const getScoreForValue = (actualValue: string, selectedValue: string, parameterI
   return 0;
 };
 
+// Match score (1-3) for one assigned parameter: from the raw metric in continuous scoring
+// (when the row has one), otherwise from the label
+export const getParameterMatchScore = (
+  row: any,
+  assignment: Pick<BucketAssignment, "parameterId" | "selectedValue">,
+  scoring: ContinuousScoring | null = null
+): number => {
+  const position = scoring?.positionOf(assignment.parameterId, row);
+  if (position !== null && position !== undefined) {
+    const continuousScore = getContinuousMatchScore(position, assignment.parameterId, assignment.selectedValue);
+    if (continuousScore !== null) return continuousScore;
+  }
+  return getScoreForValue(getParameterValue(row, assignment.parameterId), assignment.selectedValue, assignment.parameterId);
+};
+
 // Calculate score using bucket mode with dynamic bucket weights
+// Within a bucket, parameters are weighted by the chosen scheme (see bucketWeighting.ts)
 export const calculateBucketModeScore = (
   row: any, 
   assignments: BucketAssignment[], 
-  bucketWeightsPct: { high: number; medium: number } = { high: 60, medium: 40 }
+  buckets: ScoringBucket[] = DEFAULT_BUCKETS,
+  scoring: ContinuousScoring | null = null,
+  weighting: BucketWeightingOptions = DEFAULT_BUCKET_WEIGHTING
 ): number => {
-  // Ensure bucketWeightsPct is always defined
-  const safeBucketWeights = bucketWeightsPct && typeof bucketWeightsPct === 'object' && 'high' in bucketWeightsPct && 'medium' in bucketWeightsPct
-    ? bucketWeightsPct
-    : { high: 60, medium: 40 };
+  // Ensure buckets is always defined
+  const safeBuckets = Array.isArray(buckets) ? buckets : DEFAULT_BUCKETS;
   
   if (assignments.length === 0) {
-    return calculateAttractivenessScore(row, DEFAULT_WEIGHTS);
+    return calculateAttractivenessScore(row, DEFAULT_WEIGHTS, scoring);
   }
 
-  // Convert percentage weights to decimal
-  const BUCKET_WEIGHTS = {
-    high: safeBucketWeights.high / 100,
-    medium: safeBucketWeights.medium / 100,
-    exclusions: 0,  // Excluded parameters contribute 0 to score
-  };
-
-  // Group assignments by bucket (excluding "exclusions")
-  const bucketGroups = {
-    high: assignments.filter(a => a.bucket === "high").sort((a, b) => a.position - b.position),
-    medium: assignments.filter(a => a.bucket === "medium").sort((a, b) => a.position - b.position),
-  };
-
   let totalScore = 0;
 
-  // Calculate contribution from each bucket (exclusions bucket is ignored)
-  Object.entries(bucketGroups).forEach(([bucket, items]) => {
+  // Calculate contribution from each bucket (exclusions, and assignments to unknown buckets, are ignored)
+  safeBuckets.forEach(({ id: bucket, weight }) => {
+    const items = assignments.filter(a => a.bucket === bucket).sort((a, b) => a.position - b.position);
     if (items.length === 0) return;
 
-    const bucketWeight = BUCKET_WEIGHTS[bucket as "high" | "medium"];
-
-    // Calculate equal-weighted average for this bucket (all positions weighted equally as 1)
-    let sumOfScores = 0;
+    // Convert percentage weight to decimal
+    const bucketWeight = weight / 100;
 
-    console.log(`calculateBucketModeScore: ${bucket} bucket has ${items.length} items, weight: ${bucketWeight}`);
+    // Share of the bucket's weight for each position (totals 1)
+    const shares = getBucketShares(items, weighting);
 
-    items.forEach((assignment) => {
-      const paramId = assignment.parameterId;
-      const scoreFieldName = `${paramId}_Score`;
-      const actualValue = row[scoreFieldName];
-      
+    // Weighted average match score for this bucket (value between 1-3)
+    let averageScore = 0;
+    items.forEach((assignment, index) => {
       // Get match score (1-3) based on how well this MSA matches the desired value
-      const matchScore = getScoreForValue(actualValue, assignment.selectedValue, paramId);
-      
-      console.log(`  ${paramId}: actual="${actualValue}", target="${assignment.selectedValue}", score=${matchScore}`);
-      
-      sumOfScores += matchScore;
+      const matchScore = getParameterMatchScore(row, assignment, scoring);
+      averageScore += matchScore * shares[index];
     });
 
-    // Average match score for this bucket (value between 1-3)
-    const averageScore = sumOfScores / items.length;
-    
-    console.log(`  ${bucket} bucket average: ${averageScore}, contribution: ${averageScore * bucketWeight}`);
-    
     // Contribution to total score
     totalScore += averageScore * bucketWeight;
   });
@@ -287,29 +265,57 @@ export const calculateBucketModeScore = (
   return Math.round(totalScore * 100) / 100;
 };
 
+// Effective weight (%) of each assignment in bucket mode, aligned with the assignments:
+// a bucket's weight split among its parameters by the weighting scheme, as calculateBucketModeScore applies it.
+// Exclusions get 0
+export const getBucketParameterWeights = (
+  assignments: BucketAssignment[],
+  buckets: ScoringBucket[] = DEFAULT_BUCKETS,
+  weighting: BucketWeightingOptions = DEFAULT_BUCKET_WEIGHTING
+): number[] => {
+  const weights = new Array(assignments.length).fill(0);
+  buckets.forEach(bucket => {
+    const indexes = assignments
+      .map((assignment, index) => ({ assignment, index }))
+      .filter(item => item.assignment.bucket === bucket.id)
+      .sort((a, b) => a.assignment.position - b.assignment.position);
+    const shares = getBucketShares(indexes.map(item => item.assignment), weighting);
+    indexes.forEach((item, i) => (weights[item.index] = bucket.weight * shares[i]));
+  });
+  return weights;
+};
+
+// Score from an explicit weight (%) per assignment - the bucket-mode score when the weights come from
+// getBucketParameterWeights. Used to score many variations of the buckets without re-deriving the weights per row
+export const calculateAssignmentWeightedScore = (
+  row: any,
+  assignments: BucketAssignment[],
+  assignmentWeights: number[],
+  scoring: ContinuousScoring | null = null
+): number => {
+  const totalScore = assignments.reduce((sum, assignment, index) => {
+    const weight = assignmentWeights[index] || 0;
+    return weight === 0 ? sum : sum + getParameterMatchScore(row, assignment, scoring) * (weight / 100);
+  }, 0);
+  return Math.round(totalScore * 100) / 100;
+};
+
 // Recalculate data using bucket mode with dynamic weights
 export const recalculateDataWithBuckets = <T extends Record<string, any>>(
   data: T[],
   bucketAssignments: BucketAssignment[],
-  bucketWeightsPct: { high: number; medium: number } = { high: 60, medium: 40 }
+  buckets: ScoringBucket[] = DEFAULT_BUCKETS,
+  scoringOptions: ScoringOptions = DEFAULT_SCORING_OPTIONS,
+  categorization: CategorizationOptions = DEFAULT_CATEGORIZATION,
+  weighting: BucketWeightingOptions = DEFAULT_BUCKET_WEIGHTING
 ): T[] => {
-  console.log('recalculateDataWithBuckets: Input data length:', data.length, 'bucketAssignments:', bucketAssignments.length, 'bucketWeights:', bucketWeightsPct);
+  // Raw metrics are normalized across the rows being scored
+  const scoring = createContinuousScoring(data, scoringOptions);
   
   // Calculate new scores
   const dataWithNewScores = data.map((row, index) => {
-    const newScore = calculateBucketModeScore(row, bucketAssignments, bucketWeightsPct);
-    
-    // Debug Charlotte specifically
-    if (row.MSA && row.MSA.includes('Charlotte')) {
-      console.log('Charlotte recalculation:', {
-        MSA: row.MSA,
-        originalScore: row.Attractiveness_Score,
-        newCalculatedScore: newScore,
-        bucketAssignmentsUsed: bucketAssignments.length,
-        bucketWeights: bucketWeightsPct
-      });
-    }
-    
+    const newScore = calculateBucketModeScore(row, bucketAssignments, buckets, scoring, weighting);
+
     return {
       ...row,
       Attractiveness_Score: newScore,
@@ -317,13 +323,13 @@ export const recalculateDataWithBuckets = <T extends Record<string, any>>(
     };
   });
 
-  // Calculate new categories based on quartiles
+  // Calculate new categories with the chosen categorization method
   const scores = dataWithNewScores.map((row, index) => ({
     score: row.Attractiveness_Score,
     index,
   }));
 
-  const categories = getCategoriesByQuartiles(scores);
+  const categories = categorizeScores(scores, categorization);
 
   // Apply new categories
   return dataWithNewScores.map((row, index) => ({
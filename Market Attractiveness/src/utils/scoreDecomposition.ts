@@ -0,0 +1,142 @@
+// Score Decomposition - How an MSA's score is built up from the national mean score
+//
+// Bucket mode scores an MSA as the sum of weight × match score over the assigned parameters, so the national
+// mean score is the sum of weight × the mean match score. Each parameter contributes its weight times how far
+// the MSA's match score sits from the national mean match score, and the contributions add up from the mean
+// to the MSA's score. The mean is over the MSAs the current exclusions leave in the ranking.
+
+import {
+  BucketAssignment,
+  DEFAULT_WEIGHTS,
+  getBucketParameterWeights,
+  getParameterMatchScore,
+} from "./scoreCalculation";
+import { DEFAULT_SCORING_OPTIONS, ScoringOptions, createContinuousScoring } from "./continuousScoring";
+import { SCORED_PARAMETERS, getParameterValue, getPreferredValue } from "./parameterRegistry";
+import { matchesExclusion } from "./applyGlobalFilters";
+import { BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING } from "./bucketWeighting";
+import { DEFAULT_BUCKETS, ScoringBucket } from "./scoringBuckets";
+
+export interface ParameterContribution {
+  parameterId: string;
+  selectedValue: string;
+  // The MSA's own label for the parameter
+  value: string;
+  // Effective weight (%)
+  weight: number;
+  matchScore: number;
+  nationalMatchScore: number;
+  // Points added to (or taken off) the national mean score
+  contribution: number;
+}
+
+export interface BucketContribution {
+  bucket: string;
+  label: string;
+  weight: number;
+  contribution: number;
+  parameters: ParameterContribution[];
+}
+
+export interface ScoreDecomposition {
+  msa: string;
+  nationalMean: number;
+  // Unrounded - the national mean plus every contribution
+  score: number;
+  buckets: BucketContribution[];
+  // The current exclusions filter the MSA out of the ranking (its score is still decomposed)
+  excluded: boolean;
+  // MSAs in the national mean
+  rankedCount: number;
+}
+
+// The weighted parameters grouped as the engine scores them; with no assignments at all the engine
+// falls back to the default weights, each parameter targeting its better end
+const getScoringGroups = (
+  assignments: BucketAssignment[],
+  buckets: ScoringBucket[],
+  weighting: BucketWeightingOptions
+) => {
+  if (assignments.length === 0) {
+    const parameters = SCORED_PARAMETERS
+      .filter(parameter => (DEFAULT_WEIGHTS[parameter.id] || 0) > 0)
+      .map(parameter => ({
+        assignment: { parameterId: parameter.id, selectedValue: getPreferredValue(parameter.id) },
+        weight: DEFAULT_WEIGHTS[parameter.id],
+      }));
+    return [{ bucket: "default", label: "Default weights", parameters }];
+  }
+
+  const weights = getBucketParameterWeights(assignments, buckets, weighting);
+  return buckets
+    .map(bucket => ({
+      bucket: bucket.id,
+      label: bucket.name,
+      parameters: assignments
+        .map((assignment, index) => ({ assignment, weight: weights[index] }))
+        .filter(item => item.assignment.bucket === bucket.id)
+        .sort((a, b) => a.assignment.position - b.assignment.position),
+    }))
+    .filter(group => group.parameters.length > 0);
+};
+
+/**
+ * Decompose one MSA's bucket-mode score into bucket and parameter contributions
+ * rows should be every MSA being scored, so the mean is national; returns null when the MSA isn't among them
+ */
+export const decomposeScore = (
+  rows: Record<string, any>[],
+  msa: string,
+  assignments: BucketAssignment[],
+  scoringBuckets: ScoringBucket[] = DEFAULT_BUCKETS,
+  scoringOptions: ScoringOptions = DEFAULT_SCORING_OPTIONS,
+  weighting: BucketWeightingOptions = DEFAULT_BUCKET_WEIGHTING
+): ScoreDecomposition | null => {
+  const target = rows.find(row => row.MSA === msa);
+  if (!target) return null;
+
+  const exclusions = assignments.filter(a => a.bucket === "exclusions");
+  const ranked = rows.filter(row => !exclusions.some(exclusion => matchesExclusion(row, exclusion)));
+  // With everything excluded the mean falls back to all MSAs
+  const meanRows = ranked.length > 0 ? ranked : rows;
+
+  const scoring = createContinuousScoring(rows, scoringOptions);
+
+  const buckets = getScoringGroups(assignments, scoringBuckets, weighting).map((group): BucketContribution => {
+    const parameters = group.parameters.map(({ assignment, weight }): ParameterContribution => {
+      const matchScore = getParameterMatchScore(target, assignment, scoring);
+      const nationalMatchScore =
+        meanRows.reduce((sum, row) => sum + getParameterMatchScore(row, assignment, scoring), 0) / meanRows.length;
+      return {
+        parameterId: assignment.parameterId,
+        selectedValue: assignment.selectedValue,
+        value: getParameterValue(target, assignment.parameterId),
+        weight,
+        matchScore,
+        nationalMatchScore,
+        contribution: (weight / 100) * (matchScore - nationalMatchScore),
+      };
+    });
+    return {
+      bucket: group.bucket,
+      label: group.label,
+      weight: parameters.reduce((sum, parameter) => sum + parameter.weight, 0),
+      contribution: parameters.reduce((sum, parameter) => sum + parameter.contribution, 0),
+      parameters,
+    };
+  });
+
+  const nationalMean = buckets.reduce(
+    (sum, bucket) => sum + bucket.parameters.reduce((total, p) => total + (p.weight / 100) * p.nationalMatchScore, 0),
+    0
+  );
+
+  return {
+    msa,
+    nationalMean,
+    score: nationalMean + buckets.reduce((sum, bucket) => sum + bucket.contribution, 0),
+    buckets,
+    excluded: !ranked.includes(target),
+    rankedCount: ranked.length,
+  };
+};
@@ -0,0 +1,99 @@
+// Scoring Buckets - The importance buckets of bucket mode, most important first
+//
+// Each bucket carries a share of the score and the shares must total 100%. Parameters refer to their bucket
+// by id, so renaming or reordering a bucket keeps its parameters. Exclusions isn't one of these buckets:
+// parameters placed there filter MSAs out rather than being scored, and it always comes after the last bucket.
+
+export interface ScoringBucket {
+  id: string;
+  name: string;
+  // % of the score
+  weight: number;
+}
+
+export const EXCLUSIONS_BUCKET = "exclusions";
+
+export const MIN_BUCKETS = 1;
+export const MAX_BUCKETS = 5;
+
+export const DEFAULT_BUCKETS: ScoringBucket[] = [
+  { id: "high", name: "High", weight: 60 },
+  { id: "medium", name: "Medium", weight: 40 },
+];
+
+export const BUCKET_PRESETS: Array<{ id: string; label: string; buckets: ScoringBucket[] }> = [
+  { id: "high-medium", label: "High / Medium", buckets: DEFAULT_BUCKETS },
+  {
+    id: "high-medium-low",
+    label: "High / Medium / Low",
+    buckets: [
+      { id: "high", name: "High", weight: 50 },
+      { id: "medium", name: "Medium", weight: 30 },
+      { id: "low", name: "Low", weight: 20 },
+    ],
+  },
+  {
+    id: "must-have",
+    label: "Must-have / High / Medium / Low",
+    buckets: [
+      { id: "must-have", name: "Must-have", weight: 40 },
+      { id: "high", name: "High", weight: 30 },
+      { id: "medium", name: "Medium", weight: 20 },
+      { id: "low", name: "Low", weight: 10 },
+    ],
+  },
+];
+
+// Colors by bucket position; exclusions are always gray
+const BUCKET_STYLES = [
+  { card: "bg-green-50 dark:bg-green-950/20 border-green-300 dark:border-green-800", badge: "bg-green-50 border-green-300 text-green-800", border: "rgb(34, 197, 94)" },
+  { card: "bg-yellow-50 dark:bg-yellow-950/20 border-yellow-300 dark:border-yellow-800", badge: "bg-yellow-50 border-yellow-300 text-yellow-800", border: "rgb(234, 179, 8)" },
+  { card: "bg-orange-50 border-orange-300", badge: "bg-orange-50 border-orange-300 text-orange-800", border: "rgb(251, 146, 60)" },
+  { card: "bg-blue-50 dark:bg-blue-950/20 border-blue-300 dark:border-blue-800", badge: "bg-blue-50 border-blue-300 text-blue-800", border: "rgb(59, 130, 246)" },
+  { card: "bg-red-50 border-red-300", badge: "bg-red-50 border-red-300 text-red-800", border: "rgb(248, 113, 113)" },
+];
+
+const EXCLUSIONS_STYLE = {
+  card: "bg-gray-50 dark:bg-gray-950/20 border-gray-300 dark:border-gray-800",
+  badge: "bg-gray-50 border-gray-300 text-gray-800",
+  border: "rgb(156, 163, 175)",
+};
+
+// Card and badge classes and the border color for a bucket id
+export const getBucketStyle = (buckets: ScoringBucket[], id: string) => {
+  const index = buckets.findIndex(bucket => bucket.id === id);
+  return index === -1 ? EXCLUSIONS_STYLE : BUCKET_STYLES[index % BUCKET_STYLES.length];
+};
+
+export const getBucketName = (buckets: ScoringBucket[], id: string) =>
+  id === EXCLUSIONS_BUCKET ? "Exclusions" : buckets.find(bucket => bucket.id === id)?.name ?? id;
+
+export const getBucketTotal = (buckets: ScoringBucket[]) => buckets.reduce((sum, bucket) => sum + bucket.weight, 0);
+
+// An id for a new bucket from its name, unique among the buckets (and never "exclusions")
+export const createBucketId = (buckets: ScoringBucket[], name: string) => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "bucket";
+  const taken = new Set([...buckets.map(bucket => bucket.id), EXCLUSIONS_BUCKET]);
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) id = `${base}-${suffix}`;
+  return id;
+};
+
+/**
+ * Why a set of buckets can't be used, or null if it can
+ * Needs 1 to MAX_BUCKETS buckets with distinct names and ids and weights of 0 or more that total 100
+ */
+export const validateBuckets = (buckets: ScoringBucket[]): string | null => {
+  if (buckets.length < MIN_BUCKETS) return "Add at least one bucket";
+  if (buckets.length > MAX_BUCKETS) return `Use at most ${MAX_BUCKETS} buckets`;
+  const names = buckets.map(bucket => bucket.name.trim().toLowerCase());
+  if (names.some(name => !name)) return "Every bucket needs a name";
+  if (names.includes(EXCLUSIONS_BUCKET)) return "Exclusions is reserved";
+  if (new Set(names).size !== names.length) return "Bucket names must be different";
+  const ids = buckets.map(bucket => bucket.id);
+  if (ids.includes(EXCLUSIONS_BUCKET) || new Set(ids).size !== ids.length) return "Bucket ids must be different";
+  if (buckets.some(bucket => !isFinite(bucket.weight) || bucket.weight < 0)) return "Weights must be 0% or more";
+  const total = getBucketTotal(buckets);
+  if (Math.abs(total - 100) > 0.01) return `Weights total ${Math.round(total * 100) / 100}%; they must total 100%`;
+  return null;
+};
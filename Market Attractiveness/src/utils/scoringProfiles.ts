@@ -0,0 +1,278 @@
+// Scoring Profiles - Named What-If configurations saved in the browser and shared as versioned JSON files
+//
+// A profile captures everything that shapes the scores and the What-If table: the buckets and their weights,
+// bucket assignments, how the weights are shared within a bucket, global filters, column layout, scoring
+// method, label thresholds and categories. Profiles live in localStorage; exported files carry a format name
+// and version so older files can still be read. Version 1 files have fixed High/Medium buckets, given as
+// bucketWeights.
+
+import { BucketAssignment } from "./scoreCalculation";
+import { DEFAULT_SCORING_OPTIONS, NORMALIZATION_METHODS, ScoringOptions } from "./continuousScoring";
+import { LabelThresholds } from "./labelThresholds";
+import { CATEGORIZATION_METHODS, CategorizationOptions, DEFAULT_CATEGORIZATION, validateCategorization } from "./categorization";
+import { BUCKET_WEIGHTING_SCHEMES, BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING } from "./bucketWeighting";
+import { DEFAULT_BUCKETS, EXCLUSIONS_BUCKET, ScoringBucket, validateBuckets } from "./scoringBuckets";
+import { ColumnLayoutEntry, GlobalFilters } from "../types";
+
+export const SCORING_PROFILE_FORMAT = "market-attractiveness-scoring-profile";
+export const SCORING_PROFILE_VERSION = 2;
+
+const STORAGE_KEY = "market-attractiveness.scoring-profiles";
+const ACTIVE_KEY = "market-attractiveness.active-scoring-profile";
+
+export interface ScoringProfileSettings {
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  bucketWeighting: BucketWeightingOptions;
+  globalFilters: GlobalFilters;
+  columnLayout: ColumnLayoutEntry[];
+  scoringOptions: ScoringOptions;
+  labelThresholds: LabelThresholds;
+  categorization: CategorizationOptions;
+}
+
+export interface ScoringProfile {
+  name: string;
+  // ISO timestamp of the last save
+  savedAt: string;
+  settings: ScoringProfileSettings;
+}
+
+interface ScoringProfileFile {
+  format: typeof SCORING_PROFILE_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;
+  settings: ScoringProfileSettings;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && isFinite(value);
+
+const isRange = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(isNumber);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string");
+
+/**
+ * Check a profile's settings, throwing an error that says what's wrong
+ * Only the bucket assignments, buckets and filters are required; anything else missing falls back to the defaults
+ * Settings from before configurable buckets give High/Medium weights as bucketWeights instead of buckets
+ */
+export const parseProfileSettings = (settings: unknown): ScoringProfileSettings => {
+  const fail = (message: string): never => {
+    throw new Error(message);
+  };
+
+  if (!settings || typeof settings !== "object") fail("settings must be an object");
+  const {
+    bucketAssignments,
+    buckets: savedBuckets,
+    bucketWeights,
+    bucketWeighting = DEFAULT_BUCKET_WEIGHTING,
+    globalFilters,
+    columnLayout = [],
+    scoringOptions = DEFAULT_SCORING_OPTIONS,
+    labelThresholds = {},
+    categorization = DEFAULT_CATEGORIZATION,
+  } = settings as Record<string, any>;
+
+  let buckets: ScoringBucket[];
+  if (savedBuckets !== undefined) {
+    if (!Array.isArray(savedBuckets)) fail("buckets must be an array");
+    savedBuckets.forEach((bucket: any, index: number) => {
+      if (typeof bucket?.id !== "string" || typeof bucket.name !== "string" || !isNumber(bucket.weight)) {
+        fail(`buckets[${index}] must be { id, name, weight }`);
+      }
+    });
+    buckets = savedBuckets.map((bucket: ScoringBucket) => ({ id: bucket.id, name: bucket.name, weight: bucket.weight }));
+  } else {
+    if (!isNumber(bucketWeights?.high) || !isNumber(bucketWeights?.medium)) {
+      fail("buckets must be an array (or bucketWeights { high: number, medium: number })");
+    }
+    buckets = DEFAULT_BUCKETS.map(bucket => ({ ...bucket, weight: bucketWeights[bucket.id] }));
+  }
+  const bucketsError = validateBuckets(buckets);
+  if (bucketsError) fail(`buckets: ${bucketsError}`);
+
+  const bucketIds = [...buckets.map(bucket => bucket.id), EXCLUSIONS_BUCKET];
+  if (!Array.isArray(bucketAssignments)) fail("bucketAssignments must be an array");
+  bucketAssignments.forEach((assignment: any, index: number) => {
+    if (typeof assignment?.parameterId !== "string") fail(`bucketAssignments[${index}].parameterId must be a string`);
+    if (typeof assignment.selectedValue !== "string") fail(`bucketAssignments[${index}].selectedValue must be a string`);
+    if (!bucketIds.includes(assignment.bucket)) fail(`bucketAssignments[${index}].bucket must be one of ${bucketIds.join(", ")}`);
+    if (!isNumber(assignment.position)) fail(`bucketAssignments[${index}].position must be a number`);
+  });
+
+  const weightingSchemes = BUCKET_WEIGHTING_SCHEMES.map(scheme => scheme.id as string);
+  if (!weightingSchemes.includes(bucketWeighting?.scheme)) {
+    fail(`bucketWeighting.scheme must be one of ${weightingSchemes.join(", ")}`);
+  }
+  const manual = bucketWeighting.manual ?? {};
+  if (!manual || typeof manual !== "object" || !Object.values(manual).every(isNumber)) {
+    fail("bucketWeighting.manual must map assignments to numbers");
+  }
+
+  if (
+    !isRange(globalFilters?.marketSizeRange) ||
+    !isRange(globalFilters.revenuePerCompanyRange) ||
+    !isStringArray(globalFilters.selectedRegions) ||
+    !isStringArray(globalFilters.selectedIndustries) ||
+    // Profiles saved before archetypes have no archetype filter
+    (globalFilters.selectedArchetypes !== undefined && !isStringArray(globalFilters.selectedArchetypes))
+  ) {
+    fail("globalFilters must have marketSizeRange, revenuePerCompanyRange, selectedRegions and selectedIndustries");
+  }
+
+  if (!Array.isArray(columnLayout) || columnLayout.some((column: any) => typeof column?.id !== "string" || typeof column.visible !== "boolean")) {
+    fail("columnLayout must be an array of { id, visible }");
+  }
+
+  if (!["labels", "continuous"].includes(scoringOptions?.mode)) fail("scoringOptions.mode must be labels or continuous");
+  const methods = NORMALIZATION_METHODS.map(method => method.id as string);
+  Object.entries(scoringOptions.normalization ?? {}).forEach(([parameterId, method]) => {
+    if (!methods.includes(method as string)) fail(`scoringOptions.normalization.${parameterId} must be one of ${methods.join(", ")}`);
+  });
+
+  if (!labelThresholds || typeof labelThresholds !== "object") fail("labelThresholds must be an object");
+  Object.entries(labelThresholds).forEach(([parameterId, threshold]: [string, any]) => {
+    if (!isNumber(threshold?.lower) || !isNumber(threshold?.upper)) fail(`labelThresholds.${parameterId} must be { lower, upper }`);
+  });
+
+  const categorizationMethods = CATEGORIZATION_METHODS.map(method => method.id as string);
+  if (!categorizationMethods.includes(categorization?.method)) {
+    fail(`categorization.method must be one of ${categorizationMethods.join(", ")}`);
+  }
+  if (!isStringArray(categorization.labels)) fail("categorization.labels must be an array of strings");
+  if (!Array.isArray(categorization.thresholds) || !categorization.thresholds.every(isNumber)) {
+    fail("categorization.thresholds must be an array of numbers");
+  }
+  const categorizationError = validateCategorization(categorization);
+  if (categorizationError) fail(`categorization: ${categorizationError}`);
+
+  return {
+    bucketAssignments: bucketAssignments.map((a: BucketAssignment) => ({
+      parameterId: a.parameterId,
+      selectedValue: a.selectedValue,
+      bucket: a.bucket,
+      position: a.position,
+    })),
+    buckets,
+    bucketWeighting: { scheme: bucketWeighting.scheme, manual: { ...manual } },
+    globalFilters: {
+      marketSizeRange: [globalFilters.marketSizeRange[0], globalFilters.marketSizeRange[1]],
+      revenuePerCompanyRange: [globalFilters.revenuePerCompanyRange[0], globalFilters.revenuePerCompanyRange[1]],
+      selectedRegions: [...globalFilters.selectedRegions],
+      selectedIndustries: [...globalFilters.selectedIndustries],
+      selectedArchetypes: [...(globalFilters.selectedArchetypes ?? [])],
+    },
+    columnLayout: columnLayout.map((column: ColumnLayoutEntry) => ({ id: column.id, visible: column.visible })),
+    scoringOptions: { mode: scoringOptions.mode, normalization: { ...(scoringOptions.normalization ?? {}) } },
+    labelThresholds: Object.fromEntries(
+      Object.entries(labelThresholds).map(([parameterId, threshold]: [string, any]) => [parameterId, { lower: threshold.lower, upper: threshold.upper }])
+    ),
+    categorization: {
+      method: categorization.method,
+      labels: [...categorization.labels],
+      thresholds: [...categorization.thresholds],
+    },
+  };
+};
+
+// Profiles saved in this browser, by name; unreadable entries are skipped
+export const loadProfiles = (): ScoringProfile[] => {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((profile: any): ScoringProfile[] => {
+      try {
+        if (typeof profile?.name !== "string" || !profile.name.trim()) return [];
+        return [{ name: profile.name, savedAt: String(profile.savedAt ?? ""), settings: parseProfileSettings(profile.settings) }];
+      } catch (error) {
+        console.warn(`Skipping saved scoring profile "${profile?.name}":`, error);
+        return [];
+      }
+    }).sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error reading saved scoring profiles:", error);
+    return [];
+  }
+};
+
+const storeProfiles = (profiles: ScoringProfile[]) => {
+  if (typeof localStorage === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+// Save a profile, replacing any profile with the same name; returns the updated list
+export const saveProfile = (name: string, settings: ScoringProfileSettings): ScoringProfile[] => {
+  const profile: ScoringProfile = { name: name.trim(), savedAt: new Date().toISOString(), settings: parseProfileSettings(settings) };
+  const profiles = [...loadProfiles().filter(existing => existing.name !== profile.name), profile]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  storeProfiles(profiles);
+  return profiles;
+};
+
+// Delete a profile by name; returns the updated list
+export const deleteProfile = (name: string): ScoringProfile[] => {
+  const profiles = loadProfiles().filter(profile => profile.name !== name);
+  storeProfiles(profiles);
+  return profiles;
+};
+
+// Name of the profile in use, restored on the next visit
+export const getActiveProfileName = (): string | null =>
+  typeof localStorage === "undefined" ? null : localStorage.getItem(ACTIVE_KEY);
+
+export const setActiveProfileName = (name: string | null) => {
+  if (typeof localStorage === "undefined") return;
+  if (name === null) {
+    localStorage.removeItem(ACTIVE_KEY);
+  } else {
+    localStorage.setItem(ACTIVE_KEY, name);
+  }
+};
+
+// JSON file contents for sharing a profile
+export const exportProfile = (profile: ScoringProfile): string => {
+  const file: ScoringProfileFile = {
+    format: SCORING_PROFILE_FORMAT,
+    version: SCORING_PROFILE_VERSION,
+    name: profile.name,
+    savedAt: profile.savedAt,
+    settings: profile.settings,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Read an exported profile file, throwing an error that says what's wrong
+export const importProfile = (text: string): ScoringProfile => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+
+  if (file?.format !== SCORING_PROFILE_FORMAT) throw new Error("The file isn't a scoring profile");
+  if (!Number.isInteger(file.version) || file.version < 1) throw new Error("The profile has no valid version");
+  if (file.version > SCORING_PROFILE_VERSION) {
+    throw new Error(`The profile was saved by a newer version of the dashboard (version ${file.version}, this one reads up to ${SCORING_PROFILE_VERSION})`);
+  }
+  if (typeof file.name !== "string" || !file.name.trim()) throw new Error("The profile has no name");
+
+  try {
+    return {
+      name: file.name.trim(),
+      savedAt: typeof file.savedAt === "string" ? file.savedAt : new Date().toISOString(),
+      settings: parseProfileSettings(file.settings),
+    };
+  } catch (error) {
+    throw new Error(`Invalid profile settings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// File name for an exported profile ("Growth strategy" -> "growth-strategy.profile.json")
+export const getProfileFileName = (name: string): string =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "scoring-profile"}.profile.json`;
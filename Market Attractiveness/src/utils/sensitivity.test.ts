@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { calculateSensitivity } from "./sensitivity";
+import { BucketAssignment, DEFAULT_WEIGHTS, calculateAttractivenessScore, calculateBucketModeScore } from "./scoreCalculation";
+import { DEFAULT_BUCKETS } from "./scoringBuckets";
+
+const rows = [
+  { MSA: "A", HHI_Score: "High", Loan_Growth_Score: "High" },
+  { MSA: "B", HHI_Score: "High", Loan_Growth_Score: "Low" },
+  { MSA: "C", HHI_Score: "Low", Loan_Growth_Score: "High" },
+  { MSA: "D", HHI_Score: "Low", Loan_Growth_Score: "Low" },
+];
+
+const assign = (parameterId: string, bucket: string, position = 0, selectedValue = "High"): BucketAssignment =>
+  ({ parameterId, selectedValue, bucket, position });
+
+describe("calculateSensitivity", () => {
+  const assignments = [assign("HHI", "high"), assign("Loan_Growth", "medium")];
+
+  it("returns null for an MSA that isn't in the rows", () => {
+    expect(calculateSensitivity(rows, "Z", assignments, DEFAULT_BUCKETS)).toBeNull();
+  });
+
+  it("scores and ranks the MSA nationally", () => {
+    const result = calculateSensitivity(rows, "B", assignments, DEFAULT_BUCKETS)!;
+    expect(result.score).toBe(calculateBucketModeScore(rows[1], assignments, DEFAULT_BUCKETS));
+    expect(result.rank).toBe(2);
+    expect(result.rankedCount).toBe(4);
+  });
+
+  it("moves a weight by the step in each direction", () => {
+    const hhi = calculateSensitivity(rows, "B", assignments, DEFAULT_BUCKETS)!.parameters[0];
+    expect(hhi.weight).toBe(60);
+    const weights = hhi.scenarios.filter(scenario => scenario.kind === "weight").map(scenario => scenario.weight);
+    expect(weights).toEqual([55, 65]);
+  });
+
+  it("rescales the other weights so the total weight doesn't change", () => {
+    // With every parameter matching, the score is the top score whatever the weights are
+    const top = calculateSensitivity(rows, "A", assignments, DEFAULT_BUCKETS)!;
+    top.parameters[0].scenarios
+      .filter(scenario => scenario.kind === "weight")
+      .forEach(scenario => expect(scenario.score).toBe(top.score));
+  });
+
+  it("reports rank changes when a parameter moves bucket", () => {
+    const hhi = calculateSensitivity(rows, "B", assignments, DEFAULT_BUCKETS)!.parameters[0];
+    const toExclusions = hhi.scenarios.find(scenario => scenario.bucket === "exclusions")!;
+    expect(toExclusions.label).toBe("Move to Exclusions");
+    expect(toExclusions.rank).toBeNull();
+    expect(toExclusions.rankChange).toBeNull();
+  });
+
+  it("scores every MSA 0 when only exclusions are assigned", () => {
+    const exclusionsOnly = [assign("HHI", "exclusions", 0, "Low")];
+    const result = calculateSensitivity(rows, "A", exclusionsOnly, DEFAULT_BUCKETS)!;
+    expect(result.score).toBe(0);
+    expect(result.score).toBe(calculateBucketModeScore(rows[0], exclusionsOnly, DEFAULT_BUCKETS));
+  });
+
+  it("uses the default weights when nothing is assigned", () => {
+    const result = calculateSensitivity(rows, "A", [], DEFAULT_BUCKETS)!;
+    expect(result.score).toBe(calculateAttractivenessScore(rows[0], DEFAULT_WEIGHTS));
+    expect(result.parameters).toEqual([]);
+  });
+});
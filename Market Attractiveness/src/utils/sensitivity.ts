@@ -0,0 +1,164 @@
+// Sensitivity - How one MSA's score and national rank respond to changes in the bucket setup
+//
+// Each scored parameter's weight is moved up and down by a step (the other parameters are rescaled so the
+// total weight is unchanged), and each assigned parameter is moved to the other importance buckets.
+// Every variation re-scores all MSAs with the bucket engine in scoreCalculation.ts so the rank is national.
+
+import {
+  BucketAssignment,
+  DEFAULT_WEIGHTS,
+  ImportanceBucket,
+  calculateAssignmentWeightedScore,
+  calculateAttractivenessScore,
+  getBucketParameterWeights,
+} from "./scoreCalculation";
+import { ContinuousScoring, DEFAULT_SCORING_OPTIONS, ScoringOptions, createContinuousScoring } from "./continuousScoring";
+import { matchesExclusion } from "./applyGlobalFilters";
+import { BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING } from "./bucketWeighting";
+import { EXCLUSIONS_BUCKET, ScoringBucket, getBucketName } from "./scoringBuckets";
+
+export type SensitivityKind = "weight" | "bucket";
+
+export interface SensitivityScenario {
+  kind: SensitivityKind;
+  // e.g. "-5 pts" or "Move to Medium"
+  label: string;
+  // For weight scenarios, the parameter's weight (%) in the scenario
+  weight?: number;
+  // For bucket scenarios, the bucket the parameter moves to
+  bucket?: ImportanceBucket;
+  score: number;
+  // National rank, or null when the scenario's exclusions filter the MSA out
+  rank: number | null;
+  scoreDelta: number;
+  // Places gained (positive) or lost (negative); null when either rank is missing
+  rankChange: number | null;
+}
+
+export interface ParameterSensitivity {
+  parameterId: string;
+  selectedValue: string;
+  bucket: ImportanceBucket;
+  // Current effective weight (%)
+  weight: number;
+  scenarios: SensitivityScenario[];
+}
+
+export interface SensitivityResult {
+  msa: string;
+  score: number;
+  rank: number | null;
+  // MSAs ranked (after the current exclusions)
+  rankedCount: number;
+  parameters: ParameterSensitivity[];
+}
+
+// Score every row for one bucket setup; like calculateBucketModeScore, only falls back to the default weights
+// when nothing is assigned at all (with only exclusions assigned every MSA scores 0)
+const scoreRows = (
+  rows: Record<string, any>[],
+  assignments: BucketAssignment[],
+  assignmentWeights: number[],
+  scoring: ContinuousScoring | null
+): number[] =>
+  rows.map(row =>
+    assignments.length === 0
+      ? calculateAttractivenessScore(row, DEFAULT_WEIGHTS, scoring)
+      : calculateAssignmentWeightedScore(row, assignments, assignmentWeights, scoring)
+  );
+
+// Rank of one row among the rows its exclusions don't filter out (ties share the better rank)
+const rankOf = (rows: Record<string, any>[], scores: number[], targetIndex: number, assignments: BucketAssignment[]) => {
+  const exclusions = assignments.filter(a => a.bucket === "exclusions");
+  const included = rows.map(row => !exclusions.some(exclusion => matchesExclusion(row, exclusion)));
+  const rankedCount = included.filter(Boolean).length;
+  if (!included[targetIndex]) return { rank: null, rankedCount };
+  const ahead = scores.filter((score, index) => included[index] && score > scores[targetIndex]).length;
+  return { rank: ahead + 1, rankedCount };
+};
+
+// Move one assignment's weight to a new value, rescaling the other scored assignments to keep the total
+const reweight = (weights: number[], index: number, weight: number): number[] => {
+  const total = weights.reduce((sum, value) => sum + value, 0);
+  const others = total - weights[index];
+  const target = Math.min(total, Math.max(0, weight));
+  return weights.map((value, i) => {
+    if (i === index) return target;
+    return others === 0 ? value : value * ((total - target) / others);
+  });
+};
+
+/**
+ * Sensitivity of one MSA to every assignment in the current buckets
+ * step is in percentage points of total weight
+ */
+export const calculateSensitivity = (
+  rows: Record<string, any>[],
+  msa: string,
+  assignments: BucketAssignment[],
+  buckets: ScoringBucket[],
+  scoringOptions: ScoringOptions = DEFAULT_SCORING_OPTIONS,
+  step: number = 5,
+  weighting: BucketWeightingOptions = DEFAULT_BUCKET_WEIGHTING
+): SensitivityResult | null => {
+  const targetIndex = rows.findIndex(row => row.MSA === msa);
+  if (targetIndex === -1) return null;
+
+  const scoring = createContinuousScoring(rows, scoringOptions);
+
+  const evaluate = (scenarioAssignments: BucketAssignment[], scenarioWeights: number[]) => {
+    const scores = scoreRows(rows, scenarioAssignments, scenarioWeights, scoring);
+    return { score: scores[targetIndex], ...rankOf(rows, scores, targetIndex, scenarioAssignments) };
+  };
+
+  const baseWeights = getBucketParameterWeights(assignments, buckets, weighting);
+  const baseline = evaluate(assignments, baseWeights);
+
+  const toScenario = (
+    scenario: Pick<SensitivityScenario, "kind" | "label" | "weight" | "bucket">,
+    result: { score: number; rank: number | null }
+  ): SensitivityScenario => ({
+    ...scenario,
+    score: result.score,
+    rank: result.rank,
+    scoreDelta: Math.round((result.score - baseline.score) * 100) / 100,
+    rankChange: result.rank !== null && baseline.rank !== null ? baseline.rank - result.rank : null,
+  });
+
+  const parameters = assignments.map((assignment, index): ParameterSensitivity => {
+    const scenarios: SensitivityScenario[] = [];
+
+    // Weight down and up by the step (only parameters that are scored have a weight)
+    if (assignment.bucket !== "exclusions") {
+      [-step, step].forEach(change => {
+        const weights = reweight(baseWeights, index, baseWeights[index] + change);
+        scenarios.push(toScenario(
+          { kind: "weight", label: `${change > 0 ? "+" : ""}${change} pts`, weight: weights[index] },
+          evaluate(assignments, weights)
+        ));
+      });
+    }
+
+    // Move to each other bucket, at the end of that bucket
+    [...buckets.map(bucket => bucket.id), EXCLUSIONS_BUCKET]
+      .filter(bucket => bucket !== assignment.bucket)
+      .forEach(bucket => {
+        const position = assignments.filter(a => a.bucket === bucket).length;
+        const moved = assignments.map((a, i) => (i === index ? { ...a, bucket, position } : a));
+        scenarios.push(toScenario(
+          { kind: "bucket", label: `Move to ${getBucketName(buckets, bucket)}`, bucket },
+          evaluate(moved, getBucketParameterWeights(moved, buckets, weighting))
+        ));
+      });
+
+    return {
+      parameterId: assignment.parameterId,
+      selectedValue: assignment.selectedValue,
+      bucket: assignment.bucket,
+      weight: baseWeights[index],
+      scenarios,
+    };
+  });
+
+  return { msa, score: baseline.score, rank: baseline.rank, rankedCount: baseline.rankedCount, parameters };
+};
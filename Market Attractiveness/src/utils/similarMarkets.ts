@@ -0,0 +1,187 @@
+// Similar Markets - The MSAs closest to a chosen MSA over a chosen set of metrics
+//
+// A dimension is a parameter's raw metric or its label (its 1-3 label score). Each dimension is turned into
+// z-scores across all MSAs so metrics on different scales count the same, and the distance between two MSAs
+// is the root mean square of their z-score gaps over the dimensions both have values for. A dimension drives
+// the similarity when the closest markets sit much nearer the chosen MSA on it than MSAs do in general.
+
+import { SCORED_PARAMETERS, formatRawValue, getLabelScore, getParameterValue } from "./parameterRegistry";
+import { getRegionForMSASync } from "./stateToRegionMapping";
+
+export interface SimilarityDimension {
+  id: string;
+  parameterId: string;
+  kind: "raw" | "label";
+  label: string;
+  // Whether a higher value goes with the top of the parameter's label scale
+  higherIsTopLabel: boolean;
+  getValue: (row: Record<string, any>) => number | null;
+  // A value (or an average) as shown in tables
+  format: (value: number) => string;
+  // The MSA's value as shown in the table
+  display: (row: Record<string, any>) => string;
+}
+
+export interface SimilarMarket {
+  msa: string;
+  region: string;
+  distance: number;
+  // Absolute z-score gap per dimension (in dimension order), null where either MSA has no value
+  gaps: (number | null)[];
+  // Dimensions with the smallest and largest gaps
+  closestOn: string[];
+  furthestOn: string[];
+}
+
+export interface SimilarityDriver {
+  dimensionId: string;
+  label: string;
+  // Mean gap to the nearest markets and to every other MSA
+  neighbourGap: number;
+  typicalGap: number;
+  // 1 - neighbourGap / typicalGap: near 1 when the nearest markets match closely on it, 0 or less when they don't
+  strength: number;
+}
+
+export interface SimilarMarketsResult {
+  msa: string;
+  region: string;
+  dimensions: SimilarityDimension[];
+  // Nearest first
+  markets: SimilarMarket[];
+  // Strongest first
+  drivers: SimilarityDriver[];
+}
+
+export interface SimilarMarketsOptions {
+  dimensionIds: string[];
+  sameRegion?: boolean;
+  // Nearest markets the drivers are worked out from
+  driverNeighbours?: number;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return isFinite(number) ? number : null;
+};
+
+export const SIMILARITY_DIMENSIONS: SimilarityDimension[] = [
+  ...SCORED_PARAMETERS.filter(parameter => parameter.rawMetric).map((parameter): SimilarityDimension => {
+    const column = parameter.rawMetric!.column;
+    return {
+      id: `raw:${parameter.id}`,
+      parameterId: parameter.id,
+      kind: "raw",
+      label: parameter.label,
+      higherIsTopLabel: parameter.rawMetric!.higherIsTopLabel,
+      getValue: row => toNumber(row[column]),
+      format: value => formatRawValue(parameter.id, value),
+      display: row => {
+        const value = toNumber(row[column]);
+        return value === null ? "-" : formatRawValue(parameter.id, value);
+      },
+    };
+  }),
+  ...SCORED_PARAMETERS.map((parameter): SimilarityDimension => ({
+    id: `label:${parameter.id}`,
+    parameterId: parameter.id,
+    kind: "label",
+    label: `${parameter.label} label`,
+    // Label scores run toward the better end
+    higherIsTopLabel: parameter.better === "top",
+    getValue: row => getLabelScore(parameter.id, getParameterValue(row, parameter.id)) || null,
+    format: value => `${value.toFixed(1)} / 3`,
+    display: row => getParameterValue(row, parameter.id) || "-",
+  })),
+];
+
+// Every raw metric, with labels for the parameters that have none
+export const DEFAULT_SIMILARITY_DIMENSIONS = SCORED_PARAMETERS.map(parameter =>
+  parameter.rawMetric ? `raw:${parameter.id}` : `label:${parameter.id}`
+);
+
+const DEFAULT_DRIVER_NEIGHBOURS = 5;
+
+/**
+ * z-scores of every row on each dimension (dimension-major), null where a row has no value
+ * A dimension with no spread can't tell markets apart, so all its values are null
+ */
+export const standardizeDimensions = (rows: Record<string, any>[], dimensions: SimilarityDimension[]): (number | null)[][] =>
+  dimensions.map(dimension => {
+    const values = rows.map(row => dimension.getValue(row));
+    const known = values.filter((value): value is number => value !== null);
+    const mean = known.reduce((sum, value) => sum + value, 0) / Math.max(1, known.length);
+    const sd = Math.sqrt(known.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, known.length));
+    return values.map(value => (value === null || sd === 0 ? null : (value - mean) / sd));
+  });
+
+const getRegion = (row: Record<string, any>) => getRegionForMSASync(row.MSA, row.LAT, row.LON);
+
+/**
+ * Rank every other MSA by distance to msa over the chosen dimensions (ids from SIMILARITY_DIMENSIONS)
+ * z-scores use all rows, so the scale doesn't change with the region constraint; returns null when the MSA isn't in rows
+ */
+export const findSimilarMarkets = (
+  rows: Record<string, any>[],
+  msa: string,
+  options: SimilarMarketsOptions
+): SimilarMarketsResult | null => {
+  const target = rows.find(row => row.MSA === msa);
+  if (!target) return null;
+
+  const dimensions = options.dimensionIds
+    .map(id => SIMILARITY_DIMENSIONS.find(dimension => dimension.id === id))
+    .filter((dimension): dimension is SimilarityDimension => dimension !== undefined);
+
+  const zScores = standardizeDimensions(rows, dimensions);
+
+  const targetIndex = rows.indexOf(target);
+  const region = getRegion(target);
+
+  const markets: SimilarMarket[] = [];
+  rows.forEach((row, index) => {
+    if (index === targetIndex || row.MSA === msa) return;
+    const rowRegion = getRegion(row);
+    if (options.sameRegion && rowRegion !== region) return;
+
+    const gaps = zScores.map(z => {
+      const a = z[targetIndex];
+      const b = z[index];
+      return a === null || b === null ? null : Math.abs(a - b);
+    });
+    const known = gaps
+      .map((gap, i) => ({ gap, id: dimensions[i].id }))
+      .filter((item): item is { gap: number; id: string } => item.gap !== null);
+    // Nothing to compare on
+    if (known.length === 0) return;
+
+    const byGap = [...known].sort((a, b) => a.gap - b.gap);
+    markets.push({
+      msa: row.MSA,
+      region: rowRegion,
+      distance: Math.sqrt(known.reduce((sum, item) => sum + item.gap ** 2, 0) / known.length),
+      gaps,
+      closestOn: byGap.slice(0, 2).map(item => item.id),
+      furthestOn: byGap.length > 2 ? [byGap[byGap.length - 1].id] : [],
+    });
+  });
+  markets.sort((a, b) => a.distance - b.distance);
+
+  const meanGap = (list: SimilarMarket[], i: number) => {
+    const gaps = list.map(market => market.gaps[i]).filter((gap): gap is number => gap !== null);
+    return gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : null;
+  };
+  const nearest = markets.slice(0, options.driverNeighbours ?? DEFAULT_DRIVER_NEIGHBOURS);
+  const drivers = dimensions
+    .map((dimension, i): SimilarityDriver | null => {
+      const neighbourGap = meanGap(nearest, i);
+      const typicalGap = meanGap(markets, i);
+      if (neighbourGap === null || typicalGap === null || typicalGap === 0) return null;
+      return { dimensionId: dimension.id, label: dimension.label, neighbourGap, typicalGap, strength: 1 - neighbourGap / typicalGap };
+    })
+    .filter((driver): driver is SimilarityDriver => driver !== null)
+    .sort((a, b) => b.strength - a.strength);
+
+  return { msa, region, dimensions, markets, drivers };
+};
@@ -3,6 +3,8 @@
 // Based on Bureau of Economic Analysis (BEA) regions with some modifications
 // https://www.bea.gov/regional/docs/regions.cfm
 
+import { getMSAKey, resolveMSA } from "./msaRegistry";
+
 export const STATE_TO_REGION: Record<string, string> = {
   // New England
   'CT': 'New England',
@@ -73,7 +75,9 @@ export const STATE_TO_REGION: Record<string, string> = {
 };
 
 /**
- * Extract state codes from MSA name
+ * Extract state codes from MSA name, principal state first
+ * Known markets take their states from the MSA registry, so any spelling works;
+ * other names fall back to the leading state codes
  * Examples:
  * - "AL-Birmingham" -> ["AL"]
  * - "NC-SC-Charlotte-Concord-Gastonia" -> ["NC", "SC"]
@@ -81,6 +85,11 @@ export const STATE_TO_REGION: Record<string, string> = {
  */
 export function extractStateCodesFromMSA(msaName: string): string[] {
   if (!msaName) return [];
+
+  const entry = resolveMSA(msaName);
+  if (entry) {
+    return entry.states;
+  }
   
   // Look for state codes at the beginning of the MSA name
   // Pattern: starts with 2-letter state codes separated by hyphens
@@ -137,11 +146,61 @@ export function isCrossRegionalMSA(msaName: string): boolean {
   return getAllRegionsFromMSA(msaName).length > 1;
 }
 
+// Explicit MSA -> region assignments loaded from an uploaded region mapping file
+// Keyed by MSA registry key (CBSA code when the name resolves)
+let regionOverrides = new Map<string, string>();
+
+// Bumped whenever the mapping changes so cached region lookups know to rebuild
+let regionMappingVersion = 0;
+
+/**
+ * Replace the explicit MSA -> region mapping (e.g. from an uploaded MSA,Region file)
+ * Entries with an empty MSA or region are ignored. When a market is listed more than once
+ * (cross-regional MSAs), the first region wins
+ */
+export function setRegionMapping(entries: Array<{ MSA: string; Region: string }>): void {
+  regionOverrides = new Map();
+  for (const entry of entries) {
+    const msa = String(entry.MSA ?? '').trim();
+    const region = String(entry.Region ?? '').trim();
+    if (!msa || !region) continue;
+
+    const key = getMSAKey(msa);
+    if (!regionOverrides.has(key)) {
+      regionOverrides.set(key, region);
+    }
+  }
+  regionMappingVersion++;
+}
+
+/**
+ * Remove any uploaded region mapping and go back to state/coordinate based regions
+ */
+export function clearRegionMapping(): void {
+  regionOverrides = new Map();
+  regionMappingVersion++;
+}
+
+/**
+ * Changes every time a region mapping is set or cleared
+ */
+export function getRegionMappingVersion(): number {
+  return regionMappingVersion;
+}
+
+/**
+ * Number of MSAs with an explicit region assignment
+ */
+export function getRegionMappingSize(): number {
+  return regionOverrides.size;
+}
+
 /**
  * Gets region for an MSA by name synchronously
  * Priority order:
- * 1. State-based mapping (most reliable for MSAs with state codes)
- * 2. Coordinate-based mapping (fallback when MSA name is missing or has no state codes)
+ * 1. Uploaded region mapping (when one has been loaded)
+ * 2. State-based mapping (most reliable for MSAs with state codes)
+ * 3. Coordinate-based mapping (fallback when MSA name is missing or has no state codes)
  */
 export function getRegionForMSASync(
   msaName: string | undefined,
@@ -151,6 +210,11 @@ export function getRegionForMSASync(
   if (!msaName) {
     return getRegionFromCoordinates(lat, lon);
   }
+
+  const mappedRegion = regionOverrides.get(getMSAKey(msaName));
+  if (mappedRegion) {
+    return mappedRegion;
+  }
   
   // Try state-based mapping first (most reliable)
   const stateBasedRegion = getRegionFromStateCodes(msaName);
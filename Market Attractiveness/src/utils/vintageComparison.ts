@@ -0,0 +1,177 @@
+// Vintage Comparison - Period-over-period changes between two dataset vintages
+
+import { MSAData, OpportunityData } from "../types";
+import { getMSAKey } from "./msaRegistry";
+import { PARAMETERS } from "./parameterRegistry";
+
+// Parameter label columns compared between vintages
+export const SCORE_PARAMETER_COLUMNS: string[] = PARAMETERS.map(parameter => parameter.column);
+
+export type ScoreParameterColumn = string;
+
+// An MSA counts as a mover when its category changes or its score moves at least this much (scores run 1-3)
+export const MOVER_SCORE_THRESHOLD = 0.25;
+
+export type ChangeStatus = "new" | "removed" | "changed" | "unchanged";
+
+export interface ParameterChange {
+  column: ScoreParameterColumn;
+  previous: string | null;
+  current: string | null;
+}
+
+export interface MSAChange {
+  MSA: string;
+  status: ChangeStatus;
+  previousScore: number | null;
+  currentScore: number | null;
+  scoreChange: number;
+  // National rank (1 = most attractive); positive rankChange means the MSA moved up
+  previousRank: number | null;
+  currentRank: number | null;
+  rankChange: number;
+  previousCategory: string | null;
+  currentCategory: string | null;
+  categoryChanged: boolean;
+  previousMarketSize: number | null;
+  currentMarketSize: number | null;
+  marketSizeChange: number;
+  marketSizeChangePct: number | null;
+  parameterChanges: ParameterChange[];
+  isMover: boolean;
+}
+
+export interface ProviderChange {
+  MSA: string;
+  Provider: string;
+  Product: string;
+  status: ChangeStatus;
+  previousShare: number | null;
+  currentShare: number | null;
+  shareChange: number;
+  previousDefend: number | null;
+  currentDefend: number | null;
+  defendChange: number;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return isNaN(parsed) ? null : parsed;
+};
+
+const rankByScore = (rows: MSAData[]): Map<string, number> => {
+  const ranks = new Map<string, number>();
+  [...rows]
+    .sort((a, b) => (b.Attractiveness_Score || 0) - (a.Attractiveness_Score || 0))
+    .forEach((row, index) => ranks.set(getMSAKey(row.MSA), index + 1));
+  return ranks;
+};
+
+// Compare two vintages of map data (both scored the same way). Rows are matched on CBSA code so a
+// market renamed between vintages still lines up; the result is keyed by the current MSA name
+export const compareMSAData = (current: MSAData[], previous: MSAData[]): Map<string, MSAChange> => {
+  const previousByMSA = new Map(previous.map(row => [getMSAKey(row.MSA), row]));
+  const currentByMSA = new Map(current.map(row => [getMSAKey(row.MSA), row]));
+  const previousRanks = rankByScore(previous);
+  const currentRanks = rankByScore(current);
+  const allMSAs = new Set([...currentByMSA.keys(), ...previousByMSA.keys()]);
+
+  const changes = new Map<string, MSAChange>();
+
+  allMSAs.forEach(msaKey => {
+    const now = currentByMSA.get(msaKey);
+    const before = previousByMSA.get(msaKey);
+    const msa = (now || before)!.MSA;
+
+    const currentScore = now ? toNumber(now.Attractiveness_Score) : null;
+    const previousScore = before ? toNumber(before.Attractiveness_Score) : null;
+    const currentMarketSize = now ? toNumber(now["Market Size"]) : null;
+    const previousMarketSize = before ? toNumber(before["Market Size"]) : null;
+    const currentRank = currentRanks.get(msaKey) ?? null;
+    const previousRank = previousRanks.get(msaKey) ?? null;
+    const currentCategory = now?.Attractiveness_Category ?? null;
+    const previousCategory = before?.Attractiveness_Category ?? null;
+
+    const parameterChanges: ParameterChange[] = [];
+    if (now && before) {
+      SCORE_PARAMETER_COLUMNS.forEach(column => {
+        const previousValue = (before as any)[column] ?? null;
+        const currentValue = (now as any)[column] ?? null;
+        if (previousValue !== currentValue) {
+          parameterChanges.push({ column, previous: previousValue, current: currentValue });
+        }
+      });
+    }
+
+    const scoreChange = currentScore !== null && previousScore !== null ? currentScore - previousScore : 0;
+    const categoryChanged = !!now && !!before && currentCategory !== previousCategory;
+    const marketSizeChange = currentMarketSize !== null && previousMarketSize !== null ? currentMarketSize - previousMarketSize : 0;
+
+    let status: ChangeStatus = "unchanged";
+    if (!before) status = "new";
+    else if (!now) status = "removed";
+    else if (categoryChanged || scoreChange !== 0 || marketSizeChange !== 0 || parameterChanges.length > 0) status = "changed";
+
+    changes.set(msa, {
+      MSA: msa,
+      status,
+      previousScore,
+      currentScore,
+      scoreChange,
+      previousRank,
+      currentRank,
+      rankChange: currentRank !== null && previousRank !== null ? previousRank - currentRank : 0,
+      previousCategory,
+      currentCategory,
+      categoryChanged,
+      previousMarketSize,
+      currentMarketSize,
+      marketSizeChange,
+      marketSizeChangePct: previousMarketSize ? (marketSizeChange / previousMarketSize) * 100 : null,
+      parameterChanges,
+      isMover: status === "changed" && (categoryChanged || Math.abs(scoreChange) >= MOVER_SCORE_THRESHOLD),
+    });
+  });
+
+  return changes;
+};
+
+// Compare provider market share and Defend $ between vintages, matched on CBSA|Product|Provider
+export const compareProviderShares = (current: OpportunityData[], previous: OpportunityData[]): ProviderChange[] => {
+  const keyOf = (row: OpportunityData) => `${getMSAKey(row.MSA)}|${row.Product}|${row.Provider}`;
+  const previousByKey = new Map(previous.map(row => [keyOf(row), row]));
+  const currentByKey = new Map(current.map(row => [keyOf(row), row]));
+  const allKeys = new Set([...currentByKey.keys(), ...previousByKey.keys()]);
+
+  return Array.from(allKeys).map(key => {
+    const now = currentByKey.get(key);
+    const before = previousByKey.get(key);
+    const row = (now || before)!;
+
+    const currentShare = now ? toNumber(now["Market Share"]) : null;
+    const previousShare = before ? toNumber(before["Market Share"]) : null;
+    const currentDefend = now ? toNumber(now["Defend $"]) : null;
+    const previousDefend = before ? toNumber(before["Defend $"]) : null;
+    const shareChange = (currentShare ?? 0) - (previousShare ?? 0);
+    const defendChange = (currentDefend ?? 0) - (previousDefend ?? 0);
+
+    let status: ChangeStatus = "unchanged";
+    if (!before) status = "new";
+    else if (!now) status = "removed";
+    else if (shareChange !== 0 || defendChange !== 0) status = "changed";
+
+    return {
+      MSA: row.MSA,
+      Provider: row.Provider,
+      Product: row.Product,
+      status,
+      previousShare,
+      currentShare,
+      shareChange,
+      previousDefend,
+      currentDefend,
+      defendChange,
+    };
+  });
+};
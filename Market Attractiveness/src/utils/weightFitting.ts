@@ -0,0 +1,300 @@
+// Weight Fitting - Search for bucket setups that rank a chosen set of MSAs at the top
+//
+// Each parameter is either left out or placed in one of the current buckets targeting one of its values, and
+// the bucket weights move in 5-point steps, each keeping at least 10%. A seeded local search (random restarts,
+// one change at a time) looks for setups where the target MSAs outscore every other MSA, in the given order
+// when the order matters. Match scores come from the same engine as the dashboard and are worked out once, so
+// each setup is cheap to score.
+// Parameters sit in a bucket in registry order, and the bucket's weight is shared by the chosen weighting scheme
+// (manual percentages can't follow parameters between setups, so they are searched with equal shares).
+// The current exclusions are kept as they are.
+
+import { BucketAssignment, getParameterMatchScore } from "./scoreCalculation";
+import { DEFAULT_SCORING_OPTIONS, ScoringOptions, createContinuousScoring } from "./continuousScoring";
+import { SCORED_PARAMETERS } from "./parameterRegistry";
+import { matchesExclusion } from "./applyGlobalFilters";
+import { createRandom } from "./rankStability";
+import { BucketWeightingOptions, DEFAULT_BUCKET_WEIGHTING, getRankShares } from "./bucketWeighting";
+import { ScoringBucket } from "./scoringBuckets";
+
+export interface WeightFitConfig {
+  // MSAs to rank highest, in the desired order when ordered
+  targets: string[];
+  ordered: boolean;
+  // Current bucket assignments; their exclusions are kept, the rest is a starting point
+  bucketAssignments: BucketAssignment[];
+  // Current buckets; their names and order are kept and their weights are searched
+  buckets: ScoringBucket[];
+  scoringOptions?: ScoringOptions;
+  bucketWeighting?: BucketWeightingOptions;
+  restarts?: number;
+  steps?: number;
+  // Number of candidates to return
+  candidates?: number;
+  seed?: number;
+}
+
+export interface WeightFitCandidate {
+  bucketAssignments: BucketAssignment[];
+  buckets: ScoringBucket[];
+  // National rank of each target with this setup, in target order (ties share the better rank)
+  targetRanks: { msa: string; rank: number }[];
+  // Targets ranked within the top N, N being the number of targets
+  inTopCount: number;
+  // Whether the targets rank in the given order (always true when the order doesn't matter)
+  orderKept: boolean;
+  // 0-1; 1 when every target outscores every other MSA (and the order is kept, if asked)
+  fit: number;
+  // Lowest target score minus the best other MSA's score; positive when the targets are clear of the field
+  margin: number;
+}
+
+export interface WeightFitResult {
+  // MSAs ranked (after the current exclusions)
+  rankedCount: number;
+  // Setups scored during the search
+  evaluated: number;
+  // Best first
+  candidates: WeightFitCandidate[];
+}
+
+export const DEFAULT_WEIGHT_FIT_SETTINGS = {
+  restarts: 40,
+  steps: 400,
+  candidates: 5,
+};
+
+const SPLIT_STEP = 5;
+const MIN_BUCKET_WEIGHT = 10;
+
+// Bucket per parameter: 0 = left out, b = the config's bucket b - 1; weights in bucket order
+interface FitState {
+  buckets: number[];
+  values: number[];
+  weights: number[];
+}
+
+interface Evaluation {
+  loss: number;
+  margin: number;
+  scores: Float64Array;
+}
+
+// Fewer misplaced targets first, then the wider margin
+const compareEvaluations = (a: Evaluation, b: Evaluation) => a.loss - b.loss || b.margin - a.margin;
+
+const stateKey = (state: FitState) =>
+  `${state.buckets.map((bucket, p) => (bucket === 0 ? "-" : `${bucket}.${state.values[p]}`)).join(",")}|${state.weights.join("/")}`;
+
+// Bucket weights on the search grid: multiples of the step, each at least the minimum, totalling 100
+const snapWeights = (weights: number[]): number[] => {
+  const snapped = weights.map(weight => Math.max(MIN_BUCKET_WEIGHT, Math.round(weight / SPLIT_STEP) * SPLIT_STEP));
+  let total = snapped.reduce((sum, weight) => sum + weight, 0);
+  // The largest bucket takes up the difference
+  while (total !== 100) {
+    const largest = snapped.indexOf(Math.max(...snapped));
+    const change = total > 100 ? -SPLIT_STEP : SPLIT_STEP;
+    if (snapped[largest] + change < MIN_BUCKET_WEIGHT) break;
+    snapped[largest] += change;
+    total += change;
+  }
+  return snapped;
+};
+
+/**
+ * Search for bucket setups that put the target MSAs at the top of the national ranking
+ * Throws when a target isn't in the data or is filtered out by the current exclusions
+ */
+export const fitWeights = (rows: Record<string, any>[], config: WeightFitConfig): WeightFitResult => {
+  const {
+    targets,
+    ordered,
+    bucketAssignments,
+    buckets,
+    scoringOptions = DEFAULT_SCORING_OPTIONS,
+    bucketWeighting = DEFAULT_BUCKET_WEIGHTING,
+    restarts = DEFAULT_WEIGHT_FIT_SETTINGS.restarts,
+    steps = DEFAULT_WEIGHT_FIT_SETTINGS.steps,
+    candidates = DEFAULT_WEIGHT_FIT_SETTINGS.candidates,
+    seed = 1,
+  } = config;
+
+  if (targets.length === 0) throw new Error("Choose at least one target MSA");
+  if (buckets.length === 0) throw new Error("Add at least one bucket");
+
+  const exclusions = bucketAssignments.filter(a => a.bucket === "exclusions");
+  const included = rows
+    .map((row, index) => (exclusions.some(exclusion => matchesExclusion(row, exclusion)) ? -1 : index))
+    .filter(index => index !== -1);
+
+  const targetIndexes = targets.map(msa => {
+    const index = rows.findIndex(row => row.MSA === msa);
+    if (index === -1) throw new Error(`${msa} isn't in the scored data`);
+    if (!included.includes(index)) throw new Error(`${msa} is filtered out by the current exclusions`);
+    return index;
+  });
+  const targetSet = new Set(targetIndexes);
+  const others = included.filter(index => !targetSet.has(index));
+
+  // Match score of every row for every parameter and target value
+  const scoring = createContinuousScoring(rows, scoringOptions);
+  const parameters = SCORED_PARAMETERS;
+  const matches = parameters.map(parameter =>
+    parameter.values.map(value =>
+      Float64Array.from(rows, row => getParameterMatchScore(row, { parameterId: parameter.id, selectedValue: value }, scoring))
+    )
+  );
+
+  const rankScheme = bucketWeighting.scheme === "manual" ? "equal" : bucketWeighting.scheme;
+
+  const maxLoss = targets.length * others.length + (ordered ? (targets.length * (targets.length - 1)) / 2 : 0);
+  let evaluated = 0;
+
+  const evaluate = (state: FitState): Evaluation => {
+    evaluated++;
+    const counts = new Array(buckets.length + 1).fill(0);
+    state.buckets.forEach(bucket => counts[bucket]++);
+    const scores = new Float64Array(rows.length);
+    if (counts[0] === parameters.length) return { loss: Infinity, margin: -Infinity, scores };
+
+    // Each parameter's weight: its bucket's weight times the share for its position in the bucket
+    const bucketWeight = [0, ...state.weights.map(weight => weight / 100)];
+    const shares = counts.map((count, bucket) => (bucket === 0 ? [] : getRankShares(count, rankScheme)));
+    const positions = counts.map(() => 0);
+    const parameterWeights = state.buckets.map(bucket => (bucket === 0 ? 0 : bucketWeight[bucket] * shares[bucket][positions[bucket]++]));
+    included.forEach(rowIndex => {
+      let total = 0;
+      state.buckets.forEach((bucket, p) => {
+        if (bucket !== 0) total += parameterWeights[p] * matches[p][state.values[p]][rowIndex];
+      });
+      // Rounded as the dashboard rounds, so ties here are ties there
+      scores[rowIndex] = Math.round(total * 100) / 100;
+    });
+
+    let loss = 0;
+    let lowestTarget = Infinity;
+    targetIndexes.forEach(t => {
+      lowestTarget = Math.min(lowestTarget, scores[t]);
+      // A tie with another MSA counts against the target
+      others.forEach(o => {
+        if (scores[o] >= scores[t]) loss++;
+      });
+    });
+    if (ordered) {
+      targetIndexes.forEach((t, i) => {
+        targetIndexes.slice(i + 1).forEach(later => {
+          if (scores[t] <= scores[later]) loss++;
+        });
+      });
+    }
+    const bestOther = others.reduce((best, o) => Math.max(best, scores[o]), -Infinity);
+    return { loss, margin: others.length > 0 ? lowestTarget - bestOther : 0, scores };
+  };
+
+  const random = createRandom(seed);
+  const randomInt = (max: number) => Math.floor(random() * max);
+
+  // The current bucket assignments (one value per parameter) are the first starting point
+  const currentState = (): FitState => {
+    const state: FitState = {
+      buckets: parameters.map(() => 0),
+      values: parameters.map(() => 0),
+      weights: snapWeights(buckets.map(bucket => bucket.weight)),
+    };
+    bucketAssignments.forEach(assignment => {
+      const p = parameters.findIndex(parameter => parameter.id === assignment.parameterId);
+      const v = p === -1 ? -1 : parameters[p].values.indexOf(assignment.selectedValue);
+      const b = buckets.findIndex(bucket => bucket.id === assignment.bucket);
+      if (v === -1 || b === -1 || state.buckets[p] !== 0) return;
+      state.buckets[p] = b + 1;
+      state.values[p] = v;
+    });
+    return state;
+  };
+
+  // Weights spread evenly at random over the grid (a flat Dirichlet draw, snapped)
+  const randomWeights = () => {
+    const draws = buckets.map(() => -Math.log(1 - random()));
+    const total = draws.reduce((sum, draw) => sum + draw, 0);
+    const spare = 100 - buckets.length * MIN_BUCKET_WEIGHT;
+    return snapWeights(draws.map(draw => MIN_BUCKET_WEIGHT + (draw / total) * spare));
+  };
+
+  const randomState = (): FitState => ({
+    buckets: parameters.map(() => (random() < 0.5 ? 0 : 1 + randomInt(buckets.length))),
+    values: parameters.map(parameter => randomInt(parameter.values.length)),
+    weights: randomWeights(),
+  });
+
+  // One change: a parameter's bucket, a parameter's target value or some weight moved between two buckets
+  const neighbor = (state: FitState): FitState => {
+    const next: FitState = { buckets: [...state.buckets], values: [...state.values], weights: [...state.weights] };
+    const move = random();
+    const p = randomInt(parameters.length);
+    if (move < 0.5) {
+      next.buckets[p] = (state.buckets[p] + 1 + randomInt(buckets.length)) % (buckets.length + 1);
+    } else if (move < 0.8 && parameters[p].values.length > 1) {
+      next.values[p] = (state.values[p] + 1 + randomInt(parameters[p].values.length - 1)) % parameters[p].values.length;
+    } else if (buckets.length > 1) {
+      const from = randomInt(buckets.length);
+      const to = (from + 1 + randomInt(buckets.length - 1)) % buckets.length;
+      const change = Math.min(SPLIT_STEP * (1 + randomInt(2)), state.weights[from] - MIN_BUCKET_WEIGHT);
+      next.weights[from] -= change;
+      next.weights[to] += change;
+    }
+    return next;
+  };
+
+  // Local optimum of every restart, keyed so the same setup isn't listed twice
+  const optima = new Map<string, { state: FitState; evaluation: Evaluation }>();
+  for (let restart = 0; restart < restarts; restart++) {
+    let state = restart === 0 ? currentState() : randomState();
+    let evaluation = evaluate(state);
+    for (let step = 0; step < steps; step++) {
+      const candidate = neighbor(state);
+      const candidateEvaluation = evaluate(candidate);
+      // Equal setups are accepted too, to move along plateaus
+      if (compareEvaluations(candidateEvaluation, evaluation) <= 0) {
+        state = candidate;
+        evaluation = candidateEvaluation;
+      }
+    }
+    if (evaluation.loss !== Infinity) optima.set(stateKey(state), { state, evaluation });
+  }
+
+  const toCandidate = ({ state, evaluation }: { state: FitState; evaluation: Evaluation }): WeightFitCandidate => {
+    const fitted = buckets.flatMap((bucket, b) =>
+      parameters
+        .map((parameter, p) => ({ parameter, p }))
+        .filter(({ p }) => state.buckets[p] === b + 1)
+        .map(({ parameter, p }, position): BucketAssignment => ({
+          parameterId: parameter.id,
+          selectedValue: parameter.values[state.values[p]],
+          bucket: bucket.id,
+          position,
+        }))
+    );
+    const targetRanks = targetIndexes.map(t => ({
+      msa: rows[t].MSA as string,
+      rank: 1 + included.filter(index => evaluation.scores[index] > evaluation.scores[t]).length,
+    }));
+    return {
+      bucketAssignments: [...fitted, ...exclusions],
+      buckets: buckets.map((bucket, b) => ({ ...bucket, weight: state.weights[b] })),
+      targetRanks,
+      inTopCount: targetRanks.filter(target => target.rank <= targets.length).length,
+      orderKept: !ordered || targetIndexes.every((t, i) => i === 0 || evaluation.scores[targetIndexes[i - 1]] > evaluation.scores[t]),
+      fit: maxLoss === 0 ? 1 : 1 - evaluation.loss / maxLoss,
+      margin: Math.round(evaluation.margin * 100) / 100,
+    };
+  };
+
+  return {
+    rankedCount: included.length,
+    evaluated,
+    candidates: Array.from(optima.values())
+      .sort((a, b) => compareEvaluations(a.evaluation, b.evaluation))
+      .slice(0, candidates)
+      .map(toCandidate),
+  };
+};
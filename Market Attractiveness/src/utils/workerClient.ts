@@ -0,0 +1,97 @@
+// Worker Client - Sends requests to a Web Worker and matches up its replies, falling back to the main thread
+
+// What a worker posts back for a request: progress updates, then a result or an error
+export type WorkerResponse<Payload, Progress> =
+  | { id: number; type: "progress"; progress: Progress }
+  | ({ id: number; type: "result" } & Payload)
+  | { id: number; type: "error"; message: string };
+
+interface WorkerClientOptions<Request, Payload, Result, Progress> {
+  // For log messages, e.g. "CSV worker"
+  name: string;
+  // Called inline so the bundler can find the worker module
+  createWorker: () => Worker;
+  toResult: (payload: Payload) => Result;
+  // Used when workers aren't supported, the worker can't start, or it fails with requests in flight
+  runOnMainThread: (request: Request, onProgress?: (progress: Progress) => void) => Result | Promise<Result>;
+}
+
+interface PendingRequest<Request, Result, Progress> {
+  request: Request;
+  resolve: (result: Result) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: Progress) => void;
+}
+
+/**
+ * A function that runs a request in a lazily started, shared worker
+ * If the worker fails, the requests still waiting on it are re-run on the main thread, as are later ones
+ */
+export const createWorkerClient = <Request extends object, Payload, Result, Progress>(
+  options: WorkerClientOptions<Request, Payload, Result, Progress>
+) => {
+  let worker: Worker | null = null;
+  let workerUnavailable = false;
+  let nextRequestId = 1;
+  const pendingRequests = new Map<number, PendingRequest<Request, Result, Progress>>();
+
+  const runOnMainThread = (request: Request, onProgress?: (progress: Progress) => void): Promise<Result> =>
+    Promise.resolve().then(() => options.runOnMainThread(request, onProgress));
+
+  const getWorker = (): Worker | null => {
+    if (worker || workerUnavailable) return worker;
+
+    if (typeof Worker === "undefined") {
+      workerUnavailable = true;
+      return null;
+    }
+
+    try {
+      worker = options.createWorker();
+      worker.onmessage = (event: MessageEvent<WorkerResponse<Payload, Progress>>) => {
+        const message = event.data;
+        const pending = pendingRequests.get(message.id);
+        if (!pending) return;
+
+        if (message.type === "progress") {
+          pending.onProgress?.(message.progress);
+          return;
+        }
+
+        pendingRequests.delete(message.id);
+        if (message.type === "error") {
+          pending.reject(new Error(message.message));
+        } else {
+          pending.resolve(options.toResult(message));
+        }
+      };
+      worker.onerror = (event) => {
+        console.error(`${options.name} failed, running on the main thread instead:`, event.message);
+        const stranded = [...pendingRequests.values()];
+        pendingRequests.clear();
+        worker?.terminate();
+        worker = null;
+        workerUnavailable = true;
+        stranded.forEach(pending => {
+          runOnMainThread(pending.request, pending.onProgress).then(pending.resolve, pending.reject);
+        });
+      };
+    } catch (error) {
+      console.warn(`${options.name} unavailable, running on the main thread:`, error);
+      workerUnavailable = true;
+    }
+
+    return worker;
+  };
+
+  return (request: Request, onProgress?: (progress: Progress) => void): Promise<Result> => {
+    const activeWorker = getWorker();
+    if (!activeWorker) return runOnMainThread(request, onProgress);
+
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+      pendingRequests.set(id, { request, resolve, reject, onProgress });
+      activeWorker.postMessage({ id, ...request });
+    });
+  };
+};
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+// Data source settings read by src/utils/dataSource.ts (see the README)
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: string;
+  readonly VITE_DATA_BASE_URL?: string;
+  readonly VITE_DATA_ATTRACTIVENESS?: string;
+  readonly VITE_DATA_OPPORTUNITY?: string;
+  readonly VITE_DATA_ECONOMICS?: string;
+  readonly VITE_DATA_VINTAGES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,32 @@
+// CSV Parser Worker - Fetches and parses CSV files off the main thread (through the dataset cache)
+
+import { parseCSVText } from "../utils/csvParser";
+import { fetchCSVWithCache } from "../utils/datasetCache";
+import type { CSVWorkerRequest, CSVWorkerResponse } from "../utils/csvWorkerClient";
+
+const post = (message: CSVWorkerResponse) => {
+  (self as unknown as Worker).postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<CSVWorkerRequest>) => {
+  const { id, url, text } = event.data;
+
+  try {
+    if (text !== undefined) {
+      const result = parseCSVText(text);
+      post({ id, type: "result", found: true, ...result });
+      return;
+    }
+
+    const result = await fetchCSVWithCache(url!, (progress) => {
+      post({ id, type: "progress", progress });
+    });
+    if (!result) {
+      post({ id, type: "result", found: false, headers: [], records: [], issues: [] });
+      return;
+    }
+    post({ id, type: "result", found: true, ...result });
+  } catch (error) {
+    post({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
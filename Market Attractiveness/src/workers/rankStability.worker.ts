@@ -0,0 +1,21 @@
+// Rank Stability Worker - Runs the Monte Carlo rank-stability simulation off the main thread
+
+import { simulateRankStability } from "../utils/rankStability";
+import type { RankStabilityWorkerRequest, RankStabilityWorkerResponse } from "../utils/rankStabilityClient";
+
+const post = (message: RankStabilityWorkerResponse) => {
+  (self as unknown as Worker).postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<RankStabilityWorkerRequest>) => {
+  const { id, rows, config } = event.data;
+
+  try {
+    const result = simulateRankStability(rows, config, (progress) => {
+      post({ id, type: "progress", progress });
+    });
+    post({ id, type: "result", result });
+  } catch (error) {
+    post({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};